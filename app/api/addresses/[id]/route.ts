@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { addressRepository } from "@/lib/repositories";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requirePermission(request, "customers:read");
+    const { id } = await params;
+    const address = await addressRepository.get(id);
+    return NextResponse.json({ address });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { addressRepository } from "@/lib/repositories";
+import { pageQuerySchema } from "@/lib/schemas";
+
+const addressesPageQuerySchema = pageQuerySchema("addresses");
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "customers:read");
+    const { searchParams } = request.nextUrl;
+    if (searchParams.has("pageSize")) {
+      const { q, ...page } = addressesPageQuerySchema.parse(
+        Object.fromEntries(searchParams)
+      );
+      const { items, pageInfo } = await addressRepository.page(page, { q });
+      return NextResponse.json({ addresses: items, pageInfo });
+    }
+    const addresses = await addressRepository.list({
+      userId: searchParams.get("userId") ?? undefined,
+    });
+    return NextResponse.json({ addresses });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
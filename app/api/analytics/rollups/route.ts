@@ -0,0 +1,16 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { analyticsRepository } from "@/lib/repositories";
+
+// Rebuilds the daily and monthly sales rollups from all orders and
+// customers. Reading every order is expensive, so it needs more than read
+// access to analytics.
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission(request, "analytics:manage");
+    const days = await analyticsRepository.rebuild();
+    return NextResponse.json({ days });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { analyticsRepository } from "@/lib/repositories";
+import { analyticsQuerySchema } from "@/lib/schemas";
+
+// Sales over time for a date range, compared with the range before it.
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "analytics:read");
+    const { from, to, granularity } = analyticsQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const report = await analyticsRepository.report({ from, to }, granularity);
+    return NextResponse.json({ report });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
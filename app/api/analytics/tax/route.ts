@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { TAX_REPORT_COLUMNS, getExportFormat } from "@/lib/export";
+import { analyticsRepository, exportRepository } from "@/lib/repositories";
+import { taxReportQuerySchema } from "@/lib/schemas";
+import { writeSpreadsheet } from "@/lib/spreadsheet";
+
+// Tax collected on sales in a date range, per rate and period. With
+// `format` the rows are downloaded as CSV, XLSX or JSON.
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "analytics:read");
+    const { from, to, granularity, format } = taxReportQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!format) {
+      const report = await analyticsRepository.taxReport(
+        { from, to },
+        granularity
+      );
+      return NextResponse.json({ report });
+    }
+
+    const body = writeSpreadsheet(
+      format,
+      TAX_REPORT_COLUMNS,
+      exportRepository.taxReport({ from, to }, granularity)
+    );
+    return new Response(body, {
+      headers: {
+        "Content-Type": getExportFormat(format).contentType,
+        "Content-Disposition": `attachment; filename="tax-${from}-to-${to}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { auditRepository } from "@/lib/repositories";
+import { auditQuerySchema } from "@/lib/schemas";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "audit:read");
+    const { q, entityType, entityId, ...page } = auditQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const { items, pageInfo } = await auditRepository.page(page, {
+      q,
+      entityType,
+      entityId,
+    });
+    return NextResponse.json({ entries: items, pageInfo });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { categoryRepository } from "@/lib/repositories";
+import { categorySchema } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const { id } = await params;
+    const category = await categoryRepository.get(id);
+    return NextResponse.json({ category });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "catalog:write");
+    const { id } = await params;
+    const input = categorySchema.partial().parse(await request.json());
+    const category = await categoryRepository.update(id, input, actor);
+    return NextResponse.json({ category });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "catalog:delete");
+    const { id } = await params;
+    await categoryRepository.delete(id, actor);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
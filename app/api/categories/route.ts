@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { categoryRepository } from "@/lib/repositories";
+import { categorySchema } from "@/lib/schemas";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const categories = await categoryRepository.list();
+    return NextResponse.json({ categories });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "catalog:write");
+    const input = categorySchema.parse(await request.json());
+    const category = await categoryRepository.create(input, actor);
+    return NextResponse.json({ category }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireUser } from "@/lib/api/server";
+import { customerRepository } from "@/lib/repositories";
+
+// Called by the storefront, as the signed-in shopper, before it starts a
+// checkout. Suspended and deactivated accounts get a 403 with the reason.
+export async function GET(request: NextRequest) {
+  try {
+    const { uid } = await requireUser(request);
+    await customerRepository.assertCanOrder(uid);
+    return NextResponse.json({ allowed: true });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
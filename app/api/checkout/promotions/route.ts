@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireUser } from "@/lib/api/server";
+import { promotionRepository } from "@/lib/repositories";
+import { checkoutPromotionsSchema } from "@/lib/schemas";
+
+// Called by the storefront, as the signed-in shopper, to apply automatic
+// promotions and the codes entered to a cart, priced from the products
+// rather than what the storefront sends. The order it writes should
+// store `discount`, its promotions' ids as `promotionIds`, and each line's
+// allocations from `lineDiscounts` as the line's `discounts`. `rejected`
+// lists codes that didn't apply, with a reason to show the shopper.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireUser(request);
+    const input = checkoutPromotionsSchema.parse(await request.json());
+    const { discount, lineDiscounts, rejected } =
+      await promotionRepository.evaluate(input, actor.uid);
+    return NextResponse.json({ discount, lineDiscounts, rejected });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireUser } from "@/lib/api/server";
+import { productRepository, shippingRepository } from "@/lib/repositories";
+import { checkoutQuoteSchema } from "@/lib/schemas";
+
+// Called by the storefront, as the signed-in shopper, to list the shipping
+// methods for a cart and delivery address, priced from the products rather
+// than what the storefront sends. `quote` is null when the store
+// doesn't ship there. The order it writes should store the chosen option's
+// price as `shippingTotal` and the zone, method and weight as `shipping`.
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser(request);
+    const { products, country, region, postalCode } =
+      checkoutQuoteSchema.parse(await request.json());
+    const priced = await productRepository.priceLines(products);
+    const quote = await shippingRepository.quote(priced, {
+      country,
+      region,
+      postalCode,
+    });
+    return NextResponse.json({ quote });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
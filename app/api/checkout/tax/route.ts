@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireUser } from "@/lib/api/server";
+import { productRepository, taxRepository } from "@/lib/repositories";
+import { checkoutQuoteSchema } from "@/lib/schemas";
+
+// Called by the storefront, as the signed-in shopper, to price tax on a
+// cart for the delivery address, priced from the products rather than what
+// the storefront sends. The order it writes should store `tax`, each line's
+// tax from `lineTaxes`, and add the tax to its total unless prices include
+// it.
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser(request);
+    const { products, country, region } = checkoutQuoteSchema.parse(
+      await request.json()
+    );
+    const priced = await productRepository.priceLines(products);
+    const { tax, lineTaxes } = await taxRepository.quote(priced, {
+      country,
+      region,
+    });
+    return NextResponse.json({ tax, lineTaxes });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { getCourierAdapter } from "@/lib/couriers";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requirePermission(request, "orders:read");
+  } catch (error) {
+    return handleRouteError(error);
+  }
+
+  const { id } = await params;
+  const courier = getCourierAdapter(id);
+  if (!courier) {
+    return NextResponse.json({ error: "Unknown courier" }, { status: 404 });
+  }
+
+  const trackingNumber = request.nextUrl.searchParams.get("trackingNumber");
+  if (!trackingNumber) {
+    return NextResponse.json(
+      { error: "No tracking number provided" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const events = await courier.getTrackingEvents({
+      trackingNumber,
+      shippedAt: request.nextUrl.searchParams.get("shippedAt") ?? undefined,
+    });
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Error fetching tracking events:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tracking events" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { listCouriers } from "@/lib/couriers";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "orders:read");
+    return NextResponse.json({ couriers: listCouriers() });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { customerRepository } from "@/lib/repositories";
+import { customerStatusSchema } from "@/lib/schemas";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requirePermission(request, "customers:manage");
+    const { id } = await params;
+    const input = customerStatusSchema.parse(await request.json());
+    const customer = await customerRepository.updateStatus(id, input, actor);
+    return NextResponse.json({ customer });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { customerRepository } from "@/lib/repositories";
+
+// Recomputes every customer's order metrics from their orders.
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission(request, "customers:manage");
+    const updated = await customerRepository.rebuildMetrics();
+    return NextResponse.json({ updated });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
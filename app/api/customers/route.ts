@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { customerRepository } from "@/lib/repositories";
+import { pageQuerySchema } from "@/lib/schemas";
+
+const customersPageQuerySchema = pageQuerySchema("customers");
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "customers:read");
+    const { searchParams } = request.nextUrl;
+    if (searchParams.has("pageSize")) {
+      const { q, ...page } = customersPageQuerySchema.parse(
+        Object.fromEntries(searchParams)
+      );
+      const { items, pageInfo } = await customerRepository.page(page, { q });
+      return NextResponse.json({ customers: items, pageInfo });
+    }
+    const customers = await customerRepository.list({
+      userId: searchParams.get("userId") ?? undefined,
+    });
+    return NextResponse.json({ customers });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
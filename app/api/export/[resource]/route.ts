@@ -0,0 +1,81 @@
+import type { NextRequest } from "next/server";
+import { handleRouteError, requireAdmin } from "@/lib/api/server";
+import { ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors";
+import {
+  type ExportResource,
+  EXPORT_COLUMNS,
+  EXPORT_RESOURCES,
+  exportFilename,
+  getExportColumns,
+  getExportFormat,
+} from "@/lib/export";
+import { type Permission, hasPermission } from "@/lib/permissions";
+import { exportRepository } from "@/lib/repositories";
+import { exportQuerySchema } from "@/lib/schemas";
+import { writeSpreadsheet } from "@/lib/spreadsheet";
+
+type RouteContext = { params: Promise<{ resource: string }> };
+
+const EXPORT_PERMISSIONS: Record<ExportResource, Permission> = {
+  products: "catalog:read",
+  orders: "orders:read",
+  customers: "customers:read",
+};
+
+// Streams the rows of a dashboard table, with the same search and filters,
+// as a CSV, XLSX or JSON download. Columns with customers' personal details
+// are refused to roles that can't read customers.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { resource } = await params;
+    if (!EXPORT_RESOURCES.includes(resource as ExportResource)) {
+      throw new NotFoundError("Unknown export");
+    }
+    const exportResource = resource as ExportResource;
+    const admin = await requireAdmin(request);
+    const can = (permission: Permission) =>
+      hasPermission(admin.role, permission);
+    if (!can(EXPORT_PERMISSIONS[exportResource])) throw new ForbiddenError();
+
+    const { format, columns: keys, ...filters } = exportQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const unknown = keys.filter(
+      (key) =>
+        !EXPORT_COLUMNS[exportResource].some((column) => column.key === key)
+    );
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown columns: ${unknown.join(", ")}`);
+    }
+    const available = getExportColumns(exportResource, can);
+    const forbidden = keys.filter(
+      (key) => !available.some((column) => column.key === key)
+    );
+    if (forbidden.length > 0) {
+      throw new ForbiddenError(
+        `You don't have permission to export: ${forbidden.join(", ")}`
+      );
+    }
+    const columns =
+      keys.length > 0
+        ? keys.map((key) => available.find((column) => column.key === key)!)
+        : available.filter((column) => column.default);
+
+    const body = writeSpreadsheet(
+      format,
+      columns,
+      exportRepository.rows(exportResource, filters, {
+        customerDetails: can("customers:read"),
+      })
+    );
+    return new Response(body, {
+      headers: {
+        "Content-Type": getExportFormat(format).contentType,
+        "Content-Disposition": `attachment; filename="${exportFilename(exportResource, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { inventoryRepository, settingsRepository } from "@/lib/repositories";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "inventory:read");
+    const products = await inventoryRepository.listLowStock();
+    return NextResponse.json({ products });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// Recomputes every product's low-stock flag, e.g. for products saved before
+// the flag existed.
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission(request, "inventory:write");
+    const settings = await settingsRepository.get();
+    const updated = await inventoryRepository.refreshLowStock(settings.lowStockThreshold);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
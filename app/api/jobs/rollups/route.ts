@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireCronSecret } from "@/lib/api/server";
+import { addDays, dayKey, dayStart } from "@/lib/analytics";
+import {
+  analyticsRepository,
+  customerRepository,
+  settingsRepository,
+} from "@/lib/repositories";
+import { rollupJobSchema } from "@/lib/schemas";
+
+// Scheduled job that refreshes the sales rollups of the last few days, or
+// rebuilds all of them with `?backfill=1`. Run hourly by Vercel Cron (see
+// vercel.json) and by `npm run rollups:backfill`. It also gives customers
+// who signed up in that time their default status and metrics.
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+    const { days, backfill } = rollupJobSchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (backfill) {
+      await customerRepository.fillDefaults();
+      const rebuilt = await analyticsRepository.rebuild();
+      return NextResponse.json({ backfill: true, days: rebuilt });
+    }
+
+    const { timezone } = await settingsRepository.get();
+    const to = dayKey(new Date().toISOString(), timezone);
+    const from = addDays(to, 1 - days);
+    await customerRepository.fillDefaults(dayStart(from, timezone));
+    const refreshed = await analyticsRepository.refresh({ from, to });
+    return NextResponse.json({ backfill: false, days: refreshed });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,11 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireAdmin } from "@/lib/api/server";
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    return NextResponse.json({ admin });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { orderRepository } from "@/lib/repositories";
+import { fulfillmentTransitionSchema } from "@/lib/schemas";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requirePermission(request, "orders:fulfill");
+    const { id } = await params;
+    const { status, shipment } = fulfillmentTransitionSchema.parse(
+      await request.json()
+    );
+    const order = await orderRepository.transitionFulfillment(id, status, {
+      actor,
+      shipment,
+    });
+    return NextResponse.json({ order });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
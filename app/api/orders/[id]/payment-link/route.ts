@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { orderRepository } from "@/lib/repositories";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requirePermission(request, "orders:create");
+    const { id } = await params;
+    const order = await orderRepository.sendPaymentLink(id, actor);
+    return NextResponse.json({ order });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { orderRepository } from "@/lib/repositories";
+import { refundSchema } from "@/lib/schemas";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requirePermission(request, "orders:refund");
+    const { id } = await params;
+    const input = refundSchema.parse(await request.json());
+    const order = await orderRepository.refund(id, input, actor);
+    return NextResponse.json({ order }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireAdmin } from "@/lib/api/server";
+import { withoutPaymentLinkRecipient } from "@/lib/draft-orders";
+import { ForbiddenError } from "@/lib/errors";
+import { hasPermission } from "@/lib/permissions";
+import { orderRepository } from "@/lib/repositories";
+import type { Order } from "@/lib/types";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    if (!hasPermission(admin.role, "orders:read")) throw new ForbiddenError();
+    const visible = (order: Order) =>
+      hasPermission(admin.role, "customers:read")
+        ? order
+        : withoutPaymentLinkRecipient(order);
+    const { id } = await params;
+    const order = await orderRepository.get(id);
+    return NextResponse.json({ order: visible(order) });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { orderRepository, shippingRepository } from "@/lib/repositories";
+
+// Shipping for the order at today's rates, shown on orders that didn't
+// record how they were shipped.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requirePermission(request, "orders:read");
+    const { id } = await params;
+    const order = await orderRepository.get(id);
+    const quote = await shippingRepository.quoteOrder(order);
+    return NextResponse.json({ quote });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
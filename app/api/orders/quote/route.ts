@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { orderRepository } from "@/lib/repositories";
+import { draftOrderQuoteSchema } from "@/lib/schemas";
+
+// Prices a draft order in the order builder, with its stock, promotions,
+// shipping methods and tax, without placing it.
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission(request, "orders:create");
+    const input = draftOrderQuoteSchema.parse(await request.json());
+    const quote = await orderRepository.quoteDraft(input);
+    return NextResponse.json({ quote });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
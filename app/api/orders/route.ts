@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  handleRouteError,
+  requireAdmin,
+  requirePermission,
+} from "@/lib/api/server";
+import { withoutPaymentLinkRecipient } from "@/lib/draft-orders";
+import { ForbiddenError } from "@/lib/errors";
+import { hasPermission } from "@/lib/permissions";
+import { z } from "zod";
+import { orderRepository } from "@/lib/repositories";
+import type { Order } from "@/lib/types";
+import { draftOrderSchema, pageQuerySchema } from "@/lib/schemas";
+
+const ordersPageQuerySchema = pageQuerySchema("orders").extend({
+  overdueDays: z.coerce.number().int().positive().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    if (!hasPermission(admin.role, "orders:read")) throw new ForbiddenError();
+    const visible = (order: Order) =>
+      hasPermission(admin.role, "customers:read")
+        ? order
+        : withoutPaymentLinkRecipient(order);
+    const { searchParams } = request.nextUrl;
+    if (searchParams.has("pageSize")) {
+      const { q, overdueDays, ...page } = ordersPageQuerySchema.parse(
+        Object.fromEntries(searchParams)
+      );
+      const { items, pageInfo } = await orderRepository.page(page, {
+        q,
+        overdueDays,
+      });
+      return NextResponse.json({ orders: items.map(visible), pageInfo });
+    }
+    const orders = await orderRepository.list({
+      userId: searchParams.get("userId") ?? undefined,
+      orderIdPrefix: searchParams.get("orderId") ?? undefined,
+      limit: Number(searchParams.get("limit")) || undefined,
+    });
+    return NextResponse.json({ orders: orders.map(visible) });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// Places an order taken by staff by phone or chat; see
+// `orderRepository.placeDraft`.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "orders:create");
+    const input = draftOrderSchema.parse(await request.json());
+    const order = await orderRepository.placeDraft(input, actor);
+    return NextResponse.json({ order }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
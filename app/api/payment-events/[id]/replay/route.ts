@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { paymentEventRepository } from "@/lib/repositories";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requirePermission(request, "settings:manage");
+    const { id } = await params;
+    const event = await paymentEventRepository.replay(id, actor);
+    return NextResponse.json({ event });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { paymentEventRepository } from "@/lib/repositories";
+import { paymentEventQuerySchema } from "@/lib/schemas";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "settings:manage");
+    const filters = paymentEventQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const events = await paymentEventRepository.list(filters);
+    return NextResponse.json({ events });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { inventoryRepository } from "@/lib/repositories";
+import { inventoryMovementSchema } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission(request, "inventory:read");
+    const { id } = await params;
+    const movements = await inventoryRepository.listMovements(id);
+    return NextResponse.json({ movements });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "inventory:write");
+    const { id } = await params;
+    const input = inventoryMovementSchema.parse(await request.json());
+    const movement = await inventoryRepository.recordMovement(
+      { ...input, productId: id },
+      actor
+    );
+    return NextResponse.json({ movement }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
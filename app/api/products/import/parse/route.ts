@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { ValidationError } from "@/lib/errors";
+import { guessMapping, MAX_IMPORT_ROWS } from "@/lib/product-import";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+
+// Reads an uploaded CSV or XLSX file and suggests a column mapping.
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission(request, "catalog:write");
+    const file = (await request.formData()).get("file");
+    if (!(file instanceof File)) throw new ValidationError("No file provided");
+
+    const { rows, rowNumbers } = await readSpreadsheet(file);
+    if (rows.length < 2) throw new ValidationError("The file has no data rows");
+    if (rows.length > MAX_IMPORT_ROWS + 1) {
+      throw new ValidationError(
+        `Import at most ${MAX_IMPORT_ROWS} rows at a time`
+      );
+    }
+    return NextResponse.json({
+      rows,
+      rowNumbers,
+      mapping: guessMapping(rows[0]),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { productImportRepository } from "@/lib/repositories";
+import { productImportSchema } from "@/lib/schemas";
+
+// Previews an import (`dryRun: true`) or commits it.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "catalog:write");
+    const { rows, rowNumbers, mapping, createMissing, dryRun } =
+      productImportSchema.parse(await request.json());
+    const sheet = { rows, rowNumbers };
+    if (dryRun) {
+      const plan = await productImportRepository.preview(sheet, mapping, {
+        createMissing,
+      });
+      return NextResponse.json({ plan, committed: false });
+    }
+    const result = await productImportRepository.commit(
+      sheet,
+      mapping,
+      { createMissing },
+      actor
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
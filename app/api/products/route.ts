@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { productRepository } from "@/lib/repositories";
+import { pageQuerySchema, productSchema } from "@/lib/schemas";
+
+const productsPageQuerySchema = pageQuerySchema("products");
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const { searchParams } = request.nextUrl;
+    if (searchParams.has("pageSize")) {
+      const { q, ...page } = productsPageQuerySchema.parse(
+        Object.fromEntries(searchParams)
+      );
+      const { items, pageInfo } = await productRepository.page(page, { q });
+      return NextResponse.json({ products: items, pageInfo });
+    }
+    const products = await productRepository.list();
+    return NextResponse.json({ products });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "catalog:write");
+    const input = productSchema.parse(await request.json());
+    const product = await productRepository.create(input, actor);
+    return NextResponse.json({ product }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { promotionRepository } from "@/lib/repositories";
+import { promotionSchema } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission(request, "promotions:manage");
+    const { id } = await params;
+    const promotion = await promotionRepository.get(id);
+    return NextResponse.json({ promotion });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// Takes the whole promotion, as its fields are validated together.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "promotions:manage");
+    const { id } = await params;
+    const input = promotionSchema.parse(await request.json());
+    const promotion = await promotionRepository.update(id, input, actor);
+    return NextResponse.json({ promotion });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "promotions:manage");
+    const { id } = await params;
+    await promotionRepository.delete(id, actor);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { promotionRepository } from "@/lib/repositories";
+import { promotionSchema } from "@/lib/schemas";
+
+// Lists promotions with `usage`, the number of orders that used each.
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "promotions:manage");
+    const promotions = await promotionRepository.list();
+    const usage = await promotionRepository.usage(
+      promotions.map((promotion) => promotion.id)
+    );
+    return NextResponse.json({
+      promotions,
+      usage: Object.fromEntries(
+        [...usage].map(([id, { total }]) => [id, total])
+      ),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "promotions:manage");
+    const input = promotionSchema.parse(await request.json());
+    const promotion = await promotionRepository.create(input, actor);
+    return NextResponse.json({ promotion }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireAdmin } from "@/lib/api/server";
+import { type Permission, hasPermission } from "@/lib/permissions";
+import { searchRepository } from "@/lib/repositories";
+import { searchQuerySchema } from "@/lib/schemas";
+import type { SearchEntityType } from "@/lib/search";
+
+const SEARCH_PERMISSIONS: Record<SearchEntityType, Permission> = {
+  product: "catalog:read",
+  customer: "customers:read",
+};
+
+// Ranked matches across products and customers. Types the caller's role
+// can't read are left out rather than refused.
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    const { q, types, limit } = searchQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const allowed = types.filter((type) =>
+      hasPermission(admin.role, SEARCH_PERMISSIONS[type])
+    );
+    const hits =
+      allowed.length > 0
+        ? await searchRepository.search(q, { types: allowed, limit })
+        : [];
+    return NextResponse.json({ hits });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
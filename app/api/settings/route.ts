@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  handleRouteError,
+  requireAdmin,
+  requirePermission,
+} from "@/lib/api/server";
+import { inventoryRepository, settingsRepository } from "@/lib/repositories";
+import { storeSettingsSchema } from "@/lib/schemas";
+
+// Every staff member reads the settings, as they decide how amounts are
+// shown.
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const settings = await settingsRepository.get();
+    return NextResponse.json({ settings });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "settings:manage");
+    const input = storeSettingsSchema.parse(await request.json());
+    const previous = await settingsRepository.get();
+    const settings = await settingsRepository.update(input, actor);
+    // Products without a threshold of their own use the store's.
+    if (settings.lowStockThreshold !== previous.lowStockThreshold) {
+      await inventoryRepository.refreshLowStock(settings.lowStockThreshold);
+    }
+    return NextResponse.json({ settings });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
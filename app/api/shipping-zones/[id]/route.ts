@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { shippingRepository } from "@/lib/repositories";
+import { shippingZoneSchema } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission(request, "orders:read");
+    const { id } = await params;
+    const shippingZone = await shippingRepository.get(id);
+    return NextResponse.json({ shippingZone });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "settings:manage");
+    const { id } = await params;
+    const input = shippingZoneSchema.partial().parse(await request.json());
+    const shippingZone = await shippingRepository.update(id, input, actor);
+    return NextResponse.json({ shippingZone });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "settings:manage");
+    const { id } = await params;
+    await shippingRepository.delete(id, actor);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { shippingRepository } from "@/lib/repositories";
+import { shippingZoneSchema } from "@/lib/schemas";
+
+// Order staff read the zones to see how orders are charged; only owners
+// change them.
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "orders:read");
+    const shippingZones = await shippingRepository.list();
+    return NextResponse.json({ shippingZones });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "settings:manage");
+    const input = shippingZoneSchema.parse(await request.json());
+    const shippingZone = await shippingRepository.create(input, actor);
+    return NextResponse.json({ shippingZone }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requireAdmin } from "@/lib/api/server";
+import type { SalesRollup } from "@/lib/analytics";
+import {
+  analyticsRepository,
+  inventoryRepository,
+  productRepository,
+} from "@/lib/repositories";
+import type { DashboardStats } from "@/lib/types";
+
+// Orders placed, whatever their payment status, and revenue from sales, as
+// Analytics counts it: paid and partially refunded orders that weren't
+// cancelled or returned, net of refunds.
+function orderTotals(rollup: SalesRollup) {
+  const payments = Object.values(rollup.payments);
+  return {
+    orders: payments.reduce((sum, totals) => sum + totals.orders, 0),
+    revenue: rollup.revenue,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const [products, totals, lowStock] = await Promise.all([
+      productRepository.count(),
+      analyticsRepository.totals(),
+      inventoryRepository.countLowStock(),
+    ]);
+    const allTime = orderTotals(totals.allTime);
+    const thisMonth = orderTotals(totals.thisMonth);
+    const stats: DashboardStats = {
+      products,
+      orders: allTime.orders,
+      customers: totals.allTime.newCustomers,
+      revenue: allTime.revenue,
+      lowStock,
+      ordersThisMonth: thisMonth.orders,
+      newCustomersThisMonth: totals.thisMonth.newCustomers,
+      revenueThisMonth: thisMonth.revenue,
+    };
+    return NextResponse.json({ stats });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
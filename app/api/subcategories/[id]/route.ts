@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { subcategoryRepository } from "@/lib/repositories";
+import { subcategorySchema } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const { id } = await params;
+    const subcategory = await subcategoryRepository.get(id);
+    return NextResponse.json({ subcategory });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "catalog:write");
+    const { id } = await params;
+    const input = subcategorySchema.partial().parse(await request.json());
+    const subcategory = await subcategoryRepository.update(id, input, actor);
+    return NextResponse.json({ subcategory });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "catalog:delete");
+    const { id } = await params;
+    await subcategoryRepository.delete(id, actor);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
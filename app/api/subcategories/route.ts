@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { subcategoryRepository } from "@/lib/repositories";
+import { subcategorySchema } from "@/lib/schemas";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const subcategories = await subcategoryRepository.list({
+      categoryId: request.nextUrl.searchParams.get("categoryId") ?? undefined,
+    });
+    return NextResponse.json({ subcategories });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "catalog:write");
+    const input = subcategorySchema.parse(await request.json());
+    const subcategory = await subcategoryRepository.create(input, actor);
+    return NextResponse.json({ subcategory }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { tagRepository } from "@/lib/repositories";
+import { tagSchema } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const { id } = await params;
+    const tag = await tagRepository.get(id);
+    return NextResponse.json({ tag });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "catalog:write");
+    const { id } = await params;
+    const input = tagSchema.partial().parse(await request.json());
+    const tag = await tagRepository.update(id, input, actor);
+    return NextResponse.json({ tag });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "catalog:delete");
+    const { id } = await params;
+    const updatedProducts = await tagRepository.delete(id, actor);
+    return NextResponse.json({ success: true, updatedProducts });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { tagRepository } from "@/lib/repositories";
+import { pageQuerySchema, tagSchema } from "@/lib/schemas";
+
+const tagsPageQuerySchema = pageQuerySchema("tags");
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const { searchParams } = request.nextUrl;
+    if (searchParams.has("pageSize")) {
+      const { q, ...page } = tagsPageQuerySchema.parse(
+        Object.fromEntries(searchParams)
+      );
+      const { items, pageInfo } = await tagRepository.page(page, { q });
+      return NextResponse.json({ tags: items, pageInfo });
+    }
+    const tags = await tagRepository.list();
+    return NextResponse.json({ tags });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "catalog:write");
+    const input = tagSchema.parse(await request.json());
+    const tag = await tagRepository.create(input, actor);
+    return NextResponse.json({ tag }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
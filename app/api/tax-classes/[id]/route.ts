@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { taxRepository } from "@/lib/repositories";
+import { taxClassSchema } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const { id } = await params;
+    const taxClass = await taxRepository.get(id);
+    return NextResponse.json({ taxClass });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "settings:manage");
+    const { id } = await params;
+    const input = taxClassSchema.partial().parse(await request.json());
+    const taxClass = await taxRepository.update(id, input, actor);
+    return NextResponse.json({ taxClass });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "settings:manage");
+    const { id } = await params;
+    await taxRepository.delete(id, actor);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
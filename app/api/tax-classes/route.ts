@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { taxRepository } from "@/lib/repositories";
+import { taxClassSchema } from "@/lib/schemas";
+
+// Catalog editors read the classes to assign them to products and
+// categories; only owners change them.
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "catalog:read");
+    const taxClasses = await taxRepository.list();
+    return NextResponse.json({ taxClasses });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "settings:manage");
+    const input = taxClassSchema.parse(await request.json());
+    const taxClass = await taxRepository.create(input, actor);
+    return NextResponse.json({ taxClass }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { sendMail } from "@/lib/mailer";
+import { staffInviteEmail } from "@/lib/mailer/templates";
+import { adminRepository } from "@/lib/repositories";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Sends the password-set link again, e.g. when the first one expired.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission(request, "team:manage");
+    const { id } = await params;
+    const admin = await adminRepository.get(id);
+    const link = await adminRepository.passwordSetupLink(id);
+    await sendMail(staffInviteEmail(admin, link));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { adminRepository } from "@/lib/repositories";
+import { staffUpdateSchema } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const actor = await requirePermission(request, "team:manage");
+    const { id } = await params;
+    const input = staffUpdateSchema.parse(await request.json());
+    const admin = await adminRepository.update(id, input, actor);
+    return NextResponse.json({ admin });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { sendMail } from "@/lib/mailer";
+import { staffInviteEmail } from "@/lib/mailer/templates";
+import { adminRepository } from "@/lib/repositories";
+import { staffInviteSchema } from "@/lib/schemas";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, "team:manage");
+    const admins = await adminRepository.list();
+    return NextResponse.json({ admins });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission(request, "team:manage");
+    const input = staffInviteSchema.parse(await request.json());
+    const admin = await adminRepository.invite(input, actor);
+    const link = await adminRepository.passwordSetupLink(admin.id);
+    await sendMail(staffInviteEmail(admin, link));
+    return NextResponse.json({ admin }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { handleRouteError, requirePermission } from "@/lib/api/server";
+import { AppError } from "@/lib/errors";
 
 // Initialize S3 client
 const s3Client = new S3Client({
@@ -12,6 +14,7 @@ const s3Client = new S3Client({
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission(request, "catalog:write");
     const formData = await request.formData();
     const file = formData.get("file") as File;
     const path = formData.get("path") as string;
@@ -45,6 +48,7 @@ export async function POST(request: NextRequest) {
       url: cdnUrl,
     });
   } catch (error) {
+    if (error instanceof AppError) return handleRouteError(error);
     console.error("Error uploading to S3:", error);
     return NextResponse.json(
       { error: "Failed to upload file" },
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleRouteError } from "@/lib/api/server";
+import { paymentEventRepository } from "@/lib/repositories";
+
+// Payment providers post their events here, signed rather than signed in.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const { provider } = await params;
+    const { event, duplicate } = await paymentEventRepository.receive(
+      provider,
+      { body: await request.text(), headers: request.headers }
+    );
+    return NextResponse.json({
+      received: true,
+      status: event.status,
+      duplicate,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
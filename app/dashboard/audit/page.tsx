@@ -0,0 +1,18 @@
+import { Suspense } from "react";
+import { AuditLog } from "@/components/audit/audit-log";
+
+export default function AuditPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Every change to the catalog and to order statuses
+        </p>
+      </div>
+      <Suspense>
+        <AuditLog />
+      </Suspense>
+    </div>
+  );
+}
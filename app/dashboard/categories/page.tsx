@@ -1,5 +1,6 @@
 import { CategoriesTable } from "@/components/categories/categories-table"
 import { Button } from "@/components/ui/button"
+import { Can } from "@/components/auth-provider"
 import { Plus } from "lucide-react"
 import Link from "next/link"
 
@@ -11,12 +12,14 @@ export default function CategoriesPage() {
           <h1 className="text-3xl font-bold tracking-tight">Categories</h1>
           <p className="text-muted-foreground">Manage product categories</p>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/categories/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Category
-          </Link>
-        </Button>
+        <Can permission="catalog:write">
+          <Button asChild>
+            <Link href="/dashboard/categories/new">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Category
+            </Link>
+          </Button>
+        </Can>
       </div>
       <CategoriesTable />
     </div>
@@ -1,3 +1,4 @@
+import { Suspense } from "react";
 import { CustomersTable } from "@/components/customers/customers-table";
 
 export default function CustomersPage() {
@@ -9,7 +10,9 @@ export default function CustomersPage() {
           View and manage customer information
         </p>
       </div>
-      <CustomersTable />
+      <Suspense>
+        <CustomersTable />
+      </Suspense>
     </div>
   );
 }
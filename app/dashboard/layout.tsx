@@ -1,6 +1,7 @@
 import type React from "react"
 import { DashboardNav } from "@/components/dashboard-nav"
 import { DashboardHeader } from "@/components/dashboard-header"
+import { StoreSettingsProvider } from "@/components/store-settings-provider"
 
 export default function DashboardLayout({
   children,
@@ -8,14 +9,16 @@ export default function DashboardLayout({
   children: React.ReactNode
 }) {
   return (
-    <div className="flex min-h-screen flex-col">
-      <DashboardHeader />
-      <div className="flex flex-1">
-        <div className="hidden md:block">
-          <DashboardNav />
+    <StoreSettingsProvider>
+      <div className="flex min-h-screen flex-col">
+        <DashboardHeader />
+        <div className="flex flex-1">
+          <div className="hidden md:block">
+            <DashboardNav />
+          </div>
+          <main className="flex-1 p-6 md:p-8">{children}</main>
         </div>
-        <main className="flex-1 p-6 md:p-8">{children}</main>
       </div>
-    </div>
+    </StoreSettingsProvider>
   )
 }
@@ -0,0 +1,13 @@
+import { DraftOrderBuilder } from "@/components/orders/draft-order-builder"
+
+export default function NewOrderPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">New Order</h1>
+        <p className="text-muted-foreground">Enter an order taken by phone or chat</p>
+      </div>
+      <DraftOrderBuilder />
+    </div>
+  )
+}
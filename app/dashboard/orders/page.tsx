@@ -1,13 +1,30 @@
+import { Suspense } from "react"
+import Link from "next/link"
+import { Plus } from "lucide-react"
+import { Can } from "@/components/auth-provider"
 import { OrdersTable } from "@/components/orders/orders-table"
+import { Button } from "@/components/ui/button"
 
 export default function OrdersPage() {
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Orders</h1>
-        <p className="text-muted-foreground">View and manage customer orders</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Orders</h1>
+          <p className="text-muted-foreground">View and manage customer orders</p>
+        </div>
+        <Can permission="orders:create">
+          <Button asChild>
+            <Link href="/dashboard/orders/new">
+              <Plus className="mr-2 h-4 w-4" />
+              New order
+            </Link>
+          </Button>
+        </Can>
       </div>
-      <OrdersTable />
+      <Suspense>
+        <OrdersTable />
+      </Suspense>
     </div>
   )
 }
@@ -7,7 +7,7 @@ export default function DashboardPage() {
       <div>
         <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
         <p className="text-muted-foreground">
-          Overview of your Lanka Shop store
+          Overview of your store
         </p>
       </div>
       <DashboardStats />
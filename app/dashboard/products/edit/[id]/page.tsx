@@ -1,4 +1,5 @@
 import { ProductForm } from "@/components/products/product-form"
+import { InventoryLedger } from "@/components/products/inventory-ledger"
 
 export default function EditProductPage({ params }: { params: { id: string } }) {
   return (
@@ -8,6 +9,7 @@ export default function EditProductPage({ params }: { params: { id: string } })
         <p className="text-muted-foreground">Update product information</p>
       </div>
       <ProductForm productId={params.id} />
+      <InventoryLedger productId={params.id} />
     </div>
   )
 }
@@ -0,0 +1,13 @@
+import { ProductImportWizard } from "@/components/products/product-import-wizard"
+
+export default function ImportProductsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Import Products</h1>
+        <p className="text-muted-foreground">Create and update products in bulk from a CSV or Excel file</p>
+      </div>
+      <ProductImportWizard />
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { LowStockTable } from "@/components/products/low-stock-table"
+
+export default function LowStockPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Low Stock</h1>
+        <p className="text-muted-foreground">Products at or below their low-stock threshold</p>
+      </div>
+      <LowStockTable />
+    </div>
+  )
+}
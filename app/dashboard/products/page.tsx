@@ -1,7 +1,9 @@
+import { Suspense } from "react"
 import { ProductsTable } from "@/components/products/products-table"
 import { Button } from "@/components/ui/button"
+import { Can } from "@/components/auth-provider"
 import Link from "next/link"
-import { Plus } from "lucide-react"
+import { Plus, Upload } from "lucide-react"
 
 export default function ProductsPage() {
   return (
@@ -11,14 +13,26 @@ export default function ProductsPage() {
           <h1 className="text-3xl font-bold tracking-tight">Products</h1>
           <p className="text-muted-foreground">Manage your product inventory</p>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/products/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Product
-          </Link>
-        </Button>
+        <Can permission="catalog:write">
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/products/import">
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link href="/dashboard/products/new">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Product
+              </Link>
+            </Button>
+          </div>
+        </Can>
       </div>
-      <ProductsTable />
+      <Suspense>
+        <ProductsTable />
+      </Suspense>
     </div>
   )
 }
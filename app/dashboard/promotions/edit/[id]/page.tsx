@@ -0,0 +1,13 @@
+import { PromotionForm } from "@/components/promotions/promotion-form"
+
+export default function EditPromotionPage({ params }: { params: { id: string } }) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Edit Promotion</h1>
+        <p className="text-muted-foreground">Update promotion details</p>
+      </div>
+      <PromotionForm promotionId={params.id} />
+    </div>
+  )
+}
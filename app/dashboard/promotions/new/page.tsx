@@ -0,0 +1,13 @@
+import { PromotionForm } from "@/components/promotions/promotion-form"
+
+export default function NewPromotionPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Add New Promotion</h1>
+        <p className="text-muted-foreground">Create a discount code or automatic promotion</p>
+      </div>
+      <PromotionForm />
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { PromotionsTable } from "@/components/promotions/promotions-table"
+import { Button } from "@/components/ui/button"
+import { Plus } from "lucide-react"
+import Link from "next/link"
+
+export default function PromotionsPage() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Promotions</h1>
+          <p className="text-muted-foreground">Discount codes and automatic promotions</p>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard/promotions/new">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Promotion
+          </Link>
+        </Button>
+      </div>
+      <PromotionsTable />
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+import type React from "react";
+import { SettingsNav } from "@/components/settings/settings-nav";
+
+export default function SettingsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground">
+          Configure your store&apos;s details, regional formats, catalog
+          defaults and tax
+        </p>
+      </div>
+      <SettingsNav />
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import { StoreSettingsForm } from "@/components/settings/store-settings-form";
+
+export default function SettingsPage() {
+  return <StoreSettingsForm />;
+}
@@ -0,0 +1,5 @@
+import { PaymentEventsTable } from "@/components/settings/payment-events-table";
+
+export default function PaymentSettingsPage() {
+  return <PaymentEventsTable />;
+}
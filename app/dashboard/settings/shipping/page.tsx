@@ -0,0 +1,5 @@
+import { ShippingZonesTable } from "@/components/settings/shipping-zones-table";
+
+export default function ShippingSettingsPage() {
+  return <ShippingZonesTable />;
+}
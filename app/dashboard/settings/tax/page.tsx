@@ -0,0 +1,5 @@
+import { TaxClassesTable } from "@/components/settings/tax-classes-table";
+
+export default function TaxSettingsPage() {
+  return <TaxClassesTable />;
+}
@@ -1,5 +1,6 @@
 import { SubCategoriesTable } from "@/components/subcategories/subcategories-table";
 import { Button } from "@/components/ui/button";
+import { Can } from "@/components/auth-provider";
 import { Plus, FolderTree } from "lucide-react";
 import Link from "next/link";
 
@@ -15,12 +16,14 @@ export default function SubcategoriesPage() {
             <p className="text-muted-foreground">Manage sub categories</p>
           </div>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/subcategories/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Sub Category
-          </Link>
-        </Button>
+        <Can permission="catalog:write">
+          <Button asChild>
+            <Link href="/dashboard/subcategories/new">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Sub Category
+            </Link>
+          </Button>
+        </Can>
       </div>
       <SubCategoriesTable />
     </div>
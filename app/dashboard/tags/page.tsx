@@ -1,5 +1,7 @@
+import { Suspense } from "react"
 import { TagsTable } from "@/components/tags/tags-table"
 import { Button } from "@/components/ui/button"
+import { Can } from "@/components/auth-provider"
 import { Plus } from "lucide-react"
 import Link from "next/link"
 
@@ -11,14 +13,18 @@ export default function TagsPage() {
           <h1 className="text-3xl font-bold tracking-tight">Tags</h1>
           <p className="text-muted-foreground">Manage product tags</p>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/tags/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Tag
-          </Link>
-        </Button>
+        <Can permission="catalog:write">
+          <Button asChild>
+            <Link href="/dashboard/tags/new">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tag
+            </Link>
+          </Button>
+        </Can>
       </div>
-      <TagsTable />
+      <Suspense>
+        <TagsTable />
+      </Suspense>
     </div>
   )
 }
@@ -0,0 +1,15 @@
+import { TeamTable } from "@/components/team/team-table";
+
+export default function TeamPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Team</h1>
+        <p className="text-muted-foreground">
+          Invite staff, change their roles and deactivate accounts
+        </p>
+      </div>
+      <TeamTable />
+    </div>
+  );
+}
@@ -1,46 +1,34 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { collection, getDocs, query, orderBy } from "firebase/firestore"
-import { db } from "@/lib/firebase"
-import { Input } from "@/components/ui/input"
+import { apiFetch } from "@/lib/api/client"
+import type { PageInfo } from "@/lib/pagination"
+import type { Address } from "@/lib/types"
+import { useTableQuery } from "@/hooks/use-table-query"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { SortableHead, TablePagination, TableSearch } from "@/components/table-controls"
 import { useToast } from "@/components/ui/use-toast"
-import { Search } from "lucide-react"
 import { Loader2 } from "lucide-react"
 
-interface Address {
-  id: string
-  userId: string
-  label: string
-  street: string
-  city: string
-  state: string
-  postalCode: string
-  country: string
-}
-
 export function AddressesTable() {
+  const query = useTableQuery("addresses")
   const [addresses, setAddresses] = useState<Address[]>([])
-  const [filteredAddresses, setFilteredAddresses] = useState<Address[]>([])
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null)
   const [loading, setLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState("")
   const { toast } = useToast()
 
   useEffect(() => {
     const fetchAddresses = async () => {
+      setLoading(true)
       try {
-        const addressesSnapshot = await getDocs(query(collection(db, "addresses"), orderBy("userId")))
-
-        const addressesData = addressesSnapshot.docs.map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        })) as Address[]
+        const { addresses: addressesData, pageInfo } = await apiFetch<{ addresses: Address[]; pageInfo: PageInfo }>(
+          `/api/addresses?${query.apiQuery}`,
+        )
 
         setAddresses(addressesData)
-        setFilteredAddresses(addressesData)
+        setPageInfo(pageInfo)
       } catch (error) {
         console.error("Error fetching addresses:", error)
         toast({
@@ -54,38 +42,12 @@ export function AddressesTable() {
     }
 
     fetchAddresses()
-  }, [toast])
-
-  useEffect(() => {
-    if (searchQuery) {
-      const filtered = addresses.filter(
-        (address) =>
-          address.userId.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          address.street.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          address.city.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          address.state.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          address.country.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          address.postalCode.toLowerCase().includes(searchQuery.toLowerCase()),
-      )
-      setFilteredAddresses(filtered)
-    } else {
-      setFilteredAddresses(addresses)
-    }
-  }, [searchQuery, addresses])
+  }, [query.apiQuery, toast])
 
   return (
     <>
       <div className="flex items-center gap-4 mb-6">
-        <div className="relative flex-1">
-          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input
-            type="search"
-            placeholder="Search addresses..."
-            className="pl-8"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
-        </div>
+        <TableSearch query={query} placeholder="Search addresses..." />
       </div>
 
       <Card>
@@ -93,7 +55,7 @@ export function AddressesTable() {
           <div className="flex justify-center py-10">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
-        ) : filteredAddresses.length === 0 ? (
+        ) : addresses.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-10 text-center">
             <p className="text-muted-foreground">No addresses found</p>
           </div>
@@ -101,17 +63,29 @@ export function AddressesTable() {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Customer ID</TableHead>
-                <TableHead>Type</TableHead>
+                <SortableHead query={query} field="userId">
+                  Customer ID
+                </SortableHead>
+                <SortableHead query={query} field="label">
+                  Type
+                </SortableHead>
                 <TableHead>Address</TableHead>
-                <TableHead>City</TableHead>
-                <TableHead>State</TableHead>
-                <TableHead>Country</TableHead>
-                <TableHead>Postal Code</TableHead>
+                <SortableHead query={query} field="city">
+                  City
+                </SortableHead>
+                <SortableHead query={query} field="state">
+                  State
+                </SortableHead>
+                <SortableHead query={query} field="country">
+                  Country
+                </SortableHead>
+                <SortableHead query={query} field="postalCode">
+                  Postal Code
+                </SortableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredAddresses.map((address) => (
+              {addresses.map((address) => (
                 <TableRow key={address.id}>
                   <TableCell className="font-medium">{address.userId}</TableCell>
                   <TableCell>
@@ -127,6 +101,7 @@ export function AddressesTable() {
             </TableBody>
           </Table>
         )}
+        <TablePagination query={query} pageInfo={pageInfo} itemCount={addresses.length} />
       </Card>
     </>
   )
@@ -0,0 +1,460 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import type { DateRange as PickerRange } from "react-day-picker";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { useAuthorization } from "@/components/auth-provider";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { CalendarIcon, Loader2, RefreshCw } from "lucide-react";
+import { apiFetch } from "@/lib/api/client";
+import { fromMinorUnits, toMinorUnits } from "@/lib/money";
+import {
+  type AnalyticsReport,
+  type Granularity,
+  type RankedSales,
+  type SalesSummary,
+  GRANULARITIES,
+  GRANULARITY_LABELS,
+  percentChange,
+} from "@/lib/analytics";
+import { cn } from "@/lib/utils";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { TaxReportCard } from "@/components/analytics/tax-report-card";
+
+type Metric = "revenue" | "orders" | "averageOrderValue";
+
+const METRICS: { key: Metric; label: string; money: boolean }[] = [
+  { key: "revenue", label: "Revenue", money: true },
+  { key: "orders", label: "Orders", money: false },
+  { key: "averageOrderValue", label: "Avg. Order Value", money: true },
+];
+
+const chartConfig = {
+  current: { label: "This period", color: "hsl(var(--chart-1))" },
+  previous: { label: "Previous period", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+// Short label for the period starting on `day`.
+function formatPeriod(day: string, granularity: Granularity) {
+  const date = new Date(`${day}T00:00:00`);
+  return granularity === "month"
+    ? format(date, "MMM yyyy")
+    : format(date, "MMM d");
+}
+
+export function AnalyticsDashboard() {
+  const [range, setRange] = useState<PickerRange | undefined>({
+    from: subDays(new Date(), 29),
+    to: new Date(),
+  });
+  const [granularity, setGranularity] = useState<Granularity>("day");
+  const [metric, setMetric] = useState<Metric>("revenue");
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { toast } = useToast();
+  const { can } = useAuthorization();
+  const { settings, formatMoney } = useStoreSettings();
+
+  const from = range?.from ? format(range.from, "yyyy-MM-dd") : null;
+  const to = range?.to ? format(range.to, "yyyy-MM-dd") : from;
+
+  useEffect(() => {
+    if (!from || !to) return;
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ from, to, granularity });
+        const { report } = await apiFetch<{ report: AnalyticsReport }>(
+          `/api/analytics?${params}`
+        );
+        setReport(report);
+      } catch (err: any) {
+        console.error(err);
+        toast({
+          title: "Error",
+          description: err.message || "Failed to load analytics",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReport();
+  }, [from, to, granularity, reloadKey, toast]);
+
+  const handleRebuild = async () => {
+    setRebuilding(true);
+    try {
+      const { days } = await apiFetch<{ days: number }>(
+        "/api/analytics/rollups",
+        { method: "POST" }
+      );
+      toast({
+        title: "Rollups rebuilt",
+        description: `Rebuilt sales for ${days} days`,
+      });
+      setReloadKey((key) => key + 1);
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to rebuild rollups",
+        variant: "destructive",
+      });
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  const selected = METRICS.find((entry) => entry.key === metric)!;
+  // Amounts are charted in major units so the tooltip reads naturally.
+  const chartValue = (value: number) =>
+    selected.money ? fromMinorUnits(value, settings.currency) : value;
+  // The previous period is drawn against the same positions as this one.
+  const chartData =
+    report?.series.map((point, i) => ({
+      period: formatPeriod(point.period, report.granularity),
+      current: chartValue(point[metric]),
+      previous: chartValue(report.previousSeries[i]?.[metric] ?? 0),
+    })) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-4">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className={cn(
+                "w-64 justify-start text-left font-normal",
+                !range?.from && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {range?.from
+                ? range.to
+                  ? `${format(range.from, "MMM d, yyyy")} – ${format(
+                      range.to,
+                      "MMM d, yyyy"
+                    )}`
+                  : format(range.from, "MMM d, yyyy")
+                : "Pick a date range"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              defaultMonth={range?.from}
+              selected={range}
+              onSelect={setRange}
+              disabled={{ after: new Date() }}
+            />
+          </PopoverContent>
+        </Popover>
+        <Select
+          value={granularity}
+          onValueChange={(value) => setGranularity(value as Granularity)}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GRANULARITIES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {GRANULARITY_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {can("analytics:manage") && (
+          <Button
+            variant="outline"
+            className="ml-auto"
+            onClick={handleRebuild}
+            disabled={rebuilding}
+          >
+            {rebuilding ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Rebuild Rollups
+          </Button>
+        )}
+      </div>
+
+      {loading && !report ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : report ? (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <SummaryCard
+              title="Revenue"
+              field="revenue"
+              report={report}
+              formatValue={formatMoney}
+            />
+            <SummaryCard title="Orders" field="orders" report={report} />
+            <SummaryCard
+              title="Avg. Order Value"
+              field="averageOrderValue"
+              report={report}
+              formatValue={formatMoney}
+            />
+            <SummaryCard title="Units Sold" field="units" report={report} />
+          </div>
+          {report.otherCurrencyOrders > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {report.otherCurrencyOrders} orders in this range were charged in
+              another currency and are left out of these figures.
+            </p>
+          )}
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>{selected.label} over time</CardTitle>
+                <CardDescription>
+                  Compared with {report.previousRange.from} to{" "}
+                  {report.previousRange.to}
+                </CardDescription>
+              </div>
+              <Tabs
+                value={metric}
+                onValueChange={(value) => setMetric(value as Metric)}
+              >
+                <TabsList>
+                  {METRICS.map((entry) => (
+                    <TabsTrigger key={entry.key} value={entry.key}>
+                      {entry.label}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="h-80 w-full">
+                <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="period"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    minTickGap={24}
+                  />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    width={56}
+                    tickFormatter={(value: number) =>
+                      selected.money
+                        ? formatMoney(toMinorUnits(value, settings.currency))
+                        : String(value)
+                    }
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line
+                    dataKey="previous"
+                    type="monotone"
+                    stroke="var(--color-previous)"
+                    strokeDasharray="4 4"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  <Line
+                    dataKey="current"
+                    type="monotone"
+                    stroke="var(--color-current)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <SalesCard
+              title="Top Products"
+              description="Best sellers by revenue"
+              sales={report.topProducts}
+            />
+            <SalesCard
+              title="Sales by Category"
+              description="Revenue from each category's products"
+              sales={report.categories}
+            />
+            <SalesCard
+              title="Sales by Subcategory"
+              description="Revenue from each subcategory's products"
+              sales={report.subcategories}
+            />
+          </div>
+
+          {from && to && (
+            <TaxReportCard
+              from={from}
+              to={to}
+              granularity={granularity}
+              reloadKey={reloadKey}
+            />
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function SummaryCard({
+  title,
+  field,
+  report,
+  formatValue = String,
+}: {
+  title: string;
+  field: keyof SalesSummary;
+  report: AnalyticsReport;
+  formatValue?: (value: number) => string;
+}) {
+  const change = percentChange(
+    report.totals[field],
+    report.previousTotals[field]
+  );
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">
+          {formatValue(report.totals[field])}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {change === null ? (
+            "No sales in the previous period"
+          ) : (
+            <>
+              <span
+                className={cn(
+                  change > 0 && "text-green-600",
+                  change < 0 && "text-destructive"
+                )}
+              >
+                {change > 0 ? "+" : ""}
+                {change.toFixed(1)}%
+              </span>{" "}
+              vs previous period
+            </>
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SalesCard({
+  title,
+  description,
+  sales,
+}: {
+  title: string;
+  description: string;
+  sales: RankedSales[];
+}) {
+  const { formatMoney } = useStoreSettings();
+  const total = sales.reduce((sum, entry) => sum + entry.revenue, 0);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sales.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">
+            No sales in this period
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Units</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="w-32">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sales.map((entry) => {
+                const share = total > 0 ? (entry.revenue / total) * 100 : 0;
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{entry.name}</TableCell>
+                    <TableCell className="text-right">{entry.units}</TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(entry.revenue)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="h-2 rounded-full bg-muted">
+                        <div
+                          className="h-2 rounded-full bg-primary"
+                          style={{ width: `${share}%` }}
+                        />
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
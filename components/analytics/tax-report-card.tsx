@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Download, Loader2 } from "lucide-react";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiDownload, apiFetch } from "@/lib/api/client";
+import type { Granularity, TaxReport } from "@/lib/analytics";
+import { type ExportFormat, EXPORT_FORMATS } from "@/lib/export";
+
+interface TaxReportCardProps {
+  from: string;
+  to: string;
+  granularity: Granularity;
+  // Changes when the rollups are rebuilt.
+  reloadKey: number;
+}
+
+function formatPeriod(day: string, granularity: Granularity) {
+  const date = new Date(`${day}T00:00:00`);
+  if (granularity === "month") return format(date, "MMM yyyy");
+  return granularity === "week"
+    ? `Week of ${format(date, "MMM d, yyyy")}`
+    : format(date, "MMM d, yyyy");
+}
+
+// Tax collected on sales in the range, per rate and period, with a
+// download of the same rows.
+export function TaxReportCard({
+  from,
+  to,
+  granularity,
+  reloadKey,
+}: TaxReportCardProps) {
+  const [report, setReport] = useState<TaxReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+  const { formatMoney } = useStoreSettings();
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ from, to, granularity });
+        const { report } = await apiFetch<{ report: TaxReport }>(
+          `/api/analytics/tax?${params}`
+        );
+        setReport(report);
+      } catch (err: any) {
+        console.error(err);
+        toast({
+          title: "Error",
+          description: err.message || "Failed to load tax report",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReport();
+  }, [from, to, granularity, reloadKey, toast]);
+
+  const handleDownload = async (exportFormat: ExportFormat) => {
+    setDownloading(true);
+    try {
+      const params = new URLSearchParams({
+        from,
+        to,
+        granularity,
+        format: exportFormat,
+      });
+      await apiDownload(`/api/analytics/tax?${params}`);
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to export tax report",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Tax Collected</CardTitle>
+          <CardDescription>
+            Tax on sales by rate, for orders that recorded their tax
+          </CardDescription>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={downloading}>
+              {downloading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {EXPORT_FORMATS.map((entry) => (
+              <DropdownMenuItem
+                key={entry.format}
+                onSelect={() => handleDownload(entry.format)}
+              >
+                {entry.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </CardHeader>
+      <CardContent>
+        {loading && !report ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !report || report.rows.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">
+            No tax collected in this period
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Tax</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Taxable Amount</TableHead>
+                <TableHead className="text-right">Tax Collected</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.map((row) => (
+                <TableRow key={`${row.period}-${row.key}`}>
+                  <TableCell>
+                    {formatPeriod(row.period, report.granularity)}
+                  </TableCell>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell className="text-right">{row.rate}%</TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(row.taxable)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(row.amount)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              {report.totals.map((total) => (
+                <TableRow key={total.key}>
+                  <TableCell className="font-medium">Total</TableCell>
+                  <TableCell>{total.name}</TableCell>
+                  <TableCell className="text-right">{total.rate}%</TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(total.taxable)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(total.amount)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { TablePagination, TableSearch } from "@/components/table-controls";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, X } from "lucide-react";
+import { useTableQuery } from "@/hooks/use-table-query";
+import { apiFetch } from "@/lib/api/client";
+import {
+  type AuditEntityType,
+  type AuditEntry,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_ENTITY_TYPES,
+  formatAuditValue,
+} from "@/lib/audit";
+import type { PageInfo } from "@/lib/pagination";
+
+export function AuditLog() {
+  // Tab and entity filters live in the URL, with the search and page, so an
+  // entity's history can be linked to directly.
+  const query = useTableQuery("audit", ["entityType", "entityId"]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const entityType = (query.filters.entityType ?? "all") as
+    | AuditEntityType
+    | "all";
+  const entityId = query.filters.entityId;
+
+  const setFilters = (filters: { entityType?: string; entityId?: string }) => {
+    query.setFilters({
+      entityType: filters.entityType === "all" ? null : filters.entityType,
+      entityId: filters.entityId ?? null,
+    });
+  };
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true);
+      try {
+        const { entries, pageInfo } = await apiFetch<{
+          entries: AuditEntry[];
+          pageInfo: PageInfo;
+        }>(`/api/audit?${query.apiQuery}`);
+        setEntries(entries);
+        setPageInfo(pageInfo);
+      } catch (err) {
+        console.error(err);
+        toast({
+          title: "Error",
+          description: "Failed to load audit log",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [query.apiQuery, toast]);
+
+  return (
+    <div className="space-y-4">
+      <Tabs
+        value={entityType}
+        onValueChange={(value) => setFilters({ entityType: value })}
+      >
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          {AUDIT_ENTITY_TYPES.map((type) => (
+            <TabsTrigger key={type} value={type}>
+              {AUDIT_ENTITY_LABELS[type]}s
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-1 max-w-sm">
+          <TableSearch
+            query={query}
+            placeholder="Search by name, user or field..."
+          />
+        </div>
+        {entityId && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setFilters({ entityType })}
+          >
+            History of {entries[0]?.entityName ?? entityId}
+            <X className="ml-2 h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-center">
+            <p className="text-muted-foreground">No changes recorded</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id} className="align-top">
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="mb-1">
+                      {AUDIT_ENTITY_LABELS[entry.entityType]}
+                    </Badge>
+                    <button
+                      type="button"
+                      className="block text-left font-medium hover:underline"
+                      onClick={() =>
+                        setFilters({
+                          entityType: entry.entityType,
+                          entityId: entry.entityId,
+                        })
+                      }
+                    >
+                      {entry.entityName}
+                    </button>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        entry.action === "delete"
+                          ? "destructive"
+                          : entry.action === "create"
+                          ? "success"
+                          : "secondary"
+                      }
+                    >
+                      {AUDIT_ACTION_LABELS[entry.action]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <ul className="space-y-1 text-sm">
+                      {entry.changes.map((change) => (
+                        <li key={change.field} className="max-w-xl break-words">
+                          <span className="font-medium">{change.field}</span>
+                          {": "}
+                          {entry.action !== "create" && (
+                            <span className="text-muted-foreground line-through">
+                              {formatAuditValue(change.before)}
+                            </span>
+                          )}
+                          {entry.action === "update" && " → "}
+                          {entry.action !== "delete" && (
+                            <span>{formatAuditValue(change.after)}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </TableCell>
+                  <TableCell>{entry.actor?.email ?? "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <TablePagination
+          query={query}
+          pageInfo={pageInfo}
+          itemCount={entries.length}
+        />
+      </Card>
+    </div>
+  );
+}
@@ -2,26 +2,49 @@
 
 import type React from "react"
 
-import { createContext, useContext, useEffect, useState } from "react"
-import { onAuthStateChanged, type User } from "firebase/auth"
+import { createContext, useCallback, useContext, useEffect, useState } from "react"
+import { onAuthStateChanged, signOut, type User } from "firebase/auth"
 import { usePathname, useRouter } from "next/navigation"
 import { auth } from "@/lib/firebase"
+import { apiFetch } from "@/lib/api/client"
+import { type Permission, hasPermission } from "@/lib/permissions"
+import type { AdminUser } from "@/lib/types"
+import { Button } from "@/components/ui/button"
 import { Loader2 } from "lucide-react"
 
 interface AuthContextType {
   user: User | null
+  admin: AdminUser | null
   loading: boolean
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  admin: null,
   loading: true,
 })
 
 export const useAuth = () => useContext(AuthContext)
 
+// Role checks for the signed-in staff member. The API enforces the same
+// permissions; this only decides what the UI shows.
+export function useAuthorization() {
+  const { admin } = useAuth()
+  const role = admin?.role ?? null
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role])
+  return { role, can }
+}
+
+// Renders its children only when the current user has `permission`.
+export function Can({ permission, children }: { permission: Permission; children: React.ReactNode }) {
+  const { can } = useAuthorization()
+  return can(permission) ? <>{children}</> : null
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [admin, setAdmin] = useState<AdminUser | null>(null)
+  const [accessError, setAccessError] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const router = useRouter()
   const pathname = usePathname()
@@ -42,7 +65,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => unsubscribe()
   }, [pathname, router])
 
-  if (loading) {
+  // Load the staff record (and with it the role) once per signed-in user.
+  const uid = user?.uid
+  useEffect(() => {
+    setAdmin(null)
+    setAccessError(null)
+    if (!uid) return
+
+    apiFetch<{ admin: AdminUser }>("/api/me")
+      .then(({ admin }) => setAdmin(admin))
+      .catch((error) => {
+        console.error("Error loading staff account:", error)
+        setAccessError(error.message || "Failed to load your account")
+      })
+  }, [uid])
+
+  const resolvingAdmin = !!user && admin?.id !== user.uid && !accessError
+
+  if (loading || resolvingAdmin) {
     return (
       <div className="flex min-h-screen items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -50,5 +90,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     )
   }
 
-  return <AuthContext.Provider value={{ user, loading }}>{children}</AuthContext.Provider>
+  if (user && accessError) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 text-center">
+        <p className="text-muted-foreground">{accessError}</p>
+        <Button variant="outline" onClick={() => signOut(auth)}>
+          Sign out
+        </Button>
+      </div>
+    )
+  }
+
+  return <AuthContext.Provider value={{ user, admin, loading }}>{children}</AuthContext.Provider>
 }
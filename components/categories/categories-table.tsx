@@ -2,15 +2,8 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import {
-  getDocs,
-  collection,
-  deleteDoc,
-  doc,
-  query,
-  where,
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { apiFetch } from "@/lib/api/client";
+import type { Category } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -43,17 +36,9 @@ import {
   AlertDialogCancel,
   AlertDialogAction,
 } from "@/components/ui/alert-dialog";
+import { useAuthorization } from "@/components/auth-provider";
 import Image from "next/image";
 
-interface Category {
-  id: string;
-  name: string;
-  description: string;
-  image: string;
-  heroImage: string;
-  productCount?: number;
-}
-
 export function CategoriesTable() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [filtered, setFiltered] = useState<Category[]>([]);
@@ -61,24 +46,14 @@ export function CategoriesTable() {
   const [search, setSearch] = useState("");
   const [toDelete, setToDelete] = useState<string | null>(null);
   const { toast } = useToast();
+  const { can } = useAuthorization();
 
   useEffect(() => {
     async function fetchData() {
       try {
-        const [catsSnap, prodsSnap] = await Promise.all([
-          getDocs(collection(db, "categories")),
-          getDocs(collection(db, "products")),
-        ]);
-        const counts: Record<string, number> = {};
-        prodsSnap.forEach((d) => {
-          const cid = (d.data() as any).categoryId;
-          counts[cid] = (counts[cid] || 0) + 1;
-        });
-        const cats = catsSnap.docs.map((d) => ({
-          id: d.id,
-          ...(d.data() as any),
-          productCount: counts[d.id] || 0,
-        }));
+        const { categories: cats } = await apiFetch<{
+          categories: Category[];
+        }>("/api/categories");
         setCategories(cats);
         setFiltered(cats);
       } catch {
@@ -106,21 +81,20 @@ export function CategoriesTable() {
 
   const confirmDelete = async () => {
     if (!toDelete) return;
-    const cat = categories.find((c) => c.id === toDelete);
-    if (cat?.productCount! > 0) {
+    try {
+      await apiFetch(`/api/categories/${toDelete}`, { method: "DELETE" });
+      setCategories((prev) => prev.filter((c) => c.id !== toDelete));
+      setFiltered((prev) => prev.filter((c) => c.id !== toDelete));
+      toast({ title: "Deleted", description: "Category removed" });
+    } catch (err: any) {
       toast({
         title: "Cannot delete",
-        description: `Has ${cat.productCount} products.`,
+        description: err.message,
         variant: "destructive",
       });
+    } finally {
       setToDelete(null);
-      return;
     }
-    await deleteDoc(doc(db, "categories", toDelete));
-    setCategories((prev) => prev.filter((c) => c.id !== toDelete));
-    setFiltered((prev) => prev.filter((c) => c.id !== toDelete));
-    setToDelete(null);
-    toast({ title: "Deleted", description: "Category removed" });
   };
 
   if (loading)
@@ -200,7 +174,7 @@ export function CategoriesTable() {
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
                       <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                      <DropdownMenuItem asChild>
+                      <DropdownMenuItem asChild disabled={!can("catalog:write")}>
                         <Link
                           href={`/dashboard/categories/edit/${cat.id}`}
                           className="flex items-center"
@@ -212,6 +186,7 @@ export function CategoriesTable() {
                       <DropdownMenuSeparator />
                       <DropdownMenuItem
                         onClick={() => setToDelete(cat.id)}
+                        disabled={!can("catalog:delete")}
                         className="text-destructive"
                       >
                         <Trash className="mr-2 h-4 w-4" />
@@ -2,18 +2,28 @@
 
 import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/components/ui/use-toast";
 import { Loader2, Upload } from "lucide-react";
 import Image from "next/image";
-import { v4 as uuidv4 } from "uuid";
 import { uploadToS3 } from "@/lib/s3-upload";
+import { apiFetch } from "@/lib/api/client";
+import type { TaxClass } from "@/lib/tax";
+import type { Category } from "@/lib/types";
+
+// Select value standing for "taxed at the store's default rate".
+const DEFAULT_TAX_CLASS = "default";
 
 interface CategoryFormProps {
   categoryId?: string;
@@ -31,25 +41,34 @@ export function CategoryForm({ categoryId }: CategoryFormProps = {}) {
     image: "",
     heroImage: "",
     description: "",
+    taxClassId: "",
   });
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
   const [isEdit, setIsEdit] = useState(false);
   const router = useRouter();
   const { toast } = useToast();
 
+  useEffect(() => {
+    apiFetch<{ taxClasses: TaxClass[] }>("/api/tax-classes")
+      .then(({ taxClasses }) => setTaxClasses(taxClasses))
+      .catch((err) => console.error("Error loading tax classes:", err));
+  }, []);
+
   useEffect(() => {
     async function loadCategory() {
       if (!categoryId) return;
       setIsEdit(true);
       setLoading(true);
       try {
-        const snap = await getDoc(doc(db, "categories", categoryId));
-        if (!snap.exists()) throw new Error("Not found");
-        const data = snap.data() as any;
+        const { category: data } = await apiFetch<{ category: Category }>(
+          `/api/categories/${categoryId}`
+        );
         setFormData({
           name: data.name || "",
           image: data.image || "",
           heroImage: data.heroImage || "",
           description: data.description || "",
+          taxClassId: data.taxClassId || "",
         });
         if (data.image) setImagePreview(data.image);
         if (data.heroImage) setHeroPreview(data.heroImage);
@@ -103,18 +122,23 @@ export function CategoryForm({ categoryId }: CategoryFormProps = {}) {
 
       const payload = { ...formData, image: imgUrl, heroImage: heroUrl };
       if (isEdit && categoryId) {
-        await updateDoc(doc(db, "categories", categoryId), payload);
+        await apiFetch(`/api/categories/${categoryId}`, {
+          method: "PATCH",
+          body: JSON.stringify(payload),
+        });
         toast({ title: "Updated", description: "Category updated" });
       } else {
-        const id = uuidv4();
-        await setDoc(doc(db, "categories", id), payload);
+        await apiFetch("/api/categories", {
+          method: "POST",
+          body: JSON.stringify(payload),
+        });
         toast({ title: "Created", description: "Category created" });
       }
       router.push("/dashboard/categories");
-    } catch (err) {
+    } catch (err: any) {
       toast({
         title: "Error",
-        description: "Save failed",
+        description: err.message || "Save failed",
         variant: "destructive",
       });
     } finally {
@@ -210,6 +234,34 @@ export function CategoryForm({ categoryId }: CategoryFormProps = {}) {
               required
             />
           </div>
+
+          <div className="grid gap-3">
+            <Label htmlFor="taxClass">Tax Class</Label>
+            <Select
+              value={formData.taxClassId || DEFAULT_TAX_CLASS}
+              onValueChange={(value) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  taxClassId: value === DEFAULT_TAX_CLASS ? "" : value,
+                }))
+              }
+            >
+              <SelectTrigger id="taxClass">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_TAX_CLASS}>Default rate</SelectItem>
+                {taxClasses.map((taxClass) => (
+                  <SelectItem key={taxClass.id} value={taxClass.id}>
+                    {taxClass.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Products in this category use it unless they set their own.
+            </p>
+          </div>
         </CardContent>
         <CardFooter className="flex justify-between">
           <Button
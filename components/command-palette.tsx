@@ -0,0 +1,322 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useAuth, useAuthorization } from "@/components/auth-provider"
+import { navItems } from "@/components/dashboard-nav"
+import { Button } from "@/components/ui/button"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command"
+import { DialogTitle } from "@/components/ui/dialog"
+import { type RecentItem, useRecentItems } from "@/hooks/use-recent-items"
+import { apiFetch } from "@/lib/api/client"
+import type { Permission } from "@/lib/permissions"
+import { FULFILLMENT_LABELS, getFulfillmentStatus, getNextFulfillmentStatuses } from "@/lib/order-fulfillment"
+import type { SearchHit } from "@/lib/search/types"
+import type { Order } from "@/lib/types"
+import {
+  ArrowLeft,
+  FileText,
+  FolderPlus,
+  Loader2,
+  Package,
+  PackagePlus,
+  Search,
+  ShoppingCart,
+  Truck,
+  User,
+  type LucideIcon,
+} from "lucide-react"
+
+const SEARCH_DELAY = 200
+const RESULT_LIMIT = 5
+
+type Mode = "default" | "ship"
+
+interface Action {
+  id: string
+  title: string
+  icon: LucideIcon
+  permission: Permission
+  run: () => void
+}
+
+interface Results {
+  hits: SearchHit[]
+  orders: Order[]
+}
+
+const NO_RESULTS: Results = { hits: [], orders: [] }
+
+const KIND_ICONS: Record<RecentItem["kind"], LucideIcon> = {
+  page: FileText,
+  product: Package,
+  order: ShoppingCart,
+  customer: User,
+}
+
+// Order IDs are matched by prefix, which is case-sensitive, so a lowercase
+// search is retried in uppercase.
+async function findOrders(prefix: string) {
+  const lookup = (value: string) =>
+    apiFetch<{ orders: Order[] }>(`/api/orders?${new URLSearchParams({ orderId: value, limit: String(RESULT_LIMIT) })}`)
+  const { orders } = await lookup(prefix)
+  if (orders.length > 0 || prefix === prefix.toUpperCase()) return orders
+  return (await lookup(prefix.toUpperCase())).orders
+}
+
+const canShip = (order: Order) => getNextFulfillmentStatuses(getFulfillmentStatus(order)).includes("shipped")
+
+// Ctrl/Cmd+K palette for jumping to pages, products, orders and customers,
+// and for starting common tasks.
+export function CommandPalette() {
+  const router = useRouter()
+  const { user } = useAuth()
+  const { can } = useAuthorization()
+  const recent = useRecentItems(user?.uid)
+  const [open, setOpen] = useState(false)
+  const [mode, setMode] = useState<Mode>("default")
+  const [search, setSearch] = useState("")
+  const [results, setResults] = useState<Results>(NO_RESULTS)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen((value) => !value)
+      }
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  useEffect(() => {
+    if (open) return
+    setMode("default")
+    setSearch("")
+  }, [open])
+
+  const canSearchRecords = can("catalog:read") || can("customers:read")
+  const canSearchOrders = can("orders:read")
+  const query = search.trim()
+
+  useEffect(() => {
+    if (!query) {
+      setResults(NO_RESULTS)
+      setLoading(false)
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    const timeout = setTimeout(async () => {
+      try {
+        const [hits, orders] = await Promise.all([
+          mode === "default" && canSearchRecords
+            ? apiFetch<{ hits: SearchHit[] }>(
+                `/api/search?${new URLSearchParams({ q: query, limit: String(RESULT_LIMIT) })}`,
+              ).then((data) => data.hits)
+            : [],
+          canSearchOrders ? findOrders(query) : [],
+        ])
+        if (!cancelled) setResults({ hits, orders: mode === "ship" ? orders.filter(canShip) : orders })
+      } catch (err) {
+        console.error("Error searching:", err)
+        if (!cancelled) setResults(NO_RESULTS)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, SEARCH_DELAY)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query, mode, canSearchRecords, canSearchOrders])
+
+  const go = (item: RecentItem) => {
+    recent.remember(item)
+    setOpen(false)
+    router.push(item.href)
+  }
+
+  const startShipping = () => {
+    setMode("ship")
+    setSearch("")
+  }
+
+  const actions: Action[] = [
+    {
+      id: "new-product",
+      title: "New product",
+      icon: PackagePlus,
+      permission: "catalog:write",
+      run: () => go({ kind: "page", id: "new-product", title: "New product", href: "/dashboard/products/new" }),
+    },
+    {
+      id: "new-category",
+      title: "New category",
+      icon: FolderPlus,
+      permission: "catalog:write",
+      run: () => go({ kind: "page", id: "new-category", title: "New category", href: "/dashboard/categories/new" }),
+    },
+    { id: "ship-order", title: "Mark order shipped", icon: Truck, permission: "orders:fulfill", run: startShipping },
+  ]
+
+  const matches = (title: string) => title.toLowerCase().includes(query.toLowerCase())
+  const pages = navItems.filter((item) => (!item.permission || can(item.permission)) && matches(item.title))
+  const visibleActions = actions.filter((action) => can(action.permission) && matches(action.title))
+  const products = results.hits.filter((hit) => hit.type === "product")
+  const customers = results.hits.filter((hit) => hit.type === "customer")
+
+  const orderItem = (order: Order): RecentItem => ({
+    kind: "order",
+    id: order.id,
+    title: `Order #${order.orderId}`,
+    subtitle: FULFILLMENT_LABELS[getFulfillmentStatus(order)],
+    href: `/dashboard/orders/${order.id}`,
+  })
+  const hitItem = (hit: SearchHit): RecentItem => ({
+    kind: hit.type,
+    id: hit.id,
+    title: hit.title,
+    subtitle: hit.subtitle,
+    href: hit.type === "product" ? `/dashboard/products/edit/${hit.id}` : `/dashboard/customers/${hit.id}`,
+  })
+
+  const renderItem = (item: RecentItem, key = `${item.kind}:${item.id}`) => {
+    const Icon = KIND_ICONS[item.kind]
+    return (
+      <CommandItem key={key} value={key} onSelect={() => go(item)}>
+        <Icon className="mr-2 h-4 w-4" />
+        <span className="truncate">{item.title}</span>
+        {item.subtitle && <span className="ml-2 truncate text-xs text-muted-foreground">{item.subtitle}</span>}
+      </CommandItem>
+    )
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="hidden w-64 justify-start gap-2 text-muted-foreground md:flex"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span>Search or jump to...</span>
+        <kbd className="ml-auto rounded border bg-muted px-1.5 font-mono text-[10px]">⌘K</kbd>
+      </Button>
+      <Button variant="ghost" size="icon" className="md:hidden" onClick={() => setOpen(true)}>
+        <Search className="h-5 w-5" />
+        <span className="sr-only">Search</span>
+      </Button>
+      {/* Pages and actions are filtered above and records come from the
+          server already ranked, so cmdk's own filtering is turned off. */}
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <CommandInput
+          placeholder={mode === "ship" ? "Order ID to ship..." : "Search or type a command..."}
+          value={search}
+          onValueChange={setSearch}
+          onKeyDown={(e) => {
+            if (mode === "ship" && e.key === "Backspace" && !search) setMode("default")
+          }}
+        />
+        <CommandList>
+          {!loading && <CommandEmpty>No results found.</CommandEmpty>}
+          {loading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {mode === "ship" ? (
+            <>
+              <CommandGroup>
+                <CommandItem value="back" onSelect={() => setMode("default")}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back
+                </CommandItem>
+              </CommandGroup>
+              {!loading && results.orders.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  {query ? "No orders ready to ship match this ID." : "Type the ID of the order to ship."}
+                </p>
+              )}
+              {results.orders.length > 0 && (
+                <CommandGroup heading="Orders ready to ship">
+                  {results.orders.map((order) => {
+                    const item = orderItem(order)
+                    return (
+                      <CommandItem
+                        key={order.id}
+                        value={`ship:${order.id}`}
+                        onSelect={() => go({ ...item, href: `${item.href}?ship=1` })}
+                      >
+                        <Truck className="mr-2 h-4 w-4" />
+                        <span>{item.title}</span>
+                        <span className="ml-2 text-xs text-muted-foreground">{item.subtitle}</span>
+                      </CommandItem>
+                    )
+                  })}
+                </CommandGroup>
+              )}
+            </>
+          ) : (
+            <>
+              {!query && recent.items.length > 0 && (
+                <CommandGroup heading="Recent">
+                  {recent.items.map((item) => renderItem(item, `recent:${item.kind}:${item.id}`))}
+                </CommandGroup>
+              )}
+              {visibleActions.length > 0 && (
+                <CommandGroup heading="Actions">
+                  {visibleActions.map((action) => (
+                    <CommandItem key={action.id} value={`action:${action.id}`} onSelect={action.run}>
+                      <action.icon className="mr-2 h-4 w-4" />
+                      {action.title}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {pages.length > 0 && (
+                <CommandGroup heading="Go to">
+                  {pages.map((page) => (
+                    <CommandItem
+                      key={page.href}
+                      value={`page:${page.href}`}
+                      onSelect={() => go({ kind: "page", id: page.href, title: page.title, href: page.href })}
+                    >
+                      <page.icon className="mr-2 h-4 w-4" />
+                      {page.title}
+                      {!query && <CommandShortcut>{page.href.replace("/dashboard", "") || "/"}</CommandShortcut>}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {products.length > 0 && (
+                <>
+                  <CommandSeparator />
+                  <CommandGroup heading="Products">{products.map((hit) => renderItem(hitItem(hit)))}</CommandGroup>
+                </>
+              )}
+              {results.orders.length > 0 && (
+                <CommandGroup heading="Orders">{results.orders.map((order) => renderItem(orderItem(order)))}</CommandGroup>
+              )}
+              {customers.length > 0 && (
+                <CommandGroup heading="Customers">{customers.map((hit) => renderItem(hitItem(hit)))}</CommandGroup>
+              )}
+            </>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
@@ -2,15 +2,6 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import {
-  doc,
-  getDoc,
-  collection,
-  query,
-  where,
-  getDocs,
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -31,47 +22,41 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { formatDate } from "@/lib/utils";
-
-interface Customer {
-  id: string;
-  name: string;
-  email: string;
-  createdAt: string;
-  status: "active" | "deactive" | "suspend";
-}
-
-interface Address {
-  id: string;
-  label: string;
-  street: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  country: string;
-}
-
-interface Order {
-  id: string;
-  orderId: string;
-  createdAt: string;
-  totalAmount: string;
-  paymentStatus: string;
-}
+import { CustomerStatusDialog } from "@/components/customers/customer-status-dialog";
+import { useAuthorization } from "@/components/auth-provider";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiFetch } from "@/lib/api/client";
+import { computeCustomerMetrics } from "@/lib/customer-metrics";
+import {
+  CUSTOMER_STATUS_LABELS,
+  getCustomerStatus,
+  getCustomerStatusBadgeVariant,
+} from "@/lib/customer-status";
+import type { CustomerStatusInput } from "@/lib/schemas";
+import type { Address, Customer, Order } from "@/lib/types";
 
 export function CustomerDetails({ customerId }: { customerId: string }) {
   const [customer, setCustomer] = useState<Customer | null>(null);
   const [addresses, setAddresses] = useState<Address[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false);
+  const [savingStatus, setSavingStatus] = useState(false);
   const router = useRouter();
   const { toast } = useToast();
+  const { settings, formatMoney, formatDate } = useStoreSettings();
+  const { can } = useAuthorization();
 
   useEffect(() => {
     const fetchDetails = async () => {
       try {
-        const docSnap = await getDoc(doc(db, "customers", customerId));
-        if (!docSnap.exists()) {
+        let d: Customer;
+        try {
+          ({ customer: d } = await apiFetch<{ customer: Customer }>(
+            `/api/customers/${customerId}`
+          ));
+        } catch (err: any) {
+          if (err.status !== 404) throw err;
           toast({
             title: "Not found",
             description: "Customer does not exist",
@@ -80,34 +65,17 @@ export function CustomerDetails({ customerId }: { customerId: string }) {
           router.push("/dashboard/customers");
           return;
         }
-        const d = docSnap.data();
-        setCustomer({
-          id: docSnap.id,
-          name: d.name,
-          email: d.email,
-          createdAt: d.createdAt,
-          status: d.status,
-        });
-
-        // fetch addresses
-        const addrQ = query(
-          collection(db, "addresses"),
-          where("userId", "==", d.userId)
-        );
-        const addrSnap = await getDocs(addrQ);
-        setAddresses(
-          addrSnap.docs.map((a) => ({ id: a.id, ...(a.data() as any) }))
-        );
+        setCustomer(d);
 
-        // fetch orders
-        const ordQ = query(
-          collection(db, "orders"),
-          where("userId", "==", d.userId)
-        );
-        const ordSnap = await getDocs(ordQ);
-        setOrders(
-          ordSnap.docs.map((o) => ({ id: o.id, ...(o.data() as any) }))
-        );
+        const userQuery = `userId=${encodeURIComponent(d.userId)}`;
+        const [{ addresses }, { orders }] = await Promise.all([
+          // fetch addresses
+          apiFetch<{ addresses: Address[] }>(`/api/addresses?${userQuery}`),
+          // fetch orders
+          apiFetch<{ orders: Order[] }>(`/api/orders?${userQuery}`),
+        ]);
+        setAddresses(addresses);
+        setOrders(orders);
       } catch (err) {
         console.error(err);
         toast({
@@ -122,6 +90,33 @@ export function CustomerDetails({ customerId }: { customerId: string }) {
     fetchDetails();
   }, [customerId, router, toast]);
 
+  const handleStatusChange = async (input: CustomerStatusInput) => {
+    setSavingStatus(true);
+    try {
+      const { customer: updated } = await apiFetch<{ customer: Customer }>(
+        `/api/customers/${customerId}/status`,
+        { method: "POST", body: JSON.stringify(input) }
+      );
+      setCustomer(updated);
+      setStatusDialogOpen(false);
+      toast({
+        title: "Status updated",
+        description: `Account is now ${CUSTOMER_STATUS_LABELS[
+          input.status
+        ].toLowerCase()}`,
+      });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to update status",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingStatus(false);
+    }
+  };
+
   if (loading)
     return (
       <div className="flex justify-center py-10">
@@ -141,12 +136,11 @@ export function CustomerDetails({ customerId }: { customerId: string }) {
       </div>
     );
 
-  // compute totals
-  const totalSpent = orders.reduce(
-    (sum, o) => sum + parseFloat(o.totalAmount),
-    0
-  );
+  const metrics =
+    customer.metrics ?? computeCustomerMetrics(orders, settings.currency);
   const orderCount = orders.length;
+  const status = getCustomerStatus(customer);
+  const statusHistory = [...(customer.statusHistory ?? [])].reverse();
 
   return (
     <div className="space-y-6">
@@ -158,11 +152,29 @@ export function CustomerDetails({ customerId }: { customerId: string }) {
       </Button>
 
       <Card>
-        <CardHeader>
-          <CardTitle>Customer Information</CardTitle>
-          <CardDescription>
-            Status: <Badge className="capitalize">{customer.status}</Badge>
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Customer Information</CardTitle>
+            <CardDescription>
+              Status:{" "}
+              <Badge variant={getCustomerStatusBadgeVariant(status)}>
+                {CUSTOMER_STATUS_LABELS[status]}
+              </Badge>
+              {status === "suspend" && customer.suspendedUntil && (
+                <span> until {formatDate(customer.suspendedUntil)}</span>
+              )}
+            </CardDescription>
+            {status !== "active" && customer.statusReason && (
+              <p className="text-sm text-muted-foreground">
+                Reason: {customer.statusReason}
+              </p>
+            )}
+          </div>
+          {can("customers:manage") && (
+            <Button variant="outline" onClick={() => setStatusDialogOpen(true)}>
+              Change Status
+            </Button>
+          )}
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
@@ -182,15 +194,43 @@ export function CustomerDetails({ customerId }: { customerId: string }) {
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">
-                Total Orders
+                Paid Orders
               </p>
-              <p>{orderCount}</p>
+              <p>{metrics.orderCount}</p>
+              {!!metrics.otherCurrencyOrders && (
+                <p className="text-sm text-muted-foreground">
+                  Plus {metrics.otherCurrencyOrders} in other currencies, not
+                  counted in these totals
+                </p>
+              )}
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">
                 Total Spent
               </p>
-              <p>${totalSpent.toFixed(2)}</p>
+              <p>{formatMoney(metrics.lifetimeValue)}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                Average Order Value
+              </p>
+              <p>{formatMoney(metrics.averageOrderValue)}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                First Order
+              </p>
+              <p>
+                {metrics.firstOrderAt ? formatDate(metrics.firstOrderAt) : "—"}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                Last Order
+              </p>
+              <p>
+                {metrics.lastOrderAt ? formatDate(metrics.lastOrderAt) : "—"}
+              </p>
             </div>
           </div>
         </CardContent>
@@ -249,14 +289,15 @@ export function CustomerDetails({ customerId }: { customerId: string }) {
                     <TableCell className="font-medium">{o.orderId}</TableCell>
                     <TableCell>{formatDate(o.createdAt)}</TableCell>
                     <TableCell>
-                      ${parseFloat(o.totalAmount).toFixed(2)}
+                      {formatMoney(o.totalAmount, o.currency)}
                     </TableCell>
                     <TableCell>
                       <Badge
                         variant={
                           o.paymentStatus === "paid"
                             ? "success"
-                            : o.paymentStatus === "pending"
+                            : o.paymentStatus === "pending" ||
+                              o.paymentStatus === "partially_refunded"
                             ? "warning"
                             : "destructive"
                         }
@@ -276,6 +317,49 @@ export function CustomerDetails({ customerId }: { customerId: string }) {
           )}
         </CardContent>
       </Card>
+
+      {statusHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Status History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statusHistory.map((entry) => (
+                  <TableRow key={entry.changedAt}>
+                    <TableCell>{formatDate(entry.changedAt)}</TableCell>
+                    <TableCell>
+                      {CUSTOMER_STATUS_LABELS[entry.from]} →{" "}
+                      {CUSTOMER_STATUS_LABELS[entry.to]}
+                      {entry.suspendedUntil &&
+                        ` until ${formatDate(entry.suspendedUntil)}`}
+                    </TableCell>
+                    <TableCell>{entry.reason}</TableCell>
+                    <TableCell>{entry.changedBy ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <CustomerStatusDialog
+        open={statusDialogOpen}
+        saving={savingStatus}
+        status={status}
+        onOpenChange={setStatusDialogOpen}
+        onSubmit={handleStatusChange}
+      />
     </div>
   );
 }
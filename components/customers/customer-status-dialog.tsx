@@ -0,0 +1,157 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import {
+  CUSTOMER_STATUSES,
+  CUSTOMER_STATUS_LABELS,
+} from "@/lib/customer-status";
+import type { CustomerStatusInput } from "@/lib/schemas";
+import type { CustomerStatus } from "@/lib/types";
+
+interface CustomerStatusDialogProps {
+  open: boolean;
+  saving: boolean;
+  status: CustomerStatus;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: CustomerStatusInput) => void;
+}
+
+export function CustomerStatusDialog({
+  open,
+  saving,
+  status,
+  onOpenChange,
+  onSubmit,
+}: CustomerStatusDialogProps) {
+  const [formData, setFormData] = useState({
+    status,
+    reason: "",
+    suspendedUntil: "",
+  });
+
+  useEffect(() => {
+    if (open) setFormData({ status, reason: "", suspendedUntil: "" });
+  }, [open, status]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      status: formData.status,
+      reason: formData.reason,
+      suspendedUntil:
+        formData.status === "suspend" && formData.suspendedUntil
+          ? formData.suspendedUntil
+          : null,
+    });
+  };
+
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Change Account Status</DialogTitle>
+            <DialogDescription>
+              Suspended and deactivated customers can't check out or place
+              orders.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="status">Status</Label>
+              <Select
+                value={formData.status}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    status: value as CustomerStatus,
+                  }))
+                }
+              >
+                <SelectTrigger id="status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOMER_STATUSES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {CUSTOMER_STATUS_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.status === "suspend" && (
+              <div className="grid gap-2">
+                <Label htmlFor="suspendedUntil">Suspended Until</Label>
+                <Input
+                  id="suspendedUntil"
+                  type="date"
+                  min={tomorrow}
+                  value={formData.suspendedUntil}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      suspendedUntil: e.target.value,
+                    }))
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leave empty to suspend until the status is changed again.
+                </p>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="reason">Reason</Label>
+              <Textarea
+                id="reason"
+                value={formData.reason}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, reason: e.target.value }))
+                }
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !formData.reason.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Status
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { collection, getDocs, query, orderBy } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import {
   Table,
   TableBody,
@@ -20,59 +17,52 @@ import {
   DropdownMenuLabel,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
-import { Eye, MoreHorizontal, Search, Loader2 } from "lucide-react";
+import { Eye, MoreHorizontal, Loader2, RefreshCw } from "lucide-react";
 import Link from "next/link";
-import { formatDate } from "@/lib/utils";
-
-interface Customer {
-  id: string;
-  name: string;
-  email: string;
-  createdAt: string;
-  status: "active" | "deactive" | "suspend";
-}
+import { apiFetch } from "@/lib/api/client";
+import { EMPTY_CUSTOMER_METRICS } from "@/lib/customer-metrics";
+import {
+  CUSTOMER_STATUS_LABELS,
+  getCustomerStatus,
+  getCustomerStatusBadgeVariant,
+} from "@/lib/customer-status";
+import type { PageInfo } from "@/lib/pagination";
+import type { Customer } from "@/lib/types";
+import { useTableQuery } from "@/hooks/use-table-query";
+import { ExportDialog } from "@/components/export-dialog";
+import { useAuthorization } from "@/components/auth-provider";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import {
+  SortableHead,
+  TablePagination,
+  TableSearch,
+} from "@/components/table-controls";
 
 export function CustomersTable() {
+  const query = useTableQuery("customers");
   const [customers, setCustomers] = useState<Customer[]>([]);
-  const [filtered, setFiltered] = useState<Customer[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
   const [loading, setLoading] = useState(true);
-  const [search, setSearch] = useState("");
+  const [rebuilding, setRebuilding] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const { toast } = useToast();
+  const { can } = useAuthorization();
+  const { formatMoney, formatDate } = useStoreSettings();
 
   useEffect(() => {
-    const fetchAll = async () => {
+    const fetchCustomers = async () => {
+      setLoading(true);
       try {
-        // fetch customers
-        const custSnap = await getDocs(
-          query(collection(db, "customers"), orderBy("createdAt", "desc"))
-        );
-        const custs: Customer[] = custSnap.docs.map((doc) => {
-          const d = doc.data();
-          return {
-            id: doc.id,
-            name: d.name,
-            email: d.email,
-            createdAt: d.createdAt,
-            status: d.status,
-          };
-        });
-
-        // fetch orders to build metrics
-        const orderSnap = await getDocs(collection(db, "orders"));
-        const metrics: Record<string, { total: number; count: number }> = {};
-        orderSnap.forEach((o) => {
-          const od = o.data();
-          const uid = od.userId;
-          if (!metrics[uid]) metrics[uid] = { total: 0, count: 0 };
-          metrics[uid].total += parseFloat(od.totalAmount) || 0;
-          metrics[uid].count += 1;
-        });
+        const { customers: custs, pageInfo } = await apiFetch<{
+          customers: Customer[];
+          pageInfo: PageInfo;
+        }>(`/api/customers?${query.apiQuery}`);
 
-        // attach metrics
         setCustomers(custs);
-        setFiltered(custs);
+        setPageInfo(pageInfo);
       } catch (err) {
         console.error(err);
         toast({
@@ -85,32 +75,52 @@ export function CustomersTable() {
       }
     };
 
-    fetchAll();
-  }, [toast]);
+    fetchCustomers();
+  }, [query.apiQuery, reloadKey, toast]);
 
-  useEffect(() => {
-    setFiltered(
-      search
-        ? customers.filter((c) =>
-            c.name.toLowerCase().includes(search.toLowerCase())
-          )
-        : customers
-    );
-  }, [search, customers]);
+  const handleRebuildMetrics = async () => {
+    setRebuilding(true);
+    try {
+      const { updated } = await apiFetch<{ updated: number }>(
+        "/api/customers/metrics",
+        { method: "POST" }
+      );
+      toast({
+        title: "Metrics recalculated",
+        description: `Updated ${updated} customers`,
+      });
+      setReloadKey((key) => key + 1);
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to recalculate metrics",
+        variant: "destructive",
+      });
+    } finally {
+      setRebuilding(false);
+    }
+  };
 
   return (
     <>
       <div className="flex items-center gap-4 mb-6">
-        <div className="relative flex-1">
-          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input
-            type="search"
-            placeholder="Search customers..."
-            className="pl-8"
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-          />
-        </div>
+        <TableSearch query={query} placeholder="Search by name or email..." />
+        {can("customers:manage") && (
+          <Button
+            variant="outline"
+            onClick={handleRebuildMetrics}
+            disabled={rebuilding}
+          >
+            {rebuilding ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Recalculate Metrics
+          </Button>
+        )}
+        <ExportDialog resource="customers" filters={{ q: query.q }} />
       </div>
 
       <Card>
@@ -118,7 +128,7 @@ export function CustomersTable() {
           <div className="flex justify-center py-10">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
-        ) : filtered.length === 0 ? (
+        ) : customers.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-10 text-center">
             <p className="text-muted-foreground">No customers found</p>
           </div>
@@ -127,32 +137,63 @@ export function CustomersTable() {
             <TableHeader>
               <TableRow>
                 <TableHead>No.</TableHead>
-                <TableHead>Name</TableHead>
-                <TableHead>Email</TableHead>
-                <TableHead>Joined</TableHead>
-                <TableHead>Orders</TableHead>
-                <TableHead>Total Spent</TableHead>
-                <TableHead>Status</TableHead>
+                <SortableHead query={query} field="name">
+                  Name
+                </SortableHead>
+                <SortableHead query={query} field="email">
+                  Email
+                </SortableHead>
+                <SortableHead query={query} field="createdAt">
+                  Joined
+                </SortableHead>
+                <SortableHead query={query} field="metrics.orderCount">
+                  Orders
+                </SortableHead>
+                <SortableHead query={query} field="metrics.lifetimeValue">
+                  Total Spent
+                </SortableHead>
+                <SortableHead query={query} field="metrics.averageOrderValue">
+                  Avg. Order
+                </SortableHead>
+                <SortableHead query={query} field="metrics.lastOrderAt">
+                  Last Order
+                </SortableHead>
+                <SortableHead query={query} field="status">
+                  Status
+                </SortableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filtered.map((cust, i) => {
-                // metrics lookup
-                // assume you re-fetch metrics here same way or lift metrics to state
-                const { total = 0, count = 0 } = (() => {
-                  // placeholder, in real code lift metrics out
-                  return { total: 0, count: 0 };
-                })();
+              {customers.map((cust, i) => {
+                const metrics = cust.metrics ?? EMPTY_CUSTOMER_METRICS;
                 return (
                   <TableRow key={cust.id}>
-                    <TableCell>{i + 1}</TableCell>
+                    <TableCell>
+                      {(query.page - 1) * query.pageSize + i + 1}
+                    </TableCell>
                     <TableCell className="font-medium">{cust.name}</TableCell>
                     <TableCell>{cust.email}</TableCell>
                     <TableCell>{formatDate(cust.createdAt)}</TableCell>
-                    <TableCell>{count}</TableCell>
-                    <TableCell>${total.toFixed(2)}</TableCell>
-                    <TableCell className="capitalize">{cust.status}</TableCell>
+                    <TableCell>{metrics.orderCount}</TableCell>
+                    <TableCell>{formatMoney(metrics.lifetimeValue)}</TableCell>
+                    <TableCell>
+                      {formatMoney(metrics.averageOrderValue)}
+                    </TableCell>
+                    <TableCell>
+                      {metrics.lastOrderAt
+                        ? formatDate(metrics.lastOrderAt)
+                        : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={getCustomerStatusBadgeVariant(
+                          getCustomerStatus(cust)
+                        )}
+                      >
+                        {CUSTOMER_STATUS_LABELS[getCustomerStatus(cust)]}
+                      </Badge>
+                    </TableCell>
                     <TableCell className="text-right">
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -178,6 +219,11 @@ export function CustomersTable() {
             </TableBody>
           </Table>
         )}
+        <TablePagination
+          query={query}
+          pageInfo={pageInfo}
+          itemCount={customers.length}
+        />
       </Card>
     </>
   );
@@ -3,7 +3,9 @@
 import Link from "next/link"
 import { signOut } from "firebase/auth"
 import { auth } from "@/lib/firebase"
-import { useAuth } from "@/components/auth-provider"
+import { useAuth, useAuthorization } from "@/components/auth-provider"
+import { useStoreSettings } from "@/components/store-settings-provider"
+import { ROLE_LABELS } from "@/lib/permissions"
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
@@ -13,13 +15,19 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { LogOut, Menu, User } from "lucide-react"
+import { LogOut, Menu, User, UserCog } from "lucide-react"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
 import { DashboardNav } from "@/components/dashboard-nav"
+import { CommandPalette } from "@/components/command-palette"
 import Image from "next/image";
 
+// Shown until the store sets its own logo.
+const DEFAULT_LOGO = "https://ls-bucket12345.s3.us-east-1.amazonaws.com/lankaShop.jpeg"
+
 export function DashboardHeader() {
-  const { user } = useAuth()
+  const { user, admin } = useAuth()
+  const { can } = useAuthorization()
+  const { settings } = useStoreSettings()
 
   const handleSignOut = async () => {
     await signOut(auth)
@@ -39,20 +47,34 @@ export function DashboardHeader() {
         </SheetContent>
       </Sheet>
       <Link href="/dashboard" className="flex items-center gap-2 font-semibold">
-          <Image src="https://ls-bucket12345.s3.us-east-1.amazonaws.com/lankaShop.jpeg" alt="Description of the image" width={50} height={50} loading="lazy"></Image>
+          <Image src={settings.logo || DEFAULT_LOGO} alt={settings.name} width={50} height={50} loading="lazy"></Image>
       </Link>
       <div className="ml-auto flex items-center gap-2">
+        {admin && <CommandPalette />}
         {user && (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="sm" className="gap-2">
                 <User className="h-4 w-4" />
-                <span>{user.email}</span>
+                <span>{admin?.name || user.email}</span>
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuLabel>My Account</DropdownMenuLabel>
+              <DropdownMenuLabel>
+                My Account
+                {admin && (
+                  <p className="text-xs font-normal text-muted-foreground">{ROLE_LABELS[admin.role]}</p>
+                )}
+              </DropdownMenuLabel>
               <DropdownMenuSeparator />
+              {can("team:manage") && (
+                <DropdownMenuItem asChild>
+                  <Link href="/dashboard/team">
+                    <UserCog className="mr-2 h-4 w-4" />
+                    <span>Team</span>
+                  </Link>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={handleSignOut}>
                 <LogOut className="mr-2 h-4 w-4" />
                 <span>Log out</span>
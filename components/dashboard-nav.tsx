@@ -3,62 +3,124 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
+import type { Permission } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
+import { useAuthorization } from "@/components/auth-provider";
 import {
+  AlertTriangle,
+  BadgePercent,
+  BarChart3,
   Folder,
+  History,
   FolderTree,
   Home,
   MapPin,
   Package,
+  Settings,
   ShoppingCart,
   Tag,
+  UserCog,
   Users,
+  type LucideIcon,
 } from "lucide-react";
 
-const navItems = [
+export interface NavItem {
+  title: string;
+  href: string;
+  icon: LucideIcon;
+  permission?: Permission;
+}
+
+export const navItems: NavItem[] = [
   {
     title: "Dashboard",
     href: "/dashboard",
     icon: Home,
   },
+  {
+    title: "Analytics",
+    href: "/dashboard/analytics",
+    permission: "analytics:read",
+    icon: BarChart3,
+  },
   {
     title: "Products",
     href: "/dashboard/products",
+    permission: "catalog:read",
     icon: Package,
   },
+  {
+    title: "Low Stock",
+    href: "/dashboard/products/low-stock",
+    permission: "inventory:read",
+    icon: AlertTriangle,
+  },
   {
     title: "Categories",
     href: "/dashboard/categories",
+    permission: "catalog:read",
     icon: Folder,
   },
   {
     title: "Sub Categories",
     href: "/dashboard/subcategories",
+    permission: "catalog:read",
     icon: FolderTree,
   },
   {
     title: "Tags",
     href: "/dashboard/tags",
+    permission: "catalog:read",
     icon: Tag,
   },
   {
     title: "Customers",
     href: "/dashboard/customers",
+    permission: "customers:read",
     icon: Users,
   },
   {
     title: "Orders",
     href: "/dashboard/orders",
+    permission: "orders:read",
     icon: ShoppingCart,
   },
+  {
+    title: "Promotions",
+    href: "/dashboard/promotions",
+    permission: "promotions:manage",
+    icon: BadgePercent,
+  },
+  {
+    title: "Audit Log",
+    href: "/dashboard/audit",
+    permission: "audit:read",
+    icon: History,
+  },
+  {
+    title: "Team",
+    href: "/dashboard/team",
+    permission: "team:manage",
+    icon: UserCog,
+  },
+  {
+    title: "Settings",
+    href: "/dashboard/settings",
+    permission: "settings:manage",
+    icon: Settings,
+  },
 ];
 
 export function DashboardNav() {
   const pathname = usePathname();
+  const { can } = useAuthorization();
+  const visibleItems = navItems.filter(
+    (item) => !item.permission || can(item.permission)
+  );
 
   return (
     <nav className="grid gap-1 p-4 md:w-64 md:border-r md:px-6 md:py-6">
-      {navItems.map((item) => (
+      {visibleItems.map((item) => (
         <Button
           key={item.href}
           variant={pathname === item.href ? "secondary" : "ghost"}
@@ -1,49 +1,32 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { collection, getDocs } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { apiFetch } from "@/lib/api/client";
+import type { DashboardStats as Stats } from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Package, ShoppingCart, Tag, Users } from "lucide-react";
+import { AlertTriangle, Package, ShoppingCart, Tag, Users } from "lucide-react";
+import Link from "next/link";
+import { useStoreSettings } from "@/components/store-settings-provider";
 
 export function DashboardStats() {
-  const [stats, setStats] = useState({
+  const [stats, setStats] = useState<Stats>({
     products: 0,
     orders: 0,
     customers: 0,
     revenue: 0,
+    lowStock: 0,
+    ordersThisMonth: 0,
+    newCustomersThisMonth: 0,
+    revenueThisMonth: 0,
   });
   const [loading, setLoading] = useState(true);
+  const { formatMoney } = useStoreSettings();
 
   useEffect(() => {
     const fetchStats = async () => {
       try {
-        // Get product count
-        const productsSnapshot = await getDocs(collection(db, "products"));
-        const productsCount = productsSnapshot.size;
-
-        // Get orders count and calculate revenue
-        const ordersSnapshot = await getDocs(collection(db, "orders"));
-        const ordersCount = ordersSnapshot.size;
-        let totalRevenue = 0;
-
-        ordersSnapshot.forEach((doc) => {
-          const orderData = doc.data();
-          if (orderData.paymentStatus === "paid") {
-            totalRevenue += Number.parseFloat(orderData.totalAmount) || 0;
-          }
-        });
-
-        // Get customers count
-        const customersSnapshot = await getDocs(collection(db, "customers"));
-        const customersCount = customersSnapshot.size;
-
-        setStats({
-          products: productsCount,
-          orders: ordersCount,
-          customers: customersCount,
-          revenue: totalRevenue,
-        });
+        const { stats } = await apiFetch<{ stats: Stats }>("/api/stats");
+        setStats(stats);
       } catch (error) {
         console.error("Error fetching stats:", error);
       } finally {
@@ -55,7 +38,7 @@ export function DashboardStats() {
   }, []);
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
           <CardTitle className="text-sm font-medium">Total Products</CardTitle>
@@ -79,7 +62,9 @@ export function DashboardStats() {
           <div className="text-2xl font-bold">
             {loading ? "..." : stats.orders}
           </div>
-          <p className="text-xs text-muted-foreground">Orders processed</p>
+          <p className="text-xs text-muted-foreground">
+            {loading ? "Orders placed" : `${stats.ordersThisMonth} this month`}
+          </p>
         </CardContent>
       </Card>
       <Card>
@@ -91,7 +76,11 @@ export function DashboardStats() {
           <div className="text-2xl font-bold">
             {loading ? "..." : stats.customers}
           </div>
-          <p className="text-xs text-muted-foreground">Registered customers</p>
+          <p className="text-xs text-muted-foreground">
+            {loading
+              ? "Registered customers"
+              : `${stats.newCustomersThisMonth} new this month`}
+          </p>
         </CardContent>
       </Card>
       <Card>
@@ -101,13 +90,31 @@ export function DashboardStats() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">
-            {loading ? "..." : `£${stats.revenue.toFixed(2)}`}
+            {loading ? "..." : formatMoney(stats.revenue)}
           </div>
           <p className="text-xs text-muted-foreground">
-            Total revenue from paid orders
+            {loading
+              ? "Total revenue from paid orders"
+              : `${formatMoney(stats.revenueThisMonth)} from paid orders this month`}
           </p>
         </CardContent>
       </Card>
+      <Link href="/dashboard/products/low-stock">
+        <Card className="h-full transition-colors hover:bg-muted/50">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Low Stock</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {loading ? "..." : stats.lowStock}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Products at or below their threshold
+            </p>
+          </CardContent>
+        </Card>
+      </Link>
     </div>
   );
 }
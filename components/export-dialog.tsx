@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { useAuthorization } from "@/components/auth-provider"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { useToast } from "@/components/ui/use-toast"
+import { Download, Loader2 } from "lucide-react"
+import { apiDownload } from "@/lib/api/client"
+import { type ExportFormat, type ExportResource, EXPORT_FORMATS, getExportColumns } from "@/lib/export"
+import type { TableFilters } from "@/lib/table-filters"
+
+interface ExportDialogProps {
+  resource: ExportResource
+  // The table's current search and filters; the export contains the same rows.
+  filters: TableFilters
+}
+
+export function ExportDialog({ resource, filters }: ExportDialogProps) {
+  const { can } = useAuthorization()
+  const columns = getExportColumns(resource, can)
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [selected, setSelected] = useState<string[]>(
+    columns.filter((column) => column.default).map((column) => column.key),
+  )
+  const [exporting, setExporting] = useState(false)
+  const { toast } = useToast()
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Keep the columns in their listed order.
+    setSelected((prev) =>
+      columns
+        .map((column) => column.key)
+        .filter((columnKey) => (columnKey === key ? checked : prev.includes(columnKey))),
+    )
+  }
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const params = new URLSearchParams({ format, columns: selected.join(",") })
+      if (filters.q) params.set("q", filters.q)
+      if (filters.overdueDays) params.set("overdueDays", String(filters.overdueDays))
+      await apiDownload(`/api/export/${resource}?${params}`)
+      setOpen(false)
+    } catch (error: any) {
+      console.error("Error exporting:", error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export",
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const filtered = !!filters.q || !!filters.overdueDays
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export {resource}</DialogTitle>
+          <DialogDescription>
+            {filtered ? `Exports the ${resource} matching the current search and filters.` : `Exports all ${resource}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label>Format</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="flex gap-6"
+            >
+              {EXPORT_FORMATS.map((entry) => (
+                <div key={entry.format} className="flex items-center gap-2">
+                  <RadioGroupItem value={entry.format} id={`export-format-${entry.format}`} />
+                  <Label htmlFor={`export-format-${entry.format}`} className="font-normal">
+                    {entry.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelected(columns.map((column) => column.key))}
+                >
+                  All
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setSelected([])}>
+                  None
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {columns.map((column) => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-column-${column.key}`}
+                    checked={selected.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export-column-${column.key}`} className="font-normal">
+                    {column.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || selected.length === 0}>
+            {exporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,7 +4,7 @@ import type React from "react"
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { signInWithEmailAndPassword } from "firebase/auth"
+import { sendPasswordResetEmail, signInWithEmailAndPassword } from "firebase/auth"
 import { auth } from "@/lib/firebase"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -35,7 +35,10 @@ export function LoginForm() {
     } catch (error: any) {
       toast({
         title: "Login failed",
-        description: error.message || "Please check your credentials",
+        description:
+          error.code === "auth/user-disabled"
+            ? "This account has been deactivated. Contact the store owner."
+            : error.message || "Please check your credentials",
         variant: "destructive",
       })
     } finally {
@@ -43,6 +46,32 @@ export function LoginForm() {
     }
   }
 
+  // Invited staff receive a password-set link by email; this sends a fresh
+  // one to anyone who lost theirs.
+  const handleForgotPassword = async () => {
+    if (!email) {
+      toast({
+        title: "Enter your email",
+        description: "Type your email address first, then request a reset link",
+        variant: "destructive",
+      })
+      return
+    }
+    try {
+      await sendPasswordResetEmail(auth, email)
+      toast({
+        title: "Check your inbox",
+        description: "If this email has an account, a reset link is on its way",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send reset link",
+        variant: "destructive",
+      })
+    }
+  }
+
   const togglePasswordVisibility = () => {
     setShowPassword(!showPassword)
   }
@@ -71,7 +100,16 @@ export function LoginForm() {
             </div>
           </div>
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="password">Password</Label>
+              <button
+                type="button"
+                onClick={handleForgotPassword}
+                className="text-sm text-muted-foreground hover:text-foreground hover:underline"
+              >
+                Forgot password?
+              </button>
+            </div>
             <div className="relative">
               <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
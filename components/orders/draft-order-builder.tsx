@@ -0,0 +1,845 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, Loader2, Search, Trash2, X } from "lucide-react";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiFetch } from "@/lib/api/client";
+import {
+  type DraftOrderQuote,
+  type DraftPaymentMethod,
+  DRAFT_PAYMENT_METHODS,
+  DRAFT_PAYMENT_METHOD_LABELS,
+  getDraftProblems,
+} from "@/lib/draft-orders";
+import { formatVariantLabel } from "@/lib/product-variants";
+import { normalizeCode } from "@/lib/promotions";
+import type { DraftOrderInput, DraftOrderQuoteInput } from "@/lib/schemas";
+import type { Address, Customer, Order, Product } from "@/lib/types";
+
+const SEARCH_DELAY = 300;
+const RESULT_LIMIT = 5;
+
+const EMPTY_ADDRESS = {
+  label: "Home",
+  street: "",
+  city: "",
+  state: "",
+  postalCode: "",
+  country: "",
+};
+
+interface DraftLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+interface SearchPickerProps<T> {
+  placeholder: string;
+  search: (query: string) => Promise<T[]>;
+  render: (item: T) => React.ReactNode;
+  onSelect: (item: T) => void;
+}
+
+// A search box listing matches once typing pauses, for picking a record.
+function SearchPicker<T extends { id: string }>({
+  placeholder,
+  search,
+  render,
+  onSelect,
+}: SearchPickerProps<T>) {
+  const [value, setValue] = useState("");
+  const [results, setResults] = useState<T[]>([]);
+  const [loading, setLoading] = useState(false);
+  const query = value.trim();
+
+  useEffect(() => {
+    if (!query) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const items = await search(query);
+        if (!cancelled) setResults(items);
+      } catch (err) {
+        console.error("Error searching:", err);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, search]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          className="pl-8"
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+      </div>
+      {query && (
+        <div className="rounded-md border">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No matches</p>
+          ) : (
+            results.map((item) => (
+              <button
+                key={item.id}
+                type="button"
+                className="block w-full border-b p-3 text-left text-sm last:border-b-0 hover:bg-muted"
+                onClick={() => {
+                  onSelect(item);
+                  setValue("");
+                }}
+              >
+                {render(item)}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const searchCustomers = (q: string) =>
+  apiFetch<{ customers: Customer[] }>(
+    `/api/customers?${new URLSearchParams({ q, pageSize: String(RESULT_LIMIT) })}`
+  ).then((data) => data.customers);
+
+const searchProducts = (q: string) =>
+  apiFetch<{ products: Product[] }>(
+    `/api/products?${new URLSearchParams({ q, pageSize: String(RESULT_LIMIT) })}`
+  ).then((data) => data.products);
+
+// Builds an order taken by phone or chat: the customer, where it goes, what
+// they ordered and how they pay. The draft is priced by the server as it
+// changes, so staff see stock, discounts, shipping and tax before placing
+// it.
+export function DraftOrderBuilder() {
+  const [customerMode, setCustomerMode] = useState<"existing" | "new">(
+    "existing"
+  );
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [newCustomer, setNewCustomer] = useState({ name: "", email: "" });
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [addressId, setAddressId] = useState<string>("new");
+  const [newAddress, setNewAddress] = useState(EMPTY_ADDRESS);
+  const [products, setProducts] = useState<Record<string, Product>>({});
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [codes, setCodes] = useState<string[]>([]);
+  const [codeInput, setCodeInput] = useState("");
+  const [shippingRateId, setShippingRateId] = useState<string | null>(null);
+  const [payment, setPayment] = useState<DraftPaymentMethod>("cod");
+  const [note, setNote] = useState("");
+  const [quote, setQuote] = useState<DraftOrderQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+  const { formatMoney } = useStoreSettings();
+
+  const existingCustomer = customerMode === "existing" ? customer : null;
+
+  useEffect(() => {
+    setAddresses([]);
+    setAddressId("new");
+    if (!existingCustomer) return;
+    apiFetch<{ addresses: Address[] }>(
+      `/api/addresses?userId=${encodeURIComponent(existingCustomer.userId)}`
+    )
+      .then(({ addresses }) => {
+        setAddresses(addresses);
+        if (addresses.length > 0) setAddressId(addresses[0].id);
+      })
+      .catch((err) => {
+        console.error("Error fetching addresses:", err);
+        toast({
+          title: "Error",
+          description: "Failed to load the customer's addresses",
+          variant: "destructive",
+        });
+      });
+  }, [existingCustomer, toast]);
+
+  const selectedAddress = addresses.find((entry) => entry.id === addressId);
+  const delivery = selectedAddress ?? newAddress;
+  const destination = delivery.country.trim()
+    ? {
+        country: delivery.country,
+        region: delivery.state,
+        postalCode: delivery.postalCode,
+      }
+    : null;
+  const quoteInput: DraftOrderQuoteInput | null =
+    lines.length > 0
+      ? {
+          userId: existingCustomer?.userId ?? null,
+          destination,
+          lines,
+          codes,
+          shippingRateId,
+        }
+      : null;
+  const quoteKey = quoteInput ? JSON.stringify(quoteInput) : null;
+  const destinationKey = JSON.stringify(destination);
+
+  // Methods differ between zones, so a new address starts from the cheapest.
+  useEffect(() => {
+    setShippingRateId(null);
+  }, [destinationKey]);
+
+  useEffect(() => {
+    if (!quoteKey) {
+      setQuote(null);
+      setQuoteError(null);
+      return;
+    }
+    let cancelled = false;
+    setQuoting(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const { quote } = await apiFetch<{ quote: DraftOrderQuote }>(
+          "/api/orders/quote",
+          { method: "POST", body: quoteKey }
+        );
+        if (cancelled) return;
+        setQuote(quote);
+        setQuoteError(null);
+      } catch (err: any) {
+        if (cancelled) return;
+        setQuote(null);
+        setQuoteError(err.message || "Failed to price the order");
+      } finally {
+        if (!cancelled) setQuoting(false);
+      }
+    }, SEARCH_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [quoteKey]);
+
+  const addProduct = (product: Product) => {
+    setProducts((prev) => ({ ...prev, [product.id]: product }));
+    setLines((prev) => [
+      ...prev,
+      {
+        productId: product.id,
+        variantId: product.variants?.[0]?.id,
+        quantity: 1,
+      },
+    ]);
+  };
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  const addCode = () => {
+    const code = normalizeCode(codeInput);
+    if (code && !codes.includes(code)) setCodes((prev) => [...prev, code]);
+    setCodeInput("");
+  };
+
+  const customerReady =
+    customerMode === "existing"
+      ? !!customer
+      : !!newCustomer.name.trim() && !!newCustomer.email.trim();
+  const addressReady =
+    !!selectedAddress ||
+    (!!newAddress.street.trim() &&
+      !!newAddress.city.trim() &&
+      !!newAddress.country.trim());
+  const problems = quote ? getDraftProblems(quote) : [];
+  const canPlace =
+    customerReady &&
+    addressReady &&
+    !!quote?.shipping &&
+    problems.length === 0 &&
+    !quoting &&
+    !saving;
+
+  const handlePlace = async () => {
+    if (!quote?.shipping) return;
+    const input: DraftOrderInput = {
+      customer:
+        customerMode === "existing"
+          ? { type: "existing", userId: customer!.userId }
+          : { type: "new", ...newCustomer },
+      address: selectedAddress
+        ? { type: "existing", addressId: selectedAddress.id }
+        : { type: "new", ...newAddress },
+      lines,
+      codes,
+      shippingRateId: quote.shipping.rateId,
+      payment,
+      note,
+    };
+    setSaving(true);
+    try {
+      const { order } = await apiFetch<{ order: Order }>("/api/orders", {
+        method: "POST",
+        body: JSON.stringify(input),
+      });
+      toast({
+        title: "Order created",
+        description: `Order #${order.orderId} has been created`,
+      });
+      if (payment === "payment_link") {
+        try {
+          await apiFetch(`/api/orders/${order.id}/payment-link`, {
+            method: "POST",
+          });
+          toast({
+            title: "Payment link sent",
+            description: "The customer has been emailed a link to pay",
+          });
+        } catch (err: any) {
+          console.error(err);
+          toast({
+            title: "Payment link not sent",
+            description: `${err.message || "Failed to send the payment link"}. Send it again from the order.`,
+            variant: "destructive",
+          });
+        }
+      }
+      router.push(`/dashboard/orders/${order.id}`);
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to create order",
+        variant: "destructive",
+      });
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Button variant="outline" asChild>
+        <Link href="/dashboard/orders">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Orders
+        </Link>
+      </Button>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Tabs
+                value={customerMode}
+                onValueChange={(value) =>
+                  setCustomerMode(value as "existing" | "new")
+                }
+              >
+                <TabsList>
+                  <TabsTrigger value="existing">Existing customer</TabsTrigger>
+                  <TabsTrigger value="new">New customer</TabsTrigger>
+                </TabsList>
+                <TabsContent value="existing" className="space-y-3">
+                  {customer ? (
+                    <div className="flex items-center justify-between rounded-md border p-3">
+                      <div>
+                        <p className="font-medium">{customer.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {customer.email}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCustomer(null)}
+                      >
+                        Change
+                      </Button>
+                    </div>
+                  ) : (
+                    <SearchPicker
+                      placeholder="Search customers by name or email..."
+                      search={searchCustomers}
+                      onSelect={setCustomer}
+                      render={(entry) => (
+                        <>
+                          <span className="font-medium">{entry.name}</span>{" "}
+                          <span className="text-muted-foreground">
+                            {entry.email}
+                          </span>
+                        </>
+                      )}
+                    />
+                  )}
+                </TabsContent>
+                <TabsContent value="new" className="space-y-3">
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="customer-name">Name</Label>
+                      <Input
+                        id="customer-name"
+                        value={newCustomer.name}
+                        onChange={(e) =>
+                          setNewCustomer({ ...newCustomer, name: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="customer-email">Email</Label>
+                      <Input
+                        id="customer-email"
+                        type="email"
+                        value={newCustomer.email}
+                        onChange={(e) =>
+                          setNewCustomer({
+                            ...newCustomer,
+                            email: e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Creates a storefront account for this email, which the
+                    customer can sign in to once they set a password.
+                  </p>
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Delivery address</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {addresses.length > 0 && (
+                <Select value={addressId} onValueChange={setAddressId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {addresses.map((entry) => (
+                      <SelectItem key={entry.id} value={entry.id}>
+                        {entry.label}: {entry.street}, {entry.city}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="new">New address</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {selectedAddress ? (
+                <div className="text-sm">
+                  <p>{selectedAddress.street}</p>
+                  <p>
+                    {selectedAddress.city}, {selectedAddress.state}{" "}
+                    {selectedAddress.postalCode}
+                  </p>
+                  <p>{selectedAddress.country}</p>
+                </div>
+              ) : (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {(
+                    [
+                      ["label", "Label"],
+                      ["street", "Street"],
+                      ["city", "City"],
+                      ["state", "State / province"],
+                      ["postalCode", "Postal code"],
+                      ["country", "Country"],
+                    ] as const
+                  ).map(([field, label]) => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={`address-${field}`}>{label}</Label>
+                      <Input
+                        id={`address-${field}`}
+                        value={newAddress[field]}
+                        onChange={(e) =>
+                          setNewAddress({
+                            ...newAddress,
+                            [field]: e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Products</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <SearchPicker
+                placeholder="Search products to add..."
+                search={searchProducts}
+                onSelect={addProduct}
+                render={(product) => (
+                  <>
+                    <span className="font-medium">{product.name}</span>{" "}
+                    <span className="text-muted-foreground">
+                      {formatMoney(product.price)}
+                    </span>
+                  </>
+                )}
+              />
+              {lines.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="w-24">Quantity</TableHead>
+                      <TableHead className="text-right">In stock</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line, index) => {
+                      const product = products[line.productId];
+                      const priced = quote?.products[index];
+                      return (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <p className="font-medium">{product?.name}</p>
+                            {!!product?.variants?.length && (
+                              <Select
+                                value={line.variantId}
+                                onValueChange={(variantId) =>
+                                  updateLine(index, { variantId })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {product.variants.map((variant) => (
+                                    <SelectItem
+                                      key={variant.id}
+                                      value={variant.id}
+                                    >
+                                      {formatVariantLabel(variant.options)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={line.quantity}
+                              onChange={(e) =>
+                                updateLine(index, {
+                                  quantity: Math.max(
+                                    1,
+                                    Math.floor(Number(e.target.value)) || 1
+                                  ),
+                                })
+                              }
+                              aria-label="Quantity"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {priced ? (
+                              <span
+                                className={
+                                  priced.available < line.quantity
+                                    ? "text-destructive"
+                                    : undefined
+                                }
+                              >
+                                {priced.available}
+                              </span>
+                            ) : (
+                              "—"
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {priced
+                              ? formatMoney(
+                                  priced.price * priced.quantity,
+                                  quote!.currency
+                                )
+                              : "—"}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() =>
+                                setLines((prev) =>
+                                  prev.filter((_, i) => i !== index)
+                                )
+                              }
+                              aria-label="Remove product"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Discount codes</CardTitle>
+              <CardDescription>
+                Automatic promotions apply without a code.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Code"
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addCode();
+                    }
+                  }}
+                />
+                <Button variant="outline" onClick={addCode}>
+                  Apply
+                </Button>
+              </div>
+              {codes.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {codes.map((code) => (
+                    <Badge key={code} variant="secondary" className="gap-1">
+                      {code}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setCodes((prev) => prev.filter((c) => c !== code))
+                        }
+                        aria-label={`Remove ${code}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Shipping</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!quote?.shippingOptions?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  Add products and an address to see shipping methods.
+                </p>
+              ) : (
+                <RadioGroup
+                  value={quote.shipping?.rateId ?? ""}
+                  onValueChange={setShippingRateId}
+                >
+                  {quote.shippingOptions.map((option) => (
+                    <div
+                      key={option.rateId}
+                      className="flex items-center gap-2"
+                    >
+                      <RadioGroupItem
+                        value={option.rateId}
+                        id={`shipping-${option.rateId}`}
+                      />
+                      <Label
+                        htmlFor={`shipping-${option.rateId}`}
+                        className="flex flex-1 justify-between font-normal"
+                      >
+                        <span>{option.name}</span>
+                        <span>
+                          {option.free
+                            ? "Free"
+                            : formatMoney(option.price, quote.currency)}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <RadioGroup
+                value={payment}
+                onValueChange={(value) =>
+                  setPayment(value as DraftPaymentMethod)
+                }
+              >
+                {DRAFT_PAYMENT_METHODS.map((method) => (
+                  <div key={method} className="flex items-center gap-2">
+                    <RadioGroupItem value={method} id={`payment-${method}`} />
+                    <Label htmlFor={`payment-${method}`} className="font-normal">
+                      {DRAFT_PAYMENT_METHOD_LABELS[method]}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <p className="text-sm text-muted-foreground">
+                {payment === "payment_link"
+                  ? "The order stays unpaid until the customer pays the link emailed to them."
+                  : "The order is recorded as paid."}
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="order-note">Note</Label>
+                <Textarea
+                  id="order-note"
+                  placeholder="e.g. Ordered by WhatsApp"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {quoting ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : quote ? (
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>{formatMoney(quote.subtotal, quote.currency)}</span>
+                  </div>
+                  {quote.discount.promotions.map((promotion) => (
+                    <div
+                      key={promotion.id}
+                      className="flex justify-between text-muted-foreground"
+                    >
+                      <span>{promotion.code ?? promotion.name}</span>
+                      <span>
+                        -{formatMoney(promotion.amount, quote.currency)}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between">
+                    <span>Shipping</span>
+                    <span>
+                      {formatMoney(quote.shippingTotal, quote.currency)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>
+                      Tax{quote.tax.pricesIncludeTax ? " (included)" : ""}
+                    </span>
+                    <span>{formatMoney(quote.tax.total, quote.currency)}</span>
+                  </div>
+                  <div className="flex justify-between pt-2 font-medium">
+                    <span>Total</span>
+                    <span>
+                      {formatMoney(quote.totalAmount, quote.currency)}
+                    </span>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {quoteError ?? "Add products to price the order."}
+                </p>
+              )}
+              {problems.length > 0 && (
+                <ul className="list-disc space-y-1 pl-5 text-sm text-destructive">
+                  {problems.map((problem) => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              )}
+              <Button
+                className="w-full"
+                disabled={!canPlace}
+                onClick={handlePlace}
+              >
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {payment === "payment_link"
+                  ? "Create order and send link"
+                  : "Create paid order"}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
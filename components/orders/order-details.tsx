@@ -1,16 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
-import {
-  doc,
-  getDoc,
-  collection,
-  query,
-  where,
-  getDocs,
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -33,64 +24,70 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { RefundDialog } from "@/components/orders/refund-dialog";
+import { ShipmentDialog } from "@/components/orders/shipment-dialog";
+import { TrackingTimeline } from "@/components/orders/tracking-timeline";
+import { useAuthorization } from "@/components/auth-provider";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiFetch } from "@/lib/api/client";
+import {
+  type FulfillmentStatus,
+  type OrderShipment,
+  FULFILLMENT_LABELS,
+  getFulfillmentBadgeVariant,
+  getFulfillmentStatus,
+  getNextFulfillmentStatuses,
+} from "@/lib/order-fulfillment";
+import { canChangePaymentStatus } from "@/lib/payment-status";
+import {
+  REFUND_REASON_LABELS,
+  REFUND_STATUS_LABELS,
+  canRefund,
+  getRefundedTotal,
+} from "@/lib/refunds";
+import type { RefundInput } from "@/lib/schemas";
+import type { ShippingQuote } from "@/lib/shipping";
+import { getOrderAmounts } from "@/lib/tax";
+import type { Address, Customer, Order } from "@/lib/types";
+import { formatWeight, massUnit } from "@/lib/weight";
 
 interface OrderDetailsProps {
   orderId: string;
 }
 
-interface OrderProduct {
-  productId: string;
-  name: string;
-  quantity: number;
-  price: string;
-}
-
-interface Order {
-  id: string;
-  orderId: string;
-  userId: string; // this is the lookup key
-  createdAt: string;
-  products: OrderProduct[];
-  subtotal: string;
-  totalAmount: string;
-  shippingAddressId?: string;
-  paymentStatus: string;
-  paymentProvider: string;
-  stripeSessionId?: string;
-}
-
-interface Address {
-  id: string;
-  label: string;
-  street: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  country: string;
-}
-
-interface CustomerInfo {
-  id: string;
-  userId: string; // same field we query on
-  name: string;
-  email: string;
-  status: "active" | "deactive" | "suspend";
-}
-
 export function OrderDetails({ orderId }: OrderDetailsProps) {
   const [order, setOrder] = useState<Order | null>(null);
   const [address, setAddress] = useState<Address | null>(null);
-  const [customerInfo, setCustomerInfo] = useState<CustomerInfo | null>(null);
+  const [customerInfo, setCustomerInfo] = useState<Customer | null>(null);
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(
+    null
+  );
   const [loading, setLoading] = useState(true);
+  const [transitioning, setTransitioning] = useState(false);
+  const [shipDialogOpen, setShipDialogOpen] = useState(false);
+  const [refundDialogOpen, setRefundDialogOpen] = useState(false);
+  const [refunding, setRefunding] = useState(false);
+  const [sendingLink, setSendingLink] = useState(false);
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const { toast } = useToast();
+  const { settings, formatMoney, formatDate } = useStoreSettings();
+  const { can } = useAuthorization();
+  const canReadCustomers = can("customers:read");
+  const canFulfill = can("orders:fulfill");
 
   useEffect(() => {
     const fetchDetails = async () => {
       try {
         // 1) Load the order
-        const orderSnap = await getDoc(doc(db, "orders", orderId));
-        if (!orderSnap.exists()) {
+        let orderData: Order;
+        try {
+          ({ order: orderData } = await apiFetch<{ order: Order }>(
+            `/api/orders/${orderId}`
+          ));
+        } catch (err: any) {
+          if (err.status !== 404) throw err;
           toast({
             title: "Order not found",
             description: "The order you're looking for doesn't exist",
@@ -99,28 +96,37 @@ export function OrderDetails({ orderId }: OrderDetailsProps) {
           router.push("/dashboard/orders");
           return;
         }
-        const orderData = { id: orderSnap.id, ...(orderSnap.data() as Order) };
         setOrder(orderData);
 
+        // Orders that didn't record their shipping show today's rates
+        if (!orderData.shipping) {
+          const { quote } = await apiFetch<{ quote: ShippingQuote | null }>(
+            `/api/orders/${orderId}/shipping`
+          ).catch((err) => {
+            console.error(err);
+            return { quote: null };
+          });
+          setShippingQuote(quote);
+        }
+        if (!canReadCustomers) return;
+
         // 2) Lookup customer by userId field
-        const custQ = query(
-          collection(db, "customers"),
-          where("userId", "==", orderData.userId)
+        const { customers } = await apiFetch<{ customers: Customer[] }>(
+          `/api/customers?userId=${encodeURIComponent(orderData.userId)}`
         );
-        const custSnap = await getDocs(custQ);
-        if (!custSnap.empty) {
-          const c = custSnap.docs[0];
-          setCustomerInfo(c.data() as CustomerInfo);
+        if (customers.length > 0) {
+          setCustomerInfo(customers[0]);
         }
 
         // 3) Load shipping address if present
         if (orderData.shippingAddressId) {
-          const addrSnap = await getDoc(
-            doc(db, "addresses", orderData.shippingAddressId)
-          );
-          if (addrSnap.exists()) {
-            setAddress(addrSnap.data() as Address);
-          }
+          const { address } = await apiFetch<{ address: Address | null }>(
+            `/api/addresses/${orderData.shippingAddressId}`
+          ).catch((err) => {
+            if (err.status === 404) return { address: null };
+            throw err;
+          });
+          setAddress(address);
         }
       } catch (err) {
         console.error(err);
@@ -135,7 +141,111 @@ export function OrderDetails({ orderId }: OrderDetailsProps) {
     };
 
     fetchDetails();
-  }, [orderId, router, toast]);
+  }, [orderId, router, toast, canReadCustomers]);
+
+  // `?ship=1`, from the command palette's "Mark order shipped", opens the
+  // shipment dialog once the order has loaded, if it can be shipped.
+  const shipRequested = searchParams.get("ship") === "1";
+  useEffect(() => {
+    if (!order || !shipRequested) return;
+    router.replace(pathname, { scroll: false });
+    if (
+      canFulfill &&
+      getNextFulfillmentStatuses(getFulfillmentStatus(order)).includes("shipped")
+    ) {
+      setShipDialogOpen(true);
+    }
+  }, [order, shipRequested, canFulfill, router, pathname]);
+
+  const handleFulfillmentChange = async (
+    to: FulfillmentStatus,
+    shipment?: Omit<OrderShipment, "shippedAt">
+  ) => {
+    setTransitioning(true);
+    try {
+      const { order: updated } = await apiFetch<{ order: Order }>(
+        `/api/orders/${orderId}/fulfillment`,
+        {
+          method: "POST",
+          body: JSON.stringify({ status: to, shipment }),
+        }
+      );
+      setOrder(updated);
+      setShipDialogOpen(false);
+      toast({
+        title: "Order updated",
+        description: `Order marked as ${FULFILLMENT_LABELS[to].toLowerCase()}`,
+      });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to update fulfillment status",
+        variant: "destructive",
+      });
+    } finally {
+      setTransitioning(false);
+    }
+  };
+
+  const handleSendPaymentLink = async () => {
+    setSendingLink(true);
+    try {
+      const { order: updated } = await apiFetch<{ order: Order }>(
+        `/api/orders/${orderId}/payment-link`,
+        { method: "POST" }
+      );
+      setOrder(updated);
+      toast({
+        title: "Payment link sent",
+        description: updated.paymentLink?.sentTo
+          ? `Emailed to ${updated.paymentLink.sentTo}`
+          : "Emailed to the customer",
+      });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to send the payment link",
+        variant: "destructive",
+      });
+    } finally {
+      setSendingLink(false);
+    }
+  };
+
+  const handleRefund = async (input: RefundInput) => {
+    setRefunding(true);
+    try {
+      const { order: updated } = await apiFetch<{ order: Order }>(
+        `/api/orders/${orderId}/refunds`,
+        { method: "POST", body: JSON.stringify(input) }
+      );
+      setOrder(updated);
+      setRefundDialogOpen(false);
+      const refund = updated.refunds![updated.refunds!.length - 1];
+      toast({
+        title: refund.status === "pending" ? "Refund pending" : "Refunded",
+        description:
+          refund.status === "pending"
+            ? "The payment provider will finish the refund shortly"
+            : `${formatMoney(refund.amount, updated.currency)} refunded`,
+      });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to refund order",
+        variant: "destructive",
+      });
+      // Refunds the provider refused are still listed, as failed
+      apiFetch<{ order: Order }>(`/api/orders/${orderId}`)
+        .then(({ order }) => setOrder(order))
+        .catch((error) => console.error(error));
+    } finally {
+      setRefunding(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -159,6 +269,26 @@ export function OrderDetails({ orderId }: OrderDetailsProps) {
     );
   }
 
+  const fulfillmentStatus = getFulfillmentStatus(order);
+  const amounts = getOrderAmounts(order);
+  const weightUnit = massUnit(settings.weightUnit);
+  const promotionNames = new Map(
+    (order.discount?.promotions ?? []).map((promotion) => [
+      promotion.id,
+      promotion.code ?? promotion.name,
+    ])
+  );
+  const refunds = order.refunds ?? [];
+  const refundedTotal = getRefundedTotal(order);
+  const nextStatuses = canFulfill
+    ? getNextFulfillmentStatuses(fulfillmentStatus)
+    : [];
+  // Only orders taken by staff are paid through links they send.
+  const canSendPaymentLink =
+    can("orders:create") &&
+    !!order.placedBy &&
+    canChangePaymentStatus(order.paymentStatus, "paid");
+
   return (
     <div className="space-y-6">
       <Button variant="outline" asChild>
@@ -205,7 +335,8 @@ export function OrderDetails({ orderId }: OrderDetailsProps) {
                   variant={
                     order.paymentStatus === "paid"
                       ? "success"
-                      : order.paymentStatus === "pending"
+                      : order.paymentStatus === "pending" ||
+                        order.paymentStatus === "partially_refunded"
                       ? "warning"
                       : "destructive"
                   }
@@ -227,7 +358,51 @@ export function OrderDetails({ orderId }: OrderDetailsProps) {
                   <p className="truncate text-xs">{order.stripeSessionId}</p>
                 </div>
               )}
+              {order.placedBy && (
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    Placed By
+                  </p>
+                  <p>{order.placedBy}</p>
+                </div>
+              )}
+              {order.paymentLink && (
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    Payment Link
+                  </p>
+                  <p className="text-sm">
+                    {canReadCustomers && order.paymentLink.sentTo
+                      ? `Sent to ${order.paymentLink.sentTo} on `
+                      : "Sent on "}
+                    {formatDate(order.paymentLink.sentAt)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Expires {formatDate(order.paymentLink.expiresAt)}
+                  </p>
+                </div>
+              )}
             </div>
+            {order.note && (
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">
+                  Note
+                </p>
+                <p className="whitespace-pre-wrap">{order.note}</p>
+              </div>
+            )}
+            {canSendPaymentLink && (
+              <Button
+                variant="outline"
+                disabled={sendingLink}
+                onClick={handleSendPaymentLink}
+              >
+                {sendingLink && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                {order.paymentLink ? "Resend payment link" : "Send payment link"}
+              </Button>
+            )}
           </CardContent>
         </Card>
 
@@ -250,8 +425,158 @@ export function OrderDetails({ orderId }: OrderDetailsProps) {
             </CardContent>
           </Card>
         )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Shipping</CardTitle>
+            <CardDescription>
+              {order.shipping
+                ? "How this order was shipped"
+                : "Not recorded for this order"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {order.shipping ? (
+              <div className="grid grid-cols-2 gap-x-12 gap-y-4">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    Method
+                  </p>
+                  <p>{order.shipping.method}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    Zone
+                  </p>
+                  <p>{order.shipping.zoneName}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    Weight
+                  </p>
+                  <p>{formatWeight(order.shipping.weight, weightUnit)}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    Charged
+                  </p>
+                  <p>
+                    {order.shipping.free
+                      ? "Free"
+                      : formatMoney(amounts.shipping, order.currency)}
+                  </p>
+                </div>
+              </div>
+            ) : shippingQuote ? (
+              <div className="space-y-2 text-sm">
+                <p className="text-muted-foreground">
+                  At today&apos;s rates, {shippingQuote.zoneName} ·{" "}
+                  {formatWeight(shippingQuote.weight, weightUnit)}:
+                </p>
+                {shippingQuote.options.length === 0 ? (
+                  <p>No rate covers this order</p>
+                ) : (
+                  shippingQuote.options.map((option) => (
+                    <div key={option.rateId} className="flex justify-between">
+                      <span>{option.name}</span>
+                      <span>
+                        {option.free ? "Free" : formatMoney(option.price)}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No shipping zone covers this order&apos;s address, or it has none
+              </p>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Fulfillment */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Fulfillment</CardTitle>
+          <CardDescription>
+            Current status:{" "}
+            <Badge variant={getFulfillmentBadgeVariant(fulfillmentStatus)}>
+              {FULFILLMENT_LABELS[fulfillmentStatus]}
+            </Badge>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {nextStatuses.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {nextStatuses.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={
+                    status === "cancelled" || status === "returned"
+                      ? "outline"
+                      : "default"
+                  }
+                  disabled={transitioning}
+                  onClick={() =>
+                    status === "shipped"
+                      ? setShipDialogOpen(true)
+                      : handleFulfillmentChange(status)
+                  }
+                >
+                  {transitioning && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Mark as {FULFILLMENT_LABELS[status]}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {can("orders:fulfill")
+                ? "This order is closed and cannot change status."
+                : "You don't have permission to change this order's status."}
+            </p>
+          )}
+          {(order.fulfillmentHistory ?? []).length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Changed By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...(order.fulfillmentHistory ?? [])]
+                  .reverse()
+                  .map((entry) => (
+                    <TableRow key={`${entry.changedAt}-${entry.to}`}>
+                      <TableCell>
+                        {new Date(entry.changedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{FULFILLMENT_LABELS[entry.from]}</TableCell>
+                      <TableCell>{FULFILLMENT_LABELS[entry.to]}</TableCell>
+                      <TableCell>{entry.changedBy ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {order.shipment && <TrackingTimeline shipment={order.shipment} />}
+
+      <ShipmentDialog
+        open={shipDialogOpen}
+        saving={transitioning}
+        onOpenChange={setShipDialogOpen}
+        onSubmit={(shipment) => handleFulfillmentChange("shipped", shipment)}
+      />
+
       {/* Order Items */}
       <Card>
         <CardHeader>
@@ -270,12 +595,32 @@ export function OrderDetails({ orderId }: OrderDetailsProps) {
             </TableHeader>
             <TableBody>
               {order.products.map((p) => (
-                <TableRow key={p.productId}>
-                  <TableCell className="font-medium">{p.name}</TableCell>
+                <TableRow key={`${p.productId}-${p.variantId ?? ""}`}>
+                  <TableCell className="font-medium">
+                    {p.name}
+                    {p.variantLabel && (
+                      <p className="text-xs text-muted-foreground">
+                        {p.variantLabel}
+                        {p.sku && ` · ${p.sku}`}
+                      </p>
+                    )}
+                    {(p.discounts ?? []).map((discount) => (
+                      <p
+                        key={discount.promotionId}
+                        className="text-xs text-green-600"
+                      >
+                        {promotionNames.get(discount.promotionId) ??
+                          "Discount"}{" "}
+                        −{formatMoney(discount.amount, order.currency)}
+                      </p>
+                    ))}
+                  </TableCell>
                   <TableCell className="text-right">{p.quantity}</TableCell>
-                  <TableCell className="text-right">£{p.price}</TableCell>
                   <TableCell className="text-right">
-                    £{(parseFloat(p.price) * p.quantity).toFixed(2)}
+                    {formatMoney(p.price, order.currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(p.price * p.quantity, order.currency)}
                   </TableCell>
                 </TableRow>
               ))}
@@ -283,19 +628,183 @@ export function OrderDetails({ orderId }: OrderDetailsProps) {
           </Table>
         </CardContent>
         <CardFooter className="flex flex-col items-end space-y-4">
-          <div className="space-y-1 text-right w-full max-w-[200px]">
+          <div className="space-y-1 text-right w-full max-w-[280px]">
             <div className="flex justify-between text-sm">
               <span>Subtotal</span>
-              <span>£{order.subtotal}</span>
+              <span>{formatMoney(amounts.subtotal, order.currency)}</span>
+            </div>
+            {order.discount?.promotions.map((promotion) => (
+              <div
+                key={promotion.id}
+                className="flex justify-between text-sm text-green-600"
+              >
+                <span>
+                  {promotion.name}
+                  {promotion.code && ` (${promotion.code})`}
+                </span>
+                <span>−{formatMoney(promotion.amount, order.currency)}</span>
+              </div>
+            ))}
+            {order.tax ? (
+              order.tax.lines.map((line) => (
+                <div
+                  key={line.key}
+                  className="flex justify-between text-sm text-muted-foreground"
+                >
+                  <span>
+                    {line.name} ({line.rate}%
+                    {amounts.taxIncluded ? ", included" : ""})
+                  </span>
+                  <span>{formatMoney(line.amount, order.currency)}</span>
+                </div>
+              ))
+            ) : (
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Tax</span>
+                <span>Not recorded</span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm">
+              <span>
+                Shipping
+                {order.shipping && ` (${order.shipping.method})`}
+              </span>
+              <span>{formatMoney(amounts.shipping, order.currency)}</span>
             </div>
             <Separator />
             <div className="flex justify-between font-medium">
               <span>Total</span>
-              <span>£{order.totalAmount}</span>
+              <span>{formatMoney(order.totalAmount, order.currency)}</span>
             </div>
+            {refundedTotal > 0 && (
+              <>
+                <div className="flex justify-between text-sm text-destructive">
+                  <span>Refunded</span>
+                  <span>−{formatMoney(refundedTotal, order.currency)}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Net</span>
+                  <span>
+                    {formatMoney(
+                      order.totalAmount - refundedTotal,
+                      order.currency
+                    )}
+                  </span>
+                </div>
+              </>
+            )}
           </div>
         </CardFooter>
       </Card>
+
+      {/* Refunds */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Refunds</CardTitle>
+            <CardDescription>
+              {refunds.length === 0
+                ? "Nothing has been refunded on this order"
+                : `${formatMoney(refundedTotal, order.currency)} refunded`}
+            </CardDescription>
+          </div>
+          {can("orders:refund") && canRefund(order) && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setRefundDialogOpen(true)}
+            >
+              Refund
+            </Button>
+          )}
+        </CardHeader>
+        {refunds.length > 0 && (
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Refunded By</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...refunds].reverse().map((refund) => (
+                  <TableRow key={refund.id}>
+                    <TableCell>
+                      {new Date(refund.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      {refund.lines.map((line) => (
+                        <p key={`${line.productId}-${line.variantId ?? ""}`}>
+                          {line.quantity} × {line.name}
+                        </p>
+                      ))}
+                      {refund.customAmount > 0 && (
+                        <p>
+                          Additional{" "}
+                          {formatMoney(refund.customAmount, order.currency)}
+                        </p>
+                      )}
+                      {refund.restocked && (
+                        <p className="text-xs text-muted-foreground">
+                          Restocked
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {REFUND_REASON_LABELS[refund.reason]}
+                      {refund.note && (
+                        <p className="text-xs text-muted-foreground">
+                          {refund.note}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          refund.status === "succeeded"
+                            ? "success"
+                            : refund.status === "pending"
+                            ? "warning"
+                            : "destructive"
+                        }
+                      >
+                        {REFUND_STATUS_LABELS[refund.status]}
+                      </Badge>
+                      {refund.failureReason && (
+                        <p className="text-xs text-muted-foreground">
+                          {refund.failureReason}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {refund.createdBy ?? "—"}
+                      <p className="text-xs text-muted-foreground">
+                        via {refund.provider}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(refund.amount, order.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        )}
+      </Card>
+
+      <RefundDialog
+        order={order}
+        open={refundDialogOpen}
+        saving={refunding}
+        onOpenChange={setRefundDialogOpen}
+        onSubmit={handleRefund}
+      />
     </div>
   );
 }
@@ -1,8 +1,8 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { collection, getDocs, query, orderBy } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { apiFetch } from "@/lib/api/client";
+import type { Order } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -22,43 +22,51 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/components/ui/use-toast";
-import { Eye, MoreHorizontal, Search } from "lucide-react";
+import { Eye, MoreHorizontal } from "lucide-react";
 import Link from "next/link";
 import { Loader2 } from "lucide-react";
-
-interface Order {
-  id: string;
-  orderId: string;
-  userId: string;
-  createdAt: string;
-  totalAmount: string;
-  paymentStatus: string;
-  paymentProvider: string;
-  stripeSessionId?: string;
-}
+import {
+  FULFILLMENT_LABELS,
+  getFulfillmentBadgeVariant,
+  getFulfillmentStatus,
+} from "@/lib/order-fulfillment";
+import type { PageInfo } from "@/lib/pagination";
+import type { TableFilters } from "@/lib/table-filters";
+import { useTableQuery } from "@/hooks/use-table-query";
+import { ExportDialog } from "@/components/export-dialog";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import {
+  SortableHead,
+  TablePagination,
+  TableSearch,
+} from "@/components/table-controls";
 
 export function OrdersTable() {
+  const query = useTableQuery("orders", ["overdueDays"]);
   const [orders, setOrders] = useState<Order[]>([]);
-  const [filteredOrders, setFilteredOrders] = useState<Order[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
+  const overdueOnly = !!query.filters.overdueDays;
+  const [overdueDays, setOverdueDays] = useState(
+    Number(query.filters.overdueDays) || 7
+  );
   const { toast } = useToast();
+  const { formatMoney, formatDate } = useStoreSettings();
 
   useEffect(() => {
     const fetchOrders = async () => {
+      setLoading(true);
       try {
-        const ordersSnapshot = await getDocs(
-          query(collection(db, "orders"), orderBy("createdAt", "desc"))
-        );
-
-        const ordersData = ordersSnapshot.docs.map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        })) as Order[];
+        const { orders: ordersData, pageInfo } = await apiFetch<{
+          orders: Order[];
+          pageInfo: PageInfo;
+        }>(`/api/orders?${query.apiQuery}`);
 
         setOrders(ordersData);
-        setFilteredOrders(ordersData);
+        setPageInfo(pageInfo);
       } catch (error) {
         console.error("Error fetching orders:", error);
         toast({
@@ -72,35 +80,46 @@ export function OrdersTable() {
     };
 
     fetchOrders();
-  }, [toast]);
+  }, [query.apiQuery, toast]);
 
-  useEffect(() => {
-    if (searchQuery) {
-      const filtered = orders.filter(
-        (order) =>
-          order.orderId.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          order.userId.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          order.paymentStatus.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredOrders(filtered);
-    } else {
-      setFilteredOrders(orders);
-    }
-  }, [searchQuery, orders]);
+  const filters: TableFilters = {
+    q: query.q,
+    overdueDays: overdueOnly ? overdueDays : undefined,
+  };
+
+  const handleOverdueDaysChange = (days: number) => {
+    setOverdueDays(days);
+    if (overdueOnly) query.setFilter("overdueDays", days);
+  };
 
   return (
     <>
       <div className="flex items-center gap-4 mb-6">
-        <div className="relative flex-1">
-          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <TableSearch query={query} placeholder="Search orders..." />
+        <div className="flex items-center gap-2">
+          <Switch
+            id="overdue-only"
+            checked={overdueOnly}
+            onCheckedChange={(checked) =>
+              query.setFilter("overdueDays", checked ? overdueDays : null)
+            }
+          />
+          <Label htmlFor="overdue-only" className="whitespace-nowrap">
+            Shipped, not delivered after
+          </Label>
           <Input
-            type="search"
-            placeholder="Search orders..."
-            className="pl-8"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            type="number"
+            min="1"
+            className="w-20"
+            value={overdueDays}
+            onChange={(e) =>
+              handleOverdueDaysChange(Number(e.target.value) || 1)
+            }
+            aria-label="Days since shipped"
           />
+          <span className="text-sm text-muted-foreground">days</span>
         </div>
+        <ExportDialog resource="orders" filters={filters} />
       </div>
 
       <Card>
@@ -108,7 +127,7 @@ export function OrdersTable() {
           <div className="flex justify-center py-10">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
-        ) : filteredOrders.length === 0 ? (
+        ) : orders.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-10 text-center">
             <p className="text-muted-foreground">No orders found</p>
           </div>
@@ -116,25 +135,38 @@ export function OrdersTable() {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Order ID</TableHead>
-                <TableHead>Date</TableHead>
+                <SortableHead query={query} field="orderId">
+                  Order ID
+                </SortableHead>
+                <SortableHead query={query} field="createdAt">
+                  Date
+                </SortableHead>
                 <TableHead>Amount</TableHead>
-                <TableHead>Payment Status</TableHead>
-                <TableHead>Payment Provider</TableHead>
+                <SortableHead query={query} field="paymentStatus">
+                  Payment Status
+                </SortableHead>
+                <SortableHead query={query} field="paymentProvider">
+                  Payment Provider
+                </SortableHead>
+                <TableHead>Fulfillment</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredOrders.map((order) => (
+              {orders.map((order) => (
                 <TableRow key={order.id}>
                   <TableCell className="font-medium">{order.orderId}</TableCell>
-                  <TableCell>£{order.totalAmount}</TableCell>
+                  <TableCell>{formatDate(order.createdAt)}</TableCell>
+                  <TableCell>
+                    {formatMoney(order.totalAmount, order.currency)}
+                  </TableCell>
                   <TableCell>
                     <Badge
                       variant={
                         order.paymentStatus === "paid"
                           ? "success"
-                          : order.paymentStatus === "pending"
+                          : order.paymentStatus === "pending" ||
+                            order.paymentStatus === "partially_refunded"
                           ? "warning"
                           : "destructive"
                       }
@@ -143,6 +175,15 @@ export function OrdersTable() {
                     </Badge>
                   </TableCell>
                   <TableCell>{order.paymentProvider}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={getFulfillmentBadgeVariant(
+                        getFulfillmentStatus(order)
+                      )}
+                    >
+                      {FULFILLMENT_LABELS[getFulfillmentStatus(order)]}
+                    </Badge>
+                  </TableCell>
                   <TableCell className="text-right">
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -167,6 +208,11 @@ export function OrdersTable() {
             </TableBody>
           </Table>
         )}
+        <TablePagination
+          query={query}
+          pageInfo={pageInfo}
+          itemCount={orders.length}
+        />
       </Card>
     </>
   );
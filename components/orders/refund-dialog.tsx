@@ -0,0 +1,273 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { toMinorUnits } from "@/lib/money";
+import {
+  type RefundReason,
+  REFUND_REASONS,
+  REFUND_REASON_LABELS,
+  getLineRefundAmount,
+  getRefundableAmount,
+  getRefundedQuantity,
+} from "@/lib/refunds";
+import type { RefundInput } from "@/lib/schemas";
+import type { Order } from "@/lib/types";
+
+interface RefundDialogProps {
+  order: Order;
+  open: boolean;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: RefundInput) => void;
+}
+
+const EMPTY_FORM = {
+  quantities: {} as Record<number, string>,
+  customAmount: "",
+  reason: "requested_by_customer" as RefundReason,
+  note: "",
+  restock: false,
+};
+
+export function RefundDialog({
+  order,
+  open,
+  saving,
+  onOpenChange,
+  onSubmit,
+}: RefundDialogProps) {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const { formatMoney } = useStoreSettings();
+
+  useEffect(() => {
+    if (open) setFormData({ ...EMPTY_FORM, restock: !!order.inventoryCommitted });
+  }, [open, order.inventoryCommitted]);
+
+  const lines = order.products.map((line, index) => {
+    const left = line.quantity - getRefundedQuantity(order, line);
+    const quantity = Math.min(
+      left,
+      Math.max(0, Number.parseInt(formData.quantities[index] || "0", 10) || 0)
+    );
+    return {
+      line,
+      left,
+      quantity,
+      amount: quantity > 0 ? getLineRefundAmount(order, line, quantity) : 0,
+    };
+  });
+  const customAmount = toMinorUnits(formData.customAmount || "0", order.currency);
+  const total =
+    lines.reduce((sum, entry) => sum + entry.amount, 0) + customAmount;
+  const refundable = getRefundableAmount(order);
+  const hasLines = lines.some((entry) => entry.quantity > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      lines: lines
+        .filter((entry) => entry.quantity > 0)
+        .map(({ line, quantity }) => ({
+          productId: line.productId,
+          ...(line.variantId && { variantId: line.variantId }),
+          quantity,
+        })),
+      customAmount,
+      reason: formData.reason,
+      note: formData.note,
+      restock: formData.restock && hasLines,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Refund Order</DialogTitle>
+            <DialogDescription>
+              Choose the items to refund, an extra amount, or both. Up to{" "}
+              {formatMoney(refundable, order.currency)} can still be refunded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Refundable</TableHead>
+                  <TableHead className="w-24 text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(({ line, left, amount }, index) => (
+                  <TableRow key={`${line.productId}-${line.variantId ?? ""}`}>
+                    <TableCell className="font-medium">
+                      {line.name}
+                      {line.variantLabel && (
+                        <p className="text-xs text-muted-foreground">
+                          {line.variantLabel}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{left}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        max={left}
+                        step="1"
+                        value={formData.quantities[index] ?? ""}
+                        placeholder="0"
+                        disabled={left === 0}
+                        onChange={(e) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            quantities: {
+                              ...prev.quantities,
+                              [index]: e.target.value,
+                            },
+                          }))
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(amount, order.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="customAmount">
+                  Additional Amount ({order.currency})
+                </Label>
+                <Input
+                  id="customAmount"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="0.00"
+                  value={formData.customAmount}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      customAmount: e.target.value,
+                    }))
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Such as shipping or a goodwill credit.
+                </p>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="refundReason">Reason</Label>
+                <Select
+                  value={formData.reason}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      reason: value as RefundReason,
+                    }))
+                  }
+                >
+                  <SelectTrigger id="refundReason">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REFUND_REASONS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {REFUND_REASON_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="refundNote">Note</Label>
+              <Textarea
+                id="refundNote"
+                value={formData.note}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, note: e.target.value }))
+                }
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4 rounded-md border p-4">
+              <div>
+                <Label htmlFor="restock">Restock Items</Label>
+                <p className="text-sm text-muted-foreground">
+                  {order.inventoryCommitted
+                    ? "Put the refunded items back into stock."
+                    : "Stock hasn't been taken for this order yet."}
+                </p>
+              </div>
+              <Switch
+                id="restock"
+                checked={formData.restock}
+                disabled={!order.inventoryCommitted || !hasLines}
+                onCheckedChange={(checked) =>
+                  setFormData((prev) => ({ ...prev, restock: checked }))
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter className="items-center">
+            <p className="mr-auto text-sm font-medium">
+              Refund total: {formatMoney(total, order.currency)}
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={saving || total <= 0 || total > refundable}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Refund {formatMoney(total, order.currency)}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
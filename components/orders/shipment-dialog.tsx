@@ -0,0 +1,144 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { apiFetch } from "@/lib/api/client";
+import type { OrderShipment } from "@/lib/order-fulfillment";
+
+interface Courier {
+  id: string;
+  name: string;
+}
+
+interface ShipmentDialogProps {
+  open: boolean;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (shipment: Omit<OrderShipment, "shippedAt">) => void;
+}
+
+export function ShipmentDialog({
+  open,
+  saving,
+  onOpenChange,
+  onSubmit,
+}: ShipmentDialogProps) {
+  const [couriers, setCouriers] = useState<Courier[]>([]);
+  const [formData, setFormData] = useState({
+    courier: "",
+    trackingNumber: "",
+    estimatedDeliveryDate: "",
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    apiFetch<{ couriers: Courier[] }>("/api/couriers")
+      .then((data) => setCouriers(data.couriers))
+      .catch((err) => console.error("Error loading couriers:", err));
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(formData);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Ship Order</DialogTitle>
+            <DialogDescription>
+              Record the courier and tracking details for this shipment.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="courier">Courier</Label>
+              <Select
+                value={formData.courier}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({ ...prev, courier: value }))
+                }
+              >
+                <SelectTrigger id="courier">
+                  <SelectValue placeholder="Select a courier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {couriers.map((courier) => (
+                    <SelectItem key={courier.id} value={courier.id}>
+                      {courier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="trackingNumber">Tracking Number</Label>
+              <Input
+                id="trackingNumber"
+                value={formData.trackingNumber}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    trackingNumber: e.target.value,
+                  }))
+                }
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="estimatedDeliveryDate">
+                Estimated Delivery Date
+              </Label>
+              <Input
+                id="estimatedDeliveryDate"
+                type="date"
+                value={formData.estimatedDeliveryDate}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    estimatedDeliveryDate: e.target.value,
+                  }))
+                }
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !formData.courier}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mark as Shipped
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
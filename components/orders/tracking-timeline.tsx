@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiFetch } from "@/lib/api/client";
+import type { TrackingEvent } from "@/lib/couriers/types";
+import type { OrderShipment } from "@/lib/order-fulfillment";
+
+export function TrackingTimeline({ shipment }: { shipment: OrderShipment }) {
+  const [events, setEvents] = useState<TrackingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { formatDate } = useStoreSettings();
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({
+          trackingNumber: shipment.trackingNumber,
+          shippedAt: shipment.shippedAt,
+        });
+        const data = await apiFetch<{ events: TrackingEvent[] }>(
+          `/api/couriers/${shipment.courier}/tracking?${params}`
+        );
+        setEvents(data.events);
+        setError(null);
+      } catch (err: any) {
+        console.error("Error fetching tracking events:", err);
+        setError(err.message || "Failed to load tracking events");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [shipment]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Shipment Tracking</CardTitle>
+        <CardDescription>
+          {shipment.courier} · {shipment.trackingNumber} · Estimated delivery{" "}
+          {formatDate(shipment.estimatedDeliveryDate)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No tracking events yet
+          </p>
+        ) : (
+          <ol className="relative space-y-4 border-l pl-6">
+            {[...events].reverse().map((event) => (
+              <li key={`${event.occurredAt}-${event.status}`}>
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-primary" />
+                <p className="font-medium">{event.description}</p>
+                <p className="text-sm text-muted-foreground">
+                  {new Date(event.occurredAt).toLocaleString()}
+                  {event.location && ` · ${event.location}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
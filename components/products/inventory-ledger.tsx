@@ -0,0 +1,222 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2 } from "lucide-react"
+import Link from "next/link"
+import { useAuthorization } from "@/components/auth-provider"
+import { apiFetch } from "@/lib/api/client"
+import {
+  type InventoryMovement,
+  type InventoryMovementType,
+  INVENTORY_MOVEMENT_LABELS,
+  INVENTORY_MOVEMENT_TYPES,
+} from "@/lib/inventory"
+import { formatVariantLabel } from "@/lib/product-variants"
+import type { Product } from "@/lib/types"
+
+interface InventoryLedgerProps {
+  productId: string
+}
+
+export function InventoryLedger({ productId }: InventoryLedgerProps) {
+  const [product, setProduct] = useState<Product | null>(null)
+  const [movements, setMovements] = useState<InventoryMovement[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [type, setType] = useState<InventoryMovementType>("receipt")
+  const [quantity, setQuantity] = useState("")
+  const [reason, setReason] = useState("")
+  const [variantId, setVariantId] = useState("")
+  const { toast } = useToast()
+  const { can } = useAuthorization()
+
+  const fetchLedger = useCallback(async () => {
+    const [{ product }, { movements }] = await Promise.all([
+      apiFetch<{ product: Product }>(`/api/products/${productId}`),
+      apiFetch<{ movements: InventoryMovement[] }>(`/api/products/${productId}/inventory`),
+    ])
+    setProduct(product)
+    setMovements(movements)
+  }, [productId])
+
+  useEffect(() => {
+    fetchLedger()
+      .catch((error) => {
+        console.error("Error fetching inventory ledger:", error)
+        toast({
+          title: "Error",
+          description: "Failed to load inventory ledger",
+          variant: "destructive",
+        })
+      })
+      .finally(() => setLoading(false))
+  }, [fetchLedger, toast])
+
+  const variants = product?.variants ?? []
+  const variantLabels = Object.fromEntries(variants.map((variant) => [variant.id, formatVariantLabel(variant.options)]))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      await apiFetch(`/api/products/${productId}/inventory`, {
+        method: "POST",
+        body: JSON.stringify({
+          type,
+          quantity: Number.parseInt(quantity),
+          reason,
+          ...(variantId && { variantId }),
+        }),
+      })
+      await fetchLedger()
+      setQuantity("")
+      setReason("")
+      toast({ title: "Recorded", description: "Stock movement recorded" })
+    } catch (error: any) {
+      console.error(error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record stock movement",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Inventory</CardTitle>
+        <CardDescription>
+          Current stock: {product ? product.stock : "..."}. Every change to stock is recorded here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {can("inventory:write") && (
+          <form
+            onSubmit={handleSubmit}
+            className="grid grid-cols-1 gap-4 md:grid-cols-[160px_1fr_120px_2fr_auto] md:items-end"
+          >
+            <div className="grid gap-2">
+              <Label htmlFor="movement-type">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as InventoryMovementType)}>
+                <SelectTrigger id="movement-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVENTORY_MOVEMENT_TYPES.map((movementType) => (
+                    <SelectItem key={movementType} value={movementType}>
+                      {INVENTORY_MOVEMENT_LABELS[movementType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="movement-variant">Variant</Label>
+              <Select value={variantId} onValueChange={setVariantId} disabled={variants.length === 0}>
+                <SelectTrigger id="movement-variant">
+                  <SelectValue placeholder={variants.length ? "Select a variant" : "No variants"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {variants.map((variant) => (
+                    <SelectItem key={variant.id} value={variant.id}>
+                      {variantLabels[variant.id]} ({variant.stock})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="movement-quantity">Quantity</Label>
+              <Input
+                id="movement-quantity"
+                type="number"
+                step="1"
+                min={type === "adjustment" ? undefined : "1"}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder={type === "adjustment" ? "e.g. -2" : "0"}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="movement-reason">Reason</Label>
+              <Input
+                id="movement-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Supplier delivery"
+                required
+              />
+            </div>
+            <Button type="submit" disabled={saving || (variants.length > 0 && !variantId)}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record
+            </Button>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No stock movements recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Variant</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Stock After</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map((movement) => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap">{new Date(movement.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Badge variant={movement.quantity > 0 ? "success" : "secondary"}>
+                      {INVENTORY_MOVEMENT_LABELS[movement.type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{movement.variantId ? (variantLabels[movement.variantId] ?? "—") : "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.stockAfter}</TableCell>
+                  <TableCell>
+                    {movement.reason}
+                    {movement.orderId && (
+                      <Link
+                        href={`/dashboard/orders/${movement.orderId}`}
+                        className="block text-xs text-muted-foreground hover:underline"
+                      >
+                        View order
+                      </Link>
+                    )}
+                  </TableCell>
+                  <TableCell>{movement.createdBy?.email ?? "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
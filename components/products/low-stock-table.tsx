@@ -0,0 +1,143 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { useAuthorization } from "@/components/auth-provider"
+import { useStoreSettings } from "@/components/store-settings-provider"
+import { Edit, Loader2 } from "lucide-react"
+import Link from "next/link"
+import { apiFetch } from "@/lib/api/client"
+import { getLowStockThreshold, getLowStockVariants } from "@/lib/inventory"
+import { formatVariantLabel } from "@/lib/product-variants"
+import type { Product } from "@/lib/types"
+
+interface LowStockRow {
+  key: string
+  productId: string
+  name: string
+  variantLabel?: string
+  sku?: string
+  stock: number
+  threshold: number
+}
+
+// Products without their own threshold use the store's.
+function toRows(product: Product, storeThreshold: number): LowStockRow[] {
+  const threshold = getLowStockThreshold(product, storeThreshold)
+  if (product.variants?.length) {
+    return getLowStockVariants(product, storeThreshold).map((variant) => ({
+      key: `${product.id}-${variant.id}`,
+      productId: product.id,
+      name: product.name,
+      variantLabel: formatVariantLabel(variant.options),
+      sku: variant.sku,
+      stock: Number.parseInt(variant.stock) || 0,
+      threshold,
+    }))
+  }
+  return [
+    {
+      key: product.id,
+      productId: product.id,
+      name: product.name,
+      stock: Number.parseInt(product.stock) || 0,
+      threshold,
+    },
+  ]
+}
+
+export function LowStockTable() {
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+  const { can } = useAuthorization()
+  const { settings } = useStoreSettings()
+
+  const rows = useMemo(
+    () => products.flatMap((product) => toRows(product, settings.lowStockThreshold)).sort((a, b) => a.stock - b.stock),
+    [products, settings.lowStockThreshold],
+  )
+
+  useEffect(() => {
+    const fetchLowStock = async () => {
+      try {
+        const { products } = await apiFetch<{ products: Product[] }>("/api/inventory/low-stock")
+        setProducts(products)
+      } catch (error) {
+        console.error("Error fetching low stock products:", error)
+        toast({
+          title: "Error",
+          description: "Failed to load low stock products",
+          variant: "destructive",
+        })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchLowStock()
+  }, [toast])
+
+  return (
+    <Card>
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <p className="text-muted-foreground">All products are above their low-stock threshold</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>Variant</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead>Threshold</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.name}</TableCell>
+                <TableCell>
+                  {row.variantLabel ? (
+                    <>
+                      {row.variantLabel}
+                      <p className="text-xs text-muted-foreground">{row.sku}</p>
+                    </>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={row.stock > 0 ? "warning" : "destructive"}>
+                    {row.stock > 0 ? `${row.stock} in stock` : "Out of stock"}
+                  </Badge>
+                </TableCell>
+                <TableCell>{row.threshold}</TableCell>
+                <TableCell className="text-right">
+                  {can("catalog:write") && (
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={`/dashboard/products/edit/${row.productId}`}>
+                        <Edit className="mr-2 h-3.5 w-3.5" />
+                        Restock
+                      </Link>
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  )
+}
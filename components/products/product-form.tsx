@@ -3,8 +3,6 @@
 import type React from "react"
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
-import { collection, doc, getDoc, getDocs, query, setDoc, updateDoc, where } from "firebase/firestore"
-import { db } from "@/lib/firebase"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -14,9 +12,20 @@ import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@
 import { useToast } from "@/components/ui/use-toast"
 import { Loader2, Upload, X } from "lucide-react"
 import Image from "next/image"
-import { v4 as uuidv4 } from "uuid"
 import { MultiSelect } from "@/components/ui/multi-select"
+import { VariantEditor } from "@/components/products/variant-editor"
+import { useStoreSettings } from "@/components/store-settings-provider"
+import { toDecimalString, toMinorUnits } from "@/lib/money"
 import { uploadToS3 } from "@/lib/s3-upload"
+import { apiFetch } from "@/lib/api/client"
+import { type ProductOption, type ProductVariant, activeOptions, summarizeVariants } from "@/lib/product-variants"
+import { DEFAULT_STORE_SETTINGS } from "@/lib/settings"
+import type { TaxClass } from "@/lib/tax"
+import type { Category as CategoryRecord, Product, SubCategory as SubCategoryRecord, Tag as TagRecord } from "@/lib/types"
+import { WEIGHT_UNITS } from "@/lib/weight"
+
+// Select value standing for "no class of its own".
+const CATEGORY_TAX_CLASS = "category"
 
 interface ProductFormProps {
   productId?: string
@@ -43,6 +52,7 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
   const [categories, setCategories] = useState<Category[]>([])
   const [subcategories, setSubcategories] = useState<SubCategory[]>([])
   const [tags, setTags] = useState<Tag[]>([])
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([])
 
   const [formData, setFormData] = useState({
     name: "",
@@ -59,21 +69,38 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
     tagIds: [] as string[],
     productDetails: [] as string[],
     weight: "",
-    weightUnit: "g",
+    weightUnit: DEFAULT_STORE_SETTINGS.weightUnit as string,
+    lowStockThreshold: "",
+    taxClassId: "",
+    options: [] as ProductOption[],
+    variants: [] as ProductVariant[],
   })
   const [isEdit, setIsEdit] = useState(false)
+  const [savedVariantIds, setSavedVariantIds] = useState<string[]>([])
   const router = useRouter()
   const { toast } = useToast()
+  const { settings } = useStoreSettings()
+  const { currency, weightUnit } = settings
+
+  const hasVariants = formData.variants.length > 0
+  const variantSummary = hasVariants ? summarizeVariants(formData.variants) : null
+
+  // New products start with the store's weight unit.
+  useEffect(() => {
+    if (!productId) setFormData((prev) => ({ ...prev, weightUnit }))
+  }, [productId, weightUnit])
 
-  // Load categories and tags
+  // Load categories, tags and tax classes
   useEffect(() => {
     async function loadLookups() {
-      const [catSnap, tagSnap] = await Promise.all([
-        getDocs(collection(db, "categories")),
-        getDocs(collection(db, "tags")),
+      const [catData, tagData, taxData] = await Promise.all([
+        apiFetch<{ categories: CategoryRecord[] }>("/api/categories"),
+        apiFetch<{ tags: TagRecord[] }>("/api/tags"),
+        apiFetch<{ taxClasses: TaxClass[] }>("/api/tax-classes"),
       ])
-      setCategories(catSnap.docs.map((d) => ({ id: d.id, name: d.data().name })))
-      setTags(tagSnap.docs.map((d) => ({ id: d.id, name: d.data().name })))
+      setCategories(catData.categories.map(({ id, name }) => ({ id, name })))
+      setTags(tagData.tags.map(({ id, name }) => ({ id, name })))
+      setTaxClasses(taxData.taxClasses)
     }
     loadLookups()
   }, [])
@@ -81,9 +108,10 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
   // Fetch subcategories when category changes
   const fetchSubcategories = async (categoryId: string) => {
     if (!categoryId) return setSubcategories([])
-    const q = query(collection(db, "subcategories"), where("categoryId", "==", categoryId))
-    const snap = await getDocs(q)
-    setSubcategories(snap.docs.map((d) => ({ id: d.id, name: d.data().name })))
+    const { subcategories } = await apiFetch<{ subcategories: SubCategoryRecord[] }>(
+      `/api/subcategories?categoryId=${encodeURIComponent(categoryId)}`,
+    )
+    setSubcategories(subcategories.map(({ id, name }) => ({ id, name })))
   }
 
   // Load existing product for edit
@@ -93,16 +121,14 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
       setIsEdit(true)
       setLoading(true)
       try {
-        const snap = await getDoc(doc(db, "products", productId))
-        if (!snap.exists()) throw new Error("Not found")
-        const data = snap.data() as any
+        const { product: data } = await apiFetch<{ product: Product }>(`/api/products/${productId}`)
         setFormData({
           name: data.name || "",
           description: data.description || "",
           image: data.image || "",
           image2: data.image2 || "",
           image3: data.image3 || "",
-          price: data.price || "",
+          price: toDecimalString(data.price ?? 0, currency),
           stock: data.stock || "",
           rating: data.rating || "0",
           date: data.date || new Date().toISOString(),
@@ -111,26 +137,31 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
           tagIds: data.tagIds || [],
           productDetails: data.productDetails || [],
           weight: data.weight || "",
-          weightUnit: data.weightUnit || "g",
+          weightUnit: data.weightUnit || weightUnit,
+          lowStockThreshold: data.lowStockThreshold || "",
+          taxClassId: data.taxClassId || "",
+          options: data.options || [],
+          variants: data.variants || [],
         })
+        setSavedVariantIds((data.variants || []).map((variant) => variant.id))
         if (data.image) {
           setImagePreviews((prev) => {
             const newPreviews = [...prev]
-            newPreviews[0] = data.image
+            newPreviews[0] = data.image ?? null
             return newPreviews
           })
         }
         if (data.image2) {
           setImagePreviews((prev) => {
             const newPreviews = [...prev]
-            newPreviews[1] = data.image2
+            newPreviews[1] = data.image2 ?? null
             return newPreviews
           })
         }
         if (data.image3) {
           setImagePreviews((prev) => {
             const newPreviews = [...prev]
-            newPreviews[2] = data.image3
+            newPreviews[2] = data.image3 ?? null
             return newPreviews
           })
         }
@@ -148,7 +179,7 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
       }
     }
     loadProduct()
-  }, [productId, router, toast])
+  }, [productId, currency, weightUnit, router, toast])
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
@@ -242,25 +273,33 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
 
       const payload = {
         ...formData,
+        price: variantSummary ? variantSummary.price : toMinorUnits(formData.price, currency),
+        ...(variantSummary && { stock: variantSummary.stock }),
+        options: activeOptions(formData.options),
         image: imageUrls.image,
         image2: imageUrls.image2,
         image3: imageUrls.image3,
       }
 
       if (isEdit && productId) {
-        await updateDoc(doc(db, "products", productId), payload)
+        await apiFetch(`/api/products/${productId}`, {
+          method: "PATCH",
+          body: JSON.stringify(payload),
+        })
         toast({ title: "Updated", description: "Product updated" })
       } else {
-        const id = uuidv4()
-        await setDoc(doc(db, "products", id), payload)
+        await apiFetch("/api/products", {
+          method: "POST",
+          body: JSON.stringify(payload),
+        })
         toast({ title: "Created", description: "Product created" })
       }
       router.push("/dashboard/products")
-    } catch (error) {
+    } catch (error: any) {
       console.error(error)
       toast({
         title: "Error",
-        description: "Failed to save product",
+        description: error.message || "Failed to save product",
         variant: "destructive",
       })
     } finally {
@@ -397,31 +436,51 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
             </div>
 
             {/* Price, Stock & Weight */}
-            <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4">
               <div className="grid gap-3">
-                <Label htmlFor="price">Price (£)</Label>
+                <Label htmlFor="price">Price ({currency})</Label>
                 <Input
                     id="price"
                     name="price"
                     type="number"
-                    step="0.01"
+                    step="any"
                     min="0"
-                    value={formData.price}
+                    value={variantSummary ? toDecimalString(variantSummary.price, currency) : formData.price}
                     onChange={handleInputChange}
+                    disabled={hasVariants}
                     required
                 />
+                {hasVariants && <p className="text-xs text-muted-foreground">Lowest variant price</p>}
               </div>
               <div className="grid gap-3">
-                <Label htmlFor="stock">Stock</Label>
+                <Label htmlFor="stock">{isEdit ? "Stock" : "Opening Stock"}</Label>
                 <Input
                     id="stock"
                     name="stock"
                     type="number"
                     min="0"
-                    value={formData.stock}
+                    value={variantSummary ? variantSummary.stock : formData.stock}
                     onChange={handleInputChange}
+                    disabled={hasVariants || isEdit}
                     required
                 />
+                {hasVariants ? (
+                  <p className="text-xs text-muted-foreground">Total across variants</p>
+                ) : (
+                  isEdit && <p className="text-xs text-muted-foreground">Record movements in the inventory ledger</p>
+                )}
+              </div>
+              <div className="grid gap-3">
+                <Label htmlFor="lowStockThreshold">Low Stock Threshold</Label>
+                <Input
+                    id="lowStockThreshold"
+                    name="lowStockThreshold"
+                    type="number"
+                    min="0"
+                    value={formData.lowStockThreshold}
+                    onChange={handleInputChange}
+                    placeholder={String(settings.lowStockThreshold)}
+                />
               </div>
               <div className="grid gap-3">
                 <Label htmlFor="weight">Weight</Label>
@@ -445,18 +504,39 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
                       <SelectValue placeholder="Unit" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="mg">mg</SelectItem>
-                      <SelectItem value="g">g</SelectItem>
-                      <SelectItem value="kg">kg</SelectItem>
-                      <SelectItem value="mm">mm</SelectItem>
-                      <SelectItem value="ml">ml</SelectItem>
-                      <SelectItem value="l">l</SelectItem>
+                      {WEIGHT_UNITS.map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {unit}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
             </div>
 
+            {/* Variants */}
+            <div className="grid gap-3">
+              <Label>Variants</Label>
+              <p className="text-sm text-muted-foreground">
+                Add options such as pack size or colour to sell this product in several variants, each with its own
+                SKU, price, stock and weight.
+              </p>
+              <VariantEditor
+                  productName={formData.name}
+                  options={formData.options}
+                  variants={formData.variants}
+                  defaults={{
+                    price: toMinorUnits(formData.price, currency),
+                    stock: formData.stock,
+                    weight: formData.weight,
+                    weightUnit: formData.weightUnit,
+                  }}
+                  lockedStockIds={savedVariantIds}
+                  onChange={({ options, variants }) => setFormData((prev) => ({ ...prev, options, variants }))}
+              />
+            </div>
+
             {/* Category & Subcategory */}
             <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
               <div className="grid gap-3">
@@ -509,6 +589,29 @@ export function ProductForm({ productId }: ProductFormProps = {}) {
                 />
               </div>
 
+              {/* Tax Class */}
+              <div className="grid gap-3">
+                <Label htmlFor="taxClass">Tax Class</Label>
+                <Select
+                    value={formData.taxClassId || CATEGORY_TAX_CLASS}
+                    onValueChange={(val) =>
+                      setFormData((prev) => ({ ...prev, taxClassId: val === CATEGORY_TAX_CLASS ? "" : val }))
+                    }
+                >
+                  <SelectTrigger id="taxClass">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CATEGORY_TAX_CLASS}>Same as category</SelectItem>
+                    {taxClasses.map((taxClass) => (
+                        <SelectItem key={taxClass.id} value={taxClass.id}>
+                          {taxClass.name}
+                        </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {/* Product Details Array */}
               <div className="grid gap-3">
                 <Label>Product Details</Label>
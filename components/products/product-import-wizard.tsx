@@ -0,0 +1,321 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { ArrowLeft, Loader2, Upload } from "lucide-react"
+import { apiFetch } from "@/lib/api/client"
+import { formatAuditValue } from "@/lib/audit"
+import {
+  type ImportField,
+  type ImportMapping,
+  type ImportPlan,
+  IMPORT_FIELDS,
+  IMPORT_FILE_TYPES,
+} from "@/lib/product-import"
+
+type Step = "upload" | "map" | "preview" | "done"
+
+const NOT_MAPPED = "none"
+
+export function ProductImportWizard() {
+  const [step, setStep] = useState<Step>("upload")
+  const [file, setFile] = useState<File | null>(null)
+  const [rows, setRows] = useState<string[][]>([])
+  const [rowNumbers, setRowNumbers] = useState<number[]>([])
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  const [createMissing, setCreateMissing] = useState(false)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { toast } = useToast()
+
+  const headers = rows[0] ?? []
+  const sample = rows[1] ?? []
+
+  const showError = (error: any, fallback: string) => {
+    console.error(error)
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    })
+  }
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+    setLoading(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const data = await apiFetch<{ rows: string[][]; rowNumbers: number[]; mapping: ImportMapping }>(
+        "/api/products/import/parse",
+        { method: "POST", body: formData },
+      )
+      setRows(data.rows)
+      setRowNumbers(data.rowNumbers)
+      setMapping(data.mapping)
+      setStep("map")
+    } catch (error) {
+      showError(error, "Failed to read the file")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    setLoading(true)
+    try {
+      const result = await apiFetch<{ plan: ImportPlan; committed: boolean }>("/api/products/import", {
+        method: "POST",
+        body: JSON.stringify({ rows, rowNumbers, mapping, createMissing, dryRun }),
+      })
+      setPlan(result.plan)
+      if (result.committed) {
+        setStep("done")
+        toast({ title: "Imported", description: "Products imported" })
+      } else {
+        setStep("preview")
+        if (!dryRun) {
+          toast({
+            title: "Nothing imported",
+            description: "Some rows have errors. Fix them and try again.",
+            variant: "destructive",
+          })
+        }
+      }
+    } catch (error) {
+      showError(error, "Failed to import products")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (value === NOT_MAPPED) delete next[field]
+      else next[field] = Number(value)
+      return next
+    })
+  }
+
+  if (step === "upload") {
+    return (
+      <Card>
+        <form onSubmit={handleUpload}>
+          <CardHeader>
+            <CardTitle>Upload a spreadsheet</CardTitle>
+            <CardDescription>
+              A CSV or Excel (.xlsx) file with one product per row and a header row. Tags are separated by commas and
+              product details by &quot;|&quot;.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-3 max-w-md">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept={IMPORT_FILE_TYPES.join(",")}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                required
+              />
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" disabled={!file || loading}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Upload
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    )
+  }
+
+  if (step === "map") {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Map columns</CardTitle>
+          <CardDescription>
+            {rows.length - 1} rows in {file?.name}. Rows update the product with the same ID, or the same name when no
+            ID column is mapped; other rows create new products. Empty cells leave existing values unchanged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product Field</TableHead>
+                <TableHead>Column</TableHead>
+                <TableHead>First Row</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <TableRow key={field}>
+                  <TableCell className="font-medium">
+                    {label}
+                    {required && <span className="text-destructive"> *</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={mapping[field] === undefined ? NOT_MAPPED : String(mapping[field])}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {mapping[field] === undefined ? "—" : sample[mapping[field]!] || "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="create-missing"
+              checked={createMissing}
+              onCheckedChange={(checked) => setCreateMissing(checked === true)}
+            />
+            <Label htmlFor="create-missing">Create categories, subcategories and tags that don&apos;t exist yet</Label>
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep("upload")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <Button onClick={() => runImport(true)} disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Preview Import
+          </Button>
+        </CardFooter>
+      </Card>
+    )
+  }
+
+  if (!plan) return null
+
+  const { summary, missing } = plan
+  const missingLookups = [
+    ...missing.categories.map((name) => `category "${name}"`),
+    ...missing.subcategories.map((name) => `subcategory "${name}"`),
+    ...missing.tags.map((name) => `tag "${name}"`),
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{step === "done" ? "Import complete" : "Preview"}</CardTitle>
+        <CardDescription className="flex flex-wrap gap-2 pt-1">
+          <Badge variant="success">{summary.create} to create</Badge>
+          <Badge variant="secondary">{summary.update} to update</Badge>
+          <Badge variant="outline">{summary.unchanged} unchanged</Badge>
+          {summary.errors > 0 && <Badge variant="destructive">{summary.errors} with errors</Badge>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {missingLookups.length > 0 && (
+          <p className="text-sm text-muted-foreground">Will also create {missingLookups.join(", ")}.</p>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Product</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plan.rows.map((result) => (
+              <TableRow key={result.row} className="align-top">
+                <TableCell>{result.row}</TableCell>
+                <TableCell className="font-medium">{result.name || "—"}</TableCell>
+                <TableCell>
+                  <Badge
+                    variant={
+                      result.errors.length > 0
+                        ? "destructive"
+                        : result.action === "create"
+                          ? "success"
+                          : result.action === "update"
+                            ? "secondary"
+                            : "outline"
+                    }
+                  >
+                    {result.errors.length > 0 ? "Error" : result.action}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {result.errors.length > 0 ? (
+                    <ul className="space-y-1 text-sm text-destructive">
+                      {result.errors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  ) : result.action === "update" ? (
+                    <ul className="space-y-1 text-sm">
+                      {result.changes.map((change) => (
+                        <li key={change.field}>
+                          <span className="font-medium">{change.field}</span>:{" "}
+                          <span className="text-muted-foreground line-through">{formatAuditValue(change.before)}</span>
+                          {" → "}
+                          {formatAuditValue(change.after)}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {step === "done" ? (
+          <Button asChild>
+            <Link href="/dashboard/products">Go to Products</Link>
+          </Button>
+        ) : (
+          <>
+            <Button variant="outline" onClick={() => setStep("map")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Mapping
+            </Button>
+            <Button
+              onClick={() => runImport(false)}
+              disabled={loading || summary.errors > 0 || summary.create + summary.update === 0}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import {summary.create + summary.update} Products
+            </Button>
+          </>
+        )}
+      </CardFooter>
+    </Card>
+  )
+}
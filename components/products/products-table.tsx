@@ -1,14 +1,17 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { collection, getDocs, deleteDoc, doc } from "firebase/firestore"
-import { db } from "@/lib/firebase"
+import { apiFetch } from "@/lib/api/client"
+import type { Category, Product as ProductRecord, SubCategory } from "@/lib/types"
+import { formatVariantLabel, summarizeVariants } from "@/lib/product-variants"
+import type { PageInfo, SortDirection } from "@/lib/pagination"
+import { useTableQuery } from "@/hooks/use-table-query"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardFooter } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/components/ui/use-toast"
-import { Edit, Search, Trash, Plus, ImageIcon, ChevronLeft, ChevronRight, Scale } from "lucide-react"
+import { Edit, Trash, Plus, ImageIcon, ChevronLeft, ChevronRight, Scale } from "lucide-react"
 import Image from "next/image"
 import Link from "next/link"
 import { Loader2 } from "lucide-react"
@@ -22,73 +25,74 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import { useAuthorization } from "@/components/auth-provider"
+import { useStoreSettings } from "@/components/store-settings-provider"
+import { ExportDialog } from "@/components/export-dialog"
+import { TablePagination, TableSearch } from "@/components/table-controls"
 
-interface Product {
-  id: string
-  name: string
-  description: string
-  image?: string
-  image2?: string
-  image3?: string
-  price: string
-  stock: string
-  rating: string
-  date: string
-  categoryId: string
+interface Product extends ProductRecord {
   categoryName?: string
-  subcategoryId?: string
   subcategoryName?: string
-  weight?: string
-  weightUnit?: string
 }
 
+const SORT_OPTIONS = [
+  { value: "name:asc", label: "Name (A–Z)" },
+  { value: "name:desc", label: "Name (Z–A)" },
+  { value: "date:desc", label: "Newest first" },
+  { value: "date:asc", label: "Oldest first" },
+]
+
 export function ProductsTable() {
-  const [products, setProducts] = useState<Product[]>([])
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([])
+  const query = useTableQuery("products")
+  const [products, setProducts] = useState<ProductRecord[]>([])
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null)
+  const [names, setNames] = useState<{ categories: Map<string, string>; subcategories: Map<string, string> }>({
+    categories: new Map(),
+    subcategories: new Map(),
+  })
   const [loading, setLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState("")
   const [deleteProductId, setDeleteProductId] = useState<string | null>(null)
   const [activeImageIndex, setActiveImageIndex] = useState<Record<string, number>>({})
   const { toast } = useToast()
+  const { formatMoney } = useStoreSettings()
+  const { can } = useAuthorization()
 
   useEffect(() => {
-    const fetchProducts = async () => {
+    const fetchNames = async () => {
       try {
-        const productsSnapshot = await getDocs(collection(db, "products"))
-        const categoriesSnapshot = await getDocs(collection(db, "categories"))
-        const subcategoriesSnapshot = await getDocs(collection(db, "subcategories"))
-
-        // Create a map of category IDs to names
-        const categoriesMap = new Map()
-        categoriesSnapshot.forEach((doc) => {
-          categoriesMap.set(doc.id, doc.data().name)
+        const [{ categories }, { subcategories }] = await Promise.all([
+          apiFetch<{ categories: Category[] }>("/api/categories"),
+          apiFetch<{ subcategories: SubCategory[] }>("/api/subcategories"),
+        ])
+        setNames({
+          categories: new Map(categories.map((category) => [category.id, category.name])),
+          subcategories: new Map(subcategories.map((subcategory) => [subcategory.id, subcategory.name])),
         })
+      } catch (error) {
+        console.error("Error fetching categories:", error)
+      }
+    }
 
-        // Create a map of subcategory IDs to names
-        const subcategoriesMap = new Map()
-        subcategoriesSnapshot.forEach((doc) => {
-          subcategoriesMap.set(doc.id, doc.data().name)
-        })
+    fetchNames()
+  }, [])
 
-        const productsData = productsSnapshot.docs.map((doc) => {
-          const data = doc.data() as Product
-          return {
-            id: doc.id,
-            ...data,
-            categoryName: data.categoryId ? categoriesMap.get(data.categoryId) : "Uncategorized",
-            subcategoryName: data.subcategoryId ? subcategoriesMap.get(data.subcategoryId) : "Uncategorized",
-          }
-        })
+  useEffect(() => {
+    const fetchProducts = async () => {
+      setLoading(true)
+      try {
+        const { products, pageInfo } = await apiFetch<{ products: ProductRecord[]; pageInfo: PageInfo }>(
+          `/api/products?${query.apiQuery}`,
+        )
 
         // Initialize active image index for each product
         const initialActiveImageIndex: Record<string, number> = {}
-        productsData.forEach((product) => {
+        products.forEach((product) => {
           initialActiveImageIndex[product.id] = 0
         })
         setActiveImageIndex(initialActiveImageIndex)
 
-        setProducts(productsData)
-        setFilteredProducts(productsData)
+        setProducts(products)
+        setPageInfo(pageInfo)
       } catch (error) {
         console.error("Error fetching products:", error)
         toast({
@@ -102,31 +106,21 @@ export function ProductsTable() {
     }
 
     fetchProducts()
-  }, [toast])
+  }, [query.apiQuery, toast])
 
-  useEffect(() => {
-    if (searchQuery) {
-      const filtered = products.filter(
-          (product) =>
-              product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              product.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              product.categoryName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              product.subcategoryName?.toLowerCase().includes(searchQuery.toLowerCase()),
-      )
-      setFilteredProducts(filtered)
-    } else {
-      setFilteredProducts(products)
-    }
-  }, [searchQuery, products])
+  const rows: Product[] = products.map((product) => ({
+    ...product,
+    categoryName: product.categoryId ? names.categories.get(product.categoryId) : "Uncategorized",
+    subcategoryName: product.subcategoryId ? names.subcategories.get(product.subcategoryId) : "Uncategorized",
+  }))
 
   const handleDeleteProduct = async () => {
     if (!deleteProductId) return
 
     try {
-      await deleteDoc(doc(db, "products", deleteProductId))
+      await apiFetch(`/api/products/${deleteProductId}`, { method: "DELETE" })
 
       setProducts((prev) => prev.filter((product) => product.id !== deleteProductId))
-      setFilteredProducts((prev) => prev.filter((product) => product.id !== deleteProductId))
 
       toast({
         title: "Product deleted",
@@ -159,6 +153,13 @@ export function ProductsTable() {
     return `${weight} ${unit || "g"}`
   }
 
+  // Format price, as a range for products with variants
+  const formatPrice = (product: Product) => {
+    if (!product.variants?.length) return formatMoney(product.price)
+    const { price, maxPrice } = summarizeVariants(product.variants)
+    return price === maxPrice ? formatMoney(price) : `${formatMoney(price)} – ${formatMoney(maxPrice)}`
+  }
+
   // Navigate to next image
   const nextImage = (productId: string, imagesCount: number) => {
     setActiveImageIndex((prev) => ({
@@ -178,15 +179,29 @@ export function ProductsTable() {
   return (
       <>
         <div className="flex items-center justify-between gap-4 mb-6">
-          <div className="relative flex-1 max-w-md">
-            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-            <Input
-                type="search"
-                placeholder="Search products..."
-                className="pl-8"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-            />
+          <div className="flex flex-1 max-w-md">
+            <TableSearch query={query} placeholder="Search by name, SKU, tag or category..." />
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+                value={`${query.sort}:${query.direction}`}
+                onValueChange={(value) => {
+                  const [sort, direction] = value.split(":")
+                  query.setSort(sort, direction as SortDirection)
+                }}
+            >
+              <SelectTrigger className="w-44" aria-label="Sort products">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ExportDialog resource="products" filters={{ q: query.q }} />
           </div>
         </div>
 
@@ -194,19 +209,21 @@ export function ProductsTable() {
             <div className="flex justify-center py-10">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
-        ) : filteredProducts.length === 0 ? (
+        ) : rows.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-10 text-center">
               <p className="text-muted-foreground mb-4">No products found</p>
-              <Button asChild>
-                <Link href="/dashboard/products/new">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Product
-                </Link>
-              </Button>
+              {can("catalog:write") && (
+                  <Button asChild>
+                    <Link href="/dashboard/products/new">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Product
+                    </Link>
+                  </Button>
+              )}
             </div>
         ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredProducts.map((product) => {
+              {rows.map((product) => {
                 const images = getProductImages(product)
                 const currentImageIndex = activeImageIndex[product.id] || 0
 
@@ -276,7 +293,7 @@ export function ProductsTable() {
                         <div className="mb-2 flex items-center justify-between">
                           <h3 className="font-semibold text-lg truncate">{product.name}</h3>
                           <Badge variant="outline" className="ml-2 whitespace-nowrap">
-                            £{product.price}
+                            {formatPrice(product)}
                           </Badge>
                         </div>
 
@@ -315,19 +332,39 @@ export function ProductsTable() {
                             </div>
                           </div>
                         </div>
+
+                        {product.variants && product.variants.length > 0 && (
+                          <div>
+                            <p className="text-xs text-muted-foreground mb-1">{product.variants.length} variants</p>
+                            <div className="flex flex-wrap gap-1">
+                              {product.variants.map((variant) => (
+                                <Badge
+                                  key={variant.id}
+                                  variant={Number.parseInt(variant.stock) > 0 ? "secondary" : "destructive"}
+                                  title={`${variant.sku} · ${variant.stock} in stock`}
+                                >
+                                  {formatVariantLabel(variant.options)} · {formatMoney(variant.price)}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </CardContent>
                       <CardFooter className="p-4 pt-0 flex justify-end gap-2">
-                        <Button variant="outline" size="sm" asChild>
-                          <Link href={`/dashboard/products/edit/${product.id}`}>
-                            <Edit className="mr-2 h-3.5 w-3.5" />
-                            Edit
-                          </Link>
-                        </Button>
+                        {can("catalog:write") && (
+                            <Button variant="outline" size="sm" asChild>
+                              <Link href={`/dashboard/products/edit/${product.id}`}>
+                                <Edit className="mr-2 h-3.5 w-3.5" />
+                                Edit
+                              </Link>
+                            </Button>
+                        )}
                         <Button
                             variant="outline"
                             size="sm"
                             className="text-destructive hover:text-destructive"
                             onClick={() => setDeleteProductId(product.id)}
+                            disabled={!can("catalog:delete")}
                         >
                           <Trash className="mr-2 h-3.5 w-3.5" />
                           Delete
@@ -339,6 +376,10 @@ export function ProductsTable() {
             </div>
         )}
 
+        <Card className="mt-6">
+          <TablePagination query={query} pageInfo={pageInfo} itemCount={rows.length} />
+        </Card>
+
         <AlertDialog open={!!deleteProductId} onOpenChange={() => setDeleteProductId(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -0,0 +1,193 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Plus, X } from "lucide-react"
+import { useStoreSettings } from "@/components/store-settings-provider"
+import { fromMinorUnits, toMinorUnits } from "@/lib/money"
+import {
+  type ProductOption,
+  type ProductVariant,
+  MAX_PRODUCT_OPTIONS,
+  buildVariantMatrix,
+  formatVariantLabel,
+} from "@/lib/product-variants"
+import { WEIGHT_UNITS } from "@/lib/weight"
+
+interface VariantEditorProps {
+  productName: string
+  options: ProductOption[]
+  variants: ProductVariant[]
+  defaults: Pick<ProductVariant, "price" | "stock" | "weight" | "weightUnit">
+  // IDs of variants that already exist on the saved product. Their stock comes
+  // from the inventory ledger and can't be edited here.
+  lockedStockIds?: string[]
+  onChange: (value: { options: ProductOption[]; variants: ProductVariant[] }) => void
+}
+
+export function VariantEditor({
+  productName,
+  options,
+  variants,
+  defaults,
+  lockedStockIds = [],
+  onChange,
+}: VariantEditorProps) {
+  const { settings } = useStoreSettings()
+
+  const updateOptions = (nextOptions: ProductOption[]) => {
+    onChange({
+      options: nextOptions,
+      variants: buildVariantMatrix(productName, nextOptions, variants, defaults),
+    })
+  }
+
+  const handleOptionChange = (index: number, field: keyof ProductOption, value: string) => {
+    const nextOptions = options.map((option, i) =>
+      i === index ? { ...option, [field]: field === "values" ? value.split(",") : value } : option,
+    )
+    updateOptions(nextOptions)
+  }
+
+  const handleVariantChange = (id: string, field: keyof ProductVariant, value: string | number) => {
+    onChange({
+      options,
+      variants: variants.map((variant) => (variant.id === id ? { ...variant, [field]: value } : variant)),
+    })
+  }
+
+  return (
+    <div className="grid gap-4">
+      {options.map((option, index) => (
+        <div key={index} className="grid grid-cols-1 gap-2 md:grid-cols-[200px_1fr_auto] md:items-end">
+          <div className="grid gap-2">
+            <Label htmlFor={`option-name-${index}`}>Option</Label>
+            <Input
+              id={`option-name-${index}`}
+              value={option.name}
+              onChange={(e) => handleOptionChange(index, "name", e.target.value)}
+              placeholder="e.g. Size"
+              required
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor={`option-values-${index}`}>Values (comma separated)</Label>
+            <Input
+              id={`option-values-${index}`}
+              value={option.values.join(",")}
+              onChange={(e) => handleOptionChange(index, "values", e.target.value)}
+              placeholder="e.g. 100g, 250g, 1kg"
+              required
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => updateOptions(options.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => updateOptions([...options, { name: "", values: [] }])}
+          disabled={options.length >= MAX_PRODUCT_OPTIONS}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Option
+        </Button>
+      </div>
+
+      {variants.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variant</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead>Price ({settings.currency})</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead>Weight</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variants.map((variant) => (
+              <TableRow key={variant.id}>
+                <TableCell className="font-medium whitespace-nowrap">{formatVariantLabel(variant.options)}</TableCell>
+                <TableCell>
+                  <Input
+                    value={variant.sku}
+                    onChange={(e) => handleVariantChange(variant.id, "sku", e.target.value)}
+                    aria-label="SKU"
+                    required
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={fromMinorUnits(variant.price, settings.currency)}
+                    onChange={(e) =>
+                      handleVariantChange(variant.id, "price", toMinorUnits(e.target.value, settings.currency))
+                    }
+                    aria-label="Price"
+                    className="w-28"
+                    required
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={variant.stock}
+                    onChange={(e) => handleVariantChange(variant.id, "stock", e.target.value)}
+                    aria-label="Stock"
+                    className="w-24"
+                    disabled={lockedStockIds.includes(variant.id)}
+                    required
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={variant.weight}
+                      onChange={(e) => handleVariantChange(variant.id, "weight", e.target.value)}
+                      aria-label="Weight"
+                      className="w-24"
+                    />
+                    <Select
+                      value={variant.weightUnit}
+                      onValueChange={(value) => handleVariantChange(variant.id, "weightUnit", value)}
+                    >
+                      <SelectTrigger className="w-20">
+                        <SelectValue placeholder="Unit" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEIGHT_UNITS.map((unit) => (
+                          <SelectItem key={unit} value={unit}>
+                            {unit}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
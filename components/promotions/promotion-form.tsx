@@ -0,0 +1,553 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MultiSelect } from "@/components/ui/multi-select";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from "lucide-react";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiFetch } from "@/lib/api/client";
+import { toDecimalString, toMinorUnits } from "@/lib/money";
+import {
+  type Promotion,
+  type PromotionScope,
+  type PromotionType,
+  PROMOTION_SCOPES,
+  PROMOTION_SCOPE_LABELS,
+  PROMOTION_TYPES,
+  PROMOTION_TYPE_LABELS,
+} from "@/lib/promotions";
+import type { PromotionInput } from "@/lib/schemas";
+
+interface PromotionFormProps {
+  promotionId?: string;
+}
+
+// Numbers are edited as text so partly typed values survive re-renders;
+// blank limits mean none.
+interface FormState {
+  name: string;
+  code: string;
+  active: boolean;
+  type: PromotionType;
+  value: string;
+  buyQuantity: string;
+  getQuantity: string;
+  scope: PromotionScope;
+  scopeIds: string[];
+  minimumSubtotal: string;
+  startsAt: string;
+  endsAt: string;
+  usageLimit: string;
+  perCustomerLimit: string;
+  combinable: boolean;
+  priority: string;
+}
+
+const EMPTY_FORM: FormState = {
+  name: "",
+  code: "",
+  active: true,
+  type: "percentage",
+  value: "",
+  buyQuantity: "1",
+  getQuantity: "1",
+  scope: "all",
+  scopeIds: [],
+  minimumSubtotal: "",
+  startsAt: "",
+  endsAt: "",
+  usageLimit: "",
+  perCustomerLimit: "",
+  combinable: false,
+  priority: "0",
+};
+
+// Where the options of each scope are listed; each responds with a list
+// named after the scope.
+const SCOPE_SOURCES: Record<Exclude<PromotionScope, "all">, string> = {
+  products: "/api/products",
+  categories: "/api/categories",
+  subcategories: "/api/subcategories",
+  tags: "/api/tags",
+};
+
+type ScopeOption = { id: string; name: string };
+
+// `datetime-local` inputs work in the browser's time zone.
+const toLocalInput = (iso: string | null) =>
+  iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "";
+const fromLocalInput = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+const toLimit = (value: string) => (value.trim() ? Number(value) : null);
+
+export function PromotionForm({ promotionId }: PromotionFormProps) {
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [scopeOptions, setScopeOptions] = useState<
+    Partial<Record<PromotionScope, ScopeOption[]>>
+  >({});
+  const [loading, setLoading] = useState(!!promotionId);
+  const [saving, setSaving] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+  const { settings } = useStoreSettings();
+  const { currency } = settings;
+
+  useEffect(() => {
+    if (!promotionId) return;
+    const fetchPromotion = async () => {
+      try {
+        const { promotion } = await apiFetch<{ promotion: Promotion }>(
+          `/api/promotions/${promotionId}`
+        );
+        setForm({
+          name: promotion.name,
+          code: promotion.code ?? "",
+          active: promotion.active,
+          type: promotion.type,
+          value:
+            promotion.type === "fixed"
+              ? toDecimalString(promotion.value, currency)
+              : String(promotion.value),
+          buyQuantity: String(promotion.buyQuantity),
+          getQuantity: String(promotion.getQuantity),
+          scope: promotion.scope,
+          scopeIds: promotion.scopeIds,
+          minimumSubtotal:
+            promotion.minimumSubtotal !== null
+              ? toDecimalString(promotion.minimumSubtotal, currency)
+              : "",
+          startsAt: toLocalInput(promotion.startsAt),
+          endsAt: toLocalInput(promotion.endsAt),
+          usageLimit: promotion.usageLimit?.toString() ?? "",
+          perCustomerLimit: promotion.perCustomerLimit?.toString() ?? "",
+          combinable: promotion.combinable,
+          priority: String(promotion.priority),
+        });
+      } catch (err: any) {
+        console.error(err);
+        if (err.status === 404) {
+          toast({
+            title: "Promotion not found",
+            description: "The promotion you're trying to edit doesn't exist",
+            variant: "destructive",
+          });
+          router.push("/dashboard/promotions");
+          return;
+        }
+        toast({
+          title: "Error",
+          description: "Failed to load promotion",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchPromotion();
+  }, [promotionId, currency, router, toast]);
+
+  // Load the choices of the selected scope the first time it is picked.
+  useEffect(() => {
+    const scope = form.scope;
+    if (scope === "all" || scopeOptions[scope]) return;
+    apiFetch<Record<string, ScopeOption[]>>(SCOPE_SOURCES[scope])
+      .then((data) =>
+        setScopeOptions((prev) => ({
+          ...prev,
+          [scope]: data[scope].map(({ id, name }) => ({ id, name })),
+        }))
+      )
+      .catch((err) => {
+        console.error(err);
+        toast({
+          title: "Error",
+          description: `Failed to load ${PROMOTION_SCOPE_LABELS[
+            scope
+          ].toLowerCase()}`,
+          variant: "destructive",
+        });
+      });
+  }, [form.scope, scopeOptions, toast]);
+
+  const update = <K extends keyof FormState>(field: K, value: FormState[K]) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const input: PromotionInput = {
+        name: form.name.trim(),
+        code: form.code.trim() || null,
+        active: form.active,
+        type: form.type,
+        value:
+          form.type === "fixed"
+            ? toMinorUnits(form.value, currency)
+            : form.type === "freeShipping"
+            ? 0
+            : Number(form.value),
+        buyQuantity: Number(form.buyQuantity),
+        getQuantity: Number(form.getQuantity),
+        scope: form.scope,
+        scopeIds: form.scope === "all" ? [] : form.scopeIds,
+        minimumSubtotal: form.minimumSubtotal.trim()
+          ? toMinorUnits(form.minimumSubtotal, currency)
+          : null,
+        startsAt: fromLocalInput(form.startsAt),
+        endsAt: fromLocalInput(form.endsAt),
+        usageLimit: toLimit(form.usageLimit),
+        perCustomerLimit: toLimit(form.perCustomerLimit),
+        combinable: form.combinable,
+        priority: Number(form.priority) || 0,
+      };
+      await apiFetch(
+        promotionId ? `/api/promotions/${promotionId}` : "/api/promotions",
+        {
+          method: promotionId ? "PATCH" : "POST",
+          body: JSON.stringify(input),
+        }
+      );
+      toast({
+        title: promotionId ? "Promotion updated" : "Promotion created",
+        description: `"${input.name}" has been saved`,
+      });
+      router.push("/dashboard/promotions");
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to save promotion",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+          <CardDescription>
+            Promotions with a code apply when a shopper enters it; without one
+            they apply to every order that qualifies.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={form.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="Summer sale"
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="code">Code</Label>
+              <Input
+                id="code"
+                value={form.code}
+                onChange={(e) => update("code", e.target.value.toUpperCase())}
+                placeholder="Automatic"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4 rounded-md border p-4">
+              <div>
+                <Label htmlFor="active">Enabled</Label>
+                <p className="text-sm text-muted-foreground">
+                  Disabled promotions never apply.
+                </p>
+              </div>
+              <Switch
+                id="active"
+                checked={form.active}
+                onCheckedChange={(checked) => update("active", checked)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Discount</CardTitle>
+          <CardDescription>
+            What the promotion takes off, and which products it applies to.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="type">Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => update("type", value as PromotionType)}
+              >
+                <SelectTrigger id="type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROMOTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {PROMOTION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.type !== "freeShipping" && (
+              <div className="grid gap-2">
+                <Label htmlFor="value">
+                  {form.type === "fixed"
+                    ? `Amount Off (${currency})`
+                    : form.type === "buyXGetY"
+                    ? "Discount On Y Items (%)"
+                    : "Percent Off (%)"}
+                </Label>
+                <Input
+                  id="value"
+                  type="number"
+                  min="0"
+                  max={form.type === "fixed" ? undefined : "100"}
+                  step="any"
+                  value={form.value}
+                  onChange={(e) => update("value", e.target.value)}
+                  placeholder={form.type === "buyXGetY" ? "100" : undefined}
+                  required
+                />
+              </div>
+            )}
+            {form.type === "buyXGetY" && (
+              <>
+                <div className="grid gap-2">
+                  <Label htmlFor="buyQuantity">Buy (X)</Label>
+                  <Input
+                    id="buyQuantity"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={form.buyQuantity}
+                    onChange={(e) => update("buyQuantity", e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="getQuantity">Get (Y)</Label>
+                  <Input
+                    id="getQuantity"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={form.getQuantity}
+                    onChange={(e) => update("getQuantity", e.target.value)}
+                    required
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    The cheapest items in each group are discounted.
+                  </p>
+                </div>
+              </>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="scope">Applies To</Label>
+              <Select
+                value={form.scope}
+                onValueChange={(value) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    scope: value as PromotionScope,
+                    scopeIds: [],
+                  }))
+                }
+              >
+                <SelectTrigger id="scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROMOTION_SCOPES.map((scope) => (
+                    <SelectItem key={scope} value={scope}>
+                      {PROMOTION_SCOPE_LABELS[scope]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.scope !== "all" && (
+              <div className="grid gap-2">
+                <Label>{PROMOTION_SCOPE_LABELS[form.scope]}</Label>
+                <MultiSelect
+                  options={(scopeOptions[form.scope] ?? []).map((option) => ({
+                    label: option.name,
+                    value: option.id,
+                  }))}
+                  selected={form.scopeIds}
+                  onChange={(selected) => update("scopeIds", selected)}
+                  placeholder={`Select ${PROMOTION_SCOPE_LABELS[
+                    form.scope
+                  ].toLowerCase()}`}
+                />
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Conditions</CardTitle>
+          <CardDescription>
+            When the promotion applies. Leave a field empty for no limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="startsAt">Starts</Label>
+              <Input
+                id="startsAt"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => update("startsAt", e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="endsAt">Ends</Label>
+              <Input
+                id="endsAt"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => update("endsAt", e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="minimumSubtotal">
+                Minimum Spend ({currency})
+              </Label>
+              <Input
+                id="minimumSubtotal"
+                type="number"
+                min="0"
+                step="any"
+                value={form.minimumSubtotal}
+                onChange={(e) => update("minimumSubtotal", e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="usageLimit">Total Uses</Label>
+              <Input
+                id="usageLimit"
+                type="number"
+                min="1"
+                step="1"
+                value={form.usageLimit}
+                onChange={(e) => update("usageLimit", e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="perCustomerLimit">Uses Per Customer</Label>
+              <Input
+                id="perCustomerLimit"
+                type="number"
+                min="1"
+                step="1"
+                value={form.perCustomerLimit}
+                onChange={(e) => update("perCustomerLimit", e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stacking</CardTitle>
+          <CardDescription>
+            An order gets every combinable promotion it qualifies for, or the
+            single other promotion worth more.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="flex items-center justify-between gap-4 rounded-md border p-4">
+              <div>
+                <Label htmlFor="combinable">Combinable</Label>
+                <p className="text-sm text-muted-foreground">
+                  Applies together with other combinable promotions.
+                </p>
+              </div>
+              <Switch
+                id="combinable"
+                checked={form.combinable}
+                onCheckedChange={(checked) => update("combinable", checked)}
+              />
+            </div>
+            {form.combinable && (
+              <div className="grid gap-2">
+                <Label htmlFor="priority">Priority</Label>
+                <Input
+                  id="priority"
+                  type="number"
+                  step="1"
+                  value={form.priority}
+                  onChange={(e) => update("priority", e.target.value)}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Lower numbers apply first; later promotions discount what is
+                  left.
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => router.push("/dashboard/promotions")}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {promotionId ? "Update Promotion" : "Create Promotion"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Edit, Loader2, Trash2 } from "lucide-react";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiFetch } from "@/lib/api/client";
+import {
+  type Promotion,
+  type PromotionStatus,
+  PROMOTION_SCOPE_LABELS,
+  PROMOTION_STATUS_LABELS,
+  getPromotionStatus,
+} from "@/lib/promotions";
+
+const STATUS_VARIANTS: Record<
+  PromotionStatus,
+  "success" | "warning" | "secondary" | "outline"
+> = {
+  active: "success",
+  scheduled: "warning",
+  expired: "secondary",
+  disabled: "outline",
+};
+
+export function PromotionsTable() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { formatMoney, formatDate } = useStoreSettings();
+
+  useEffect(() => {
+    const fetchPromotions = async () => {
+      try {
+        const { promotions, usage } = await apiFetch<{
+          promotions: Promotion[];
+          usage: Record<string, number>;
+        }>("/api/promotions");
+        setPromotions(promotions);
+        setUsage(usage);
+      } catch (err) {
+        console.error(err);
+        toast({
+          title: "Error",
+          description: "Failed to load promotions",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPromotions();
+  }, [toast]);
+
+  const describeDiscount = (promotion: Promotion) => {
+    switch (promotion.type) {
+      case "percentage":
+        return `${promotion.value}% off`;
+      case "fixed":
+        return `${formatMoney(promotion.value)} off`;
+      case "buyXGetY":
+        return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${
+          promotion.value === 100 ? "free" : `${promotion.value}% off`
+        }`;
+      case "freeShipping":
+        return "Free shipping";
+    }
+  };
+
+  const describeDates = (promotion: Promotion) => {
+    if (!promotion.startsAt && !promotion.endsAt) return "Always";
+    if (!promotion.endsAt) return `From ${formatDate(promotion.startsAt!)}`;
+    if (!promotion.startsAt) return `Until ${formatDate(promotion.endsAt)}`;
+    return `${formatDate(promotion.startsAt)} – ${formatDate(promotion.endsAt)}`;
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    try {
+      await apiFetch(`/api/promotions/${deleteId}`, { method: "DELETE" });
+      setPromotions((prev) => prev.filter((entry) => entry.id !== deleteId));
+      toast({ title: "Deleted", description: "Promotion deleted" });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to delete promotion",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleteId(null);
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <>
+      <Card>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : promotions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-center">
+            <p className="text-muted-foreground">No promotions yet</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead className="text-right">Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.map((promotion) => {
+                const status = getPromotionStatus(promotion, now);
+                return (
+                  <TableRow key={promotion.id}>
+                    <TableCell className="font-medium">
+                      {promotion.name}
+                      {promotion.combinable && (
+                        <p className="text-xs text-muted-foreground">
+                          Combinable
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {promotion.code ? (
+                        <code>{promotion.code}</code>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          Automatic
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{describeDiscount(promotion)}</TableCell>
+                    <TableCell>
+                      {promotion.scope === "all"
+                        ? PROMOTION_SCOPE_LABELS.all
+                        : `${promotion.scopeIds.length} ${PROMOTION_SCOPE_LABELS[
+                            promotion.scope
+                          ].toLowerCase()}`}
+                    </TableCell>
+                    <TableCell>{describeDates(promotion)}</TableCell>
+                    <TableCell className="text-right">
+                      {usage[promotion.id] ?? 0}
+                      {promotion.usageLimit !== null &&
+                        ` / ${promotion.usageLimit}`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[status]}>
+                        {PROMOTION_STATUS_LABELS[status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="icon" asChild>
+                          <Link
+                            href={`/dashboard/promotions/edit/${promotion.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                            <span className="sr-only">Edit</span>
+                          </Link>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setDeleteId(promotion.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the promotion. Orders that used it
+              keep their discounts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,8 +1,6 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { collection, getDocs, limit, orderBy, query } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import {
   Card,
   CardContent,
@@ -20,38 +18,24 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { formatDate } from "@/lib/utils";
+import { apiFetch } from "@/lib/api/client";
+import type { Order } from "@/lib/types";
 import Link from "next/link";
 import { Loader2 } from "lucide-react";
-
-interface Order {
-  id: string;
-  orderId: string;
-  userId: string;
-  createdAt: string;
-  totalAmount: string;
-  paymentStatus: string;
-}
+import { useStoreSettings } from "@/components/store-settings-provider";
 
 export function RecentOrders() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const { formatMoney, formatDate } = useStoreSettings();
 
   useEffect(() => {
     const fetchRecentOrders = async () => {
       try {
-        const q = query(
-          collection(db, "orders"),
-          orderBy("createdAt", "desc"),
-          limit(5)
+        const { orders: ordersData } = await apiFetch<{ orders: Order[] }>(
+          "/api/orders?limit=5"
         );
 
-        const querySnapshot = await getDocs(q);
-        const ordersData = querySnapshot.docs.map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        })) as Order[];
-
         setOrders(ordersData);
       } catch (error) {
         console.error("Error fetching recent orders:", error);
@@ -98,7 +82,9 @@ export function RecentOrders() {
                 <TableRow key={order.id}>
                   <TableCell className="font-medium">{order.orderId}</TableCell>
                   <TableCell>{formatDate(order.createdAt)}</TableCell>
-                  <TableCell>£{order.totalAmount}</TableCell>
+                  <TableCell>
+                    {formatMoney(order.totalAmount, order.currency)}
+                  </TableCell>
                   <TableCell>
                     <Badge
                       variant={
@@ -0,0 +1,215 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, RotateCw } from "lucide-react";
+import { apiFetch } from "@/lib/api/client";
+import {
+  type PaymentEventRecord,
+  type PaymentEventStatus,
+  PAYMENT_EVENT_STATUSES,
+  PAYMENT_EVENT_STATUS_LABELS,
+} from "@/lib/payment-events";
+
+const STATUS_VARIANTS: Record<
+  PaymentEventStatus,
+  "success" | "warning" | "secondary" | "outline" | "destructive"
+> = {
+  received: "warning",
+  processing: "warning",
+  processed: "success",
+  ignored: "outline",
+  skipped: "secondary",
+  failed: "destructive",
+};
+
+export function PaymentEventsTable() {
+  const [events, setEvents] = useState<PaymentEventRecord[]>([]);
+  const [status, setStatus] = useState<PaymentEventStatus | "all">("all");
+  const [loading, setLoading] = useState(true);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = status === "all" ? "" : `?status=${status}`;
+      const { events } = await apiFetch<{ events: PaymentEventRecord[] }>(
+        `/api/payment-events${query}`
+      );
+      setEvents(events);
+    } catch (err) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: "Failed to load payment events",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleReplay = async (id: string) => {
+    setReplayingId(id);
+    try {
+      const { event } = await apiFetch<{ event: PaymentEventRecord }>(
+        `/api/payment-events/${id}/replay`,
+        { method: "POST" }
+      );
+      setEvents((prev) =>
+        prev.map((entry) => (entry.id === id ? event : entry))
+      );
+      toast({
+        title: "Replayed",
+        description: `Event ${PAYMENT_EVENT_STATUS_LABELS[
+          event.status
+        ].toLowerCase()}`,
+      });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to replay event",
+        variant: "destructive",
+      });
+      fetchEvents();
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Events received from payment providers&apos; webhooks, newest first.
+        </p>
+        <Select
+          value={status}
+          onValueChange={(value) =>
+            setStatus(value as PaymentEventStatus | "all")
+          }
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            {PAYMENT_EVENT_STATUSES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {PAYMENT_EVENT_STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-center">
+            <p className="text-muted-foreground">No payment events</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell>
+                    {new Date(event.receivedAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{event.provider}</TableCell>
+                  <TableCell>
+                    {event.type}
+                    <p className="text-xs text-muted-foreground">
+                      {event.eventId}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    {event.orderId ? (
+                      <Link
+                        href={`/dashboard/orders/${event.orderId}`}
+                        className="underline-offset-4 hover:underline"
+                      >
+                        View order
+                      </Link>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[event.status]}>
+                      {PAYMENT_EVENT_STATUS_LABELS[event.status]}
+                    </Badge>
+                    {event.message && (
+                      <p className="text-xs text-muted-foreground">
+                        {event.message}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{event.attempts}</TableCell>
+                  <TableCell className="text-right">
+                    {event.status !== "processed" &&
+                      event.status !== "ignored" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={replayingId === event.id}
+                          onClick={() => handleReplay(event.id)}
+                        >
+                          {replayingId === event.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCw className="mr-2 h-4 w-4" />
+                          )}
+                          Replay
+                        </Button>
+                      )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Button } from "@/components/ui/button";
+
+export const settingsNavItems = [
+  { title: "Store", href: "/dashboard/settings" },
+  { title: "Tax Classes", href: "/dashboard/settings/tax" },
+  { title: "Shipping", href: "/dashboard/settings/shipping" },
+  { title: "Payments", href: "/dashboard/settings/payments" },
+];
+
+export function SettingsNav() {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex flex-wrap gap-2 border-b pb-4">
+      {settingsNavItems.map((item) => (
+        <Button
+          key={item.href}
+          variant={pathname === item.href ? "secondary" : "ghost"}
+          size="sm"
+          asChild
+        >
+          <Link href={item.href}>{item.title}</Link>
+        </Button>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus, X } from "lucide-react";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiFetch } from "@/lib/api/client";
+import { toDecimalString, toMinorUnits } from "@/lib/money";
+import type { ShippingZoneInput } from "@/lib/schemas";
+import {
+  type ShippingRateBasis,
+  type ShippingZone,
+  SHIPPING_RATE_BASES,
+  SHIPPING_RATE_BASIS_LABELS,
+} from "@/lib/shipping";
+import { fromGrams, massUnit, toGrams } from "@/lib/weight";
+
+interface ShippingZoneDialogProps {
+  // The zone being edited, or null to create one.
+  zone: ShippingZone | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (zone: ShippingZone) => void;
+}
+
+// Rates are edited as text so partly typed numbers survive re-renders.
+// Weight bands are in the store's weight unit and amounts in its currency.
+interface RateRow {
+  id: string;
+  name: string;
+  basis: ShippingRateBasis;
+  min: string;
+  max: string;
+  price: string;
+}
+
+const emptyRate = (): RateRow => ({
+  id: uuidv4(),
+  name: "",
+  basis: "weight",
+  min: "0",
+  max: "",
+  price: "",
+});
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+export function ShippingZoneDialog({
+  zone,
+  open,
+  onOpenChange,
+  onSaved,
+}: ShippingZoneDialogProps) {
+  const [name, setName] = useState("");
+  const [countries, setCountries] = useState("");
+  const [regions, setRegions] = useState("");
+  const [postalCodes, setPostalCodes] = useState("");
+  const [freeShippingThreshold, setFreeShippingThreshold] = useState("");
+  const [rates, setRates] = useState<RateRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { settings } = useStoreSettings();
+  const { currency } = settings;
+  const weightUnit = massUnit(settings.weightUnit);
+
+  useEffect(() => {
+    if (!open) return;
+    const toText = (value: number, basis: ShippingRateBasis) =>
+      basis === "weight"
+        ? String(
+            Math.round((fromGrams(value, weightUnit) ?? value) * 1000) / 1000
+          )
+        : toDecimalString(value, currency);
+    setName(zone?.name ?? "");
+    setCountries(zone?.countries.join(", ") ?? "");
+    setRegions(zone?.regions.join(", ") ?? "");
+    setPostalCodes(zone?.postalCodes.join(", ") ?? "");
+    setFreeShippingThreshold(
+      zone?.freeShippingThreshold != null
+        ? toDecimalString(zone.freeShippingThreshold, currency)
+        : ""
+    );
+    setRates(
+      zone
+        ? zone.rates.map((rate) => ({
+            id: rate.id,
+            name: rate.name,
+            basis: rate.basis,
+            min: toText(rate.min, rate.basis),
+            max: rate.max === null ? "" : toText(rate.max, rate.basis),
+            price: toDecimalString(rate.price, currency),
+          }))
+        : [emptyRate()]
+    );
+  }, [open, zone, currency, weightUnit]);
+
+  const updateRate = (id: string, field: keyof RateRow, value: string) =>
+    setRates((prev) =>
+      prev.map((rate) => (rate.id === id ? { ...rate, [field]: value } : rate))
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const toBound = (value: string, basis: ShippingRateBasis) =>
+        basis === "weight"
+          ? toGrams(Number(value), weightUnit) ?? 0
+          : toMinorUnits(value, currency);
+      const input: ShippingZoneInput = {
+        name: name.trim(),
+        countries: splitList(countries),
+        regions: splitList(regions),
+        postalCodes: splitList(postalCodes),
+        freeShippingThreshold: freeShippingThreshold.trim()
+          ? toMinorUnits(freeShippingThreshold, currency)
+          : null,
+        rates: rates.map((rate) => ({
+          id: rate.id,
+          name: rate.name.trim(),
+          basis: rate.basis,
+          min: toBound(rate.min || "0", rate.basis),
+          max: rate.max.trim() ? toBound(rate.max, rate.basis) : null,
+          price: toMinorUnits(rate.price, currency),
+        })),
+      };
+      const { shippingZone } = await apiFetch<{ shippingZone: ShippingZone }>(
+        zone ? `/api/shipping-zones/${zone.id}` : "/api/shipping-zones",
+        {
+          method: zone ? "PATCH" : "POST",
+          body: JSON.stringify(input),
+        }
+      );
+      onSaved(shippingZone);
+      toast({
+        title: "Saved",
+        description: `Shipping zone "${shippingZone.name}" saved`,
+      });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to save shipping zone",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {zone ? "Edit Shipping Zone" : "New Shipping Zone"}
+            </DialogTitle>
+            <DialogDescription>
+              List countries, regions and postal codes separated by commas;
+              leave a list empty to match any. Postal codes can end in * to
+              cover a range, e.g. 10*. Orders use the most specific zone for
+              their address.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="zoneName">Name</Label>
+                <Input
+                  id="zoneName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Colombo"
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="zoneCountries">Countries</Label>
+                <Input
+                  id="zoneCountries"
+                  value={countries}
+                  onChange={(e) => setCountries(e.target.value)}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="zoneRegions">Regions</Label>
+                <Input
+                  id="zoneRegions"
+                  value={regions}
+                  onChange={(e) => setRegions(e.target.value)}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="zonePostalCodes">Postal Codes</Label>
+                <Input
+                  id="zonePostalCodes"
+                  value={postalCodes}
+                  onChange={(e) => setPostalCodes(e.target.value)}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="zoneFreeShipping">
+                  Free Shipping From ({currency})
+                </Label>
+                <Input
+                  id="zoneFreeShipping"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={freeShippingThreshold}
+                  onChange={(e) => setFreeShippingThreshold(e.target.value)}
+                  placeholder="Never"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Each method is priced by the band the order&apos;s weight or
+              value falls in. Give bands of one method the same name; leave
+              the maximum empty for no limit.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Method</TableHead>
+                  <TableHead className="w-40">Based On</TableHead>
+                  <TableHead className="w-28">From</TableHead>
+                  <TableHead className="w-28">Up To</TableHead>
+                  <TableHead className="w-28">Price ({currency})</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>
+                      <Input
+                        value={rate.name}
+                        onChange={(e) =>
+                          updateRate(rate.id, "name", e.target.value)
+                        }
+                        placeholder="Standard"
+                        aria-label="Method"
+                        required
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={rate.basis}
+                        onValueChange={(value) =>
+                          updateRate(rate.id, "basis", value)
+                        }
+                      >
+                        <SelectTrigger aria-label="Based on">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SHIPPING_RATE_BASES.map((basis) => (
+                            <SelectItem key={basis} value={basis}>
+                              {basis === "weight"
+                                ? `${SHIPPING_RATE_BASIS_LABELS[basis]} (${weightUnit})`
+                                : SHIPPING_RATE_BASIS_LABELS[basis]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={rate.min}
+                        onChange={(e) =>
+                          updateRate(rate.id, "min", e.target.value)
+                        }
+                        aria-label="From"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={rate.max}
+                        onChange={(e) =>
+                          updateRate(rate.id, "max", e.target.value)
+                        }
+                        placeholder="No limit"
+                        aria-label="Up to"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={rate.price}
+                        onChange={(e) =>
+                          updateRate(rate.id, "price", e.target.value)
+                        }
+                        aria-label="Price"
+                        required
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setRates((prev) =>
+                            prev.filter((entry) => entry.id !== rate.id)
+                          )
+                        }
+                      >
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Remove rate</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setRates((prev) => [...prev, emptyRate()])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rate
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
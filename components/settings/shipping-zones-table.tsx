@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { useAuthorization } from "@/components/auth-provider";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { ShippingZoneDialog } from "@/components/settings/shipping-zone-dialog";
+import { apiFetch } from "@/lib/api/client";
+import type { ShippingRate, ShippingZone } from "@/lib/shipping";
+import { formatWeight, massUnit } from "@/lib/weight";
+
+function formatCoverage(zone: ShippingZone) {
+  const parts = [zone.countries, zone.regions, zone.postalCodes]
+    .filter((entries) => entries.length > 0)
+    .map((entries) => entries.join(", "));
+  return parts.length > 0 ? parts.join(" · ") : "Everywhere else";
+}
+
+export function ShippingZonesTable() {
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ShippingZone | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuthorization();
+  const { settings, formatMoney } = useStoreSettings();
+  const editable = can("settings:manage");
+  const weightUnit = massUnit(settings.weightUnit);
+
+  useEffect(() => {
+    const fetchZones = async () => {
+      try {
+        const { shippingZones } = await apiFetch<{
+          shippingZones: ShippingZone[];
+        }>("/api/shipping-zones");
+        setZones(shippingZones);
+      } catch (err) {
+        console.error(err);
+        toast({
+          title: "Error",
+          description: "Failed to load shipping zones",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchZones();
+  }, [toast]);
+
+  const formatBand = (rate: ShippingRate) => {
+    const format = (value: number) =>
+      rate.basis === "weight"
+        ? formatWeight(value, weightUnit)
+        : formatMoney(value);
+    return rate.max === null
+      ? `${format(rate.min)} and up`
+      : `${format(rate.min)} – ${format(rate.max)}`;
+  };
+
+  const openDialog = (zone: ShippingZone | null) => {
+    setEditing(zone);
+    setDialogOpen(true);
+  };
+
+  const handleSaved = (saved: ShippingZone) => {
+    setZones((prev) =>
+      prev.some((entry) => entry.id === saved.id)
+        ? prev.map((entry) => (entry.id === saved.id ? saved : entry))
+        : [...prev, saved]
+    );
+    setDialogOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    try {
+      await apiFetch(`/api/shipping-zones/${deleteId}`, { method: "DELETE" });
+      setZones((prev) => prev.filter((entry) => entry.id !== deleteId));
+      toast({ title: "Deleted", description: "Shipping zone deleted" });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to delete shipping zone",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleteId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {editable && (
+        <div className="flex justify-end">
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Shipping Zone
+          </Button>
+        </div>
+      )}
+
+      <Card>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : zones.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-center">
+            <p className="text-muted-foreground">
+              No shipping zones yet. Orders can&apos;t be quoted shipping
+              until one covers their address.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Covers</TableHead>
+                <TableHead>Rates</TableHead>
+                <TableHead>Free Shipping</TableHead>
+                {editable && (
+                  <TableHead className="text-right">Actions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {zones.map((zone) => (
+                <TableRow key={zone.id}>
+                  <TableCell className="font-medium">{zone.name}</TableCell>
+                  <TableCell>{formatCoverage(zone)}</TableCell>
+                  <TableCell>
+                    {zone.rates.length === 0 ? (
+                      <span className="text-muted-foreground">No rates</span>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {zone.rates.map((rate) => (
+                          <li key={rate.id}>
+                            {rate.name} {formatMoney(rate.price)} —{" "}
+                            {formatBand(rate)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {zone.freeShippingThreshold === null ? (
+                      <span className="text-muted-foreground">Never</span>
+                    ) : (
+                      `From ${formatMoney(zone.freeShippingThreshold)}`
+                    )}
+                  </TableCell>
+                  {editable && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => openDialog(zone)}
+                        >
+                          <Edit className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setDeleteId(zone.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <ShippingZoneDialog
+        zone={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the shipping zone. Orders already
+              placed keep the shipping they were charged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,475 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useMemo, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Upload, X } from "lucide-react";
+import { useAuthorization } from "@/components/auth-provider";
+import { useStoreSettings } from "@/components/store-settings-provider";
+import { apiFetch } from "@/lib/api/client";
+import { CURRENCIES } from "@/lib/money";
+import { uploadToS3 } from "@/lib/s3-upload";
+import type { StoreSettingsInput } from "@/lib/schemas";
+import type { StoreSettings } from "@/lib/settings";
+import { type WeightUnit, WEIGHT_UNITS } from "@/lib/weight";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+// Select value standing for "show amounts in the store currency".
+const STORE_CURRENCY = "store";
+
+// Numbers are edited as text so partly typed values survive re-renders.
+function toFormState(settings: StoreSettings) {
+  return {
+    name: settings.name,
+    contactEmail: settings.contactEmail,
+    logo: settings.logo,
+    currency: settings.currency,
+    locale: settings.locale,
+    timezone: settings.timezone,
+    displayCurrency: settings.displayCurrency ?? STORE_CURRENCY,
+    rates: Object.fromEntries(
+      Object.entries(settings.exchangeRates).map(([currency, rate]) => [
+        currency,
+        String(rate),
+      ])
+    ) as Record<string, string>,
+    weightUnit: settings.weightUnit,
+    lowStockThreshold: String(settings.lowStockThreshold),
+    pricesIncludeTax: settings.tax.pricesIncludeTax,
+    taxRate: String(settings.tax.defaultRate),
+  };
+}
+
+type FormState = ReturnType<typeof toFormState>;
+
+export function StoreSettingsForm() {
+  const { settings, loading, setSettings } = useStoreSettings();
+  const { can } = useAuthorization();
+  const { toast } = useToast();
+  const [form, setForm] = useState<FormState>(toFormState(settings));
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [logoPreview, setLogoPreview] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const editable = can("settings:manage");
+
+  useEffect(() => {
+    setForm(toFormState(settings));
+    setLogoFile(null);
+    setLogoPreview(null);
+  }, [settings]);
+
+  const timezones = useMemo(() => {
+    const zones = Intl.supportedValuesOf("timeZone");
+    return zones.includes(form.timezone) ? zones : [form.timezone, ...zones];
+  }, [form.timezone]);
+
+  const otherCurrencies = CURRENCIES.filter((code) => code !== form.currency);
+
+  const update = <K extends keyof FormState>(field: K, value: FormState[K]) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setLogoFile(file);
+    const reader = new FileReader();
+    reader.onload = () => setLogoPreview(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const removeLogo = () => {
+    setLogoFile(null);
+    setLogoPreview(null);
+    update("logo", "");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const logo = logoFile ? await uploadToS3(logoFile, "store") : form.logo;
+      const exchangeRates = Object.fromEntries(
+        otherCurrencies
+          .filter((code) => form.rates[code]?.trim())
+          .map((code) => [code, Number(form.rates[code])])
+      );
+      const input: StoreSettingsInput = {
+        name: form.name.trim(),
+        contactEmail: form.contactEmail.trim(),
+        logo,
+        currency: form.currency,
+        locale: form.locale.trim(),
+        timezone: form.timezone,
+        displayCurrency:
+          form.displayCurrency === STORE_CURRENCY ? null : form.displayCurrency,
+        exchangeRates,
+        weightUnit: form.weightUnit,
+        lowStockThreshold: Number(form.lowStockThreshold),
+        tax: {
+          pricesIncludeTax: form.pricesIncludeTax,
+          defaultRate: Number(form.taxRate),
+        },
+      };
+      const { settings: saved } = await apiFetch<{ settings: StoreSettings }>(
+        "/api/settings",
+        { method: "PUT", body: JSON.stringify(input) }
+      );
+      setSettings(saved);
+      toast({ title: "Saved", description: "Store settings updated" });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const logoSrc = logoPreview ?? form.logo;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <fieldset disabled={!editable} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>General</CardTitle>
+            <CardDescription>
+              How the store is named and reached.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="name">Store Name</Label>
+                <Input
+                  id="name"
+                  value={form.name}
+                  onChange={(e) => update("name", e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="contactEmail">Contact Email</Label>
+                <Input
+                  id="contactEmail"
+                  type="email"
+                  value={form.contactEmail}
+                  onChange={(e) => update("contactEmail", e.target.value)}
+                  placeholder="hello@example.com"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="logo">Logo</Label>
+              <div className="flex items-center gap-4">
+                {logoSrc ? (
+                  <div className="relative h-20 w-20 overflow-hidden rounded-md border">
+                    <Image
+                      src={logoSrc}
+                      alt="Store logo"
+                      fill
+                      className="object-contain"
+                    />
+                    {editable && (
+                      <button
+                        type="button"
+                        onClick={removeLogo}
+                        className="absolute right-1 top-1 rounded-full bg-background/80 p-0.5"
+                        aria-label="Remove logo"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex h-20 w-20 items-center justify-center rounded-md border border-dashed text-muted-foreground">
+                    <Upload className="h-5 w-5" />
+                  </div>
+                )}
+                <Input
+                  id="logo"
+                  type="file"
+                  accept="image/*"
+                  onChange={handleLogoChange}
+                  className="max-w-xs"
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Regional</CardTitle>
+            <CardDescription>
+              Products are priced and new orders charged in the store currency.
+              Existing orders keep the currency they were placed in. Amounts
+              and dates are shown for the locale, and dates in the time zone.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="currency">Store Currency</Label>
+                <Select
+                  value={form.currency}
+                  onValueChange={(value) => update("currency", value)}
+                  disabled={!editable}
+                >
+                  <SelectTrigger id="currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="displayCurrency">Show Amounts In</Label>
+                <Select
+                  value={form.displayCurrency}
+                  onValueChange={(value) => update("displayCurrency", value)}
+                  disabled={!editable}
+                >
+                  <SelectTrigger id="displayCurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={STORE_CURRENCY}>
+                      Their own currency
+                    </SelectItem>
+                    {otherCurrencies.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="locale">Locale</Label>
+                <Input
+                  id="locale"
+                  value={form.locale}
+                  onChange={(e) => update("locale", e.target.value)}
+                  placeholder="en-LK"
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="timezone">Time Zone</Label>
+                <Select
+                  value={form.timezone}
+                  onValueChange={(value) => update("timezone", value)}
+                  disabled={!editable}
+                >
+                  <SelectTrigger id="timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timezones.map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Exchange Rates</Label>
+              <p className="text-sm text-muted-foreground">
+                How much one {form.currency} is worth in each currency. Rates
+                are only used to show amounts in another currency; orders are
+                never converted.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Currency</TableHead>
+                    <TableHead>1 {form.currency} =</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {otherCurrencies.map((code) => (
+                    <TableRow key={code}>
+                      <TableCell className="font-medium">{code}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="any"
+                          min="0"
+                          value={form.rates[code] ?? ""}
+                          onChange={(e) =>
+                            update("rates", {
+                              ...form.rates,
+                              [code]: e.target.value,
+                            })
+                          }
+                          aria-label={`${code} rate`}
+                          className="w-40"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Example:{" "}
+              {formatCurrency(123456, form.currency, {
+                locale: form.locale || settings.locale,
+                storeCurrency: form.currency,
+              })}
+              ,{" "}
+              {formatDate(new Date().toISOString(), {
+                locale: form.locale || settings.locale,
+                timezone: form.timezone,
+              })}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Catalog</CardTitle>
+            <CardDescription>
+              Defaults for products that don&apos;t set their own.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="weightUnit">Default Weight Unit</Label>
+                <Select
+                  value={form.weightUnit}
+                  onValueChange={(value) =>
+                    update("weightUnit", value as WeightUnit)
+                  }
+                  disabled={!editable}
+                >
+                  <SelectTrigger id="weightUnit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEIGHT_UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {unit}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="lowStockThreshold">Low-Stock Threshold</Label>
+                <Input
+                  id="lowStockThreshold"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={form.lowStockThreshold}
+                  onChange={(e) => update("lowStockThreshold", e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tax</CardTitle>
+            <CardDescription>
+              The rate applied to orders unless a more specific rule applies.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="flex items-center justify-between gap-4 rounded-md border p-4">
+                <div>
+                  <Label htmlFor="pricesIncludeTax">Prices Include Tax</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Product prices are entered with tax included.
+                  </p>
+                </div>
+                <Switch
+                  id="pricesIncludeTax"
+                  checked={form.pricesIncludeTax}
+                  onCheckedChange={(checked) =>
+                    update("pricesIncludeTax", checked)
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="taxRate">Default Tax Rate (%)</Label>
+                <Input
+                  id="taxRate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="any"
+                  value={form.taxRate}
+                  onChange={(e) => update("taxRate", e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </fieldset>
+
+      {editable && (
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Settings
+          </Button>
+        </div>
+      )}
+    </form>
+  );
+}
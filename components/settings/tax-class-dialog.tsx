@@ -0,0 +1,250 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus, X } from "lucide-react";
+import { apiFetch } from "@/lib/api/client";
+import type { TaxClassInput } from "@/lib/schemas";
+import type { TaxClass } from "@/lib/tax";
+
+interface TaxClassDialogProps {
+  // The class being edited, or null to create one.
+  taxClass: TaxClass | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (taxClass: TaxClass) => void;
+}
+
+// Rates are edited as text so partly typed numbers survive re-renders.
+interface RateRow {
+  id: string;
+  name: string;
+  country: string;
+  region: string;
+  rate: string;
+}
+
+const emptyRate = (): RateRow => ({
+  id: uuidv4(),
+  name: "",
+  country: "",
+  region: "",
+  rate: "",
+});
+
+export function TaxClassDialog({
+  taxClass,
+  open,
+  onOpenChange,
+  onSaved,
+}: TaxClassDialogProps) {
+  const [name, setName] = useState("");
+  const [rates, setRates] = useState<RateRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(taxClass?.name ?? "");
+    setRates(
+      taxClass
+        ? taxClass.rates.map((rate) => ({ ...rate, rate: String(rate.rate) }))
+        : [emptyRate()]
+    );
+  }, [open, taxClass]);
+
+  const updateRate = (id: string, field: keyof RateRow, value: string) =>
+    setRates((prev) =>
+      prev.map((rate) => (rate.id === id ? { ...rate, [field]: value } : rate))
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const input: TaxClassInput = {
+        name: name.trim(),
+        rates: rates.map((rate) => ({
+          id: rate.id,
+          name: rate.name.trim(),
+          country: rate.country.trim(),
+          region: rate.region.trim(),
+          rate: Number(rate.rate),
+        })),
+      };
+      const { taxClass: saved } = await apiFetch<{ taxClass: TaxClass }>(
+        taxClass ? `/api/tax-classes/${taxClass.id}` : "/api/tax-classes",
+        {
+          method: taxClass ? "PATCH" : "POST",
+          body: JSON.stringify(input),
+        }
+      );
+      onSaved(saved);
+      toast({
+        title: "Saved",
+        description: `Tax class "${saved.name}" saved`,
+      });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to save tax class",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {taxClass ? "Edit Tax Class" : "New Tax Class"}
+            </DialogTitle>
+            <DialogDescription>
+              Leave the country empty for a rate that applies everywhere, or
+              the region empty for one that covers the whole country. Orders
+              use the most specific rate for their delivery address, and the
+              store&apos;s default rate where none applies.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="taxClassName">Name</Label>
+              <Input
+                id="taxClassName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Reduced rate"
+                required
+              />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Country</TableHead>
+                  <TableHead>Region</TableHead>
+                  <TableHead className="w-28">Rate (%)</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>
+                      <Input
+                        value={rate.name}
+                        onChange={(e) =>
+                          updateRate(rate.id, "name", e.target.value)
+                        }
+                        placeholder="VAT"
+                        aria-label="Label"
+                        required
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={rate.country}
+                        onChange={(e) =>
+                          updateRate(rate.id, "country", e.target.value)
+                        }
+                        placeholder="Any"
+                        aria-label="Country"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={rate.region}
+                        onChange={(e) =>
+                          updateRate(rate.id, "region", e.target.value)
+                        }
+                        placeholder="Any"
+                        aria-label="Region"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="any"
+                        value={rate.rate}
+                        onChange={(e) =>
+                          updateRate(rate.id, "rate", e.target.value)
+                        }
+                        aria-label="Rate"
+                        required
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setRates((prev) =>
+                            prev.filter((entry) => entry.id !== rate.id)
+                          )
+                        }
+                      >
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Remove rate</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setRates((prev) => [...prev, emptyRate()])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rate
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
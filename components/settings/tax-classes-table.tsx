@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { useAuthorization } from "@/components/auth-provider";
+import { TaxClassDialog } from "@/components/settings/tax-class-dialog";
+import { apiFetch } from "@/lib/api/client";
+import type { TaxClass, TaxRate } from "@/lib/tax";
+
+function formatRegion(rate: TaxRate) {
+  if (!rate.country) return "Everywhere";
+  return rate.region ? `${rate.region}, ${rate.country}` : rate.country;
+}
+
+export function TaxClassesTable() {
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<TaxClass | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuthorization();
+  const editable = can("settings:manage");
+
+  useEffect(() => {
+    const fetchTaxClasses = async () => {
+      try {
+        const { taxClasses } = await apiFetch<{ taxClasses: TaxClass[] }>(
+          "/api/tax-classes"
+        );
+        setTaxClasses(taxClasses);
+      } catch (err) {
+        console.error(err);
+        toast({
+          title: "Error",
+          description: "Failed to load tax classes",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTaxClasses();
+  }, [toast]);
+
+  const openDialog = (taxClass: TaxClass | null) => {
+    setEditing(taxClass);
+    setDialogOpen(true);
+  };
+
+  const handleSaved = (saved: TaxClass) => {
+    setTaxClasses((prev) =>
+      prev.some((entry) => entry.id === saved.id)
+        ? prev.map((entry) => (entry.id === saved.id ? saved : entry))
+        : [...prev, saved]
+    );
+    setDialogOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    try {
+      await apiFetch(`/api/tax-classes/${deleteId}`, { method: "DELETE" });
+      setTaxClasses((prev) => prev.filter((entry) => entry.id !== deleteId));
+      toast({ title: "Deleted", description: "Tax class deleted" });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to delete tax class",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleteId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {editable && (
+        <div className="flex justify-end">
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Tax Class
+          </Button>
+        </div>
+      )}
+
+      <Card>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : taxClasses.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-center">
+            <p className="text-muted-foreground">
+              No tax classes yet. Every product is taxed at the default rate.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Rates</TableHead>
+                {editable && (
+                  <TableHead className="text-right">Actions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {taxClasses.map((taxClass) => (
+                <TableRow key={taxClass.id}>
+                  <TableCell className="font-medium">{taxClass.name}</TableCell>
+                  <TableCell>
+                    {taxClass.rates.length === 0 ? (
+                      <span className="text-muted-foreground">
+                        Default rate everywhere
+                      </span>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {taxClass.rates.map((rate) => (
+                          <li key={rate.id}>
+                            {rate.name} {rate.rate}% — {formatRegion(rate)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </TableCell>
+                  {editable && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => openDialog(taxClass)}
+                        >
+                          <Edit className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setDeleteId(taxClass.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <TaxClassDialog
+        taxClass={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the tax class. Classes still
+              assigned to products or categories can&apos;t be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
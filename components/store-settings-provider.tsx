@@ -0,0 +1,62 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import { apiFetch } from "@/lib/api/client"
+import { type StoreSettings, DEFAULT_STORE_SETTINGS, getDateDisplay, getMoneyDisplay } from "@/lib/settings"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { useAuth } from "@/components/auth-provider"
+
+interface StoreSettingsContextType {
+  settings: StoreSettings
+  loading: boolean
+  // Formats an amount in minor units. Amounts without a currency are in the
+  // store currency.
+  formatMoney: (amount: number, currency?: string) => string
+  // Formats a timestamp as a date in the store's time zone.
+  formatDate: (dateString: string) => string
+  setSettings: (settings: StoreSettings) => void
+}
+
+const StoreSettingsContext = createContext<StoreSettingsContextType>({
+  settings: DEFAULT_STORE_SETTINGS,
+  loading: true,
+  formatMoney: (amount, currency = DEFAULT_STORE_SETTINGS.currency) => formatCurrency(amount, currency),
+  formatDate: (dateString) => formatDate(dateString, getDateDisplay(DEFAULT_STORE_SETTINGS)),
+  setSettings: () => {},
+})
+
+export const useStoreSettings = () => useContext(StoreSettingsContext)
+
+// Loads the store settings once per signed-in staff member. Until they
+// arrive, amounts and dates are formatted with the defaults.
+export function StoreSettingsProvider({ children }: { children: React.ReactNode }) {
+  const { admin } = useAuth()
+  const [settings, setSettings] = useState<StoreSettings>(DEFAULT_STORE_SETTINGS)
+  const [loading, setLoading] = useState(true)
+
+  const adminId = admin?.id
+  useEffect(() => {
+    if (!adminId) return
+    apiFetch<{ settings: StoreSettings }>("/api/settings")
+      .then(({ settings }) => setSettings(settings))
+      .catch((error) => console.error("Error loading store settings:", error))
+      .finally(() => setLoading(false))
+  }, [adminId])
+
+  const formatMoney = useCallback(
+    (amount: number, currency = settings.currency) => formatCurrency(amount, currency, getMoneyDisplay(settings)),
+    [settings],
+  )
+  const formatStoreDate = useCallback(
+    (dateString: string) => formatDate(dateString, getDateDisplay(settings)),
+    [settings],
+  )
+  const value = useMemo(
+    () => ({ settings, loading, formatMoney, formatDate: formatStoreDate, setSettings }),
+    [settings, loading, formatMoney, formatStoreDate],
+  )
+
+  return <StoreSettingsContext.Provider value={value}>{children}</StoreSettingsContext.Provider>
+}
@@ -1,8 +1,8 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { collection, getDocs, deleteDoc, doc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { apiFetch } from "@/lib/api/client";
+import type { Category, SubCategory as SubCategoryRecord } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -36,11 +36,9 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { useAuthorization } from "@/components/auth-provider";
 
-interface SubCategory {
-  id: string;
-  name: string;
-  categoryId: string;
+interface SubCategory extends SubCategoryRecord {
   parentName?: string;
 }
 
@@ -51,28 +49,25 @@ export function SubCategoriesTable() {
   const [search, setSearch] = useState("");
   const [toDelete, setToDelete] = useState<string | null>(null);
   const { toast } = useToast();
+  const { can } = useAuthorization();
 
   useEffect(() => {
     async function fetchData() {
       try {
-        const [subSnap, catSnap] = await Promise.all([
-          getDocs(collection(db, "subcategories")),
-          getDocs(collection(db, "categories")),
+        const [{ subcategories }, { categories }] = await Promise.all([
+          apiFetch<{ subcategories: SubCategoryRecord[] }>(
+            "/api/subcategories"
+          ),
+          apiFetch<{ categories: Category[] }>("/api/categories"),
         ]);
         const catsMap: Record<string, string> = {};
-        catSnap.docs.forEach((doc) => {
-          const d = doc.data();
-          catsMap[doc.id] = d.name;
-        });
-        const subs: SubCategory[] = subSnap.docs.map((doc) => {
-          const d = doc.data() as any;
-          return {
-            id: doc.id,
-            name: d.name,
-            categoryId: d.categoryId,
-            parentName: catsMap[d.categoryId] || "",
-          };
+        categories.forEach((cat) => {
+          catsMap[cat.id] = cat.name;
         });
+        const subs: SubCategory[] = subcategories.map((sub) => ({
+          ...sub,
+          parentName: catsMap[sub.categoryId] || "",
+        }));
         setSubcats(subs);
         setFiltered(subs);
       } catch (err) {
@@ -101,14 +96,14 @@ export function SubCategoriesTable() {
   async function confirmDelete() {
     if (!toDelete) return;
     try {
-      await deleteDoc(doc(db, "subcategories", toDelete));
+      await apiFetch(`/api/subcategories/${toDelete}`, { method: "DELETE" });
       setSubcats((prev) => prev.filter((s) => s.id !== toDelete));
       setFiltered((prev) => prev.filter((s) => s.id !== toDelete));
       toast({ title: "Deleted", description: "Subcategory removed" });
-    } catch {
+    } catch (err: any) {
       toast({
         title: "Error",
-        description: "Failed to delete",
+        description: err.message || "Failed to delete",
         variant: "destructive",
       });
     } finally {
@@ -166,7 +161,7 @@ export function SubCategoriesTable() {
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
                         <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                        <DropdownMenuItem asChild>
+                        <DropdownMenuItem asChild disabled={!can("catalog:write")}>
                           <Link
                             href={`/dashboard/subcategories/edit/${sub.id}`}
                           >
@@ -178,6 +173,7 @@ export function SubCategoriesTable() {
                         <DropdownMenuItem
                           className="text-destructive"
                           onClick={() => setToDelete(sub.id)}
+                          disabled={!can("catalog:delete")}
                         >
                           <Trash className="mr-2 h-4 w-4" />
                           Delete
@@ -2,15 +2,6 @@
 
 import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import {
-  doc,
-  getDoc,
-  setDoc,
-  updateDoc,
-  getDocs,
-  collection,
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -24,7 +15,8 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
 import { Loader2 } from "lucide-react";
-import { v4 as uuidv4 } from "uuid";
+import { apiFetch } from "@/lib/api/client";
+import type { SubCategory } from "@/lib/types";
 
 interface SubCategoryFormProps {
   subcategoryId?: string;
@@ -45,8 +37,10 @@ export function SubCategoryForm({ subcategoryId }: SubCategoryFormProps = {}) {
 
   useEffect(() => {
     async function loadCats() {
-      const snap = await getDocs(collection(db, "categories"));
-      setCategories(snap.docs.map((d) => ({ id: d.id, name: d.data().name })));
+      const { categories } = await apiFetch<{ categories: Category[] }>(
+        "/api/categories"
+      );
+      setCategories(categories.map(({ id, name }) => ({ id, name })));
     }
     loadCats();
   }, []);
@@ -57,9 +51,9 @@ export function SubCategoryForm({ subcategoryId }: SubCategoryFormProps = {}) {
       setLoading(true);
       setIsEdit(true);
       try {
-        const snap = await getDoc(doc(db, "subcategories", subcategoryId));
-        if (!snap.exists()) throw new Error();
-        const data = snap.data() as any;
+        const { subcategory: data } = await apiFetch<{
+          subcategory: SubCategory;
+        }>(`/api/subcategories/${subcategoryId}`);
         setFormData({
           name: data.name || "",
           categoryId: data.categoryId || "",
@@ -90,19 +84,24 @@ export function SubCategoryForm({ subcategoryId }: SubCategoryFormProps = {}) {
     e.preventDefault();
     setLoading(true);
     try {
-      const id = subcategoryId || uuidv4();
-      if (isEdit) {
-        await updateDoc(doc(db, "subcategories", id), formData);
+      if (isEdit && subcategoryId) {
+        await apiFetch(`/api/subcategories/${subcategoryId}`, {
+          method: "PATCH",
+          body: JSON.stringify(formData),
+        });
         toast({ title: "Updated", description: "Subcategory updated" });
       } else {
-        await setDoc(doc(db, "subcategories", id), formData);
+        await apiFetch("/api/subcategories", {
+          method: "POST",
+          body: JSON.stringify(formData),
+        });
         toast({ title: "Created", description: "Subcategory created" });
       }
       router.push("/dashboard/subcategories");
-    } catch {
+    } catch (err: any) {
       toast({
         title: "Error",
-        description: "Save failed",
+        description: err.message || "Save failed",
         variant: "destructive",
       });
     } finally {
@@ -0,0 +1,148 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TableHead } from "@/components/ui/table"
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from "lucide-react"
+import type { TableQuery } from "@/hooks/use-table-query"
+import { type PageInfo, PAGE_SIZES } from "@/lib/pagination"
+import { cn } from "@/lib/utils"
+
+const SEARCH_DELAY = 300
+
+// A search box that updates the table once typing pauses, rather than on
+// every keystroke.
+export function TableSearch({ query, placeholder }: { query: TableQuery; placeholder: string }) {
+  const [value, setValue] = useState(query.q)
+
+  useEffect(() => {
+    setValue(query.q)
+  }, [query.q])
+
+  useEffect(() => {
+    if (value === query.q) return
+    const timeout = setTimeout(() => query.setSearch(value), SEARCH_DELAY)
+    return () => clearTimeout(timeout)
+  }, [value, query])
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder={placeholder}
+        className="pl-8"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+    </div>
+  )
+}
+
+export function SortableHead({
+  query,
+  field,
+  children,
+  className,
+}: {
+  query: TableQuery
+  field: string
+  children: React.ReactNode
+  className?: string
+}) {
+  const active = query.sort === field
+  const Icon = !active ? ArrowUpDown : query.direction === "asc" ? ArrowUp : ArrowDown
+  return (
+    <TableHead className={className} aria-sort={active ? (query.direction === "asc" ? "ascending" : "descending") : undefined}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => query.setSort(field)}>
+        {children}
+        <Icon className={cn("ml-2 h-3.5 w-3.5", !active && "text-muted-foreground")} />
+      </Button>
+    </TableHead>
+  )
+}
+
+export function TablePagination({
+  query,
+  pageInfo,
+  itemCount,
+}: {
+  query: TableQuery
+  pageInfo: PageInfo | null
+  itemCount: number
+}) {
+  const first = (query.page - 1) * query.pageSize + 1
+  const last = first + itemCount - 1
+  const prevCursor = pageInfo?.prevCursor ?? null
+  const nextCursor = pageInfo?.nextCursor ?? null
+
+  const handleClick = (cursor: string | null, go: (cursor: string) => void) => (e: React.MouseEvent) => {
+    e.preventDefault()
+    if (cursor) go(cursor)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 border-t p-4">
+      <p className="text-sm text-muted-foreground">
+        {itemCount === 0
+          ? "No results"
+          : pageInfo?.total != null
+            ? `Showing ${first}–${last} of ${pageInfo.total}`
+            : `Showing ${first}–${last}`}
+      </p>
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground whitespace-nowrap">Rows per page</span>
+          <Select value={String(query.pageSize)} onValueChange={(value) => query.setPageSize(Number(value))}>
+            <SelectTrigger className="w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={!prevCursor}
+                className={cn(!prevCursor && "pointer-events-none opacity-50")}
+                onClick={handleClick(prevCursor, query.prevPage)}
+              />
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationLink href="#" isActive onClick={(e) => e.preventDefault()}>
+                {query.page}
+              </PaginationLink>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={!nextCursor}
+                className={cn(!nextCursor && "pointer-events-none opacity-50")}
+                onClick={handleClick(nextCursor, query.nextPage)}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      </div>
+    </div>
+  )
+}
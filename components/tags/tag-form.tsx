@@ -4,15 +4,14 @@ import type React from "react"
 
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
-import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore"
-import { db } from "@/lib/firebase"
+import { apiFetch } from "@/lib/api/client"
+import type { Tag } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/components/ui/use-toast"
 import { Loader2 } from "lucide-react"
-import { v4 as uuidv4 } from "uuid"
 
 interface TagFormProps {
   tagId?: string
@@ -38,23 +37,21 @@ export function TagForm({ tagId }: TagFormProps = {}) {
       setLoading(true)
 
       try {
-        const tagDoc = await getDoc(doc(db, "tags", tagId))
-
-        if (tagDoc.exists()) {
-          const tagData = tagDoc.data()
-          setFormData({
-            name: tagData.name || "",
-          })
-        } else {
+        const { tag } = await apiFetch<{ tag: Tag }>(`/api/tags/${tagId}`)
+        setFormData({
+          name: tag.name || "",
+        })
+      } catch (error: any) {
+        console.error("Error fetching tag:", error)
+        if (error.status === 404) {
           toast({
             title: "Tag not found",
             description: "The tag you're trying to edit doesn't exist",
             variant: "destructive",
           })
           router.push("/dashboard/tags")
+          return
         }
-      } catch (error) {
-        console.error("Error fetching tag:", error)
         toast({
           title: "Error",
           description: "Failed to load tag data",
@@ -80,15 +77,20 @@ export function TagForm({ tagId }: TagFormProps = {}) {
     try {
       if (isEdit && tagId) {
         // Update existing tag
-        await updateDoc(doc(db, "tags", tagId), formData)
+        await apiFetch(`/api/tags/${tagId}`, {
+          method: "PATCH",
+          body: JSON.stringify(formData),
+        })
         toast({
           title: "Tag updated",
           description: "The tag has been updated successfully",
         })
       } else {
-        // Create new tag with a generated ID
-        const newTagId = uuidv4()
-        await setDoc(doc(db, "tags", newTagId), formData)
+        // Create new tag
+        await apiFetch("/api/tags", {
+          method: "POST",
+          body: JSON.stringify(formData),
+        })
         toast({
           title: "Tag created",
           description: "The tag has been created successfully",
@@ -96,11 +98,11 @@ export function TagForm({ tagId }: TagFormProps = {}) {
       }
 
       router.push("/dashboard/tags")
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error saving tag:", error)
       toast({
         title: "Error",
-        description: "Failed to save tag",
+        description: error.message || "Failed to save tag",
         variant: "destructive",
       })
     } finally {
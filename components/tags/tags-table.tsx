@@ -1,10 +1,11 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { collection, getDocs, deleteDoc, doc } from "firebase/firestore"
-import { db } from "@/lib/firebase"
+import { apiFetch } from "@/lib/api/client"
+import type { PageInfo } from "@/lib/pagination"
+import type { Tag } from "@/lib/types"
+import { useTableQuery } from "@/hooks/use-table-query"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import {
   DropdownMenu,
@@ -16,7 +17,7 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Card } from "@/components/ui/card"
 import { useToast } from "@/components/ui/use-toast"
-import { Edit, MoreHorizontal, Search, Trash, Plus } from "lucide-react"
+import { Edit, MoreHorizontal, Trash, Plus } from "lucide-react"
 import Link from "next/link"
 import { Loader2 } from "lucide-react"
 import {
@@ -29,44 +30,28 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-
-interface Tag {
-  id: string
-  name: string
-  productCount?: number
-}
+import { useAuthorization } from "@/components/auth-provider"
+import { SortableHead, TablePagination, TableSearch } from "@/components/table-controls"
 
 export function TagsTable() {
+  const query = useTableQuery("tags")
   const [tags, setTags] = useState<Tag[]>([])
-  const [filteredTags, setFilteredTags] = useState<Tag[]>([])
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null)
   const [loading, setLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState("")
   const [deleteTagId, setDeleteTagId] = useState<string | null>(null)
   const { toast } = useToast()
+  const { can } = useAuthorization()
 
   useEffect(() => {
     const fetchTags = async () => {
+      setLoading(true)
       try {
-        const tagsSnapshot = await getDocs(collection(db, "tags"))
-        const productsSnapshot = await getDocs(collection(db, "products"))
-
-        // Count products per tag
-        const productCounts: Record<string, number> = {}
-        productsSnapshot.forEach((doc) => {
-          const tagIds = doc.data().tagIds || []
-          tagIds.forEach((tagId: string) => {
-            productCounts[tagId] = (productCounts[tagId] || 0) + 1
-          })
-        })
-
-        const tagsData = tagsSnapshot.docs.map((doc) => ({
-          id: doc.id,
-          name: doc.data().name,
-          productCount: productCounts[doc.id] || 0,
-        }))
+        const { tags: tagsData, pageInfo } = await apiFetch<{ tags: Tag[]; pageInfo: PageInfo }>(
+          `/api/tags?${query.apiQuery}`,
+        )
 
         setTags(tagsData)
-        setFilteredTags(tagsData)
+        setPageInfo(pageInfo)
       } catch (error) {
         console.error("Error fetching tags:", error)
         toast({
@@ -80,40 +65,24 @@ export function TagsTable() {
     }
 
     fetchTags()
-  }, [toast])
-
-  useEffect(() => {
-    if (searchQuery) {
-      const filtered = tags.filter((tag) => tag.name.toLowerCase().includes(searchQuery.toLowerCase()))
-      setFilteredTags(filtered)
-    } else {
-      setFilteredTags(tags)
-    }
-  }, [searchQuery, tags])
+  }, [query.apiQuery, toast])
 
   const handleDeleteTag = async () => {
     if (!deleteTagId) return
 
     try {
-      await deleteDoc(doc(db, "tags", deleteTagId))
-
-      // Update products that use this tag
-      const productsSnapshot = await getDocs(collection(db, "products"))
-      const batch = productsSnapshot.docs.filter((doc) => {
-        const tagIds = doc.data().tagIds || []
-        return tagIds.includes(deleteTagId)
+      const { updatedProducts } = await apiFetch<{ updatedProducts: number }>(`/api/tags/${deleteTagId}`, {
+        method: "DELETE",
       })
 
-      // If there are products using this tag, we should update them
-      if (batch.length > 0) {
+      if (updatedProducts > 0) {
         toast({
           title: "Tag removed from products",
-          description: `Tag was removed from ${batch.length} products`,
+          description: `Tag was removed from ${updatedProducts} products`,
         })
       }
 
       setTags((prev) => prev.filter((tag) => tag.id !== deleteTagId))
-      setFilteredTags((prev) => prev.filter((tag) => tag.id !== deleteTagId))
 
       toast({
         title: "Tag deleted",
@@ -134,16 +103,7 @@ export function TagsTable() {
   return (
     <>
       <div className="flex items-center gap-4 mb-6">
-        <div className="relative flex-1">
-          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input
-            type="search"
-            placeholder="Search tags..."
-            className="pl-8"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
-        </div>
+        <TableSearch query={query} placeholder="Search tags..." />
       </div>
 
       <Card>
@@ -151,27 +111,31 @@ export function TagsTable() {
           <div className="flex justify-center py-10">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
-        ) : filteredTags.length === 0 ? (
+        ) : tags.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-10 text-center">
             <p className="text-muted-foreground mb-4">No tags found</p>
-            <Button asChild>
-              <Link href="/dashboard/tags/new">
-                <Plus className="mr-2 h-4 w-4" />
-                Add Tag
-              </Link>
-            </Button>
+            {can("catalog:write") && (
+              <Button asChild>
+                <Link href="/dashboard/tags/new">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Tag
+                </Link>
+              </Button>
+            )}
           </div>
         ) : (
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Name</TableHead>
+                <SortableHead query={query} field="name">
+                  Name
+                </SortableHead>
                 <TableHead>Products</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredTags.map((tag) => (
+              {tags.map((tag) => (
                 <TableRow key={tag.id}>
                   <TableCell className="font-medium">{tag.name}</TableCell>
                   <TableCell>{tag.productCount} products</TableCell>
@@ -185,7 +149,7 @@ export function TagsTable() {
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
                         <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                        <DropdownMenuItem asChild>
+                        <DropdownMenuItem asChild disabled={!can("catalog:write")}>
                           <Link href={`/dashboard/tags/edit/${tag.id}`}>
                             <Edit className="mr-2 h-4 w-4" />
                             Edit
@@ -194,6 +158,7 @@ export function TagsTable() {
                         <DropdownMenuSeparator />
                         <DropdownMenuItem
                           onClick={() => setDeleteTagId(tag.id)}
+                          disabled={!can("catalog:delete")}
                           className="text-destructive focus:text-destructive"
                         >
                           <Trash className="mr-2 h-4 w-4" />
@@ -207,6 +172,7 @@ export function TagsTable() {
             </TableBody>
           </Table>
         )}
+        <TablePagination query={query} pageInfo={pageInfo} itemCount={tags.length} />
       </Card>
 
       <AlertDialog open={!!deleteTagId} onOpenChange={() => setDeleteTagId(null)}>
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/components/auth-provider";
+import { InviteDialog } from "@/components/team/invite-dialog";
+import { Loader2, Mail, MoreHorizontal, UserPlus } from "lucide-react";
+import { apiFetch } from "@/lib/api/client";
+import { type Role, ROLES, ROLE_LABELS } from "@/lib/permissions";
+import type { AdminUser, StaffStatus } from "@/lib/types";
+
+export function TeamTable() {
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const { admin: currentAdmin } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchTeam = async () => {
+      try {
+        const { admins } = await apiFetch<{ admins: AdminUser[] }>("/api/team");
+        setAdmins(admins);
+      } catch (err) {
+        console.error(err);
+        toast({
+          title: "Error",
+          description: "Failed to load team",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTeam();
+  }, [toast]);
+
+  const updateAdmin = async (
+    id: string,
+    changes: { role?: Role; status?: StaffStatus }
+  ) => {
+    setSavingId(id);
+    try {
+      const { admin } = await apiFetch<{ admin: AdminUser }>(
+        `/api/team/${id}`,
+        { method: "PATCH", body: JSON.stringify(changes) }
+      );
+      setAdmins((prev) =>
+        prev.map((a) => (a.id === id ? { ...a, ...admin } : a))
+      );
+      toast({ title: "Updated", description: "Staff member updated" });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to update staff member",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const resendInvite = async (admin: AdminUser) => {
+    try {
+      await apiFetch(`/api/team/${admin.id}/invite`, { method: "POST" });
+      toast({
+        title: "Invitation sent",
+        description: `A new link was sent to ${admin.email}`,
+      });
+    } catch (err: any) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err.message || "Failed to send invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setInviteOpen(true)}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Invite Staff
+        </Button>
+      </div>
+
+      <Card>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {admins.map((admin) => {
+                const isSelf = admin.id === currentAdmin?.id;
+                const disabled = admin.status === "disabled";
+                return (
+                  <TableRow key={admin.id}>
+                    <TableCell className="font-medium">
+                      {admin.name || "—"}
+                      {isSelf && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          (you)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{admin.email ?? "—"}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={admin.role}
+                        onValueChange={(value) =>
+                          updateAdmin(admin.id, { role: value as Role })
+                        }
+                        disabled={isSelf || savingId === admin.id}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={disabled ? "destructive" : "success"}>
+                        {disabled ? "Deactivated" : "Active"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {admin.lastLoginAt
+                        ? new Date(admin.lastLoginAt).toLocaleString()
+                        : "Never"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={isSelf}
+                          >
+                            <MoreHorizontal className="h-4 w-4" />
+                            <span className="sr-only">Open menu</span>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                          <DropdownMenuItem
+                            onClick={() => resendInvite(admin)}
+                            disabled={disabled}
+                          >
+                            <Mail className="mr-2 h-4 w-4" />
+                            Resend Invite
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={() =>
+                              updateAdmin(admin.id, {
+                                status: disabled ? "active" : "disabled",
+                              })
+                            }
+                            className={disabled ? undefined : "text-destructive"}
+                          >
+                            {disabled ? "Reactivate" : "Deactivate"}
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <InviteDialog
+        open={inviteOpen}
+        onOpenChange={setInviteOpen}
+        onInvited={(admin) => {
+          setAdmins((prev) => [...prev, admin]);
+          setInviteOpen(false);
+        }}
+      />
+    </div>
+  );
+}
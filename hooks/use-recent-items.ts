@@ -0,0 +1,51 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+
+export type RecentItemKind = "page" | "product" | "order" | "customer"
+
+export interface RecentItem {
+  kind: RecentItemKind
+  id: string
+  title: string
+  subtitle?: string
+  href: string
+}
+
+const MAX_RECENT_ITEMS = 8
+
+const storageKey = (uid: string) => `lankashop:recent:${uid}`
+
+function read(uid: string): RecentItem[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(uid)) ?? "[]")
+    return Array.isArray(saved) ? saved : []
+  } catch {
+    return []
+  }
+}
+
+// Items the user recently opened from the command palette, newest first.
+// They are kept in the browser, separately for each signed-in account.
+export function useRecentItems(uid: string | null | undefined) {
+  const [items, setItems] = useState<RecentItem[]>([])
+
+  useEffect(() => {
+    setItems(uid ? read(uid) : [])
+  }, [uid])
+
+  const remember = useCallback(
+    (item: RecentItem) => {
+      if (!uid) return
+      const next = [
+        item,
+        ...read(uid).filter((recent) => recent.kind !== item.kind || recent.id !== item.id),
+      ].slice(0, MAX_RECENT_ITEMS)
+      localStorage.setItem(storageKey(uid), JSON.stringify(next))
+      setItems(next)
+    },
+    [uid],
+  )
+
+  return { items, remember }
+}
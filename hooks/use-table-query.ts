@@ -0,0 +1,81 @@
+"use client"
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import {
+  type PaginatedResource,
+  type SortDirection,
+  DEFAULT_PAGE_SIZE,
+  PAGE_SIZES,
+  SORT_FIELDS,
+} from "@/lib/pagination"
+
+type ParamValue = string | number | null | undefined
+
+// Page, sort, search and filter state of a list table, kept in the URL so
+// it survives reloads and can be shared. `filterKeys` names any extra query
+// parameters the table filters on; they are passed through to the API.
+export function useTableQuery(resource: PaginatedResource, filterKeys: string[] = []) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const defaults = SORT_FIELDS[resource]
+
+  const requestedSize = Number(searchParams.get("pageSize"))
+  const pageSize = PAGE_SIZES.includes(requestedSize) ? requestedSize : DEFAULT_PAGE_SIZE
+  const requestedSort = searchParams.get("sort") ?? ""
+  const sort = defaults.fields.includes(requestedSort) ? requestedSort : defaults.sort
+  const requestedDirection = searchParams.get("direction")
+  const direction: SortDirection =
+    requestedDirection === "asc" || requestedDirection === "desc" ? requestedDirection : defaults.direction
+  const page = Math.max(1, Number(searchParams.get("page")) || 1)
+  const q = searchParams.get("q") ?? ""
+  const after = searchParams.get("after")
+  const before = searchParams.get("before")
+  const filters = Object.fromEntries(filterKeys.map((key) => [key, searchParams.get(key)]))
+
+  // Any change other than moving between pages starts again from page one.
+  const update = (changes: Record<string, ParamValue>, keepPage = false) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (!keepPage) ["page", "after", "before"].forEach((key) => params.delete(key))
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null || value === undefined || value === "") params.delete(key)
+      else params.set(key, String(value))
+    })
+    router.replace(params.size ? `${pathname}?${params}` : pathname, { scroll: false })
+  }
+
+  const apiParams = new URLSearchParams({ pageSize: String(pageSize), sort, direction })
+  if (q) apiParams.set("q", q)
+  if (after) apiParams.set("after", after)
+  else if (before) apiParams.set("before", before)
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) apiParams.set(key, value)
+  })
+
+  return {
+    page,
+    pageSize,
+    sort,
+    direction,
+    q,
+    filters,
+    // Query string for the list route, e.g. `/api/orders?${apiQuery}`.
+    apiQuery: apiParams.toString(),
+    setSearch: (value: string) => update({ q: value }),
+    setFilter: (key: string, value: ParamValue) => update({ [key]: value }),
+    setFilters: (changes: Record<string, ParamValue>) => update(changes),
+    setPageSize: (size: number) => update({ pageSize: size === DEFAULT_PAGE_SIZE ? null : size }),
+    // Without a direction, sorting by the current field again flips it.
+    setSort: (field: string, nextDirection?: SortDirection) => {
+      const flipped = field === sort && direction === "asc" ? "desc" : "asc"
+      update({ sort: field, direction: nextDirection ?? flipped })
+    },
+    nextPage: (cursor: string) => update({ page: page + 1, after: cursor, before: null }, true),
+    prevPage: (cursor: string) =>
+      page <= 2
+        ? update({ page: null, after: null, before: null }, true)
+        : update({ page: page - 1, before: cursor, after: null }, true),
+  }
+}
+
+export type TableQuery = ReturnType<typeof useTableQuery>
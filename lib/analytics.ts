@@ -0,0 +1,420 @@
+import { isCountedSale } from "@/lib/order-fulfillment"
+import { getNetTotal } from "@/lib/refunds"
+import type { StoreSettings } from "@/lib/settings"
+import type { Order } from "@/lib/types"
+
+export type Granularity = "day" | "week" | "month"
+
+export const GRANULARITIES: Granularity[] = ["day", "week", "month"]
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+}
+
+// Longest range a report covers, in days.
+export const MAX_RANGE_DAYS = 731
+
+export interface SalesTotals {
+  units: number
+  revenue: number
+}
+
+export interface ProductSales extends SalesTotals {
+  name: string
+}
+
+export interface PaymentTotals {
+  orders: number
+  revenue: number
+}
+
+// Tax collected at one rate; see `TaxLine`.
+export interface TaxTotals {
+  name: string
+  rate: number
+  taxable: number
+  amount: number
+}
+
+// Sales of one day or month in the store's time zone, kept up to date as
+// orders change so reports never read orders. `revenue`, `orders` and
+// `units` count sales only; `payments` counts every order placed in the
+// period by its payment status. Products, categories and subcategories are
+// keyed by ID, and `taxes` holds the tax on sales keyed by `TaxLine.key`.
+// Amounts are in minor units of the store currency; orders charged in
+// another currency are counted in `payments` and `otherCurrencyOrders` but
+// add no amounts.
+export interface SalesRollup {
+  // First day of the period, as YYYY-MM-DD.
+  date: string
+  revenue: number
+  orders: number
+  units: number
+  payments: Record<string, PaymentTotals>
+  newCustomers: number
+  otherCurrencyOrders: number
+  products: Record<string, ProductSales>
+  categories: Record<string, SalesTotals>
+  subcategories: Record<string, SalesTotals>
+  taxes: Record<string, TaxTotals>
+}
+
+export interface DateRange {
+  from: string
+  to: string
+}
+
+export interface SalesSummary {
+  revenue: number
+  orders: number
+  units: number
+  averageOrderValue: number
+}
+
+export interface SalesPoint extends SalesSummary {
+  // First day of the period, as YYYY-MM-DD.
+  period: string
+}
+
+export interface RankedSales extends SalesTotals {
+  id: string
+  name: string
+}
+
+export interface TaxSummary extends TaxTotals {
+  key: string
+}
+
+export interface TaxReportRow extends TaxSummary {
+  // First day of the period, as YYYY-MM-DD.
+  period: string
+}
+
+// Tax collected on sales in a range, per rate and period, and in total.
+export interface TaxReport {
+  granularity: Granularity
+  range: DateRange
+  rows: TaxReportRow[]
+  totals: TaxSummary[]
+}
+
+export interface AnalyticsReport {
+  granularity: Granularity
+  range: DateRange
+  previousRange: DateRange
+  totals: SalesSummary
+  previousTotals: SalesSummary
+  series: SalesPoint[]
+  previousSeries: SalesPoint[]
+  topProducts: RankedSales[]
+  categories: RankedSales[]
+  subcategories: RankedSales[]
+  // Orders in the range charged in another currency, left out of the totals.
+  otherCurrencyOrders: number
+}
+
+// Where each product's sales are counted, looked up when an order is
+// rolled up.
+export type ProductCategories = Map<string, { categoryId?: string; subcategoryId?: string }>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDate = (day: string) => new Date(`${day}T00:00:00.000Z`)
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+// The day `timestamp` falls on in `timezone`, as YYYY-MM-DD.
+export function dayKey(timestamp: string, timezone = "UTC") {
+  const parts = zonedParts(new Date(timestamp), timezone)
+  return toDay(new Date(Date.UTC(parts.year, parts.month - 1, parts.day)))
+}
+
+// The instant `day` starts in `timezone`, as an ISO timestamp.
+export function dayStart(day: string, timezone = "UTC") {
+  const midnight = toDate(day).getTime()
+  // The offset at UTC midnight can differ from the one at local midnight
+  // when clocks change in between, so it is taken again at the first guess.
+  const guess = midnight - zoneOffset(new Date(midnight), timezone)
+  return new Date(midnight - zoneOffset(new Date(guess), timezone)).toISOString()
+}
+
+export function addDays(day: string, days: number) {
+  return toDay(new Date(toDate(day).getTime() + days * DAY_MS))
+}
+
+export function daysBetween(from: string, to: string) {
+  return Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS)
+}
+
+// The range of the same length that ends the day before `range` starts.
+export function getPreviousRange(range: DateRange): DateRange {
+  const to = addDays(range.from, -1)
+  return { from: addDays(to, -daysBetween(range.from, range.to)), to }
+}
+
+// First day of the period `day` falls in. Weeks start on Monday.
+export function periodStart(day: string, granularity: Granularity) {
+  if (granularity === "day") return day
+  if (granularity === "month") return `${day.slice(0, 7)}-01`
+  const weekday = (toDate(day).getUTCDay() + 6) % 7
+  return addDays(day, -weekday)
+}
+
+// ID of the monthly rollup that `day` falls in, as YYYY-MM.
+export function monthKey(day: string) {
+  return day.slice(0, 7)
+}
+
+export function emptyRollup(date: string): SalesRollup {
+  return {
+    date,
+    revenue: 0,
+    orders: 0,
+    units: 0,
+    payments: {},
+    newCustomers: 0,
+    otherCurrencyOrders: 0,
+    products: {},
+    categories: {},
+    subcategories: {},
+    taxes: {},
+  }
+}
+
+// What an order adds to the rollup of the day it was placed on in the
+// store's time zone: its payment status, and its sales if it counts as a
+// sale. Revenue is net of refunds. Amounts in different currencies can't be
+// added up, so orders not in the store currency are only counted.
+export function orderContribution(
+  order: Order,
+  productCategories: ProductCategories,
+  settings: Pick<StoreSettings, "currency" | "timezone">,
+): SalesRollup {
+  const rollup = emptyRollup(dayKey(order.createdAt, settings.timezone))
+  if (order.currency !== settings.currency) {
+    rollup.payments[order.paymentStatus] = { orders: 1, revenue: 0 }
+    rollup.otherCurrencyOrders = 1
+    return rollup
+  }
+  const amount = getNetTotal(order)
+  rollup.payments[order.paymentStatus] = { orders: 1, revenue: amount }
+  if (!isCountedSale(order)) return rollup
+
+  rollup.revenue = amount
+  rollup.orders = 1
+  order.products.forEach((line) => {
+    const revenue = line.price * line.quantity
+    rollup.units += line.quantity
+    const product = (rollup.products[line.productId] ??= { name: line.name, units: 0, revenue: 0 })
+    product.units += line.quantity
+    product.revenue += revenue
+
+    const { categoryId, subcategoryId } = productCategories.get(line.productId) ?? {}
+    if (categoryId) addSales(rollup.categories, categoryId, line.quantity, revenue)
+    if (subcategoryId) addSales(rollup.subcategories, subcategoryId, line.quantity, revenue)
+  })
+  order.tax?.lines.forEach((line) => addTax(rollup.taxes, line.key, line, line.taxable, line.amount))
+  return rollup
+}
+
+// `after` minus `before`, for applying an order change as increments.
+// Both must be for the same day.
+export function rollupDifference(after: SalesRollup, before: SalesRollup): SalesRollup {
+  const difference = emptyRollup(after.date)
+  const keys = (a: object, b: object) => new Set([...Object.keys(a), ...Object.keys(b)])
+  difference.revenue = after.revenue - before.revenue
+  difference.orders = after.orders - before.orders
+  difference.units = after.units - before.units
+  difference.newCustomers = after.newCustomers - before.newCustomers
+  difference.otherCurrencyOrders = after.otherCurrencyOrders - before.otherCurrencyOrders
+  keys(after.payments, before.payments).forEach((status) => {
+    difference.payments[status] = {
+      orders: (after.payments[status]?.orders ?? 0) - (before.payments[status]?.orders ?? 0),
+      revenue: (after.payments[status]?.revenue ?? 0) - (before.payments[status]?.revenue ?? 0),
+    }
+  })
+  keys(after.products, before.products).forEach((id) => {
+    const next = after.products[id]
+    const previous = before.products[id]
+    difference.products[id] = {
+      name: next?.name ?? previous.name,
+      units: (next?.units ?? 0) - (previous?.units ?? 0),
+      revenue: (next?.revenue ?? 0) - (previous?.revenue ?? 0),
+    }
+  })
+  ;(["categories", "subcategories"] as const).forEach((group) => {
+    keys(after[group], before[group]).forEach((id) => {
+      addSales(difference[group], id, after[group][id]?.units ?? 0, after[group][id]?.revenue ?? 0)
+      addSales(difference[group], id, -(before[group][id]?.units ?? 0), -(before[group][id]?.revenue ?? 0))
+    })
+  })
+  keys(after.taxes, before.taxes).forEach((key) => {
+    const next = after.taxes[key]
+    const previous = before.taxes[key]
+    addTax(difference.taxes, key, next ?? previous, next?.taxable ?? 0, next?.amount ?? 0)
+    addTax(difference.taxes, key, next ?? previous, -(previous?.taxable ?? 0), -(previous?.amount ?? 0))
+  })
+  return difference
+}
+
+export function isEmptyRollup(rollup: SalesRollup) {
+  return (
+    rollup.orders === 0 &&
+    rollup.revenue === 0 &&
+    rollup.units === 0 &&
+    rollup.newCustomers === 0 &&
+    rollup.otherCurrencyOrders === 0 &&
+    Object.values(rollup.payments).every((totals) => totals.orders === 0 && totals.revenue === 0) &&
+    [rollup.products, rollup.categories, rollup.subcategories].every((group) =>
+      Object.values(group).every((sales) => sales.units === 0 && sales.revenue === 0),
+    ) &&
+    Object.values(rollup.taxes).every((tax) => tax.taxable === 0 && tax.amount === 0)
+  )
+}
+
+// Adds `rollup` into `total`, in place. Rollups written before payments,
+// new customers, taxes and other-currency orders were tracked lack those
+// fields.
+export function mergeRollup(total: SalesRollup, rollup: SalesRollup) {
+  total.revenue += rollup.revenue
+  total.orders += rollup.orders
+  total.units += rollup.units
+  total.newCustomers += rollup.newCustomers ?? 0
+  total.otherCurrencyOrders += rollup.otherCurrencyOrders ?? 0
+  Object.entries(rollup.payments ?? {}).forEach(([status, totals]) => {
+    const payment = (total.payments[status] ??= { orders: 0, revenue: 0 })
+    payment.orders += totals.orders
+    payment.revenue += totals.revenue
+  })
+  Object.entries(rollup.products ?? {}).forEach(([id, sales]) => {
+    const product = (total.products[id] ??= { name: sales.name, units: 0, revenue: 0 })
+    product.units += sales.units
+    product.revenue += sales.revenue
+  })
+  Object.entries(rollup.categories ?? {}).forEach(([id, sales]) =>
+    addSales(total.categories, id, sales.units, sales.revenue),
+  )
+  Object.entries(rollup.subcategories ?? {}).forEach(([id, sales]) =>
+    addSales(total.subcategories, id, sales.units, sales.revenue),
+  )
+  Object.entries(rollup.taxes ?? {}).forEach(([key, tax]) => addTax(total.taxes, key, tax, tax.taxable, tax.amount))
+  return total
+}
+
+// One point per period in `range`, including periods without sales.
+export function buildSeries(rollups: SalesRollup[], range: DateRange, granularity: Granularity): SalesPoint[] {
+  const periods = new Map<string, SalesRollup>()
+  for (let day = range.from; day <= range.to; day = addDays(day, 1)) {
+    const period = periodStart(day, granularity)
+    if (!periods.has(period)) periods.set(period, emptyRollup(period))
+  }
+  rollups.forEach((rollup) => {
+    const total = periods.get(periodStart(rollup.date, granularity))
+    if (total) mergeRollup(total, rollup)
+  })
+  return [...periods.entries()].map(([period, total]) => ({ period, ...summarize(total) }))
+}
+
+export function summarize(rollup: SalesRollup): SalesSummary {
+  return {
+    revenue: rollup.revenue,
+    orders: rollup.orders,
+    units: rollup.units,
+    averageOrderValue: rollup.orders > 0 ? Math.round(rollup.revenue / rollup.orders) : 0,
+  }
+}
+
+// Tax per rate for each period of `range` with any, and over the whole
+// range. Higher rates come first.
+export function buildTaxReport(rollups: SalesRollup[], range: DateRange, granularity: Granularity): TaxReport {
+  const periods = new Map<string, SalesRollup>()
+  const total = emptyRollup(range.from)
+  rollups.forEach((rollup) => {
+    const period = periodStart(rollup.date, granularity)
+    if (!periods.has(period)) periods.set(period, emptyRollup(period))
+    mergeRollup(periods.get(period)!, rollup)
+    mergeRollup(total, rollup)
+  })
+  const summarizeTaxes = (rollup: SalesRollup) =>
+    Object.entries(rollup.taxes)
+      .map(([key, tax]) => ({ key, ...tax }))
+      .filter((tax) => tax.taxable !== 0 || tax.amount !== 0)
+      .sort((a, b) => b.rate - a.rate || a.name.localeCompare(b.name))
+  return {
+    granularity,
+    range,
+    rows: [...periods.values()]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .flatMap((period) => summarizeTaxes(period).map((tax) => ({ period: period.date, ...tax }))),
+    totals: summarizeTaxes(total),
+  }
+}
+
+// Sales ranked by revenue, best first.
+export function rankSales(sales: Record<string, SalesTotals & { name?: string }>, names: Map<string, string>, limit?: number) {
+  return Object.entries(sales)
+    .map(([id, totals]) => ({
+      id,
+      name: names.get(id) ?? totals.name ?? id,
+      units: totals.units,
+      revenue: totals.revenue,
+    }))
+    .filter((entry) => entry.units > 0 || entry.revenue > 0)
+    .sort((a, b) => b.revenue - a.revenue || b.units - a.units)
+    .slice(0, limit)
+}
+
+// Percentage change from `previous` to `current`, or null when there is
+// nothing to compare against.
+export function percentChange(current: number, previous: number) {
+  if (previous === 0) return null
+  return ((current - previous) / previous) * 100
+}
+
+function addTax(
+  taxes: Record<string, TaxTotals>,
+  key: string,
+  rate: { name: string; rate: number },
+  taxable: number,
+  amount: number,
+) {
+  const tax = (taxes[key] ??= { name: rate.name, rate: rate.rate, taxable: 0, amount: 0 })
+  tax.taxable += taxable
+  tax.amount += amount
+}
+
+function addSales(group: Record<string, SalesTotals>, id: string, units: number, revenue: number) {
+  const sales = (group[id] ??= { units: 0, revenue: 0 })
+  sales.units += units
+  sales.revenue += revenue
+}
+
+function zonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)?.value)
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  }
+}
+
+// How far `timezone` is ahead of UTC at `date`, in milliseconds.
+function zoneOffset(date: Date, timezone: string) {
+  const parts = zonedParts(date, timezone)
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return local - Math.floor(date.getTime() / 1000) * 1000
+}
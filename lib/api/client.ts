@@ -0,0 +1,52 @@
+import { auth } from "@/lib/firebase"
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+// Calls one of the app/api route handlers as the signed-in user and returns
+// the parsed JSON body. Non-2xx responses are thrown as `ApiError`.
+export async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const headers = new Headers(init.headers)
+  const token = await auth.currentUser?.getIdToken()
+  if (token) headers.set("Authorization", `Bearer ${token}`)
+  if (init.body && !(init.body instanceof FormData)) {
+    headers.set("Content-Type", "application/json")
+  }
+
+  const response = await fetch(path, { ...init, headers })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new ApiError(data.error || response.statusText, response.status)
+  }
+  return data as T
+}
+
+// Downloads a file from a route handler as the signed-in user and hands it
+// to the browser as a save, named from the response's Content-Disposition.
+export async function apiDownload(path: string): Promise<void> {
+  const headers = new Headers()
+  const token = await auth.currentUser?.getIdToken()
+  if (token) headers.set("Authorization", `Bearer ${token}`)
+
+  const response = await fetch(path, { headers })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new ApiError(data.error || response.statusText, response.status)
+  }
+
+  const disposition = response.headers.get("Content-Disposition") ?? ""
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "download"
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
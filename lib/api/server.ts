@@ -0,0 +1,64 @@
+import { timingSafeEqual } from "node:crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { adminAuth } from "@/lib/firebase-admin"
+import { AppError, ForbiddenError, UnauthorizedError } from "@/lib/errors"
+import { type Permission, hasPermission } from "@/lib/permissions"
+import { adminRepository } from "@/lib/repositories"
+import type { Actor, AdminUser } from "@/lib/types"
+
+// Verifies the Firebase ID token sent by `apiFetch` and returns the caller.
+export async function requireUser(request: NextRequest): Promise<Actor> {
+  const header = request.headers.get("authorization")
+  const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : null
+  if (!token) throw new UnauthorizedError()
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(token)
+    return { uid: decoded.uid, email: decoded.email ?? null }
+  } catch {
+    throw new UnauthorizedError("Session expired, please sign in again")
+  }
+}
+
+// Resolves the caller's staff record. Signed-in accounts without one are
+// rejected with 403.
+export async function requireAdmin(request: NextRequest): Promise<AdminUser> {
+  const actor = await requireUser(request)
+  return adminRepository.resolve(actor)
+}
+
+// Guards a route handler: the caller must be staff with a role that grants
+// `permission`. Returns the caller for use as the actor of any change.
+export async function requirePermission(request: NextRequest, permission: Permission): Promise<Actor> {
+  const admin = await requireAdmin(request)
+  if (!hasPermission(admin.role, permission)) throw new ForbiddenError()
+  return { uid: admin.id, email: admin.email }
+}
+
+// Guards a scheduled job route: the caller must send `Authorization: Bearer
+// <CRON_SECRET>`, as Vercel Cron does. Jobs are disabled while CRON_SECRET
+// is unset.
+export function requireCronSecret(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  const header = Buffer.from(request.headers.get("authorization") ?? "")
+  const expected = Buffer.from(`Bearer ${secret}`)
+  if (!secret || header.length !== expected.length || !timingSafeEqual(header, expected)) {
+    throw new UnauthorizedError()
+  }
+}
+
+export function handleRouteError(error: unknown) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      { error: error.issues[0]?.message ?? "Invalid request", issues: error.issues },
+      { status: 400 },
+    )
+  }
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+
+  console.error("Unhandled API error:", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
@@ -0,0 +1,89 @@
+import type { Actor } from "@/lib/types"
+
+export type AuditEntityType =
+  | "product"
+  | "category"
+  | "subcategory"
+  | "tag"
+  | "order"
+  | "customer"
+  | "settings"
+  | "taxClass"
+  | "shippingZone"
+  | "promotion"
+
+export type AuditAction = "create" | "update" | "delete"
+
+export interface AuditChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  entityType: AuditEntityType
+  entityId: string
+  entityName: string
+  action: AuditAction
+  changes: AuditChange[]
+  actor: Actor | null
+  createdAt: string
+}
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  "product",
+  "category",
+  "subcategory",
+  "tag",
+  "order",
+  "customer",
+  "settings",
+  "taxClass",
+  "shippingZone",
+  "promotion",
+]
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  product: "Product",
+  category: "Category",
+  subcategory: "Subcategory",
+  tag: "Tag",
+  order: "Order",
+  customer: "Customer",
+  settings: "Settings",
+  taxClass: "Tax Class",
+  shippingZone: "Shipping Zone",
+  promotion: "Promotion",
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+}
+
+// Field-level differences between two versions of a document. Pass `null`
+// as `before` for creations and as `after` for deletions. Missing values are
+// stored as null because Firestore can't hold `undefined`.
+export function diffFields(before: object | null, after: object | null, ignore: string[] = []): AuditChange[] {
+  const previousValues = (before ?? {}) as Record<string, unknown>
+  const nextValues = (after ?? {}) as Record<string, unknown>
+  const fields = new Set([...Object.keys(previousValues), ...Object.keys(nextValues)])
+  const changes: AuditChange[] = []
+  fields.forEach((field) => {
+    if (field === "id" || ignore.includes(field)) return
+    const previous = previousValues[field] ?? null
+    const next = nextValues[field] ?? null
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, before: previous, after: next })
+    }
+  })
+  return changes.sort((a, b) => a.field.localeCompare(b.field))
+}
+
+export function formatAuditValue(value: unknown) {
+  if (value === null || value === "") return "—"
+  if (typeof value === "string") return value
+  return JSON.stringify(value)
+}
@@ -0,0 +1,15 @@
+import { mockCourier } from "./mock"
+import type { CourierAdapter } from "./types"
+
+export type { CourierAdapter, TrackingEvent, TrackingQuery } from "./types"
+
+// Register new courier integrations here.
+const couriers: CourierAdapter[] = [mockCourier]
+
+export function listCouriers() {
+  return couriers.map(({ id, name }) => ({ id, name }))
+}
+
+export function getCourierAdapter(id: string) {
+  return couriers.find((courier) => courier.id === id) ?? null
+}
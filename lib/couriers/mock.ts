@@ -0,0 +1,30 @@
+import type { CourierAdapter, TrackingEvent } from "./types"
+
+const HOUR = 60 * 60 * 1000
+
+// Scripted journey relative to the shipment date, used for local development
+// and demos. Only events that are already in the past are returned.
+const MOCK_JOURNEY: (Omit<TrackingEvent, "occurredAt"> & { offsetHours: number })[] = [
+  { status: "picked_up", description: "Parcel picked up from Lanka Shop", location: "Colombo", offsetHours: 0 },
+  { status: "in_transit", description: "Arrived at sorting facility", location: "Colombo Hub", offsetHours: 8 },
+  { status: "in_transit", description: "Departed sorting facility", location: "Colombo Hub", offsetHours: 20 },
+  { status: "out_for_delivery", description: "Out for delivery", offsetHours: 40 },
+  { status: "delivered", description: "Delivered to recipient", offsetHours: 52 },
+]
+
+export const mockCourier: CourierAdapter = {
+  id: "mock",
+  name: "Mock Courier",
+  async getTrackingEvents({ shippedAt }) {
+    if (!shippedAt) return []
+    const start = new Date(shippedAt).getTime()
+    const now = Date.now()
+
+    return MOCK_JOURNEY.filter((step) => start + step.offsetHours * HOUR <= now).map(
+      ({ offsetHours, ...event }) => ({
+        ...event,
+        occurredAt: new Date(start + offsetHours * HOUR).toISOString(),
+      }),
+    )
+  },
+}
@@ -0,0 +1,20 @@
+export interface TrackingEvent {
+  status: "picked_up" | "in_transit" | "out_for_delivery" | "delivered" | "exception"
+  description: string
+  location?: string
+  occurredAt: string
+}
+
+export interface TrackingQuery {
+  trackingNumber: string
+  shippedAt?: string
+}
+
+// A courier integration. Adapters run on the server so that API keys for
+// real couriers never reach the browser.
+export interface CourierAdapter {
+  id: string
+  name: string
+  trackingUrl?: (trackingNumber: string) => string
+  getTrackingEvents: (query: TrackingQuery) => Promise<TrackingEvent[]>
+}
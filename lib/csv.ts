@@ -0,0 +1,57 @@
+// Minimal RFC 4180 CSV support: quoted fields, escaped quotes ("") and
+// newlines inside quotes. Good enough for spreadsheet exports. Blank rows
+// are kept, so a row's index still matches its row in a spreadsheet.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, "")
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// Formats one CSV line, quoting fields that need it. Text that a
+// spreadsheet would run as a formula is prefixed with an apostrophe.
+export function formatCsvRow(cells: (string | number | boolean | null)[]): string {
+  return cells
+    .map((cell) => {
+      if (cell === null) return ""
+      let value = String(cell)
+      if (typeof cell === "string" && /^[=+\-@]/.test(value) && Number.isNaN(Number(value))) {
+        value = `'${value}`
+      }
+      return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+    })
+    .join(",")
+}
@@ -0,0 +1,80 @@
+import { isCountedSale } from "@/lib/order-fulfillment"
+import { getNetTotal } from "@/lib/refunds"
+import type { Order } from "@/lib/types"
+
+// Order totals kept on each customer record, so the customers list can show
+// and sort by them without reading orders. Amounts are in minor units of the
+// store currency, net of refunds. Orders charged in another currency can't
+// be added in, so they are only counted, in `otherCurrencyOrders`.
+export interface CustomerMetrics {
+  orderCount: number
+  lifetimeValue: number
+  averageOrderValue: number
+  firstOrderAt: string | null
+  lastOrderAt: string | null
+  // Missing from metrics saved before it was tracked.
+  otherCurrencyOrders?: number
+}
+
+export const EMPTY_CUSTOMER_METRICS: CustomerMetrics = {
+  orderCount: 0,
+  lifetimeValue: 0,
+  averageOrderValue: 0,
+  firstOrderAt: null,
+  lastOrderAt: null,
+  otherCurrencyOrders: 0,
+}
+
+// Metrics over the orders in `currency`, the store currency.
+export function computeCustomerMetrics(orders: Order[], currency: string): CustomerMetrics {
+  const sales = orders.filter(isCountedSale)
+  const counted = sales.filter((order) => order.currency === currency)
+  const otherCurrencyOrders = sales.length - counted.length
+  if (counted.length === 0) return { ...EMPTY_CUSTOMER_METRICS, otherCurrencyOrders }
+
+  const dates = counted.map((order) => order.createdAt).sort()
+  const lifetimeValue = counted.reduce((sum, order) => sum + getNetTotal(order), 0)
+  return {
+    orderCount: counted.length,
+    lifetimeValue,
+    averageOrderValue: Math.round(lifetimeValue / counted.length),
+    firstOrderAt: dates[0],
+    lastOrderAt: dates[dates.length - 1],
+    otherCurrencyOrders,
+  }
+}
+
+// Moves `metrics` from counting `before` to counting `after`, the old and new
+// versions of one order (`before` is null for a new order). Returns null when
+// an order that no longer counts held the first or last order date, which
+// only the customer's other orders can tell, or when the metrics were saved
+// before other-currency orders were tracked.
+export function updateCustomerMetrics(
+  metrics: CustomerMetrics,
+  before: Order | null,
+  after: Order,
+  currency: string,
+): CustomerMetrics | null {
+  if (metrics.otherCurrencyOrders === undefined) return null
+  const counts = (order: Order | null) => !!order && isCountedSale(order) && order.currency === currency
+  const isOther = (order: Order | null) => !!order && isCountedSale(order) && order.currency !== currency
+  const removed = counts(before) ? before : null
+  const added = counts(after) ? after : null
+  const otherCurrencyOrders = metrics.otherCurrencyOrders - (isOther(before) ? 1 : 0) + (isOther(after) ? 1 : 0)
+  const orderCount = metrics.orderCount - (removed ? 1 : 0) + (added ? 1 : 0)
+  if (orderCount === 0) return { ...EMPTY_CUSTOMER_METRICS, otherCurrencyOrders }
+  if (removed && !added && [metrics.firstOrderAt, metrics.lastOrderAt].includes(removed.createdAt)) return null
+
+  const lifetimeValue = metrics.lifetimeValue - (removed ? getNetTotal(removed) : 0) + (added ? getNetTotal(added) : 0)
+  const dates = [metrics.firstOrderAt, metrics.lastOrderAt, added?.createdAt]
+    .filter((date): date is string => !!date)
+    .sort()
+  return {
+    orderCount,
+    lifetimeValue,
+    averageOrderValue: Math.round(lifetimeValue / orderCount),
+    firstOrderAt: dates[0],
+    lastOrderAt: dates[dates.length - 1],
+    otherCurrencyOrders,
+  }
+}
@@ -0,0 +1,64 @@
+import type { DateDisplay } from "@/lib/settings"
+import type { CustomerStatus } from "@/lib/types"
+import { formatDate } from "@/lib/utils"
+
+export interface CustomerStatusChange {
+  from: CustomerStatus
+  to: CustomerStatus
+  reason: string
+  // End of a suspension; open-ended when null.
+  suspendedUntil: string | null
+  changedAt: string
+  changedBy: string | null
+}
+
+export const CUSTOMER_STATUSES: CustomerStatus[] = ["active", "suspend", "deactive"]
+
+export const CUSTOMER_STATUS_LABELS: Record<CustomerStatus, string> = {
+  active: "Active",
+  suspend: "Suspended",
+  deactive: "Deactivated",
+}
+
+// The status in force now. A suspension with an end date lifts by itself
+// once that date has passed.
+export function getCustomerStatus(
+  customer: { status?: CustomerStatus; suspendedUntil?: string | null },
+  now = new Date(),
+): CustomerStatus {
+  const status = customer.status ?? "active"
+  if (status === "suspend" && customer.suspendedUntil && new Date(customer.suspendedUntil) <= now) {
+    return "active"
+  }
+  return status
+}
+
+// Why a customer may not place orders, or null when they may. Dates are
+// shown as `dateDisplay` says, usually the store's.
+export function getOrderBlockReason(
+  customer: { status?: CustomerStatus; suspendedUntil?: string | null },
+  now = new Date(),
+  dateDisplay?: DateDisplay,
+) {
+  switch (getCustomerStatus(customer, now)) {
+    case "suspend":
+      return customer.suspendedUntil
+        ? `This account is suspended until ${formatDate(customer.suspendedUntil, dateDisplay)}`
+        : "This account is suspended"
+    case "deactive":
+      return "This account has been deactivated"
+    default:
+      return null
+  }
+}
+
+export function getCustomerStatusBadgeVariant(status: CustomerStatus) {
+  switch (status) {
+    case "active":
+      return "success" as const
+    case "suspend":
+      return "warning" as const
+    default:
+      return "destructive" as const
+  }
+}
@@ -0,0 +1,94 @@
+import type { OrderDiscount, RejectedCode } from "@/lib/promotions"
+import type { OrderShipping, ShippingDestination, ShippingOption } from "@/lib/shipping"
+import type { OrderTax } from "@/lib/tax"
+import type { Order, OrderProduct } from "@/lib/types"
+
+// How an order taken by staff is paid: collected by the courier or into the
+// store's bank account, both recorded as paid when the order is created, or
+// through a link the customer pays online.
+export type DraftPaymentMethod = "cod" | "bank_transfer" | "payment_link"
+
+export const DRAFT_PAYMENT_METHODS: DraftPaymentMethod[] = ["cod", "bank_transfer", "payment_link"]
+
+export const DRAFT_PAYMENT_METHOD_LABELS: Record<DraftPaymentMethod, string> = {
+  cod: "Cash on delivery",
+  bank_transfer: "Bank transfer",
+  payment_link: "Payment link",
+}
+
+// Order numbers of orders created in the dashboard count up from here. They
+// have seven digits, so they can't match the storefront's six-digit ids.
+export const FIRST_ORDER_NUMBER = 1000001
+
+// The last payment link sent for an order, reused until it expires.
+export interface OrderPaymentLink {
+  provider: string
+  url: string
+  expiresAt: string
+  // The customer's email; left out of orders sent to staff who can't read
+  // customers.
+  sentTo?: string
+  sentAt: string
+}
+
+// `order` without the customer's email its payment link was sent to, for
+// staff whose role lacks `customers:read`.
+export function withoutPaymentLinkRecipient(order: Order): Order {
+  if (!order.paymentLink) return order
+  const { sentTo, ...paymentLink } = order.paymentLink
+  return { ...order, paymentLink }
+}
+
+export interface DraftOrderLine extends OrderProduct {
+  // Units in stock when the draft was priced.
+  available: number
+}
+
+// A draft order priced as it would be placed. Amounts are in minor units of
+// `currency`.
+export interface DraftOrderQuote {
+  currency: string
+  products: DraftOrderLine[]
+  subtotal: number
+  discount: OrderDiscount
+  promotionIds: string[]
+  // Codes that didn't apply, and why.
+  rejected: RejectedCode[]
+  tax: OrderTax
+  // Null while no address is chosen.
+  destination: ShippingDestination | null
+  // Null when the store doesn't ship to the destination.
+  shippingOptions: ShippingOption[] | null
+  // The chosen method, or the cheapest when none was chosen.
+  shipping: OrderShipping | null
+  shippingTotal: number
+  totalAmount: number
+}
+
+// Lines asking for more units than are in stock, as messages for staff.
+export function getStockProblems(lines: DraftOrderLine[]) {
+  const requested = new Map<string, { line: DraftOrderLine; quantity: number }>()
+  lines.forEach((line) => {
+    const key = `${line.productId}:${line.variantId ?? ""}`
+    const entry = requested.get(key)
+    requested.set(key, { line, quantity: (entry?.quantity ?? 0) + line.quantity })
+  })
+  return [...requested.values()]
+    .filter(({ line, quantity }) => quantity > line.available)
+    .map(({ line }) => {
+      const name = line.variantLabel ? `${line.name} (${line.variantLabel})` : line.name
+      return line.available > 0 ? `Only ${line.available} of ${name} in stock` : `${name} is out of stock`
+    })
+}
+
+// What stops a draft being placed as quoted, as messages for staff.
+export function getDraftProblems(quote: DraftOrderQuote) {
+  return [
+    ...getStockProblems(quote.products),
+    ...quote.rejected.map((rejected) => `${rejected.code}: ${rejected.reason}`),
+    ...(!quote.destination ? ["Choose a delivery address"] : []),
+    ...(quote.destination && !quote.shippingOptions ? ["The store doesn't ship to this address"] : []),
+    ...(quote.shippingOptions?.length === 0 ? ["No shipping method covers this order"] : []),
+    ...(quote.shippingOptions?.length && !quote.shipping ? ["The chosen shipping method isn't available for this order"] : []),
+  ]
+}
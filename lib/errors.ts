@@ -0,0 +1,41 @@
+// Errors raised by the data layer. Route handlers translate them into HTTP
+// responses through `handleRouteError` in lib/api/server.ts.
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Not found") {
+    super(message, 404)
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string) {
+    super(message, 400)
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(message, 409)
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Not signed in") {
+    super(message, 401)
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "You don't have permission to do that") {
+    super(message, 403)
+  }
+}
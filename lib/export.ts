@@ -0,0 +1,109 @@
+import type { Permission } from "@/lib/permissions"
+
+export type ExportFormat = "csv" | "xlsx" | "json"
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; contentType: string }[] = [
+  { format: "csv", label: "CSV", contentType: "text/csv; charset=utf-8" },
+  {
+    format: "xlsx",
+    label: "Excel (.xlsx)",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  { format: "json", label: "JSON", contentType: "application/json; charset=utf-8" },
+]
+
+export type ExportResource = "products" | "orders" | "customers"
+
+export const EXPORT_RESOURCES: ExportResource[] = ["products", "orders", "customers"]
+
+export type ExportValue = string | number | boolean | null
+export type ExportRow = Record<string, ExportValue>
+
+export interface ExportColumn {
+  key: string
+  label: string
+  // Selected when the export dialog opens.
+  default?: boolean
+  // Only offered to roles that also have this permission, for columns that
+  // hold customers' personal details.
+  permission?: Permission
+}
+
+// Product columns use the same headers as the product import, so an export
+// can be edited and imported again.
+export const EXPORT_COLUMNS: Record<ExportResource, ExportColumn[]> = {
+  products: [
+    { key: "id", label: "Product ID", default: true },
+    { key: "name", label: "Name", default: true },
+    { key: "description", label: "Description" },
+    { key: "category", label: "Category", default: true },
+    { key: "subcategory", label: "Subcategory", default: true },
+    { key: "tags", label: "Tags", default: true },
+    { key: "price", label: "Price", default: true },
+    { key: "stock", label: "Stock", default: true },
+    { key: "lowStockThreshold", label: "Low Stock Threshold" },
+    { key: "skus", label: "SKUs" },
+    { key: "weight", label: "Weight" },
+    { key: "weightUnit", label: "Weight Unit" },
+    { key: "productDetails", label: "Product Details" },
+    { key: "image", label: "Image URL" },
+    { key: "rating", label: "Rating" },
+    { key: "date", label: "Date" },
+  ],
+  orders: [
+    { key: "orderId", label: "Order ID", default: true },
+    { key: "createdAt", label: "Date", default: true },
+    { key: "customerName", label: "Customer", default: true, permission: "customers:read" },
+    { key: "customerEmail", label: "Customer Email", default: true, permission: "customers:read" },
+    { key: "userId", label: "User ID" },
+    { key: "items", label: "Items" },
+    { key: "itemCount", label: "Item Count" },
+    { key: "currency", label: "Currency", default: true },
+    { key: "subtotal", label: "Subtotal", default: true },
+    { key: "discount", label: "Discount" },
+    { key: "tax", label: "Tax" },
+    { key: "shipping", label: "Shipping" },
+    { key: "totalAmount", label: "Total", default: true },
+    { key: "refunded", label: "Refunded" },
+    { key: "paymentStatus", label: "Payment Status", default: true },
+    { key: "paymentProvider", label: "Payment Provider" },
+    { key: "fulfillmentStatus", label: "Fulfillment", default: true },
+    { key: "courier", label: "Courier" },
+    { key: "trackingNumber", label: "Tracking Number" },
+    { key: "shippedAt", label: "Shipped At" },
+  ],
+  customers: [
+    { key: "name", label: "Name", default: true },
+    { key: "email", label: "Email", default: true },
+    { key: "createdAt", label: "Joined", default: true },
+    { key: "status", label: "Status", default: true },
+    { key: "orderCount", label: "Orders", default: true },
+    { key: "lifetimeValue", label: "Total Spent", default: true },
+    { key: "averageOrderValue", label: "Average Order Value" },
+    { key: "firstOrderAt", label: "First Order" },
+    { key: "lastOrderAt", label: "Last Order" },
+    { key: "userId", label: "User ID" },
+  ],
+}
+
+// Columns of the tax report download. Amounts are in the store currency.
+export const TAX_REPORT_COLUMNS: ExportColumn[] = [
+  { key: "period", label: "Period" },
+  { key: "name", label: "Tax" },
+  { key: "rate", label: "Rate (%)" },
+  { key: "taxable", label: "Taxable Amount" },
+  { key: "amount", label: "Tax Collected" },
+]
+
+// The columns of `resource` a role may export, given its permission check.
+export function getExportColumns(resource: ExportResource, can: (permission: Permission) => boolean) {
+  return EXPORT_COLUMNS[resource].filter((column) => !column.permission || can(column.permission))
+}
+
+export function getExportFormat(format: ExportFormat) {
+  return EXPORT_FORMATS.find((entry) => entry.format === format)!
+}
+
+export function exportFilename(resource: ExportResource, format: ExportFormat, date = new Date()) {
+  return `${resource}-${date.toISOString().slice(0, 10)}.${format}`
+}
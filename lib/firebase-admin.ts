@@ -0,0 +1,30 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp } from "firebase-admin/app"
+import { getAuth } from "firebase-admin/auth"
+import { getFirestore } from "firebase-admin/firestore"
+
+// Server-only Firebase access for route handlers. Uses a service account so
+// the data layer is not bound by the client security rules.
+function credential() {
+  const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL
+  const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, "\n")
+
+  if (clientEmail && privateKey) {
+    return cert({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      clientEmail,
+      privateKey,
+    })
+  }
+  return applicationDefault()
+}
+
+const adminApp = !getApps().length
+  ? initializeApp({
+      credential: credential(),
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    })
+  : getApp()
+const adminAuth = getAuth(adminApp)
+const adminDb = getFirestore(adminApp)
+
+export { adminApp, adminAuth, adminDb }
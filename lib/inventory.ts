@@ -0,0 +1,67 @@
+import type { ProductVariant } from "@/lib/product-variants"
+import type { Actor } from "@/lib/types"
+
+export type InventoryMovementType = "receipt" | "sale" | "adjustment" | "return" | "damage"
+
+export interface InventoryMovement {
+  id: string
+  type: InventoryMovementType
+  // Signed change in stock: positive for stock coming in, negative going out.
+  quantity: number
+  stockAfter: number
+  reason: string
+  variantId?: string
+  orderId?: string
+  createdAt: string
+  createdBy: Actor | null
+}
+
+export const INVENTORY_MOVEMENT_TYPES: InventoryMovementType[] = ["receipt", "sale", "adjustment", "return", "damage"]
+
+export const INVENTORY_MOVEMENT_LABELS: Record<InventoryMovementType, string> = {
+  receipt: "Receipt",
+  sale: "Sale",
+  adjustment: "Adjustment",
+  return: "Return",
+  damage: "Damage",
+}
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5
+
+// Receipts and returns add stock, sales and damage remove it. Adjustments
+// carry their own sign.
+export function signedQuantity(type: InventoryMovementType, quantity: number) {
+  switch (type) {
+    case "receipt":
+    case "return":
+      return Math.abs(quantity)
+    case "sale":
+    case "damage":
+      return -Math.abs(quantity)
+    default:
+      return quantity
+  }
+}
+
+// A product's own threshold, or `fallback` (the store's) when it has none.
+export function getLowStockThreshold(product: { lowStockThreshold?: string }, fallback = DEFAULT_LOW_STOCK_THRESHOLD) {
+  const threshold = Number.parseInt(product.lowStockThreshold ?? "")
+  return Number.isNaN(threshold) ? fallback : threshold
+}
+
+// Variant products are low on stock when any of their variants is.
+export function getLowStockVariants(
+  product: { stock: string; lowStockThreshold?: string; variants?: ProductVariant[] },
+  fallback = DEFAULT_LOW_STOCK_THRESHOLD,
+) {
+  const threshold = getLowStockThreshold(product, fallback)
+  return (product.variants ?? []).filter((variant) => (Number.parseInt(variant.stock) || 0) <= threshold)
+}
+
+export function isLowStock(
+  product: { stock: string; lowStockThreshold?: string; variants?: ProductVariant[] },
+  fallback = DEFAULT_LOW_STOCK_THRESHOLD,
+) {
+  if (product.variants?.length) return getLowStockVariants(product, fallback).length > 0
+  return (Number.parseInt(product.stock) || 0) <= getLowStockThreshold(product, fallback)
+}
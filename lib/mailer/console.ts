@@ -0,0 +1,9 @@
+import type { MailTransport } from "./types"
+
+// Prints messages to the server log. The default for local development.
+export const consoleTransport: MailTransport = {
+  id: "console",
+  async send(message) {
+    console.info(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}`)
+  },
+}
@@ -0,0 +1,15 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { MailTransport } from "./types"
+
+// Writes each message to its own JSON file under MAIL_FILE_DIR (default
+// `.mail`), so links in invites can be opened without a mail server.
+export const fileTransport: MailTransport = {
+  id: "file",
+  async send(message) {
+    const dir = path.resolve(process.env.MAIL_FILE_DIR || ".mail")
+    await mkdir(dir, { recursive: true })
+    const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w.@-]/g, "_")}.json`
+    await writeFile(path.join(dir, name), JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2))
+  },
+}
@@ -0,0 +1,19 @@
+import { consoleTransport } from "./console"
+import { fileTransport } from "./file"
+import type { MailMessage, MailTransport } from "./types"
+
+export type { MailMessage, MailTransport } from "./types"
+
+// Register new mail transports here and select one with MAIL_TRANSPORT.
+const transports: MailTransport[] = [consoleTransport, fileTransport]
+
+export function getMailTransport() {
+  const id = process.env.MAIL_TRANSPORT || "console"
+  const transport = transports.find((transport) => transport.id === id)
+  if (!transport) throw new Error(`Unknown mail transport "${id}"`)
+  return transport
+}
+
+export function sendMail(message: MailMessage) {
+  return getMailTransport().send(message)
+}
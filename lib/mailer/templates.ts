@@ -0,0 +1,36 @@
+import { toDecimalString } from "@/lib/money"
+import { ROLE_LABELS } from "@/lib/permissions"
+import type { AdminUser, Customer, Order } from "@/lib/types"
+import type { MailMessage } from "./types"
+
+export function staffInviteEmail(admin: AdminUser, link: string): MailMessage {
+  const greeting = admin.name ? `Hi ${admin.name},` : "Hi,"
+  const inviter = admin.invitedBy ? `${admin.invitedBy} has invited you` : "You have been invited"
+  return {
+    to: admin.email ?? "",
+    subject: "You've been invited to the LankaShop dashboard",
+    text: [
+      greeting,
+      "",
+      `${inviter} to the LankaShop admin dashboard as ${ROLE_LABELS[admin.role]}.`,
+      "Set your password using the link below, then sign in with this email address:",
+      "",
+      link,
+    ].join("\n"),
+  }
+}
+
+export function paymentLinkEmail(order: Order, customer: Customer, link: string): MailMessage {
+  return {
+    to: customer.email,
+    subject: `Pay for your LankaShop order #${order.orderId}`,
+    text: [
+      customer.name ? `Hi ${customer.name},` : "Hi,",
+      "",
+      `Thank you for your order #${order.orderId}. Its total is ${order.currency} ${toDecimalString(order.totalAmount, order.currency)}.`,
+      "Pay for it securely using the link below, and we'll send it on its way:",
+      "",
+      link,
+    ].join("\n"),
+  }
+}
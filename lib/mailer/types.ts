@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+// A way of delivering email. Transports run on the server so that SMTP or
+// provider credentials never reach the browser.
+export interface MailTransport {
+  id: string
+  send: (message: MailMessage) => Promise<void>
+}
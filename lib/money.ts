@@ -0,0 +1,67 @@
+// Amounts are stored as integers in the minor unit of their currency (cents
+// for USD, cents for LKR, yen for JPY), so they add up without rounding.
+
+export const DEFAULT_CURRENCY = "LKR"
+
+export const DEFAULT_LOCALE = "en-LK"
+
+export const CURRENCIES = ["LKR", "USD", "GBP", "EUR", "INR", "AUD", "CAD", "SGD", "AED", "JPY"]
+
+// How many units of each currency one unit of the store currency buys, e.g.
+// `{ USD: 0.0033 }` for a store selling in LKR.
+export type ExchangeRates = Record<string, number>
+
+// How amounts are shown. When `displayCurrency` differs from an amount's
+// currency it is converted through `exchangeRates`, which are relative to
+// `storeCurrency`. Amounts without a rate are shown unconverted.
+export interface MoneyDisplay {
+  locale: string
+  storeCurrency: string
+  displayCurrency?: string | null
+  exchangeRates?: ExchangeRates
+}
+
+export function minorUnitDigits(currency: string) {
+  return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2
+}
+
+// Converts a decimal amount such as "12.50" to minor units.
+export function toMinorUnits(amount: string | number, currency: string) {
+  const value = typeof amount === "string" ? Number.parseFloat(amount) : amount
+  if (!Number.isFinite(value)) return 0
+  return Math.round(value * 10 ** minorUnitDigits(currency))
+}
+
+export function fromMinorUnits(amount: number, currency: string) {
+  return amount / 10 ** minorUnitDigits(currency)
+}
+
+// The amount as a plain decimal for form inputs and exports, e.g. "12.50".
+export function toDecimalString(amount: number, currency: string) {
+  return fromMinorUnits(amount, currency).toFixed(minorUnitDigits(currency))
+}
+
+// Reads an amount saved before money was stored in minor units. Those were
+// decimal strings in major units.
+export function readMinorUnits(value: unknown, currency: string) {
+  if (typeof value === "number") return Math.round(value)
+  if (typeof value === "string") return toMinorUnits(value, currency)
+  return 0
+}
+
+// Converts between currencies through the store currency, or returns null
+// when either rate is missing.
+export function convertMinorUnits(
+  amount: number,
+  from: string,
+  to: string,
+  storeCurrency: string,
+  rates: ExchangeRates,
+): number | null {
+  if (from === to) return amount
+  const rate = (currency: string) => (currency === storeCurrency ? 1 : rates[currency])
+  const fromRate = rate(from)
+  const toRate = rate(to)
+  if (!fromRate || !toRate) return null
+  return toMinorUnits((fromMinorUnits(amount, from) / fromRate) * toRate, to)
+}
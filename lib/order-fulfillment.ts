@@ -0,0 +1,102 @@
+export type FulfillmentStatus =
+  | "pending"
+  | "processing"
+  | "packed"
+  | "shipped"
+  | "delivered"
+  | "cancelled"
+  | "returned"
+
+export interface FulfillmentHistoryEntry {
+  from: FulfillmentStatus
+  to: FulfillmentStatus
+  changedAt: string
+  changedBy: string | null
+  note?: string
+}
+
+export const FULFILLMENT_STATUSES: FulfillmentStatus[] = [
+  "pending",
+  "processing",
+  "packed",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "returned",
+]
+
+// Allowed next states for each fulfillment state. Delivered orders can only
+// come back as returns; cancelled and returned orders are final.
+const FULFILLMENT_TRANSITIONS: Record<FulfillmentStatus, FulfillmentStatus[]> = {
+  pending: ["processing", "cancelled"],
+  processing: ["packed", "cancelled"],
+  packed: ["shipped", "cancelled"],
+  shipped: ["delivered", "returned"],
+  delivered: ["returned"],
+  cancelled: [],
+  returned: [],
+}
+
+export const FULFILLMENT_LABELS: Record<FulfillmentStatus, string> = {
+  pending: "Pending",
+  processing: "Processing",
+  packed: "Packed",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  returned: "Returned",
+}
+
+export function getFulfillmentStatus(order: { fulfillmentStatus?: FulfillmentStatus }): FulfillmentStatus {
+  return order.fulfillmentStatus ?? "pending"
+}
+
+// Whether an order counts as a sale in customer metrics and analytics: it
+// was paid for, not fully refunded, and not cancelled or returned.
+export function isCountedSale(order: { paymentStatus: string; fulfillmentStatus?: FulfillmentStatus }) {
+  const status = getFulfillmentStatus(order)
+  const paid = order.paymentStatus === "paid" || order.paymentStatus === "partially_refunded"
+  return paid && status !== "cancelled" && status !== "returned"
+}
+
+export function getNextFulfillmentStatuses(status: FulfillmentStatus): FulfillmentStatus[] {
+  return FULFILLMENT_TRANSITIONS[status]
+}
+
+export function canTransitionFulfillment(from: FulfillmentStatus, to: FulfillmentStatus) {
+  return FULFILLMENT_TRANSITIONS[from].includes(to)
+}
+
+export function getFulfillmentBadgeVariant(status: FulfillmentStatus) {
+  switch (status) {
+    case "delivered":
+      return "success" as const
+    case "cancelled":
+    case "returned":
+      return "destructive" as const
+    case "pending":
+      return "warning" as const
+    default:
+      return "secondary" as const
+  }
+}
+
+export interface OrderShipment {
+  courier: string
+  trackingNumber: string
+  estimatedDeliveryDate: string
+  shippedAt: string
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+// True when an order has been shipped for more than `days` days without
+// being marked as delivered.
+export function isShipmentOverdue(
+  order: { fulfillmentStatus?: FulfillmentStatus; shipment?: OrderShipment },
+  days: number,
+  now = Date.now(),
+) {
+  if (getFulfillmentStatus(order) !== "shipped" || !order.shipment) return false
+  return now - new Date(order.shipment.shippedAt).getTime() > days * DAY
+}
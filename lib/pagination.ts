@@ -0,0 +1,50 @@
+export type SortDirection = "asc" | "desc"
+
+export const PAGE_SIZES = [10, 25, 50, 100]
+export const DEFAULT_PAGE_SIZE = 25
+
+// One page of a list, fetched from just after or just before the document
+// with the given ID. Cursors are document IDs, so pages stay stable while
+// documents are added or removed elsewhere in the list.
+export interface PageQuery {
+  pageSize: number
+  after?: string
+  before?: string
+  sort: string
+  direction: SortDirection
+}
+
+export interface PageInfo {
+  nextCursor: string | null
+  prevCursor: string | null
+  // Null when the list is filtered by a search, which can't be counted
+  // without reading every document.
+  total: number | null
+}
+
+export type PaginatedResource = "products" | "orders" | "customers" | "tags" | "addresses" | "audit"
+
+// Fields each list can be sorted by. Every field is a plain Firestore field
+// with its automatic single-field index. Firestore leaves documents without
+// the field out of a sorted query.
+export const SORT_FIELDS: Record<PaginatedResource, { fields: string[]; sort: string; direction: SortDirection }> = {
+  products: { fields: ["name", "date"], sort: "name", direction: "asc" },
+  orders: { fields: ["createdAt", "orderId", "paymentStatus", "paymentProvider"], sort: "createdAt", direction: "desc" },
+  customers: {
+    fields: [
+      "name",
+      "email",
+      "createdAt",
+      "status",
+      "metrics.orderCount",
+      "metrics.lifetimeValue",
+      "metrics.averageOrderValue",
+      "metrics.lastOrderAt",
+    ],
+    sort: "createdAt",
+    direction: "desc",
+  },
+  tags: { fields: ["name"], sort: "name", direction: "asc" },
+  addresses: { fields: ["userId", "label", "city", "state", "country", "postalCode"], sort: "userId", direction: "asc" },
+  audit: { fields: ["createdAt"], sort: "createdAt", direction: "desc" },
+}
@@ -0,0 +1,55 @@
+// What became of a webhook event: being applied to its order, applied, not
+// meant for orders, valid but not applicable (say, the order was already
+// paid), or failed and worth replaying. Events stored before processing was
+// tracked can also be left "received".
+export type PaymentEventStatus = "received" | "processing" | "processed" | "ignored" | "skipped" | "failed"
+
+export const PAYMENT_EVENT_STATUSES: PaymentEventStatus[] = [
+  "received",
+  "processing",
+  "processed",
+  "ignored",
+  "skipped",
+  "failed",
+]
+
+// How long a delivery or replay has to apply an event before another may
+// take it over, in case it died part way.
+export const PAYMENT_EVENT_LEASE_MS = 2 * 60 * 1000
+
+export const PAYMENT_EVENT_STATUS_LABELS: Record<PaymentEventStatus, string> = {
+  received: "Received",
+  processing: "Processing",
+  processed: "Processed",
+  ignored: "Ignored",
+  skipped: "Skipped",
+  failed: "Failed",
+}
+
+// A webhook event as stored in `paymentEvents`, keyed by provider and the
+// provider's event id so that redelivered events are recognised.
+export interface PaymentEventRecord {
+  id: string
+  provider: string
+  eventId: string
+  type: string
+  // The verified request body, parsed, for replays.
+  payload: unknown
+  // The order the event was applied to, once found.
+  orderId: string | null
+  status: PaymentEventStatus
+  // Why the event was skipped or failed.
+  message: string | null
+  attempts: number
+  receivedAt: string
+  processedAt: string | null
+  // Until when the delivery or replay that claimed the event may apply it.
+  // Set while the event is "processing".
+  leaseExpiresAt?: string | null
+}
+
+// Whether a delivery or replay is applying the event right now, so no other
+// may start.
+export function isBeingProcessed(record: PaymentEventRecord, now: Date) {
+  return record.status === "processing" && !!record.leaseExpiresAt && new Date(record.leaseExpiresAt) > now
+}
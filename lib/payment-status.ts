@@ -0,0 +1,38 @@
+export type PaymentStatus = "pending" | "paid" | "failed" | "cancelled" | "partially_refunded" | "refunded"
+
+export const PAYMENT_STATUSES: PaymentStatus[] = [
+  "pending",
+  "paid",
+  "failed",
+  "cancelled",
+  "partially_refunded",
+  "refunded",
+]
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: "Pending",
+  paid: "Paid",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  partially_refunded: "Partially refunded",
+  refunded: "Refunded",
+}
+
+// Statuses a payment event may move an order to from each status. A failed
+// or abandoned payment can still be completed later, but paid orders only
+// change through refunds.
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["paid", "failed", "cancelled"],
+  failed: ["pending", "paid", "cancelled"],
+  cancelled: ["paid"],
+  paid: [],
+  partially_refunded: [],
+  refunded: [],
+}
+
+// Orders written by the storefront may hold statuses this list doesn't
+// know; those are treated as pending.
+export function canChangePaymentStatus(from: string, to: PaymentStatus) {
+  const transitions = PAYMENT_TRANSITIONS[from as PaymentStatus] ?? PAYMENT_TRANSITIONS.pending
+  return transitions.includes(to)
+}
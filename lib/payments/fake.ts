@@ -0,0 +1,22 @@
+import { v4 as uuidv4 } from "uuid"
+import type { PaymentProvider } from "./types"
+
+const LINK_LIFETIME_MS = 24 * 60 * 60 * 1000
+
+// Pretends every refund succeeds and prints it and payment links to the
+// server log, for trying refunds and payment links locally without a
+// payment provider. Its links lead nowhere.
+export const fakeProvider: PaymentProvider = {
+  id: "fake",
+  async refund(request) {
+    console.info(
+      `[payments] Refunded ${request.amount} ${request.order.currency} on order #${request.order.orderId} (${request.reason})`,
+    )
+    return { providerRefundId: `fake_${uuidv4()}`, status: "succeeded" }
+  },
+  async createPaymentLink({ order, email }) {
+    const url = `https://example.com/pay/fake_${uuidv4()}`
+    console.info(`[payments] Payment link for order #${order.orderId} sent to ${email}: ${url}`)
+    return { url, expiresAt: new Date(Date.now() + LINK_LIFETIME_MS).toISOString(), orderFields: {} }
+  },
+}
@@ -0,0 +1,52 @@
+import { fakeProvider } from "./fake"
+import { manualProvider } from "./manual"
+import { payhereProvider } from "./payhere"
+import { stripeProvider } from "./stripe"
+import type { PaymentLinkProvider, PaymentProvider } from "./types"
+
+export type {
+  PaymentEvent,
+  PaymentEventAction,
+  PaymentLink,
+  PaymentLinkProvider,
+  PaymentLinkRequest,
+  PaymentProvider,
+  RefundRequest,
+  RefundResult,
+  WebhookRequest,
+} from "./types"
+
+// Register new payment providers here. Their ids match orders'
+// `paymentProvider` and name their webhook route, /api/webhooks/<id>.
+const providers: PaymentProvider[] = [stripeProvider, payhereProvider, fakeProvider, manualProvider]
+
+export function getPaymentProvider(id: string) {
+  return providers.find((provider) => provider.id === id.toLowerCase()) ?? null
+}
+
+// The provider that refunds `order`: the order's own if it can, or the one
+// named by REFUND_PROVIDER when set (e.g. "fake" for local testing). Orders
+// from providers that can't refund are refunded manually.
+export function getRefundProvider(order: { paymentProvider: string }) {
+  const override = process.env.REFUND_PROVIDER
+  if (override) {
+    const provider = getPaymentProvider(override)
+    if (!provider?.refund) throw new Error(`Unknown refund provider "${override}"`)
+    return provider
+  }
+  const provider = getPaymentProvider(order.paymentProvider ?? "")
+  return provider?.refund ? provider : manualProvider
+}
+
+// The provider that makes payment links for orders taken by staff, named by
+// PAYMENT_LINK_PROVIDER and Stripe by default.
+export function getPaymentLinkProvider(): PaymentLinkProvider {
+  const id = process.env.PAYMENT_LINK_PROVIDER || "stripe"
+  const provider = getPaymentProvider(id)
+  if (!canCreatePaymentLinks(provider)) throw new Error(`Payment provider "${id}" can't create payment links`)
+  return provider
+}
+
+function canCreatePaymentLinks(provider: PaymentProvider | null): provider is PaymentLinkProvider {
+  return Boolean(provider?.createPaymentLink)
+}
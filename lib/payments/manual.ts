@@ -0,0 +1,11 @@
+import type { PaymentProvider } from "./types"
+
+// For orders paid outside a provider, such as cash on delivery or bank
+// transfer: staff return the money themselves and the refund is only
+// recorded.
+export const manualProvider: PaymentProvider = {
+  id: "manual",
+  async refund(request) {
+    return { providerRefundId: `manual_${request.refundId}`, status: "succeeded" }
+  },
+}
@@ -0,0 +1,75 @@
+import { createHash, timingSafeEqual } from "node:crypto"
+import { UnauthorizedError } from "@/lib/errors"
+import { toMinorUnits } from "@/lib/money"
+import type { PaymentStatus } from "@/lib/payment-status"
+import type { PaymentEvent, PaymentProvider, WebhookRequest } from "./types"
+
+const md5 = (value: string) => createHash("md5").update(value).digest("hex").toUpperCase()
+
+// PayHere's `status_code`s. Chargebacks (-3) are left to staff.
+const PAYMENT_STATUSES: Record<string, PaymentStatus> = {
+  "2": "paid",
+  "0": "pending",
+  "-1": "cancelled",
+  "-2": "failed",
+}
+
+const STATUS_NAMES: Record<string, string> = {
+  "2": "success",
+  "0": "pending",
+  "-1": "canceled",
+  "-2": "failed",
+  "-3": "chargedback",
+}
+
+// Checks `md5sig` on PayHere's form-encoded payment notification, signed
+// with PAYHERE_MERCHANT_SECRET. PayHere doesn't timestamp notifications;
+// replays are harmless as events are stored once.
+function verifyWebhook({ body }: WebhookRequest) {
+  const secret = process.env.PAYHERE_MERCHANT_SECRET
+  if (!secret) throw new Error("PAYHERE_MERCHANT_SECRET is not set")
+  const fields = Object.fromEntries(new URLSearchParams(body))
+  const merchantId = process.env.PAYHERE_MERCHANT_ID
+  if (merchantId && fields.merchant_id !== merchantId) throw new UnauthorizedError("Unknown PayHere merchant")
+
+  const expected = Buffer.from(
+    md5(
+      `${fields.merchant_id}${fields.order_id}${fields.payhere_amount}${fields.payhere_currency}${fields.status_code}${md5(secret)}`,
+    ),
+  )
+  const signature = Buffer.from((fields.md5sig ?? "").toUpperCase())
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    throw new UnauthorizedError("Invalid PayHere signature")
+  }
+  return fields
+}
+
+// PayHere sends no event id, but notifies each payment once per status.
+function readEvent(payload: unknown): PaymentEvent {
+  const fields = payload as Record<string, string>
+  const paymentStatus = PAYMENT_STATUSES[fields.status_code]
+  const currency = fields.payhere_currency
+  return {
+    id: `${fields.payment_id}:${fields.status_code}`,
+    type: `payment.${STATUS_NAMES[fields.status_code] ?? fields.status_code}`,
+    order: { field: "orderId", value: fields.order_id },
+    action: paymentStatus
+      ? {
+          type: "payment",
+          paymentStatus,
+          ...(paymentStatus === "paid" && {
+            amount: { value: toMinorUnits(fields.payhere_amount, currency), currency },
+          }),
+        }
+      : null,
+  }
+}
+
+// PayHere, the Sri Lankan payment gateway. The storefront passes the
+// order's `orderId` as PayHere's `order_id` and /api/webhooks/payhere as its
+// `notify_url`. Refunds are made in the PayHere portal and recorded
+// manually.
+export const payhereProvider: PaymentProvider = {
+  id: "payhere",
+  webhooks: { verify: verifyWebhook, read: readEvent },
+}
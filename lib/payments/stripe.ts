@@ -0,0 +1,171 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { AppError, UnauthorizedError, ValidationError } from "@/lib/errors"
+import type { RefundReason, RefundStatus } from "@/lib/refunds"
+import type { PaymentEvent, PaymentProvider, WebhookRequest } from "./types"
+
+const API_URL = "https://api.stripe.com/v1"
+
+// How old a signed webhook may be, against replayed requests.
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+// The reasons Stripe knows; others are sent without one.
+const STRIPE_REASONS: Partial<Record<RefundReason, string>> = {
+  requested_by_customer: "requested_by_customer",
+  duplicate: "duplicate",
+  fraudulent: "fraudulent",
+}
+
+async function stripeRequest<T>(path: string, init: { method?: string; body?: URLSearchParams; key?: string } = {}) {
+  const secret = process.env.STRIPE_SECRET_KEY
+  if (!secret) throw new Error("STRIPE_SECRET_KEY is not set")
+  const response = await fetch(`${API_URL}${path}`, {
+    method: init.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${secret}`,
+      ...(init.body && { "Content-Type": "application/x-www-form-urlencoded" }),
+      ...(init.key && { "Idempotency-Key": init.key }),
+    },
+    body: init.body,
+  })
+  const data = await response.json()
+  if (!response.ok) throw new AppError(`Stripe: ${data.error?.message ?? response.statusText}`, 502)
+  return data as T
+}
+
+// Checks the Stripe-Signature header: an HMAC of the timestamp and body
+// with STRIPE_WEBHOOK_SECRET. Signed bodies that aren't a Stripe event are
+// refused as bad requests.
+function verifyWebhook({ body, headers }: WebhookRequest, now = new Date()) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  if (!secret) throw new Error("STRIPE_WEBHOOK_SECRET is not set")
+  const parts = (headers.get("stripe-signature") ?? "").split(",").map((part) => part.split("="))
+  const timestamp = Number(parts.find(([key]) => key === "t")?.[1])
+  const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => Buffer.from(value ?? ""))
+  if (!timestamp || signatures.length === 0) throw new UnauthorizedError("Missing Stripe signature")
+  if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new UnauthorizedError("Stripe signature has expired")
+  }
+  const expected = Buffer.from(createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex"))
+  if (!signatures.some((signature) => signature.length === expected.length && timingSafeEqual(signature, expected))) {
+    throw new UnauthorizedError("Invalid Stripe signature")
+  }
+  let payload: unknown
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    throw new ValidationError("The webhook body isn't valid JSON")
+  }
+  const event = payload as { id?: unknown; type?: unknown } | null
+  if (typeof event?.id !== "string" || typeof event.type !== "string") {
+    throw new ValidationError("The webhook body isn't a Stripe event")
+  }
+  return payload
+}
+
+const REFUND_STATUSES: Record<string, RefundStatus> = {
+  succeeded: "succeeded",
+  failed: "failed",
+  canceled: "failed",
+}
+
+function readEvent(payload: unknown): PaymentEvent {
+  const event = payload as { id: string; type: string; data?: { object?: Record<string, any> } }
+  const object = event.data?.object ?? {}
+  const base = { id: event.id, type: event.type }
+  const session = (paymentStatus: "paid" | "pending" | "failed" | "cancelled"): PaymentEvent => ({
+    ...base,
+    order: { field: "stripeSessionId", value: object.id },
+    action: {
+      type: "payment",
+      paymentStatus,
+      ...(paymentStatus === "paid" &&
+        typeof object.amount_total === "number" && {
+          amount: { value: object.amount_total, currency: String(object.currency).toUpperCase() },
+        }),
+    },
+  })
+  switch (event.type) {
+    case "checkout.session.completed":
+      // Delayed payment methods complete the session before they are paid.
+      return session(object.payment_status === "unpaid" ? "pending" : "paid")
+    case "checkout.session.async_payment_succeeded":
+      return session("paid")
+    case "checkout.session.async_payment_failed":
+      return session("failed")
+    case "checkout.session.expired":
+      return session("cancelled")
+    case "refund.updated":
+    case "charge.refund.updated":
+      // Only refunds made from the dashboard carry our ids.
+      if (!object.metadata?.order_id || !object.metadata?.refund_id) break
+      return {
+        ...base,
+        order: { field: "orderId", value: object.metadata.order_id },
+        action: {
+          type: "refund",
+          refundId: object.metadata.refund_id,
+          providerRefundId: object.id,
+          status: REFUND_STATUSES[object.status] ?? "pending",
+        },
+      }
+  }
+  return { ...base, order: null, action: null }
+}
+
+// Refunds the payment of the order's Stripe Checkout session through the
+// Stripe API, authenticated with STRIPE_SECRET_KEY. Amounts are the order's
+// minor units, which are Stripe's too. Payment links are Checkout sessions
+// for the order total that return the customer to STOREFRONT_URL. Webhooks
+// report Checkout sessions being paid, failing or expiring, and refunds
+// finishing.
+export const stripeProvider: PaymentProvider = {
+  id: "stripe",
+  webhooks: { verify: verifyWebhook, read: readEvent },
+  async refund({ order, amount, reason, refundId }) {
+    if (!order.stripeSessionId) throw new ValidationError("The order has no Stripe checkout session")
+    const session = await stripeRequest<{ payment_intent: string | null }>(
+      `/checkout/sessions/${encodeURIComponent(order.stripeSessionId)}`,
+    )
+    if (!session.payment_intent) throw new ValidationError("The order's Stripe checkout session was never paid")
+
+    const body = new URLSearchParams({
+      payment_intent: session.payment_intent,
+      amount: String(amount),
+      "metadata[order_id]": order.orderId,
+      "metadata[refund_id]": refundId,
+    })
+    if (STRIPE_REASONS[reason]) body.set("reason", STRIPE_REASONS[reason])
+    const refund = await stripeRequest<{ id: string; status: string; failure_reason?: string }>("/refunds", {
+      method: "POST",
+      body,
+      key: refundId,
+    })
+    if (refund.status === "failed" || refund.status === "canceled") {
+      throw new AppError(`Stripe declined the refund${refund.failure_reason ? `: ${refund.failure_reason}` : ""}`, 502)
+    }
+    return { providerRefundId: refund.id, status: refund.status === "succeeded" ? "succeeded" : "pending" }
+  },
+  async createPaymentLink({ order, email }) {
+    const storefrontUrl = process.env.STOREFRONT_URL
+    if (!storefrontUrl) throw new Error("STOREFRONT_URL is not set")
+    const session = await stripeRequest<{ id: string; url: string; expires_at: number }>("/checkout/sessions", {
+      method: "POST",
+      body: new URLSearchParams({
+        mode: "payment",
+        customer_email: email,
+        client_reference_id: order.orderId,
+        "metadata[order_id]": order.orderId,
+        "line_items[0][quantity]": "1",
+        "line_items[0][price_data][currency]": order.currency.toLowerCase(),
+        "line_items[0][price_data][unit_amount]": String(order.totalAmount),
+        "line_items[0][price_data][product_data][name]": `Order #${order.orderId}`,
+        success_url: storefrontUrl,
+      }),
+    })
+    return {
+      url: session.url,
+      expiresAt: new Date(session.expires_at * 1000).toISOString(),
+      orderFields: { stripeSessionId: session.id },
+    }
+  },
+}
@@ -0,0 +1,80 @@
+import type { PaymentStatus } from "@/lib/payment-status"
+import type { RefundReason, RefundStatus } from "@/lib/refunds"
+import type { Order } from "@/lib/types"
+
+export interface RefundRequest {
+  order: Order
+  // Minor units of the order currency.
+  amount: number
+  reason: RefundReason
+  // Our id for the refund. Providers pass it on as an idempotency key, so a
+  // retried request can't refund twice.
+  refundId: string
+}
+
+export interface RefundResult {
+  providerRefundId: string
+  // Some providers finish refunds later; those stay pending on the order.
+  status: "succeeded" | "pending"
+}
+
+export interface PaymentLinkRequest {
+  order: Order
+  // Where the provider may send the customer a receipt.
+  email: string
+}
+
+export interface PaymentLink {
+  url: string
+  expiresAt: string
+  // Stored on the order, so that the provider's webhooks find it.
+  orderFields: Pick<Order, "stripeSessionId">
+}
+
+export interface WebhookRequest {
+  // The raw body, as signatures are computed over it.
+  body: string
+  headers: Headers
+}
+
+// What a webhook event asks of its order.
+export type PaymentEventAction =
+  | {
+      type: "payment"
+      paymentStatus: PaymentStatus
+      // What was paid, in minor units, checked against the order total.
+      amount?: { value: number; currency: string }
+    }
+  | { type: "refund"; refundId: string; providerRefundId: string; status: RefundStatus }
+
+export interface PaymentEvent {
+  // The provider's id for the event. Redeliveries of an event share it.
+  id: string
+  type: string
+  // How to find the order, or null for events about no order.
+  order: { field: "orderId" | "stripeSessionId"; value: string } | null
+  // Null for events that don't change orders.
+  action: PaymentEventAction | null
+}
+
+// A payment provider orders are paid through. Providers run on the server
+// so that their credentials never reach the browser.
+export interface PaymentProvider {
+  id: string
+  // Moves money back to the customer. Orders of providers without it are
+  // refunded manually.
+  refund?: (request: RefundRequest) => Promise<RefundResult>
+  // Makes a page where the customer pays the order's total, for orders
+  // taken by staff.
+  createPaymentLink?: (request: PaymentLinkRequest) => Promise<PaymentLink>
+  webhooks?: {
+    // Checks that a request came from the provider and returns its parsed
+    // body. Throws UnauthorizedError when it didn't.
+    verify: (request: WebhookRequest, now?: Date) => unknown
+    // Reads an event from a verified body, on arrival and on replay.
+    read: (payload: unknown) => PaymentEvent
+  }
+}
+
+// A provider that can make payment links.
+export type PaymentLinkProvider = PaymentProvider & Required<Pick<PaymentProvider, "createPaymentLink">>
@@ -0,0 +1,82 @@
+export type Role = "owner" | "manager" | "catalog_editor" | "fulfillment" | "read_only"
+
+export type Permission =
+  | "catalog:read"
+  | "catalog:write"
+  | "catalog:delete"
+  | "inventory:read"
+  | "inventory:write"
+  | "orders:read"
+  | "orders:create"
+  | "orders:fulfill"
+  | "orders:refund"
+  | "customers:read"
+  | "customers:manage"
+  | "audit:read"
+  | "analytics:read"
+  | "analytics:manage"
+  | "promotions:manage"
+  | "team:manage"
+  | "settings:manage"
+
+export const ROLES: Role[] = ["owner", "manager", "catalog_editor", "fulfillment", "read_only"]
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  catalog_editor: "Catalog Editor",
+  fulfillment: "Fulfillment",
+  read_only: "Read Only",
+}
+
+// What each role may do. Customer PII (names, emails, addresses) sits behind
+// `customers:read`, so catalog editors and read-only users never see it.
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [
+    "catalog:read",
+    "catalog:write",
+    "catalog:delete",
+    "inventory:read",
+    "inventory:write",
+    "orders:read",
+    "orders:create",
+    "orders:fulfill",
+    "orders:refund",
+    "customers:read",
+    "customers:manage",
+    "audit:read",
+    "analytics:read",
+    "analytics:manage",
+    "promotions:manage",
+    "team:manage",
+    "settings:manage",
+  ],
+  manager: [
+    "catalog:read",
+    "catalog:write",
+    "catalog:delete",
+    "inventory:read",
+    "inventory:write",
+    "orders:read",
+    "orders:create",
+    "orders:fulfill",
+    "orders:refund",
+    "customers:read",
+    "customers:manage",
+    "audit:read",
+    "analytics:read",
+    "analytics:manage",
+    "promotions:manage",
+  ],
+  catalog_editor: ["catalog:read", "catalog:write", "catalog:delete", "inventory:read", "inventory:write", "orders:read"],
+  fulfillment: ["catalog:read", "inventory:read", "orders:read", "orders:create", "orders:fulfill", "customers:read"],
+  read_only: ["catalog:read", "inventory:read", "orders:read"],
+}
+
+export function getPermissions(role: Role): Permission[] {
+  return ROLE_PERMISSIONS[role]
+}
+
+export function hasPermission(role: Role | null | undefined, permission: Permission) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
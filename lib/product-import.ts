@@ -0,0 +1,93 @@
+import type { AuditChange } from "@/lib/audit"
+
+export type ImportField =
+  | "id"
+  | "name"
+  | "description"
+  | "price"
+  | "stock"
+  | "weight"
+  | "weightUnit"
+  | "category"
+  | "subcategory"
+  | "tags"
+  | "productDetails"
+  | "lowStockThreshold"
+  | "image"
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[]; required?: boolean }[] = [
+  { field: "id", label: "Product ID", aliases: ["id", "productid"] },
+  { field: "name", label: "Name", aliases: ["name", "productname", "title"], required: true },
+  { field: "description", label: "Description", aliases: ["description", "desc"] },
+  { field: "price", label: "Price", aliases: ["price", "unitprice"], required: true },
+  { field: "stock", label: "Stock", aliases: ["stock", "quantity", "qty", "inventory"], required: true },
+  { field: "weight", label: "Weight", aliases: ["weight"] },
+  { field: "weightUnit", label: "Weight Unit", aliases: ["weightunit", "unit"] },
+  { field: "category", label: "Category", aliases: ["category", "categoryname"], required: true },
+  { field: "subcategory", label: "Subcategory", aliases: ["subcategory", "subcategoryname"] },
+  { field: "tags", label: "Tags", aliases: ["tags", "tag"] },
+  { field: "productDetails", label: "Product Details", aliases: ["productdetails", "details"] },
+  { field: "lowStockThreshold", label: "Low Stock Threshold", aliases: ["lowstockthreshold", "reorderlevel"] },
+  { field: "image", label: "Image URL", aliases: ["image", "imageurl"] },
+]
+
+// Spreadsheet column index for each product field.
+export type ImportMapping = Partial<Record<ImportField, number>>
+
+export interface ImportOptions {
+  // Create categories, subcategories and tags that don't exist yet instead
+  // of rejecting the rows that use them.
+  createMissing: boolean
+}
+
+export const MAX_IMPORT_ROWS = 2000
+
+export const IMPORT_FILE_TYPES = [".csv", ".xlsx"]
+
+// The uploaded rows, header first, with each row's number in the file.
+// Blank rows are left out, so the numbers can skip.
+export interface ImportSheet {
+  rows: string[][]
+  rowNumbers: number[]
+}
+
+export interface ImportRowResult {
+  // 1-based row number in the spreadsheet, counting the header row.
+  row: number
+  name: string
+  action: "create" | "update" | "unchanged"
+  productId?: string
+  changes: AuditChange[]
+  errors: string[]
+}
+
+export interface ImportPlan {
+  rows: ImportRowResult[]
+  missing: { categories: string[]; subcategories: string[]; tags: string[] }
+  summary: { create: number; update: number; unchanged: number; errors: number }
+}
+
+function normalizeHeader(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+// Matches spreadsheet headers to product fields by name, e.g. "Product
+// Name" or "Qty".
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {}
+  const normalized = headers.map(normalizeHeader)
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((header) => aliases.includes(header))
+    if (index >= 0) mapping[field] = index
+  })
+  return mapping
+}
+
+// Tags are comma separated; product details use "|" because they often
+// contain commas themselves.
+export function splitList(value: string, separator: "," | "|") {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from "uuid"
+
+export interface ProductOption {
+  name: string
+  values: string[]
+}
+
+export interface ProductVariant {
+  id: string
+  sku: string
+  options: Record<string, string>
+  // In minor units of the store currency.
+  price: number
+  stock: string
+  weight: string
+  weightUnit: string
+}
+
+type VariantDefaults = Pick<ProductVariant, "price" | "stock" | "weight" | "weightUnit">
+
+export const MAX_PRODUCT_OPTIONS = 3
+
+function slug(value: string) {
+  return value
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+export function variantKey(options: Record<string, string>) {
+  return Object.keys(options)
+    .sort()
+    .map((name) => `${name}=${options[name]}`)
+    .join("|")
+}
+
+export function formatVariantLabel(options: Record<string, string>) {
+  return Object.values(options).join(" / ")
+}
+
+export function generateSku(productName: string, options: Record<string, string>) {
+  return [productName, ...Object.values(options)].map(slug).filter(Boolean).join("-")
+}
+
+// Options without a name or values do not contribute to the matrix.
+export function activeOptions(options: ProductOption[]) {
+  return options
+    .map((option) => ({ name: option.name.trim(), values: option.values.map((v) => v.trim()).filter(Boolean) }))
+    .filter((option) => option.name && option.values.length > 0)
+}
+
+// Builds every combination of option values. Combinations that already exist
+// keep their SKU, price, stock and weight; new ones start from `defaults`.
+export function buildVariantMatrix(
+  productName: string,
+  options: ProductOption[],
+  existing: ProductVariant[],
+  defaults: VariantDefaults,
+): ProductVariant[] {
+  const active = activeOptions(options)
+  if (active.length === 0) return []
+
+  const combinations = active.reduce<Record<string, string>[]>(
+    (acc, option) => acc.flatMap((combo) => option.values.map((value) => ({ ...combo, [option.name]: value }))),
+    [{}],
+  )
+  const existingByKey = new Map(existing.map((variant) => [variantKey(variant.options), variant]))
+
+  return combinations.map((combo) => {
+    const match = existingByKey.get(variantKey(combo))
+    if (match) return { ...match, options: combo }
+    return {
+      id: uuidv4(),
+      sku: generateSku(productName, combo),
+      options: combo,
+      ...defaults,
+    }
+  })
+}
+
+// Product-level price and stock summarise the variants: the lowest price is
+// shown as the "from" price and stock is the total across variants.
+export function summarizeVariants(variants: ProductVariant[]) {
+  const prices = variants.map((variant) => variant.price)
+  const stock = variants.reduce((sum, variant) => sum + (Number.parseInt(variant.stock) || 0), 0)
+  return {
+    price: Math.min(...prices),
+    maxPrice: Math.max(...prices),
+    stock: stock.toString(),
+  }
+}
+
+// Returns a description of the first problem with the variant setup, if any.
+export function validateVariants(options: ProductOption[], variants: ProductVariant[]): string | null {
+  if (variants.length === 0) return null
+  const active = activeOptions(options)
+  if (active.length > MAX_PRODUCT_OPTIONS) return `A product can have at most ${MAX_PRODUCT_OPTIONS} options`
+
+  const names = active.map((option) => option.name)
+  if (new Set(names.map((name) => name.toLowerCase())).size !== names.length) return "Option names must be unique"
+
+  const keys = new Set<string>()
+  const skus = new Set<string>()
+  for (const variant of variants) {
+    const variantNames = Object.keys(variant.options)
+    if (variantNames.length !== names.length || !variantNames.every((name) => names.includes(name))) {
+      return `Variant ${variant.sku} does not match the product options`
+    }
+    for (const option of active) {
+      if (!option.values.includes(variant.options[option.name])) {
+        return `Variant ${variant.sku} uses an unknown ${option.name} value`
+      }
+    }
+    const key = variantKey(variant.options)
+    if (keys.has(key)) return `Duplicate variant ${formatVariantLabel(variant.options)}`
+    keys.add(key)
+    if (skus.has(variant.sku)) return `Duplicate SKU ${variant.sku}`
+    skus.add(variant.sku)
+  }
+  return null
+}
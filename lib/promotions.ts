@@ -0,0 +1,305 @@
+export type PromotionType = "percentage" | "fixed" | "buyXGetY" | "freeShipping"
+
+export const PROMOTION_TYPES: PromotionType[] = ["percentage", "fixed", "buyXGetY", "freeShipping"]
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: "Percentage off",
+  fixed: "Fixed amount off",
+  buyXGetY: "Buy X get Y",
+  freeShipping: "Free shipping",
+}
+
+// What a promotion's discount applies to.
+export type PromotionScope = "all" | "products" | "categories" | "subcategories" | "tags"
+
+export const PROMOTION_SCOPES: PromotionScope[] = ["all", "products", "categories", "subcategories", "tags"]
+
+export const PROMOTION_SCOPE_LABELS: Record<PromotionScope, string> = {
+  all: "All products",
+  products: "Products",
+  categories: "Categories",
+  subcategories: "Subcategories",
+  tags: "Tags",
+}
+
+export type PromotionStatus = "active" | "scheduled" | "expired" | "disabled"
+
+export const PROMOTION_STATUS_LABELS: Record<PromotionStatus, string> = {
+  active: "Active",
+  scheduled: "Scheduled",
+  expired: "Expired",
+  disabled: "Disabled",
+}
+
+export interface Promotion {
+  id: string
+  name: string
+  // Shoppers enter the code at checkout. Promotions without one apply to
+  // every order that qualifies.
+  code: string | null
+  active: boolean
+  type: PromotionType
+  // Percent off for "percentage", and off the discounted items of
+  // "buyXGetY" (100 makes them free); minor units off for "fixed". Free
+  // shipping has none.
+  value: number
+  // For "buyXGetY": of every `buyQuantity + getQuantity` items in scope,
+  // the `getQuantity` cheapest are discounted.
+  buyQuantity: number
+  getQuantity: number
+  scope: PromotionScope
+  // The products, categories, subcategories or tags of `scope`.
+  scopeIds: string[]
+  // Subtotal an order needs, in minor units; null for any.
+  minimumSubtotal: number | null
+  startsAt: string | null
+  endsAt: string | null
+  // How many orders may use it, in all and per customer; null for no limit.
+  usageLimit: number | null
+  perCustomerLimit: number | null
+  // Combinable promotions apply together, in ascending `priority`, each to
+  // what the ones before left. Others only apply alone.
+  combinable: boolean
+  priority: number
+  createdAt: string
+  updatedAt?: string
+}
+
+// Orders that used a promotion, in all and by the customer placing one.
+export interface PromotionUsage {
+  total: number
+  customer: number
+}
+
+export interface LineDiscount {
+  promotionId: string
+  amount: number
+}
+
+export interface AppliedPromotion {
+  id: string
+  name: string
+  code: string | null
+  type: PromotionType
+  amount: number
+}
+
+// The promotions an order used. Amounts are in minor units of the order
+// currency.
+export interface OrderDiscount {
+  // Off the lines and shipping together.
+  total: number
+  // Off shipping, by free-shipping promotions.
+  shipping: number
+  promotions: AppliedPromotion[]
+}
+
+export interface DiscountableLine {
+  productId: string
+  // Unit price, in minor units.
+  price: number
+  quantity: number
+  categoryId?: string
+  subcategoryId?: string
+  tagIds?: string[]
+}
+
+export interface PromotionContext {
+  now: Date
+  // Codes the shopper entered.
+  codes: string[]
+  // Shipping charged, for free-shipping promotions.
+  shipping: number
+  usage: Map<string, PromotionUsage>
+}
+
+export interface RejectedCode {
+  code: string
+  reason: string
+}
+
+export interface PromotionResult {
+  discount: OrderDiscount
+  // The discounts of each line, in the same order as the lines.
+  lineDiscounts: LineDiscount[][]
+  // Entered codes that didn't apply, and why.
+  rejected: RejectedCode[]
+}
+
+export const normalizeCode = (code: string) => code.trim().toUpperCase()
+
+export function getPromotionStatus(promotion: Promotion, now: Date): PromotionStatus {
+  if (!promotion.active) return "disabled"
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return "scheduled"
+  if (promotion.endsAt && new Date(promotion.endsAt) < now) return "expired"
+  return "active"
+}
+
+export function isInScope(promotion: Promotion, line: DiscountableLine) {
+  const ids = promotion.scopeIds
+  switch (promotion.scope) {
+    case "all":
+      return true
+    case "products":
+      return ids.includes(line.productId)
+    case "categories":
+      return !!line.categoryId && ids.includes(line.categoryId)
+    case "subcategories":
+      return !!line.subcategoryId && ids.includes(line.subcategoryId)
+    case "tags":
+      return (line.tagIds ?? []).some((id) => ids.includes(id))
+  }
+}
+
+// Why `promotion` can't apply to the order, or null if it can.
+function ineligibility(promotion: Promotion, lines: DiscountableLine[], context: PromotionContext) {
+  switch (getPromotionStatus(promotion, context.now)) {
+    case "scheduled":
+      return "This code isn't active yet"
+    case "expired":
+      return "This code has expired"
+    case "disabled":
+      return "This code is not active"
+  }
+  const usage = context.usage.get(promotion.id) ?? { total: 0, customer: 0 }
+  if (promotion.usageLimit !== null && usage.total >= promotion.usageLimit) return "This code has been used up"
+  if (promotion.perCustomerLimit !== null && usage.customer >= promotion.perCustomerLimit) {
+    return "You have already used this code"
+  }
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0)
+  if (promotion.minimumSubtotal !== null && subtotal < promotion.minimumSubtotal) {
+    return "The order doesn't reach this code's minimum spend"
+  }
+  if (!lines.some((line) => isInScope(promotion, line))) return "No items in the cart qualify for this code"
+  return null
+}
+
+// Splits `amount` across `weights` in proportion, in whole minor units that
+// add up to it exactly.
+function allocate(amount: number, weights: number[]) {
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  if (total === 0) return weights.map(() => 0)
+  const exact = weights.map((weight) => (amount * weight) / total)
+  const shares = exact.map(Math.floor)
+  let left = amount - shares.reduce((sum, share) => sum + share, 0)
+  exact
+    .map((value, index) => ({ index, fraction: value - shares[index] }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ index }) => {
+      if (left <= 0) return
+      shares[index] += 1
+      left -= 1
+    })
+  return shares
+}
+
+// What `promotion` takes off each line and off shipping, given what is left
+// of them after promotions applied before it.
+function discountsOf(
+  promotion: Promotion,
+  lines: DiscountableLine[],
+  remaining: number[],
+  shipping: number,
+): { lines: number[]; shipping: number } {
+  const inScope = lines.map((line) => isInScope(promotion, line))
+  const scoped = remaining.map((amount, index) => (inScope[index] ? amount : 0))
+  switch (promotion.type) {
+    case "percentage":
+      return { lines: scoped.map((amount) => Math.round((amount * promotion.value) / 100)), shipping: 0 }
+    case "fixed": {
+      const total = scoped.reduce((sum, amount) => sum + amount, 0)
+      return { lines: allocate(Math.min(promotion.value, total), scoped), shipping: 0 }
+    }
+    case "buyXGetY": {
+      const units = lines
+        .flatMap((line, index) =>
+          inScope[index] ? Array.from({ length: line.quantity }, () => ({ index, price: remaining[index] / line.quantity })) : [],
+        )
+        .sort((a, b) => b.price - a.price)
+      const groupSize = promotion.buyQuantity + promotion.getQuantity
+      const discounted = Math.floor(units.length / groupSize) * promotion.getQuantity
+      const amounts = lines.map(() => 0)
+      units.slice(units.length - discounted).forEach((unit) => {
+        amounts[unit.index] += (unit.price * promotion.value) / 100
+      })
+      return { lines: amounts.map(Math.round), shipping: 0 }
+    }
+    case "freeShipping":
+      return { lines: lines.map(() => 0), shipping }
+  }
+}
+
+// Applies `promotions` one after the other.
+function applyAll(promotions: Promotion[], lines: DiscountableLine[], shipping: number) {
+  const remaining = lines.map((line) => line.price * line.quantity)
+  const lineDiscounts: LineDiscount[][] = lines.map(() => [])
+  const applied: AppliedPromotion[] = []
+  let shippingLeft = shipping
+  let shippingDiscount = 0
+  promotions.forEach((promotion) => {
+    const discount = discountsOf(promotion, lines, remaining, shippingLeft)
+    const amount = discount.lines.reduce((sum, line) => sum + line, 0) + discount.shipping
+    if (amount <= 0) return
+    discount.lines.forEach((line, index) => {
+      if (line <= 0) return
+      remaining[index] -= line
+      lineDiscounts[index].push({ promotionId: promotion.id, amount: line })
+    })
+    shippingLeft -= discount.shipping
+    shippingDiscount += discount.shipping
+    applied.push({ id: promotion.id, name: promotion.name, code: promotion.code, type: promotion.type, amount })
+  })
+  const discount: OrderDiscount = {
+    total: applied.reduce((sum, promotion) => sum + promotion.amount, 0),
+    shipping: shippingDiscount,
+    promotions: applied,
+  }
+  return { discount, lineDiscounts }
+}
+
+const byPriority = (a: Promotion, b: Promotion) => a.priority - b.priority || a.name.localeCompare(b.name)
+
+// The discounts for an order from automatic promotions and the codes
+// entered. All combinable promotions apply together, or the single other
+// one worth the most if it beats them.
+export function evaluatePromotions(
+  promotions: Promotion[],
+  lines: DiscountableLine[],
+  context: PromotionContext,
+): PromotionResult {
+  const codes = [...new Set(context.codes.map(normalizeCode).filter(Boolean))]
+  const rejected: RejectedCode[] = []
+  const eligible = promotions.filter((promotion) => {
+    if (promotion.code && !codes.includes(promotion.code)) return false
+    const reason = ineligibility(promotion, lines, context)
+    if (reason && promotion.code) rejected.push({ code: promotion.code, reason })
+    return !reason
+  })
+  codes
+    .filter((code) => !promotions.some((promotion) => promotion.code === code))
+    .forEach((code) => rejected.push({ code, reason: "This code doesn't exist" }))
+
+  const combinable = eligible.filter((promotion) => promotion.combinable).sort(byPriority)
+  const options = [
+    { promotions: combinable, result: applyAll(combinable, lines, context.shipping) },
+    ...eligible
+      .filter((promotion) => !promotion.combinable)
+      .map((promotion) => ({ promotions: [promotion], result: applyAll([promotion], lines, context.shipping) })),
+  ]
+  const best = options.reduce((chosen, option) =>
+    option.result.discount.total > chosen.result.discount.total ? option : chosen,
+  )
+
+  const appliedIds = new Set(best.result.discount.promotions.map((promotion) => promotion.id))
+  eligible
+    .filter((promotion) => promotion.code && !appliedIds.has(promotion.id))
+    .forEach((promotion) =>
+      rejected.push({
+        code: promotion.code!,
+        reason: best.promotions.includes(promotion)
+          ? "The cart doesn't qualify for this code"
+          : "Can't be combined with other promotions",
+      }),
+    )
+  return { ...best.result, rejected }
+}
@@ -0,0 +1,156 @@
+import type { Order, OrderProduct } from "@/lib/types"
+
+export type RefundReason = "requested_by_customer" | "damaged" | "not_received" | "duplicate" | "fraudulent" | "other"
+
+export const REFUND_REASONS: RefundReason[] = [
+  "requested_by_customer",
+  "damaged",
+  "not_received",
+  "duplicate",
+  "fraudulent",
+  "other",
+]
+
+export const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  requested_by_customer: "Requested by customer",
+  damaged: "Damaged or defective",
+  not_received: "Not received",
+  duplicate: "Duplicate order",
+  fraudulent: "Fraudulent",
+  other: "Other",
+}
+
+// Pending refunds have been reserved against the order while the payment
+// provider handles them; failed ones don't count.
+export type RefundStatus = "pending" | "succeeded" | "failed"
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: "Pending",
+  succeeded: "Refunded",
+  failed: "Failed",
+}
+
+export interface RefundLine {
+  productId: string
+  variantId?: string
+  name: string
+  quantity: number
+  // What the units cost the customer after discounts and with added tax, in
+  // minor units of the order currency.
+  amount: number
+}
+
+export interface Refund {
+  id: string
+  // Minor units of the order currency: the lines plus `customAmount`.
+  amount: number
+  lines: RefundLine[]
+  // Refunded on top of the lines, such as shipping or a goodwill credit.
+  customAmount: number
+  reason: RefundReason
+  note: string
+  // Whether staff asked for the lines' units to go back into stock, and
+  // whether they have. Units are restocked once the provider accepts the
+  // refund.
+  restock: boolean
+  restocked: boolean
+  status: RefundStatus
+  // The payment adapter that made the refund, and its id for it.
+  provider: string
+  providerRefundId: string | null
+  failureReason?: string
+  createdAt: string
+  createdBy: string | null
+}
+
+export interface RefundLineRequest {
+  productId: string
+  variantId?: string
+  quantity: number
+}
+
+const lineKey = (line: { productId: string; variantId?: string }) => `${line.productId}:${line.variantId ?? ""}`
+
+const counts = (refund: Refund) => refund.status !== "failed"
+
+// Units of each order line refunded so far, keyed by product and variant.
+// With `restockedOnly`, only those put back into stock.
+export function getRefundedQuantities(order: Order, restockedOnly = false) {
+  const quantities = new Map<string, number>()
+  ;(order.refunds ?? [])
+    .filter((refund) => counts(refund) && (!restockedOnly || refund.restocked))
+    .forEach((refund) =>
+      refund.lines.forEach((line) => quantities.set(lineKey(line), (quantities.get(lineKey(line)) ?? 0) + line.quantity)),
+    )
+  return quantities
+}
+
+export function getRefundedQuantity(order: Order, line: OrderProduct, restockedOnly = false) {
+  return getRefundedQuantities(order, restockedOnly).get(lineKey(line)) ?? 0
+}
+
+// Refunded and pending amounts, in minor units of the order currency.
+export function getRefundedTotal(order: Order) {
+  return (order.refunds ?? []).filter(counts).reduce((sum, refund) => sum + refund.amount, 0)
+}
+
+export function getRefundableAmount(order: Order) {
+  return Math.max(0, order.totalAmount - getRefundedTotal(order))
+}
+
+// What the customer kept paying for: the total less refunds.
+export function getNetTotal(order: Order) {
+  return order.totalAmount - getRefundedTotal(order)
+}
+
+// What `quantity` units of `line` cost the customer: their share of the
+// line after its discounts, plus tax if it was added to the price.
+export function getLineRefundAmount(order: Order, line: OrderProduct, quantity: number) {
+  const discount = (line.discounts ?? []).reduce((sum, entry) => sum + entry.amount, 0)
+  const addedTax = order.tax && !order.tax.pricesIncludeTax ? (line.tax ?? 0) : 0
+  const paid = line.price * line.quantity - discount + addedTax
+  return Math.round((paid * quantity) / line.quantity)
+}
+
+export type RefundPlan = { lines: RefundLine[]; amount: number } | { error: string }
+
+// Works out the lines and total of a refund, or why it can't be made.
+export function planRefund(order: Order, lines: RefundLineRequest[], customAmount: number): RefundPlan {
+  const refunded = getRefundedQuantities(order)
+  const planned: RefundLine[] = []
+  for (const request of lines) {
+    const line = order.products.find((entry) => lineKey(entry) === lineKey(request))
+    if (!line) return { error: "The order has no such item" }
+    const left = line.quantity - (refunded.get(lineKey(line)) ?? 0)
+    if (request.quantity > left) {
+      return { error: `Only ${left} of ${line.name} can still be refunded` }
+    }
+    refunded.set(lineKey(line), (refunded.get(lineKey(line)) ?? 0) + request.quantity)
+    planned.push({
+      productId: line.productId,
+      ...(line.variantId && { variantId: line.variantId }),
+      name: line.variantLabel ? `${line.name} (${line.variantLabel})` : line.name,
+      quantity: request.quantity,
+      amount: getLineRefundAmount(order, line, request.quantity),
+    })
+  }
+  const amount = planned.reduce((sum, line) => sum + line.amount, 0) + customAmount
+  if (amount <= 0) return { error: "Nothing to refund" }
+  const refundable = getRefundableAmount(order)
+  if (amount > refundable) return { error: "The refund is more than what is left to refund on the order" }
+  return { lines: planned, amount }
+}
+
+// The payment status an order has once its refunds are taken into account.
+export function getRefundedPaymentStatus(order: Order) {
+  const refunded = (order.refunds ?? [])
+    .filter((refund) => refund.status === "succeeded")
+    .reduce((sum, refund) => sum + refund.amount, 0)
+  if (refunded === 0) return order.paymentStatus
+  return refunded >= order.totalAmount ? "refunded" : "partially_refunded"
+}
+
+// Orders can be refunded once paid, until they are fully refunded.
+export function canRefund(order: Order) {
+  return (order.paymentStatus === "paid" || order.paymentStatus === "partially_refunded") && getRefundableAmount(order) > 0
+}
@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from "uuid"
+import { adminDb } from "@/lib/firebase-admin"
+import type { Transaction } from "firebase-admin/firestore"
+import { NotFoundError } from "@/lib/errors"
+import type { PageQuery } from "@/lib/pagination"
+import { type TableFilters, matchesAddressFilters } from "@/lib/table-filters"
+import type { Address } from "@/lib/types"
+import { fromSnapshot, paginate } from "./utils"
+
+export class AddressRepository {
+  private collection = adminDb.collection("addresses")
+
+  async list(filters: { userId?: string } = {}): Promise<Address[]> {
+    const query = filters.userId
+      ? this.collection.where("userId", "==", filters.userId)
+      : this.collection.orderBy("userId")
+    const snap = await query.get()
+    return snap.docs.map((doc) => fromSnapshot<Address>(doc))
+  }
+
+  async page(query: PageQuery, filters: TableFilters = {}) {
+    return paginate<Address>(
+      this.collection,
+      query,
+      filters.q ? (address) => matchesAddressFilters(address, filters) : undefined,
+    )
+  }
+
+  async get(id: string): Promise<Address> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Address not found")
+    return fromSnapshot<Address>(snap)
+  }
+
+  async create(userId: string, input: Omit<Address, "id" | "userId">): Promise<Address> {
+    const id = uuidv4()
+    const address = { ...input, userId }
+    await this.collection.doc(id).set(address)
+    return { ...address, id }
+  }
+
+  // The address to add for `userId` in a transaction, and a function that
+  // writes it, called once the transaction's reads are done.
+  stageCreate(
+    tx: Transaction,
+    userId: string,
+    input: Omit<Address, "id" | "userId">,
+  ): { address: Address; write: () => void } {
+    const ref = this.collection.doc(uuidv4())
+    const address = { ...input, userId }
+    return { address: { ...address, id: ref.id }, write: () => tx.set(ref, address) }
+  }
+}
+
+export const addressRepository = new AddressRepository()
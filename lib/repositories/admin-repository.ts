@@ -0,0 +1,137 @@
+import { adminAuth, adminDb } from "@/lib/firebase-admin"
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors"
+import type { StaffInviteInput, StaffUpdateInput } from "@/lib/schemas"
+import type { Actor, AdminUser } from "@/lib/types"
+import { findUserByEmail, fromSnapshot } from "./utils"
+
+export class AdminRepository {
+  private collection = adminDb.collection("admins")
+
+  async list(): Promise<AdminUser[]> {
+    const snap = await this.collection.orderBy("createdAt", "asc").get()
+    const admins = snap.docs.map((doc) => fromSnapshot<AdminUser>(doc))
+
+    // Last sign-in comes from Firebase Auth, which looks up at most 100 users
+    // per call.
+    const lastLogins = new Map<string, string | null>()
+    for (let i = 0; i < admins.length; i += 100) {
+      const { users } = await adminAuth.getUsers(admins.slice(i, i + 100).map(({ id }) => ({ uid: id })))
+      users.forEach((user) => lastLogins.set(user.uid, toIso(user.metadata.lastSignInTime)))
+    }
+    return admins.map((admin) => ({ ...admin, lastLoginAt: lastLogins.get(admin.id) ?? null }))
+  }
+
+  async get(id: string): Promise<AdminUser> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Staff member not found")
+    return fromSnapshot<AdminUser>(snap)
+  }
+
+  // Looks up the staff record for a signed-in user. Accounts need an active
+  // `admins/{uid}` document to use the dashboard. The one exception is the
+  // account for OWNER_EMAIL, which becomes the owner of a store without any
+  // admins once its email address is verified.
+  async resolve(actor: Actor): Promise<AdminUser> {
+    return adminDb.runTransaction(async (tx) => {
+      const ref = this.collection.doc(actor.uid)
+      const snap = await tx.get(ref)
+      if (snap.exists) {
+        const admin = fromSnapshot<AdminUser>(snap)
+        if (admin.status === "disabled") throw new ForbiddenError("This account has been deactivated")
+        return admin
+      }
+
+      if (!(await this.isConfiguredOwner(actor))) {
+        throw new ForbiddenError("This account does not have dashboard access")
+      }
+      const existing = await tx.get(this.collection.limit(1))
+      if (!existing.empty) throw new ForbiddenError("This account does not have dashboard access")
+
+      const owner: Omit<AdminUser, "id"> = {
+        email: actor.email,
+        role: "owner",
+        status: "active",
+        createdAt: new Date().toISOString(),
+        invitedBy: null,
+      }
+      tx.create(ref, owner)
+      return { id: actor.uid, ...owner }
+    })
+  }
+
+  // Creates (or reuses) the Firebase Auth account for `email` and grants it
+  // dashboard access. The caller sends the password-set link.
+  async invite(input: StaffInviteInput, actor: Actor): Promise<AdminUser> {
+    const user = await findUserByEmail(input.email)
+    if (user && (await this.collection.doc(user.uid).get()).exists) {
+      throw new ConflictError("This person is already a member of the team")
+    }
+
+    const account =
+      user ?? (await adminAuth.createUser({ email: input.email, displayName: input.name || undefined }))
+    const admin: Omit<AdminUser, "id"> = {
+      email: input.email,
+      name: input.name,
+      role: input.role,
+      status: "active",
+      createdAt: new Date().toISOString(),
+      invitedBy: actor.email,
+    }
+    await this.collection.doc(account.uid).create(admin)
+    return { id: account.uid, ...admin }
+  }
+
+  // Changes a staff member's role or status. Disabling also disables the
+  // Firebase Auth account and revokes its sessions. The store always keeps at
+  // least one active owner, and nobody can change their own access.
+  async update(id: string, input: StaffUpdateInput, actor: Actor): Promise<AdminUser> {
+    if (id === actor.uid) throw new ValidationError("You can't change your own role or status")
+
+    const updated = await adminDb.runTransaction(async (tx) => {
+      const ref = this.collection.doc(id)
+      const snap = await tx.get(ref)
+      if (!snap.exists) throw new NotFoundError("Staff member not found")
+      const existing = fromSnapshot<AdminUser>(snap)
+      const next = { ...existing, ...input }
+
+      const losesOwner =
+        existing.role === "owner" && existing.status !== "disabled" && (next.role !== "owner" || next.status === "disabled")
+      if (losesOwner) {
+        const owners = await tx.get(this.collection.where("role", "==", "owner"))
+        const activeOwners = owners.docs.filter((doc) => doc.get("status") !== "disabled")
+        if (activeOwners.length <= 1) throw new ValidationError("The store needs at least one active owner")
+      }
+
+      tx.update(ref, input)
+      return next
+    })
+
+    if (input.status) {
+      await adminAuth.updateUser(id, { disabled: input.status === "disabled" })
+      if (input.status === "disabled") await adminAuth.revokeRefreshTokens(id)
+    }
+    return updated
+  }
+
+  // A one-time link that lets the staff member choose their password.
+  async passwordSetupLink(id: string): Promise<string> {
+    const admin = await this.get(id)
+    if (!admin.email) throw new ValidationError("This account has no email address")
+    return adminAuth.generatePasswordResetLink(admin.email)
+  }
+
+  // Anyone can sign up with an address they don't own, so the owner's must
+  // be verified.
+  private async isConfiguredOwner(actor: Actor) {
+    const ownerEmail = process.env.OWNER_EMAIL?.trim().toLowerCase()
+    if (!ownerEmail || actor.email?.toLowerCase() !== ownerEmail) return false
+    const user = await adminAuth.getUser(actor.uid)
+    return user.emailVerified
+  }
+}
+
+function toIso(value: string | undefined) {
+  return value ? new Date(value).toISOString() : null
+}
+
+export const adminRepository = new AdminRepository()
@@ -0,0 +1,303 @@
+import { FieldValue, type DocumentReference, type QuerySnapshot, type Transaction } from "firebase-admin/firestore"
+import { adminDb } from "@/lib/firebase-admin"
+import {
+  type AnalyticsReport,
+  type DateRange,
+  type Granularity,
+  type ProductCategories,
+  type SalesRollup,
+  type SalesTotals,
+  type TaxReport,
+  addDays,
+  buildSeries,
+  buildTaxReport,
+  dayKey,
+  dayStart,
+  daysBetween,
+  emptyRollup,
+  getPreviousRange,
+  isEmptyRollup,
+  mergeRollup,
+  monthKey,
+  orderContribution,
+  rankSales,
+  rollupDifference,
+  summarize,
+} from "@/lib/analytics"
+import { isCountedSale } from "@/lib/order-fulfillment"
+import type { StoreSettings } from "@/lib/settings"
+import type { Order, Product } from "@/lib/types"
+import { settingsRepository } from "./settings-repository"
+import { orderFromSnapshot, productFromSnapshot } from "./utils"
+
+const TOP_PRODUCTS = 10
+
+// Firestore allows at most 500 writes in one batch.
+const MAX_BATCH_WRITES = 500
+
+// Keeps the daily and monthly sales rollups in step with orders and builds
+// reports from them. Daily rollups are keyed YYYY-MM-DD, monthly ones
+// YYYY-MM, both in the store's time zone.
+export class AnalyticsRepository {
+  private daily = adminDb.collection("dailyRollups")
+  private monthly = adminDb.collection("monthlyRollups")
+
+  async report(range: DateRange, granularity: Granularity): Promise<AnalyticsReport> {
+    const previousRange = getPreviousRange(range)
+    const [snap, categories, subcategories] = await Promise.all([
+      this.daily.where("date", ">=", previousRange.from).where("date", "<=", range.to).get(),
+      adminDb.collection("categories").select("name").get(),
+      adminDb.collection("subcategories").select("name").get(),
+    ])
+    const rollups = snap.docs.map((doc) => doc.data() as SalesRollup)
+    const current = rollups.filter((rollup) => rollup.date >= range.from)
+    const previous = rollups.filter((rollup) => rollup.date < range.from)
+    const total = current.reduce(mergeRollup, emptyRollup(range.from))
+    const previousTotal = previous.reduce(mergeRollup, emptyRollup(previousRange.from))
+
+    const topProducts = rankSales(total.products, new Map(), TOP_PRODUCTS)
+    const productNames = await this.productNames(topProducts.map((product) => product.id))
+    return {
+      granularity,
+      range,
+      previousRange,
+      totals: summarize(total),
+      previousTotals: summarize(previousTotal),
+      series: buildSeries(current, range, granularity),
+      previousSeries: buildSeries(previous, previousRange, granularity),
+      topProducts: topProducts.map((product) => ({ ...product, name: productNames.get(product.id) ?? product.name })),
+      categories: rankSales(total.categories, this.names(categories)),
+      subcategories: rankSales(total.subcategories, this.names(subcategories)),
+      otherCurrencyOrders: total.otherCurrencyOrders,
+    }
+  }
+
+  async taxReport(range: DateRange, granularity: Granularity): Promise<TaxReport> {
+    const snap = await this.daily.where("date", ">=", range.from).where("date", "<=", range.to).get()
+    return buildTaxReport(snap.docs.map((doc) => doc.data() as SalesRollup), range, granularity)
+  }
+
+  // All-time totals and those of the current month, summed from the
+  // monthly rollups.
+  async totals(): Promise<{ allTime: SalesRollup; thisMonth: SalesRollup }> {
+    const [snap, settings] = await Promise.all([this.monthly.get(), settingsRepository.get()])
+    const month = monthKey(dayKey(new Date().toISOString(), settings.timezone))
+    const rollups = snap.docs.map((doc) => doc.data() as SalesRollup)
+    return {
+      allTime: rollups.reduce(mergeRollup, emptyRollup("")),
+      thisMonth: rollups
+        .filter((rollup) => monthKey(rollup.date) === month)
+        .reduce(mergeRollup, emptyRollup(`${month}-01`)),
+    }
+  }
+
+  // Reads what the rollup update for an order change needs inside the
+  // transaction and returns a function that writes it to the order's day and
+  // month. `before` is null for a new order. Call it before any write, as
+  // with `inventoryRepository.stageMovements`.
+  async stageOrder(tx: Transaction, before: Order | null, after: Order) {
+    const wasSale = !!before && isCountedSale(before)
+    const unchanged =
+      !!before &&
+      before.paymentStatus === after.paymentStatus &&
+      wasSale === isCountedSale(after) &&
+      before.totalAmount === after.totalAmount &&
+      JSON.stringify(before.products) === JSON.stringify(after.products) &&
+      JSON.stringify(before.tax) === JSON.stringify(after.tax) &&
+      JSON.stringify(before.refunds) === JSON.stringify(after.refunds)
+    if (unchanged) return () => {}
+
+    // Product categories only matter for sales.
+    let categories: ProductCategories = new Map()
+    if (wasSale || isCountedSale(after)) {
+      const productIds = [...new Set([...(before?.products ?? []), ...after.products].map((line) => line.productId))]
+      const snaps = productIds.length > 0 ? await tx.getAll(...productIds.map((id) => this.productRef(id))) : []
+      categories = this.productCategories(snaps.filter((snap) => snap.exists).map((snap) => productFromSnapshot(snap)))
+    }
+
+    const settings = await settingsRepository.get()
+    const added = orderContribution(after, categories, settings)
+    const removed = before ? orderContribution(before, categories, settings) : emptyRollup(added.date)
+    const difference = rollupDifference(added, removed)
+    if (isEmptyRollup(difference)) return () => {}
+    const month = monthKey(difference.date)
+    return () => {
+      tx.set(this.daily.doc(difference.date), this.increments(difference), { merge: true })
+      tx.set(this.monthly.doc(month), this.increments({ ...difference, date: `${month}-01` }), { merge: true })
+    }
+  }
+
+  // Recomputes the daily rollups of `range` from the orders and customers
+  // created in it, then re-sums the months those days fall in. New customers
+  // are only counted this way, as they sign up through the storefront rather
+  // than the API. Returns the number of days refreshed.
+  async refresh(range: DateRange): Promise<number> {
+    const settings = await settingsRepository.get()
+    const created = (collection: string) =>
+      adminDb
+        .collection(collection)
+        .where("createdAt", ">=", dayStart(range.from, settings.timezone))
+        .where("createdAt", "<", dayStart(addDays(range.to, 1), settings.timezone))
+    const [orderSnap, customerSnap, existing] = await Promise.all([
+      created("orders").get(),
+      created("customers").select("createdAt").get(),
+      this.daily.where("date", ">=", range.from).where("date", "<=", range.to).select().get(),
+    ])
+    const orders = orderSnap.docs.map((doc) => orderFromSnapshot(doc))
+    const productIds = [...new Set(orders.flatMap((order) => order.products.map((line) => line.productId)))]
+    const productSnaps = productIds.length > 0 ? await adminDb.getAll(...productIds.map((id) => this.productRef(id))) : []
+    const categories = this.productCategories(
+      productSnaps.filter((snap) => snap.exists).map((snap) => productFromSnapshot(snap)),
+    )
+    const days = this.aggregate(orders, this.createdDates(customerSnap), categories, settings)
+    await this.commit([
+      ...existing.docs.filter((doc) => !days.has(doc.id)).map((doc) => ({ ref: doc.ref, data: null })),
+      ...[...days.values()].map((day) => ({ ref: this.daily.doc(day.date), data: day })),
+    ])
+
+    const months = new Set<string>()
+    for (let day = range.from; day <= range.to; day = addDays(day, 1)) months.add(monthKey(day))
+    const totals = await Promise.all(
+      [...months].map(async (month) => {
+        const snap = await this.daily.where("date", ">=", `${month}-01`).where("date", "<=", `${month}-31`).get()
+        const total = snap.docs.map((doc) => doc.data() as SalesRollup).reduce(mergeRollup, emptyRollup(`${month}-01`))
+        return { month, total }
+      }),
+    )
+    await this.commit(
+      totals.map(({ month, total }) => ({ ref: this.monthly.doc(month), data: isEmptyRollup(total) ? null : total })),
+    )
+    return daysBetween(range.from, range.to) + 1
+  }
+
+  // Rebuilds every daily and monthly rollup from all orders and customers.
+  // Returns the number of days with activity.
+  async rebuild(): Promise<number> {
+    const [orders, customers, products, existingDays, existingMonths, settings] = await Promise.all([
+      adminDb.collection("orders").get(),
+      adminDb.collection("customers").select("createdAt").get(),
+      adminDb.collection("products").select("categoryId", "subcategoryId").get(),
+      this.daily.select().get(),
+      this.monthly.select().get(),
+      settingsRepository.get(),
+    ])
+    const categories = this.productCategories(products.docs.map((doc) => productFromSnapshot(doc)))
+    const days = this.aggregate(
+      orders.docs.map((doc) => orderFromSnapshot(doc)),
+      this.createdDates(customers),
+      categories,
+      settings,
+    )
+    const months = new Map<string, SalesRollup>()
+    days.forEach((day) => {
+      const month = monthKey(day.date)
+      if (!months.has(month)) months.set(month, emptyRollup(`${month}-01`))
+      mergeRollup(months.get(month)!, day)
+    })
+
+    // Periods that no longer have activity are deleted.
+    await this.commit([
+      ...existingDays.docs.filter((doc) => !days.has(doc.id)).map((doc) => ({ ref: doc.ref, data: null })),
+      ...existingMonths.docs.filter((doc) => !months.has(doc.id)).map((doc) => ({ ref: doc.ref, data: null })),
+      ...[...days.values()].map((day) => ({ ref: this.daily.doc(day.date), data: day })),
+      ...[...months.entries()].map(([month, total]) => ({ ref: this.monthly.doc(month), data: total })),
+    ])
+    return days.size
+  }
+
+  // Sums orders and customer sign-ups into daily rollups, keyed by date.
+  private aggregate(
+    orders: Order[],
+    customerDates: string[],
+    categories: ProductCategories,
+    settings: Pick<StoreSettings, "currency" | "timezone">,
+  ) {
+    const days = new Map<string, SalesRollup>()
+    const dayRollup = (date: string) => {
+      if (!days.has(date)) days.set(date, emptyRollup(date))
+      return days.get(date)!
+    }
+    orders.forEach((order) => {
+      const contribution = orderContribution(order, categories, settings)
+      mergeRollup(dayRollup(contribution.date), contribution)
+    })
+    customerDates.forEach((createdAt) => {
+      dayRollup(dayKey(createdAt, settings.timezone)).newCustomers += 1
+    })
+    return days
+  }
+
+  private createdDates(snap: QuerySnapshot) {
+    return snap.docs.map((doc) => doc.get("createdAt") as string | undefined).filter((date): date is string => !!date)
+  }
+
+  // Sets each document to `data`, or deletes it when `data` is null.
+  private async commit(writes: { ref: DocumentReference; data: SalesRollup | null }[]) {
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      const batch = adminDb.batch()
+      writes.slice(i, i + MAX_BATCH_WRITES).forEach(({ ref, data }) => (data ? batch.set(ref, data) : batch.delete(ref)))
+      await batch.commit()
+    }
+  }
+
+  private increments(difference: SalesRollup) {
+    const increment = (sales: SalesTotals) => ({
+      units: FieldValue.increment(sales.units),
+      revenue: FieldValue.increment(sales.revenue),
+    })
+    const incrementAll = (group: Record<string, SalesTotals>) =>
+      Object.fromEntries(Object.entries(group).map(([id, sales]) => [id, increment(sales)]))
+    return {
+      date: difference.date,
+      revenue: FieldValue.increment(difference.revenue),
+      orders: FieldValue.increment(difference.orders),
+      units: FieldValue.increment(difference.units),
+      newCustomers: FieldValue.increment(difference.newCustomers),
+      otherCurrencyOrders: FieldValue.increment(difference.otherCurrencyOrders),
+      payments: Object.fromEntries(
+        Object.entries(difference.payments).map(([status, totals]) => [
+          status,
+          { orders: FieldValue.increment(totals.orders), revenue: FieldValue.increment(totals.revenue) },
+        ]),
+      ),
+      products: Object.fromEntries(
+        Object.entries(difference.products).map(([id, sales]) => [id, { name: sales.name, ...increment(sales) }]),
+      ),
+      categories: incrementAll(difference.categories),
+      subcategories: incrementAll(difference.subcategories),
+      taxes: Object.fromEntries(
+        Object.entries(difference.taxes).map(([key, tax]) => [
+          key,
+          {
+            name: tax.name,
+            rate: tax.rate,
+            taxable: FieldValue.increment(tax.taxable),
+            amount: FieldValue.increment(tax.amount),
+          },
+        ]),
+      ),
+    }
+  }
+
+  private productRef(id: string) {
+    return adminDb.collection("products").doc(id)
+  }
+
+  private productCategories(products: Product[]): ProductCategories {
+    return new Map(
+      products.map((product) => [product.id, { categoryId: product.categoryId, subcategoryId: product.subcategoryId }]),
+    )
+  }
+
+  private async productNames(ids: string[]) {
+    if (ids.length === 0) return new Map<string, string>()
+    const snaps = await adminDb.getAll(...ids.map((id) => this.productRef(id)))
+    return new Map(snaps.filter((snap) => snap.exists).map((snap) => [snap.id, snap.get("name") as string]))
+  }
+
+  private names(snap: QuerySnapshot) {
+    return new Map(snap.docs.map((doc) => [doc.id, doc.get("name") as string]))
+  }
+}
+
+export const analyticsRepository = new AnalyticsRepository()
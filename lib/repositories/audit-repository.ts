@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from "uuid"
+import type { Transaction, WriteBatch } from "firebase-admin/firestore"
+import { adminDb } from "@/lib/firebase-admin"
+import type { AuditEntityType, AuditEntry } from "@/lib/audit"
+import type { PageQuery } from "@/lib/pagination"
+import { type TableFilters, matchesAuditFilters } from "@/lib/table-filters"
+import { paginate, setDocument } from "./utils"
+
+export interface AuditListFilters extends TableFilters {
+  entityType?: AuditEntityType
+  entityId?: string
+}
+
+export class AuditRepository {
+  private collection = adminDb.collection("auditLog")
+
+  // One page of the log. The entity filters are applied by the query; a
+  // search reads on through older entries until the page is full.
+  async page(query: PageQuery, filters: AuditListFilters = {}) {
+    return paginate<AuditEntry>(
+      this.collection,
+      query,
+      filters.q ? (entry) => matchesAuditFilters(entry, filters) : undefined,
+      undefined,
+      (base) => {
+        let filtered = base
+        if (filters.entityType) filtered = filtered.where("entityType", "==", filters.entityType)
+        if (filters.entityId) filtered = filtered.where("entityId", "==", filters.entityId)
+        return filtered
+      },
+    )
+  }
+
+  // Adds an entry to the batch or transaction that makes the change, so the
+  // log can't disagree with the data. Updates that change nothing are not
+  // recorded.
+  record(writer: Transaction | WriteBatch, entry: Omit<AuditEntry, "id" | "createdAt">) {
+    if (entry.action === "update" && entry.changes.length === 0) return
+    setDocument(writer, this.collection.doc(uuidv4()), { ...entry, createdAt: new Date().toISOString() })
+  }
+}
+
+export const auditRepository = new AuditRepository()
@@ -0,0 +1,94 @@
+import { v4 as uuidv4 } from "uuid"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import { ConflictError, NotFoundError } from "@/lib/errors"
+import type { CategoryInput } from "@/lib/schemas"
+import type { Actor, Category } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+import { searchRepository } from "./search-repository"
+import { fromSnapshot } from "./utils"
+
+export class CategoryRepository {
+  private collection = adminDb.collection("categories")
+
+  async list(): Promise<Category[]> {
+    const snap = await this.collection.get()
+    return Promise.all(
+      snap.docs.map(async (doc) => ({
+        ...fromSnapshot<Category>(doc),
+        productCount: await this.countProducts(doc.id),
+      })),
+    )
+  }
+
+  async get(id: string): Promise<Category> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Category not found")
+    return fromSnapshot<Category>(snap)
+  }
+
+  async create(input: CategoryInput, actor: Actor | null): Promise<Category> {
+    const id = uuidv4()
+    const batch = adminDb.batch()
+    batch.set(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "category",
+      entityId: id,
+      entityName: input.name,
+      action: "create",
+      changes: diffFields(null, input),
+      actor,
+    })
+    await batch.commit()
+    return { ...input, id }
+  }
+
+  async update(id: string, input: Partial<CategoryInput>, actor: Actor | null): Promise<Category> {
+    const existing = await this.get(id)
+    const updated = { ...existing, ...input }
+    const batch = adminDb.batch()
+    batch.update(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "category",
+      entityId: id,
+      entityName: updated.name,
+      action: "update",
+      changes: diffFields(existing, updated),
+      actor,
+    })
+    await batch.commit()
+    if (input.name !== undefined && input.name !== existing.name) await searchRepository.reset()
+    return updated
+  }
+
+  // Categories that still have products or subcategories cannot be removed.
+  async delete(id: string, actor: Actor | null): Promise<void> {
+    const existing = await this.get(id)
+    const productCount = await this.countProducts(id)
+    if (productCount > 0) {
+      throw new ConflictError(`Category has ${productCount} products`)
+    }
+    const subcategories = await adminDb.collection("subcategories").where("categoryId", "==", id).count().get()
+    if (subcategories.data().count > 0) {
+      throw new ConflictError(`Category has ${subcategories.data().count} subcategories`)
+    }
+    const batch = adminDb.batch()
+    batch.delete(this.collection.doc(id))
+    auditRepository.record(batch, {
+      entityType: "category",
+      entityId: id,
+      entityName: existing.name,
+      action: "delete",
+      changes: diffFields(existing, null),
+      actor,
+    })
+    await batch.commit()
+  }
+
+  private async countProducts(id: string) {
+    const snap = await adminDb.collection("products").where("categoryId", "==", id).count().get()
+    return snap.data().count
+  }
+}
+
+export const categoryRepository = new CategoryRepository()
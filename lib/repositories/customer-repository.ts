@@ -0,0 +1,292 @@
+import { v4 as uuidv4 } from "uuid"
+import { adminAuth, adminDb } from "@/lib/firebase-admin"
+import type { UserRecord } from "firebase-admin/auth"
+import type { Transaction, WriteBatch } from "firebase-admin/firestore"
+import { diffFields } from "@/lib/audit"
+import {
+  type CustomerMetrics,
+  EMPTY_CUSTOMER_METRICS,
+  computeCustomerMetrics,
+  updateCustomerMetrics,
+} from "@/lib/customer-metrics"
+import { type CustomerStatusChange, getCustomerStatus, getOrderBlockReason } from "@/lib/customer-status"
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors"
+import type { PageQuery } from "@/lib/pagination"
+import type { CustomerStatusInput } from "@/lib/schemas"
+import { getDateDisplay } from "@/lib/settings"
+import type { TableFilters } from "@/lib/table-filters"
+import type { Actor, Customer, Order } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+import { MAX_SEARCH_RESULTS, searchRepository } from "./search-repository"
+import { settingsRepository } from "./settings-repository"
+import { findUserByEmail, fromSnapshot, orderFromSnapshot, paginate, paginateIds, setDocument } from "./utils"
+
+// Firestore allows at most 500 writes in one batch.
+const MAX_BATCH_WRITES = 500
+
+export class CustomerRepository {
+  private collection = adminDb.collection("customers")
+
+  async list(filters: { userId?: string } = {}): Promise<Customer[]> {
+    const query = filters.userId
+      ? this.collection.where("userId", "==", filters.userId)
+      : this.collection.orderBy("createdAt", "desc")
+    const snap = await query.get()
+    return snap.docs.map((doc) => fromSnapshot<Customer>(doc))
+  }
+
+  // Searches return the best matches first, whatever the sort.
+  async page(query: PageQuery, filters: TableFilters = {}) {
+    if (!filters.q) return paginate<Customer>(this.collection, query)
+    const hits = await searchRepository.search(filters.q, { types: ["customer"], limit: MAX_SEARCH_RESULTS })
+    return paginateIds<Customer>(
+      this.collection,
+      hits.map((hit) => hit.id),
+      query,
+    )
+  }
+
+  async get(id: string): Promise<Customer> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Customer not found")
+    return fromSnapshot<Customer>(snap)
+  }
+
+  async findByUserId(userId: string): Promise<Customer | null> {
+    const [customer] = await this.list({ userId })
+    return customer ?? null
+  }
+
+  // Adds a customer taken on by staff, such as someone ordering by phone,
+  // with a Firebase Auth account for their email. They can sign in to the
+  // storefront once they set a password. Emails that already belong to a
+  // customer are refused.
+  async create(input: { name: string; email: string }, actor: Actor | null): Promise<Customer> {
+    const { uid } = await this.createAccount(input)
+    const id = uuidv4()
+    const customer = newCustomer(uid, input, EMPTY_CUSTOMER_METRICS)
+    const batch = adminDb.batch()
+    this.writeNew(batch, id, customer, actor)
+    await batch.commit()
+    await searchRepository.indexCustomer({ ...customer, id })
+    return { ...customer, id }
+  }
+
+  // The Firebase Auth account of an email that isn't a customer's yet, if it
+  // has one, such as a storefront sign-up that never finished. Emails that
+  // already belong to a customer are refused.
+  async findAccount(email: string): Promise<UserRecord | null> {
+    const user = await findUserByEmail(email)
+    if (user && (await this.findByUserId(user.uid))) {
+      throw new ConflictError("A customer with this email already exists")
+    }
+    return user
+  }
+
+  // The account a new customer is added with: their email's existing one,
+  // or one made for them. `created` says it was made here, so it can be
+  // removed with `deleteAccount` when the customer isn't saved after all.
+  async createAccount(input: { name: string; email: string }): Promise<{ uid: string; created: boolean }> {
+    const user = await this.findAccount(input.email)
+    if (user) return { uid: user.uid, created: false }
+    const account = await adminAuth.createUser({ email: input.email, displayName: input.name })
+    return { uid: account.uid, created: true }
+  }
+
+  async deleteAccount(uid: string) {
+    await adminAuth.deleteUser(uid)
+  }
+
+  // Reads inside the transaction and returns the customer to add for the
+  // account `userId` with their first order, `order`, counted in their
+  // metrics, and a function that writes them. Like `stageMetrics`, which it
+  // stands in for, call it before any write. The customer is left for the
+  // caller to index for search once the transaction commits.
+  async stageCreate(
+    tx: Transaction,
+    userId: string,
+    input: { name: string; email: string },
+    order: Order,
+    actor: Actor | null,
+  ): Promise<{ customer: Customer; write: () => void }> {
+    const [customers, orders, settings] = await Promise.all([
+      tx.get(this.collection.where("userId", "==", userId).limit(1)),
+      tx.get(adminDb.collection("orders").where("userId", "==", userId)),
+      settingsRepository.get(),
+    ])
+    if (!customers.empty) throw new ConflictError("A customer with this email already exists")
+
+    const others = orders.docs.filter((doc) => doc.id !== order.id).map((doc) => orderFromSnapshot(doc))
+    const id = uuidv4()
+    const customer = newCustomer(userId, input, computeCustomerMetrics([...others, order], settings.currency))
+    return {
+      customer: { ...customer, id },
+      write: () => this.writeNew(tx, id, customer, actor),
+    }
+  }
+
+  private writeNew(writer: Transaction | WriteBatch, id: string, customer: Omit<Customer, "id">, actor: Actor | null) {
+    setDocument(writer, this.collection.doc(id), customer)
+    auditRepository.record(writer, {
+      entityType: "customer",
+      entityId: id,
+      entityName: customer.name,
+      action: "create",
+      changes: diffFields(null, customer),
+      actor,
+    })
+  }
+
+  // Changes a customer's account status, keeping the reason and who made the
+  // change in the customer's status history.
+  async updateStatus(id: string, input: CustomerStatusInput, actor: Actor | null): Promise<Customer> {
+    const ref = this.collection.doc(id)
+    return adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) throw new NotFoundError("Customer not found")
+      const customer = fromSnapshot<Customer>(snap)
+      const from = getCustomerStatus(customer)
+      const suspendedUntil = input.status === "suspend" ? (input.suspendedUntil ?? null) : null
+      if (from === input.status && (customer.suspendedUntil ?? null) === suspendedUntil) {
+        throw new ValidationError("Customer already has this status")
+      }
+
+      const entry: CustomerStatusChange = {
+        from,
+        to: input.status,
+        reason: input.reason,
+        suspendedUntil,
+        changedAt: new Date().toISOString(),
+        changedBy: actor?.email ?? null,
+      }
+      const changes = {
+        status: input.status,
+        statusReason: input.reason,
+        suspendedUntil,
+        statusHistory: [...(customer.statusHistory ?? []), entry],
+      }
+      tx.update(ref, changes)
+      const updated = { ...customer, ...changes }
+      auditRepository.record(tx, {
+        entityType: "customer",
+        entityId: id,
+        entityName: customer.name,
+        action: "update",
+        changes: diffFields(customer, updated, ["statusHistory"]),
+        actor,
+      })
+      return updated
+    })
+  }
+
+  // Refuses checkout and order creation for suspended or deactivated
+  // accounts. Users with no customer record yet are allowed.
+  async assertCanOrder(userId: string): Promise<void> {
+    const [customer, settings] = await Promise.all([this.findByUserId(userId), settingsRepository.get()])
+    const reason = customer && getOrderBlockReason(customer, new Date(), getDateDisplay(settings))
+    if (reason) throw new ForbiddenError(reason)
+  }
+
+  // Reads the customer inside the transaction and returns a function that
+  // writes their metrics moved from counting `before` to counting `after`,
+  // the old and new versions of an order (`before` is null for a new order).
+  // Their other orders are only read when the metrics can't be updated in
+  // place. Like `inventoryRepository.stageMovements`, call it before any
+  // write.
+  async stageMetrics(tx: Transaction, before: Order | null, after: Order) {
+    const [customers, settings] = await Promise.all([
+      tx.get(this.collection.where("userId", "==", after.userId).limit(1)),
+      settingsRepository.get(),
+    ])
+    const customer = customers.docs[0]
+    if (!customer) return () => {}
+
+    const current = customer.get("metrics") as CustomerMetrics | undefined
+    let metrics = current ? updateCustomerMetrics(current, before, after, settings.currency) : null
+    if (!metrics) {
+      const orders = await tx.get(adminDb.collection("orders").where("userId", "==", after.userId))
+      const others = orders.docs.filter((doc) => doc.id !== after.id).map((doc) => orderFromSnapshot(doc))
+      metrics = computeCustomerMetrics([...others, after], settings.currency)
+    }
+    return () => {
+      tx.update(customer.ref, { metrics })
+    }
+  }
+
+  // Gives customers created since `since` (or ever) the status and metrics
+  // they start with when they have none. The storefront signs customers up
+  // without them, and Firestore leaves documents without the sort field out
+  // of sorted lists. Returns the number of customers updated.
+  async fillDefaults(since?: string): Promise<number> {
+    const query = since ? this.collection.where("createdAt", ">=", since) : this.collection
+    const snap = await query.select("status", "metrics").get()
+    const missing = snap.docs.filter((doc) => !doc.get("status") || !doc.get("metrics"))
+    for (let i = 0; i < missing.length; i += MAX_BATCH_WRITES) {
+      const batch = adminDb.batch()
+      missing.slice(i, i + MAX_BATCH_WRITES).forEach((doc) =>
+        batch.update(doc.ref, {
+          ...(!doc.get("status") && { status: "active" }),
+          ...(!doc.get("metrics") && { metrics: EMPTY_CUSTOMER_METRICS }),
+        }),
+      )
+      await batch.commit()
+    }
+    return missing.length
+  }
+
+  // Recomputes every customer's metrics from their orders, for customers
+  // created before metrics were kept or changed outside the dashboard.
+  // Customers without a status are given "active". Returns the number of
+  // customers updated.
+  async rebuildMetrics(): Promise<number> {
+    const [customers, orders, settings] = await Promise.all([
+      this.collection.get(),
+      adminDb.collection("orders").get(),
+      settingsRepository.get(),
+    ])
+    const ordersByUser = new Map<string, Order[]>()
+    orders.docs.forEach((doc) => {
+      const order = orderFromSnapshot(doc)
+      ordersByUser.set(order.userId, [...(ordersByUser.get(order.userId) ?? []), order])
+    })
+
+    let batch = adminDb.batch()
+    let size = 0
+    for (const doc of customers.docs) {
+      const userId = doc.get("userId") as string
+      batch.update(doc.ref, {
+        metrics: computeCustomerMetrics(ordersByUser.get(userId) ?? [], settings.currency),
+        ...(!doc.get("status") && { status: "active" }),
+      })
+      if (++size === MAX_BATCH_WRITES) {
+        await batch.commit()
+        batch = adminDb.batch()
+        size = 0
+      }
+    }
+    if (size > 0) await batch.commit()
+    return customers.size
+  }
+
+  async count(): Promise<number> {
+    const snap = await this.collection.count().get()
+    return snap.data().count
+  }
+}
+
+function newCustomer(
+  userId: string,
+  input: { name: string; email: string },
+  metrics: CustomerMetrics,
+): Omit<Customer, "id"> {
+  return {
+    userId,
+    name: input.name,
+    email: input.email,
+    createdAt: new Date().toISOString(),
+    status: "active",
+    metrics,
+  }
+}
+
+export const customerRepository = new CustomerRepository()
@@ -0,0 +1,211 @@
+import { type DocumentSnapshot, FieldPath, type Query, type QueryDocumentSnapshot } from "firebase-admin/firestore"
+import { adminDb } from "@/lib/firebase-admin"
+import type { DateRange, Granularity } from "@/lib/analytics"
+import type { ExportResource, ExportRow } from "@/lib/export"
+import { toDecimalString } from "@/lib/money"
+import { FULFILLMENT_LABELS, getFulfillmentStatus } from "@/lib/order-fulfillment"
+import { formatVariantLabel } from "@/lib/product-variants"
+import { getRefundedTotal } from "@/lib/refunds"
+import type { SearchEntityType } from "@/lib/search"
+import { getOrderAmounts } from "@/lib/tax"
+import { type TableFilters, matchesOrderFilters } from "@/lib/table-filters"
+import type { Customer } from "@/lib/types"
+import { analyticsRepository } from "./analytics-repository"
+import { categoryRepository } from "./category-repository"
+import { MAX_SEARCH_RESULTS, searchRepository } from "./search-repository"
+import { settingsRepository } from "./settings-repository"
+import { subcategoryRepository } from "./subcategory-repository"
+import { tagRepository } from "./tag-repository"
+import { fromSnapshot, orderFromSnapshot, productFromSnapshot } from "./utils"
+
+const PAGE_SIZE = 500
+
+// Firestore allows at most 30 values in an "in" filter.
+const IN_QUERY_LIMIT = 30
+
+// Reads collections a page at a time and yields flat rows for the export
+// writers, so large exports never hold the whole collection in memory.
+// Amounts are written as decimals in major units, as the import reads them.
+// Order rows only carry customers' names and emails with `customerDetails`.
+export class ExportRepository {
+  rows(
+    resource: ExportResource,
+    filters: TableFilters,
+    options: { customerDetails: boolean },
+  ): AsyncGenerator<ExportRow> {
+    switch (resource) {
+      case "products":
+        return this.products(filters)
+      case "orders":
+        return this.orders(filters, options.customerDetails)
+      case "customers":
+        return this.customers(filters)
+    }
+  }
+
+  // The rows of the tax report, one per rate and period.
+  async *taxReport(range: DateRange, granularity: Granularity): AsyncGenerator<ExportRow> {
+    const [report, { currency }] = await Promise.all([
+      analyticsRepository.taxReport(range, granularity),
+      settingsRepository.get(),
+    ])
+    for (const row of report.rows) {
+      yield {
+        period: row.period,
+        name: row.name,
+        rate: row.rate,
+        taxable: toDecimalString(row.taxable, currency),
+        amount: toDecimalString(row.amount, currency),
+      }
+    }
+  }
+
+  private async *products(filters: TableFilters) {
+    const [categories, subcategories, tags, settings] = await Promise.all([
+      categoryRepository.list(),
+      subcategoryRepository.list(),
+      tagRepository.list(),
+      settingsRepository.get(),
+    ])
+    const categoryNames = new Map(categories.map((category) => [category.id, category.name]))
+    const subcategoryNames = new Map(subcategories.map((sub) => [sub.id, sub.name]))
+    const tagNames = new Map(tags.map((tag) => [tag.id, tag.name]))
+
+    const pages = filters.q
+      ? this.searchPages("product", "products", filters.q, productFromSnapshot)
+      : this.pages(adminDb.collection("products").orderBy(FieldPath.documentId()), productFromSnapshot)
+    for await (const page of pages) {
+      for (const product of page) {
+        yield {
+          id: product.id,
+          name: product.name,
+          description: product.description,
+          category: categoryNames.get(product.categoryId) ?? "",
+          subcategory: product.subcategoryId ? (subcategoryNames.get(product.subcategoryId) ?? "") : "",
+          tags: (product.tagIds ?? []).map((id) => tagNames.get(id) ?? id).join(", "),
+          price: toDecimalString(product.price, settings.currency),
+          stock: product.stock,
+          lowStockThreshold: product.lowStockThreshold ?? "",
+          skus: (product.variants ?? [])
+            .map((variant) => `${variant.sku} (${formatVariantLabel(variant.options)})`)
+            .join(", "),
+          weight: product.weight ?? "",
+          weightUnit: product.weightUnit ?? "",
+          productDetails: (product.productDetails ?? []).join(" | "),
+          image: product.image ?? "",
+          rating: product.rating ?? "",
+          date: product.date ?? "",
+        }
+      }
+    }
+  }
+
+  private async *orders(filters: TableFilters, customerDetails: boolean) {
+    const query = adminDb.collection("orders").orderBy("createdAt", "desc")
+    for await (const page of this.pages(query, orderFromSnapshot)) {
+      const orders = page.filter((order) => matchesOrderFilters(order, filters))
+      const customers = customerDetails
+        ? await this.customersByUserId(orders.map((order) => order.userId))
+        : null
+
+      for (const order of orders) {
+        const customer = customers?.get(order.userId)
+        const amounts = getOrderAmounts(order)
+        yield {
+          orderId: order.orderId,
+          createdAt: order.createdAt,
+          ...(customers && {
+            customerName: customer?.name ?? order.userId,
+            customerEmail: customer?.email ?? "",
+          }),
+          userId: order.userId,
+          items: order.products
+            .map((line) => `${line.quantity} × ${line.name}${line.variantLabel ? ` (${line.variantLabel})` : ""}`)
+            .join(", "),
+          itemCount: order.products.reduce((sum, line) => sum + line.quantity, 0),
+          currency: order.currency,
+          subtotal: toDecimalString(order.subtotal, order.currency),
+          discount: toDecimalString(amounts.discount, order.currency),
+          tax: toDecimalString(amounts.tax, order.currency),
+          shipping: toDecimalString(amounts.shipping, order.currency),
+          totalAmount: toDecimalString(order.totalAmount, order.currency),
+          refunded: toDecimalString(getRefundedTotal(order), order.currency),
+          paymentStatus: order.paymentStatus,
+          paymentProvider: order.paymentProvider,
+          fulfillmentStatus: FULFILLMENT_LABELS[getFulfillmentStatus(order)],
+          courier: order.shipment?.courier ?? "",
+          trackingNumber: order.shipment?.trackingNumber ?? "",
+          shippedAt: order.shipment?.shippedAt ?? "",
+        }
+      }
+    }
+  }
+
+  private async *customers(filters: TableFilters) {
+    const { currency } = await settingsRepository.get()
+    const pages = filters.q
+      ? this.searchPages<Customer>("customer", "customers", filters.q)
+      : this.pages<Customer>(adminDb.collection("customers").orderBy("createdAt", "desc"))
+    for await (const page of pages) {
+      for (const customer of page) {
+        yield {
+          name: customer.name,
+          email: customer.email,
+          createdAt: customer.createdAt,
+          status: customer.status,
+          orderCount: customer.metrics?.orderCount ?? 0,
+          lifetimeValue: toDecimalString(customer.metrics?.lifetimeValue ?? 0, currency),
+          averageOrderValue: toDecimalString(customer.metrics?.averageOrderValue ?? 0, currency),
+          firstOrderAt: customer.metrics?.firstOrderAt ?? "",
+          lastOrderAt: customer.metrics?.lastOrderAt ?? "",
+          userId: customer.userId,
+        }
+      }
+    }
+  }
+
+  private async *pages<T extends { id: string }>(query: Query, read: (snap: DocumentSnapshot) => T = fromSnapshot<T>) {
+    let cursor: QueryDocumentSnapshot | null = null
+    while (true) {
+      const snap = await (cursor ? query.startAfter(cursor) : query).limit(PAGE_SIZE).get()
+      if (snap.empty) return
+      yield snap.docs.map((doc) => read(doc))
+      if (snap.size < PAGE_SIZE) return
+      cursor = snap.docs[snap.docs.length - 1]
+    }
+  }
+
+  // Reads the documents a search matches, best match first, as the table
+  // lists them.
+  private async *searchPages<T extends { id: string }>(
+    type: SearchEntityType,
+    collection: string,
+    q: string,
+    read: (snap: DocumentSnapshot) => T = fromSnapshot<T>,
+  ) {
+    const hits = await searchRepository.search(q, { types: [type], limit: MAX_SEARCH_RESULTS })
+    for (let i = 0; i < hits.length; i += PAGE_SIZE) {
+      const refs = hits.slice(i, i + PAGE_SIZE).map((hit) => adminDb.collection(collection).doc(hit.id))
+      const snaps = await adminDb.getAll(...refs)
+      yield snaps.filter((snap) => snap.exists).map((snap) => read(snap))
+    }
+  }
+
+  private async customersByUserId(userIds: string[]) {
+    const customers = new Map<string, Customer>()
+    const unique = [...new Set(userIds)]
+    for (let i = 0; i < unique.length; i += IN_QUERY_LIMIT) {
+      const snap = await adminDb
+        .collection("customers")
+        .where("userId", "in", unique.slice(i, i + IN_QUERY_LIMIT))
+        .get()
+      snap.docs.forEach((doc) => {
+        const customer = fromSnapshot<Customer>(doc)
+        customers.set(customer.userId, customer)
+      })
+    }
+    return customers
+  }
+}
+
+export const exportRepository = new ExportRepository()
@@ -0,0 +1,19 @@
+export { adminRepository, AdminRepository } from "./admin-repository"
+export { addressRepository, AddressRepository } from "./address-repository"
+export { analyticsRepository, AnalyticsRepository } from "./analytics-repository"
+export { auditRepository, AuditRepository } from "./audit-repository"
+export { categoryRepository, CategoryRepository } from "./category-repository"
+export { customerRepository, CustomerRepository } from "./customer-repository"
+export { exportRepository, ExportRepository } from "./export-repository"
+export { inventoryRepository, InventoryRepository } from "./inventory-repository"
+export { orderRepository, OrderRepository } from "./order-repository"
+export { paymentEventRepository, PaymentEventRepository } from "./payment-event-repository"
+export { productImportRepository, ProductImportRepository } from "./product-import-repository"
+export { productRepository, ProductRepository } from "./product-repository"
+export { promotionRepository, PromotionRepository } from "./promotion-repository"
+export { searchRepository, SearchRepository } from "./search-repository"
+export { settingsRepository, SettingsRepository } from "./settings-repository"
+export { shippingRepository, ShippingRepository } from "./shipping-repository"
+export { subcategoryRepository, SubCategoryRepository } from "./subcategory-repository"
+export { tagRepository, TagRepository } from "./tag-repository"
+export { taxRepository, TaxRepository } from "./tax-repository"
@@ -0,0 +1,209 @@
+import { v4 as uuidv4 } from "uuid"
+import type { Transaction, WriteBatch } from "firebase-admin/firestore"
+import { adminDb } from "@/lib/firebase-admin"
+import { NotFoundError, ValidationError } from "@/lib/errors"
+import { type InventoryMovement, type InventoryMovementType, isLowStock, signedQuantity } from "@/lib/inventory"
+import { formatVariantLabel } from "@/lib/product-variants"
+import { getRefundedQuantity } from "@/lib/refunds"
+import type { Actor, Order, Product } from "@/lib/types"
+import { settingsRepository } from "./settings-repository"
+import { fromSnapshot, productFromSnapshot, setDocument } from "./utils"
+
+// Firestore allows at most 500 writes in one batch.
+const MAX_BATCH_WRITES = 500
+
+export interface MovementInput {
+  productId: string
+  variantId?: string
+  type: InventoryMovementType
+  quantity: number
+  reason: string
+  orderId?: string
+}
+
+// Stock on products and variants is a running total of the ledger in
+// products/{id}/inventoryMovements and is only ever written from here.
+export class InventoryRepository {
+  private products = adminDb.collection("products")
+
+  async listMovements(productId: string, limit = 100): Promise<InventoryMovement[]> {
+    const snap = await this.products
+      .doc(productId)
+      .collection("inventoryMovements")
+      .orderBy("createdAt", "desc")
+      .limit(limit)
+      .get()
+    return snap.docs.map((doc) => fromSnapshot<InventoryMovement>(doc))
+  }
+
+  async recordMovement(input: MovementInput, actor: Actor | null): Promise<InventoryMovement> {
+    return adminDb.runTransaction(async (tx) => {
+      const write = await this.stageMovements(tx, [input], actor)
+      return write()[0]
+    })
+  }
+
+  // Products carry a `lowStock` flag, derived from their stock and
+  // thresholds, so low-stock products are found with an indexed query.
+  async listLowStock(): Promise<Product[]> {
+    const snap = await this.products.where("lowStock", "==", true).get()
+    return snap.docs.map((doc) => productFromSnapshot(doc))
+  }
+
+  async countLowStock(): Promise<number> {
+    const snap = await this.products.where("lowStock", "==", true).count().get()
+    return snap.data().count
+  }
+
+  // Recomputes every product's low-stock flag, for when the store threshold
+  // changes and for products saved before the flag existed. Returns the
+  // number of flags changed.
+  async refreshLowStock(threshold: number): Promise<number> {
+    const snap = await this.products.select("stock", "lowStockThreshold", "variants", "lowStock").get()
+    const stale = snap.docs.filter((doc) => {
+      const product = doc.data() as Pick<Product, "stock" | "lowStockThreshold" | "variants" | "lowStock">
+      return product.lowStock !== isLowStock(product, threshold)
+    })
+    for (let i = 0; i < stale.length; i += MAX_BATCH_WRITES) {
+      const batch = adminDb.batch()
+      stale.slice(i, i + MAX_BATCH_WRITES).forEach((doc) => batch.update(doc.ref, { lowStock: !doc.data().lowStock }))
+      await batch.commit()
+    }
+    return stale.length
+  }
+
+  // Turns an order's line items into ledger movements, e.g. sales when the
+  // order starts processing or returns when it is cancelled or returned.
+  stageOrderMovements(
+    tx: Transaction,
+    order: Order,
+    type: Extract<InventoryMovementType, "sale" | "return">,
+    reason: string,
+    actor: Actor | null,
+  ) {
+    // Units restocked by refunds are already back in stock.
+    const inputs = order.products.map((line) => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      type,
+      quantity: line.quantity - (type === "return" ? getRefundedQuantity(order, line, true) : 0),
+      reason,
+      orderId: order.id,
+    }))
+    return this.stageMovements(
+      tx,
+      inputs.filter((input) => input.quantity > 0),
+      actor,
+    )
+  }
+
+  // Reads every affected product inside the transaction and returns a
+  // function that performs the writes. Firestore requires all reads in a
+  // transaction to happen before any write, so callers that need to read
+  // other documents do so before invoking the returned function.
+  async stageMovements(tx: Transaction, inputs: MovementInput[], actor: Actor | null) {
+    const productIds = [...new Set(inputs.map((input) => input.productId))]
+    const [snaps, settings] = await Promise.all([
+      Promise.all(productIds.map((id) => tx.get(this.products.doc(id)))),
+      settingsRepository.get(),
+    ])
+    const products = new Map<string, Product>()
+    snaps.forEach((snap) => {
+      if (!snap.exists) throw new NotFoundError(`Product ${snap.id} not found`)
+      products.set(snap.id, productFromSnapshot(snap))
+    })
+
+    const createdAt = new Date().toISOString()
+    const movements = inputs.map((input) => {
+      const product = products.get(input.productId)!
+      const quantity = signedQuantity(input.type, input.quantity)
+      if (quantity === 0) throw new ValidationError("Quantity must not be zero")
+
+      let stockAfter: number
+      if (product.variants?.length) {
+        const variant = product.variants.find((v) => v.id === input.variantId)
+        if (!variant) throw new ValidationError(`Choose a variant of ${product.name}`)
+        stockAfter = (Number.parseInt(variant.stock) || 0) + quantity
+        this.assertNotNegative(stockAfter, `${product.name} (${formatVariantLabel(variant.options)})`)
+        const variants = product.variants.map((v) => (v.id === variant.id ? { ...v, stock: String(stockAfter) } : v))
+        const total = variants.reduce((sum, v) => sum + (Number.parseInt(v.stock) || 0), 0)
+        products.set(product.id, { ...product, variants, stock: String(total) })
+      } else {
+        stockAfter = (Number.parseInt(product.stock) || 0) + quantity
+        this.assertNotNegative(stockAfter, product.name)
+        products.set(product.id, { ...product, stock: String(stockAfter) })
+      }
+
+      const movement: InventoryMovement = {
+        id: uuidv4(),
+        type: input.type,
+        quantity,
+        stockAfter,
+        reason: input.reason,
+        createdAt,
+        createdBy: actor,
+        ...(input.variantId && { variantId: input.variantId }),
+        ...(input.orderId && { orderId: input.orderId }),
+      }
+      return { productId: input.productId, movement }
+    })
+
+    return () => {
+      movements.forEach(({ productId, movement }) => {
+        const { id, ...data } = movement
+        tx.set(this.products.doc(productId).collection("inventoryMovements").doc(id), data)
+      })
+      products.forEach((product) => {
+        tx.update(this.products.doc(product.id), {
+          stock: product.stock,
+          ...(product.variants?.length && { variants: product.variants }),
+          lowStock: isLowStock(product, settings.lowStockThreshold),
+        })
+      })
+      return movements.map(({ movement }) => movement)
+    }
+  }
+
+  // Records the stock a new product, or a variant newly added to a product,
+  // starts with as opening receipts.
+  addOpeningStock(
+    tx: Transaction,
+    productId: string,
+    entries: { variantId?: string; stock: string }[],
+    actor: Actor | null,
+  ) {
+    entries.forEach(({ variantId, stock }) => {
+      const quantity = Number.parseInt(stock) || 0
+      if (quantity <= 0) return
+      this.addMovement(
+        tx,
+        productId,
+        { type: "receipt", quantity, stockAfter: quantity, reason: "Opening stock", variantId },
+        actor,
+      )
+    })
+  }
+
+  // Writes a ledger entry without touching the product's stock, for callers
+  // that set the stock themselves in the same transaction or batch.
+  addMovement(
+    writer: Transaction | WriteBatch,
+    productId: string,
+    movement: Pick<InventoryMovement, "type" | "quantity" | "stockAfter" | "reason" | "variantId">,
+    actor: Actor | null,
+  ) {
+    const { variantId, ...data } = movement
+    setDocument(writer, this.products.doc(productId).collection("inventoryMovements").doc(uuidv4()), {
+      ...data,
+      ...(variantId && { variantId }),
+      createdAt: new Date().toISOString(),
+      createdBy: actor,
+    })
+  }
+
+  private assertNotNegative(stock: number, name: string) {
+    if (stock < 0) throw new ValidationError(`Not enough stock for ${name}`)
+  }
+}
+
+export const inventoryRepository = new InventoryRepository()
@@ -0,0 +1,566 @@
+import { v4 as uuidv4 } from "uuid"
+import type { DocumentReference, DocumentSnapshot, Transaction } from "firebase-admin/firestore"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import {
+  type DraftOrderLine,
+  type DraftOrderQuote,
+  FIRST_ORDER_NUMBER,
+  getDraftProblems,
+  getStockProblems,
+} from "@/lib/draft-orders"
+import { NotFoundError, ValidationError } from "@/lib/errors"
+import { paymentLinkEmail } from "@/lib/mailer/templates"
+import { sendMail } from "@/lib/mailer"
+import {
+  type FulfillmentHistoryEntry,
+  type FulfillmentStatus,
+  FULFILLMENT_LABELS,
+  canTransitionFulfillment,
+  getFulfillmentStatus,
+} from "@/lib/order-fulfillment"
+import type { PageQuery } from "@/lib/pagination"
+import { type PaymentStatus, canChangePaymentStatus } from "@/lib/payment-status"
+import { getPaymentLinkProvider, getRefundProvider } from "@/lib/payments"
+import { formatVariantLabel } from "@/lib/product-variants"
+import {
+  type Refund,
+  type RefundStatus,
+  canRefund,
+  getRefundedPaymentStatus,
+  planRefund,
+} from "@/lib/refunds"
+import type { DraftOrderInput, DraftOrderQuoteInput, RefundInput, ShipmentInput } from "@/lib/schemas"
+import { type TableFilters, matchesOrderFilters } from "@/lib/table-filters"
+import type { Actor, Order, OrderProduct } from "@/lib/types"
+import { addressRepository } from "./address-repository"
+import { analyticsRepository } from "./analytics-repository"
+import { auditRepository } from "./audit-repository"
+import { customerRepository } from "./customer-repository"
+import { inventoryRepository } from "./inventory-repository"
+import { promotionRepository } from "./promotion-repository"
+import { searchRepository } from "./search-repository"
+import { settingsRepository } from "./settings-repository"
+import { shippingRepository } from "./shipping-repository"
+import { taxRepository } from "./tax-repository"
+import { orderFromSnapshot, paginate, productFromSnapshot } from "./utils"
+
+export interface OrderListFilters {
+  userId?: string
+  // Orders whose orderId starts with this, in orderId order.
+  orderIdPrefix?: string
+  limit?: number
+}
+
+export class OrderRepository {
+  private collection = adminDb.collection("orders")
+
+  async list(filters: OrderListFilters = {}): Promise<Order[]> {
+    let query = filters.userId
+      ? this.collection.where("userId", "==", filters.userId)
+      : filters.orderIdPrefix
+        ? this.collection
+            .where("orderId", ">=", filters.orderIdPrefix)
+            .where("orderId", "<", `${filters.orderIdPrefix}\uf8ff`)
+            .orderBy("orderId")
+        : this.collection.orderBy("createdAt", "desc")
+    if (filters.limit) query = query.limit(filters.limit)
+    const snap = await query.get()
+    return snap.docs.map((doc) => orderFromSnapshot(doc))
+  }
+
+  async page(query: PageQuery, filters: TableFilters = {}) {
+    const filtered = filters.q || filters.overdueDays
+    return paginate<Order>(
+      this.collection,
+      query,
+      filtered ? (order) => matchesOrderFilters(order, filters) : undefined,
+      orderFromSnapshot,
+    )
+  }
+
+  async get(id: string): Promise<Order> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Order not found")
+    return orderFromSnapshot(snap)
+  }
+
+  async count(): Promise<number> {
+    const snap = await this.collection.count().get()
+    return snap.data().count
+  }
+
+  // Prices a draft order as it would be placed: at the store's prices, with
+  // the promotions the customer gets, shipping to the destination by the
+  // chosen method (the cheapest by default) and tax.
+  async quoteDraft(input: DraftOrderQuoteInput): Promise<DraftOrderQuote> {
+    const [settings, lines] = await Promise.all([
+      settingsRepository.get(),
+      this.draftLines(input.lines, (refs) => adminDb.getAll(...refs)),
+    ])
+    const priced = lines.map((line) => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: line.quantity,
+      price: line.price,
+    }))
+    const shippingQuote = input.destination ? await shippingRepository.quote(priced, input.destination) : null
+    const option = input.shippingRateId
+      ? shippingQuote?.options.find((entry) => entry.rateId === input.shippingRateId)
+      : shippingQuote?.options[0]
+    const shippingTotal = option?.price ?? 0
+
+    const { discount, lineDiscounts, rejected } = await promotionRepository.evaluate(
+      { products: priced, codes: input.codes, shipping: shippingTotal },
+      input.userId,
+    )
+    const lineDiscountTotals = lineDiscounts.map((entries) => entries.reduce((sum, entry) => sum + entry.amount, 0))
+    const { tax, lineTaxes } = await taxRepository.quote(
+      priced.map((line, index) => ({ ...line, discount: lineDiscountTotals[index] })),
+      { country: input.destination?.country ?? "", region: input.destination?.region ?? "" },
+    )
+
+    const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0)
+    return {
+      currency: settings.currency,
+      products: lines.map((line, index) => ({
+        ...line,
+        tax: lineTaxes[index],
+        ...(lineDiscounts[index].length > 0 && { discounts: lineDiscounts[index] }),
+      })),
+      subtotal,
+      discount,
+      promotionIds: discount.promotions.map((promotion) => promotion.id),
+      rejected,
+      tax,
+      destination: input.destination,
+      shippingOptions: shippingQuote?.options ?? null,
+      shipping:
+        shippingQuote && option
+          ? {
+              zoneId: shippingQuote.zoneId,
+              zoneName: shippingQuote.zoneName,
+              rateId: option.rateId,
+              method: option.name,
+              weight: shippingQuote.weight,
+              free: option.free,
+            }
+          : null,
+      shippingTotal,
+      totalAmount: subtotal - discount.total + shippingTotal + (tax.pricesIncludeTax ? 0 : tax.total),
+    }
+  }
+
+  // Places an order taken by staff, priced as `quoteDraft` prices it. A new
+  // customer is quoted as the account their email already has, if any, so
+  // per-customer promotion limits hold. Their customer record and a new
+  // address are written with the order, after stock is checked again, and
+  // an account made for them is deleted if the order isn't placed. Cash on
+  // delivery and bank transfer orders are recorded as paid; payment link
+  // orders wait for their link to be paid.
+  async placeDraft(input: DraftOrderInput, actor: Actor): Promise<Order> {
+    let quoteUserId: string | null
+    if (input.customer.type === "existing") {
+      const customer = await customerRepository.findByUserId(input.customer.userId)
+      if (!customer) throw new NotFoundError("Customer not found")
+      await customerRepository.assertCanOrder(customer.userId)
+      quoteUserId = customer.userId
+    } else {
+      quoteUserId = (await customerRepository.findAccount(input.customer.email))?.uid ?? null
+    }
+    const delivery =
+      input.address.type === "existing" ? await addressRepository.get(input.address.addressId) : input.address
+    if ("userId" in delivery && delivery.userId !== quoteUserId) {
+      throw new ValidationError("The address belongs to another customer")
+    }
+
+    const quote = await this.quoteDraft({
+      userId: quoteUserId,
+      destination: { country: delivery.country, region: delivery.state, postalCode: delivery.postalCode },
+      lines: input.lines,
+      codes: input.codes,
+      shippingRateId: input.shippingRateId,
+    })
+    const problems = getDraftProblems(quote)
+    if (problems.length > 0) throw new ValidationError(problems.join(". "))
+    const shipping = quote.shipping
+    if (!shipping) throw new ValidationError("Choose a shipping method")
+    const paymentProvider = input.payment === "payment_link" ? getPaymentLinkProvider().id : input.payment
+
+    const account =
+      input.customer.type === "new"
+        ? await customerRepository.createAccount(input.customer)
+        : { uid: input.customer.userId, created: false }
+    const ref = this.collection.doc(uuidv4())
+    const placed = adminDb.runTransaction(async (tx) => {
+      const { orderId, write: writeOrderId } = await this.stageOrderId(tx)
+      const stock = await this.draftLines(input.lines, (refs) => tx.getAll(...refs))
+      const stockProblems = getStockProblems(
+        quote.products.map((line, index) => ({ ...line, available: stock[index].available })),
+      )
+      if (stockProblems.length > 0) throw new ValidationError(stockProblems.join(". "))
+
+      const address =
+        "id" in delivery
+          ? { address: delivery, write: () => {} }
+          : addressRepository.stageCreate(tx, account.uid, {
+              label: delivery.label,
+              street: delivery.street,
+              city: delivery.city,
+              state: delivery.state,
+              postalCode: delivery.postalCode,
+              country: delivery.country,
+            })
+      const data: Omit<Order, "id"> = {
+        orderId,
+        userId: account.uid,
+        createdAt: new Date().toISOString(),
+        products: quote.products.map(({ available, ...line }) => line),
+        currency: quote.currency,
+        subtotal: quote.subtotal,
+        totalAmount: quote.totalAmount,
+        ...(quote.promotionIds.length > 0 && { discount: quote.discount, promotionIds: quote.promotionIds }),
+        tax: quote.tax,
+        shippingTotal: quote.shippingTotal,
+        shipping,
+        shippingAddressId: address.address.id,
+        paymentStatus: input.payment === "payment_link" ? "pending" : "paid",
+        paymentProvider,
+        fulfillmentStatus: "pending",
+        placedBy: actor.email,
+        note: input.note,
+      }
+      const order: Order = { ...data, id: ref.id }
+      const customer =
+        input.customer.type === "new"
+          ? await customerRepository.stageCreate(tx, account.uid, input.customer, order, actor)
+          : { customer: null, write: await customerRepository.stageMetrics(tx, null, order) }
+      const writeRollup = await analyticsRepository.stageOrder(tx, null, order)
+      writeOrderId()
+      customer.write()
+      address.write()
+      writeRollup()
+      tx.set(ref, data)
+      auditRepository.record(tx, {
+        entityType: "order",
+        entityId: ref.id,
+        entityName: `#${order.orderId}`,
+        action: "create",
+        changes: diffFields(null, data),
+        actor,
+      })
+      return { order, customer: customer.customer }
+    })
+    const { order, customer } = await placed.catch(async (error) => {
+      if (account.created) await customerRepository.deleteAccount(account.uid)
+      throw error
+    })
+    if (customer) await searchRepository.indexCustomer(customer)
+    return order
+  }
+
+  // Emails the customer a link to pay an unpaid order, from the provider
+  // `getPaymentLinkProvider` names. A link sent earlier is sent again until
+  // it expires, so the customer never has two to pay.
+  async sendPaymentLink(id: string, actor: Actor | null): Promise<Order> {
+    const order = await this.get(id)
+    if (!canChangePaymentStatus(order.paymentStatus, "paid")) {
+      throw new ValidationError("Only unpaid orders can be sent a payment link")
+    }
+    const customer = await customerRepository.findByUserId(order.userId)
+    if (!customer?.email) throw new ValidationError("The customer has no email address to send the link to")
+
+    const provider = getPaymentLinkProvider()
+    const current = order.paymentLink
+    const reusable = current && current.provider === provider.id && new Date(current.expiresAt) > new Date()
+    const link = reusable
+      ? { url: current.url, expiresAt: current.expiresAt, orderFields: {} }
+      : await provider.createPaymentLink({ order, email: customer.email })
+    await sendMail(paymentLinkEmail(order, customer, link.url))
+
+    const changes: Partial<Order> = {
+      ...link.orderFields,
+      paymentProvider: provider.id,
+      paymentLink: {
+        provider: provider.id,
+        url: link.url,
+        expiresAt: link.expiresAt,
+        sentTo: customer.email,
+        sentAt: new Date().toISOString(),
+      },
+    }
+    const updated = { ...order, ...changes }
+    const batch = adminDb.batch()
+    batch.update(this.collection.doc(id), changes)
+    auditRepository.record(batch, {
+      entityType: "order",
+      entityId: id,
+      entityName: `#${order.orderId}`,
+      action: "update",
+      changes: diffFields(order, updated),
+      actor,
+    })
+    await batch.commit()
+    return updated
+  }
+
+  // Moves an order to the next fulfillment state, recording who did it.
+  // Shipping an order requires courier and tracking details. Stock is taken
+  // out of the inventory ledger when the order starts processing and put
+  // back when a committed order is cancelled or returned. The customer's
+  // order metrics and the sales rollups are updated in the same transaction.
+  async transitionFulfillment(
+    id: string,
+    to: FulfillmentStatus,
+    options: { actor: Actor | null; shipment?: ShipmentInput },
+  ): Promise<Order> {
+    const ref = this.collection.doc(id)
+    return adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) throw new NotFoundError("Order not found")
+      const order = orderFromSnapshot(snap)
+      const from = getFulfillmentStatus(order)
+      if (!canTransitionFulfillment(from, to)) {
+        throw new ValidationError(`Cannot move order from ${FULFILLMENT_LABELS[from]} to ${FULFILLMENT_LABELS[to]}`)
+      }
+      if (to === "shipped" && !options.shipment) {
+        throw new ValidationError("Shipment details are required to ship an order")
+      }
+
+      const changes: Partial<Order> = {}
+      let writeMovements: (() => unknown) | null = null
+      if (to === "processing" && !order.inventoryCommitted) {
+        writeMovements = await inventoryRepository.stageOrderMovements(
+          tx,
+          order,
+          "sale",
+          `Order #${order.orderId}`,
+          options.actor,
+        )
+        changes.inventoryCommitted = true
+      } else if ((to === "cancelled" || to === "returned") && order.inventoryCommitted) {
+        writeMovements = await inventoryRepository.stageOrderMovements(
+          tx,
+          order,
+          "return",
+          `Order #${order.orderId} ${FULFILLMENT_LABELS[to].toLowerCase()}`,
+          options.actor,
+        )
+        changes.inventoryCommitted = false
+      }
+
+      const changedAt = new Date().toISOString()
+      const entry: FulfillmentHistoryEntry = { from, to, changedAt, changedBy: options.actor?.email ?? null }
+      changes.fulfillmentStatus = to
+      changes.fulfillmentHistory = [...(order.fulfillmentHistory ?? []), entry]
+      if (to === "shipped" && options.shipment) {
+        changes.shipment = { ...options.shipment, shippedAt: changedAt }
+      }
+      const updated = { ...order, ...changes }
+      const writeMetrics = await customerRepository.stageMetrics(tx, order, updated)
+      const writeRollup = await analyticsRepository.stageOrder(tx, order, updated)
+      writeMovements?.()
+      writeMetrics()
+      writeRollup()
+      tx.update(ref, changes)
+      auditRepository.record(tx, {
+        entityType: "order",
+        entityId: id,
+        entityName: `#${order.orderId}`,
+        action: "update",
+        changes: diffFields(order, updated, ["fulfillmentHistory"]),
+        actor: options.actor,
+      })
+      return updated
+    })
+  }
+
+  // Changes an order's payment status as a payment event reports, if the
+  // status may move that way; see `canChangePaymentStatus`. Orders already
+  // in `to` are returned unchanged. The customer's metrics and the sales
+  // rollups are updated in the same transaction.
+  async updatePaymentStatus(id: string, to: PaymentStatus, actor: Actor | null): Promise<Order> {
+    const ref = this.collection.doc(id)
+    return adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) throw new NotFoundError("Order not found")
+      const order = orderFromSnapshot(snap)
+      if (order.paymentStatus === to) return order
+      if (!canChangePaymentStatus(order.paymentStatus, to)) {
+        throw new ValidationError(`Cannot change payment status from ${order.paymentStatus} to ${to}`)
+      }
+
+      const updated = { ...order, paymentStatus: to }
+      const writeMetrics = await customerRepository.stageMetrics(tx, order, updated)
+      const writeRollup = await analyticsRepository.stageOrder(tx, order, updated)
+      writeMetrics()
+      writeRollup()
+      tx.update(ref, { paymentStatus: to })
+      auditRepository.record(tx, {
+        entityType: "order",
+        entityId: id,
+        entityName: `#${order.orderId}`,
+        action: "update",
+        changes: diffFields(order, updated),
+        actor,
+      })
+      return updated
+    })
+  }
+
+  // Refunds part of an order, or all of it, through its payment provider.
+  // The refund is first reserved on the order as pending, so refunds made
+  // at the same time can't add up to more than was paid, then settled with
+  // the provider's answer.
+  async refund(id: string, input: RefundInput, actor: Actor | null): Promise<Order> {
+    const ref = this.collection.doc(id)
+    const { order, refund } = await adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) throw new NotFoundError("Order not found")
+      const order = orderFromSnapshot(snap)
+      if (!canRefund(order)) throw new ValidationError("Only paid orders with an amount left to refund can be refunded")
+      if (input.restock && input.lines.length > 0 && !order.inventoryCommitted) {
+        throw new ValidationError("Stock hasn't been taken for this order yet, so there is nothing to restock")
+      }
+      const plan = planRefund(order, input.lines, input.customAmount)
+      if ("error" in plan) throw new ValidationError(plan.error)
+
+      const refund: Refund = {
+        id: uuidv4(),
+        amount: plan.amount,
+        lines: plan.lines,
+        customAmount: input.customAmount,
+        reason: input.reason,
+        note: input.note,
+        restock: input.restock && plan.lines.length > 0,
+        restocked: false,
+        status: "pending",
+        provider: getRefundProvider(order).id,
+        providerRefundId: null,
+        createdAt: new Date().toISOString(),
+        createdBy: actor?.email ?? null,
+      }
+      tx.update(ref, { refunds: [...(order.refunds ?? []), refund] })
+      return { order, refund }
+    })
+
+    let result
+    try {
+      result = await getRefundProvider(order).refund!({
+        order,
+        amount: refund.amount,
+        reason: refund.reason,
+        refundId: refund.id,
+      })
+    } catch (error) {
+      const failureReason = error instanceof Error ? error.message : "The payment provider refused the refund"
+      await this.settleRefund(id, refund.id, { status: "failed", failureReason }, actor)
+      throw error
+    }
+    return this.settleRefund(id, refund.id, result, actor)
+  }
+
+  // Records what the payment provider made of a refund. Refunds it accepted
+  // put their units back into stock if asked to; succeeded ones move the
+  // order to "partially_refunded" or "refunded". The customer's metrics and
+  // the sales rollups are updated in the same transaction.
+  async settleRefund(
+    id: string,
+    refundId: string,
+    outcome: { status: RefundStatus; providerRefundId?: string; failureReason?: string },
+    actor: Actor | null,
+  ): Promise<Order> {
+    const ref = this.collection.doc(id)
+    return adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) throw new NotFoundError("Order not found")
+      const order = orderFromSnapshot(snap)
+      const refund = order.refunds?.find((entry) => entry.id === refundId)
+      if (!refund) throw new NotFoundError("Refund not found")
+
+      const settled: Refund = { ...refund, ...outcome }
+      let writeMovements: (() => unknown) | null = null
+      if (settled.restock && !settled.restocked && settled.status !== "failed") {
+        writeMovements = await inventoryRepository.stageMovements(
+          tx,
+          settled.lines.map((line) => ({
+            productId: line.productId,
+            variantId: line.variantId,
+            type: "return" as const,
+            quantity: line.quantity,
+            reason: `Order #${order.orderId} refund`,
+            orderId: order.id,
+          })),
+          actor,
+        )
+        settled.restocked = true
+      }
+
+      const refunds = order.refunds!.map((entry) => (entry.id === refundId ? settled : entry))
+      const changes: Partial<Order> = { refunds }
+      changes.paymentStatus = getRefundedPaymentStatus({ ...order, refunds })
+      const updated = { ...order, ...changes }
+      const writeMetrics = await customerRepository.stageMetrics(tx, order, updated)
+      const writeRollup = await analyticsRepository.stageOrder(tx, order, updated)
+      writeMovements?.()
+      writeMetrics()
+      writeRollup()
+      tx.update(ref, changes)
+      auditRepository.record(tx, {
+        entityType: "order",
+        entityId: id,
+        entityName: `#${order.orderId}`,
+        action: "update",
+        changes: [...diffFields(order, updated, ["refunds"]), { field: "refunds", before: refund, after: settled }],
+        actor,
+      })
+      return updated
+    })
+  }
+
+  // Reads the next order number from the `counters/orders` document, with a
+  // function that stores it. Two orders placed at once can't get
+  // the same number, as one transaction retries. Numbers already used by
+  // orders written elsewhere are skipped. Call it before any write.
+  private async stageOrderId(tx: Transaction) {
+    const ref = adminDb.collection("counters").doc("orders")
+    const snap = await tx.get(ref)
+    let number = ((snap.get("last") as number | undefined) ?? FIRST_ORDER_NUMBER - 1) + 1
+    while (!(await tx.get(this.collection.where("orderId", "==", String(number)).limit(1))).empty) number++
+    return { orderId: String(number), write: () => tx.set(ref, { last: number }) }
+  }
+
+  // The products of a draft's lines at their current prices and stock.
+  // `read` fetches the products, inside a transaction or not.
+  private async draftLines(
+    lines: DraftOrderQuoteInput["lines"],
+    read: (refs: DocumentReference[]) => Promise<DocumentSnapshot[]>,
+  ): Promise<DraftOrderLine[]> {
+    const ids = [...new Set(lines.map((line) => line.productId))]
+    const snaps = await read(ids.map((productId) => adminDb.collection("products").doc(productId)))
+    const products = new Map(snaps.filter((snap) => snap.exists).map((snap) => [snap.id, productFromSnapshot(snap)]))
+    return lines.map((line) => {
+      const product = products.get(line.productId)
+      if (!product) throw new ValidationError("A product in the order no longer exists")
+      const variants = product.variants ?? []
+      if (variants.length > 0 && !line.variantId) throw new ValidationError(`Choose a variant of ${product.name}`)
+      const variant = line.variantId ? variants.find((entry) => entry.id === line.variantId) : undefined
+      if (line.variantId && !variant) throw new ValidationError(`A variant of ${product.name} no longer exists`)
+
+      const orderLine: OrderProduct = {
+        productId: product.id,
+        name: product.name,
+        quantity: line.quantity,
+        price: variant?.price ?? product.price,
+        ...(variant && {
+          variantId: variant.id,
+          variantLabel: formatVariantLabel(variant.options),
+          sku: variant.sku,
+        }),
+      }
+      return { ...orderLine, available: Math.max(0, Number(variant?.stock ?? product.stock) || 0) }
+    })
+  }
+}
+
+export const orderRepository = new OrderRepository()
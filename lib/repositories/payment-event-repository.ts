@@ -0,0 +1,165 @@
+import { adminDb } from "@/lib/firebase-admin"
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/errors"
+import {
+  type PaymentEventRecord,
+  type PaymentEventStatus,
+  PAYMENT_EVENT_LEASE_MS,
+  isBeingProcessed,
+} from "@/lib/payment-events"
+import { type PaymentEvent, type WebhookRequest, getPaymentProvider } from "@/lib/payments"
+import type { Actor, Order } from "@/lib/types"
+import { orderRepository } from "./order-repository"
+import { fromSnapshot, orderFromSnapshot } from "./utils"
+
+interface Outcome {
+  status: Exclude<PaymentEventStatus, "received" | "processing" | "failed">
+  orderId: string | null
+  message: string | null
+}
+
+export class PaymentEventRepository {
+  private collection = adminDb.collection("paymentEvents")
+
+  async list(filters: { status?: PaymentEventStatus; limit?: number } = {}): Promise<PaymentEventRecord[]> {
+    let query = filters.status ? this.collection.where("status", "==", filters.status) : this.collection
+    query = query.orderBy("receivedAt", "desc").limit(filters.limit ?? 100)
+    const snap = await query.get()
+    return snap.docs.map((doc) => fromSnapshot<PaymentEventRecord>(doc))
+  }
+
+  async get(id: string): Promise<PaymentEventRecord> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Payment event not found")
+    return fromSnapshot<PaymentEventRecord>(snap)
+  }
+
+  // Verifies and stores a webhook from `providerId`, then applies it to its
+  // order. Events already handled are recognised by their id and left
+  // alone, as providers deliver events more than once. The event is claimed
+  // in a transaction before it is applied, so a redelivery arriving while it
+  // is applied is refused with 409 and retried by the provider. Failures
+  // are stored and rethrown, so the provider retries.
+  async receive(providerId: string, request: WebhookRequest) {
+    const provider = getPaymentProvider(providerId)
+    if (!provider?.webhooks) throw new NotFoundError("Unknown payment provider")
+    const payload = provider.webhooks.verify(request)
+    const event = provider.webhooks.read(payload)
+    const ref = this.collection.doc(`${provider.id}_${event.id}`.replace(/\//g, "_"))
+
+    const record = await this.claim(ref.id, (existing) => {
+      if (existing && !["received", "processing", "failed"].includes(existing.status)) return null
+      return {
+        provider: provider.id,
+        eventId: event.id,
+        type: event.type,
+        payload,
+        orderId: existing?.orderId ?? null,
+        message: null,
+        attempts: existing?.attempts ?? 0,
+        receivedAt: existing?.receivedAt ?? new Date().toISOString(),
+        processedAt: null,
+      }
+    })
+    if (!record) return { event: await this.get(ref.id), duplicate: true }
+    return { event: await this.process(record, event, null), duplicate: false }
+  }
+
+  // Applies a stored event again, for events that failed or were skipped
+  // because their order wasn't ready.
+  async replay(id: string, actor: Actor | null): Promise<PaymentEventRecord> {
+    const stored = await this.get(id)
+    const provider = getPaymentProvider(stored.provider)
+    if (!provider?.webhooks) throw new ValidationError(`Unknown payment provider "${stored.provider}"`)
+    const event = provider.webhooks.read(stored.payload)
+    const record = await this.claim(id, (existing) => {
+      if (!existing) return null
+      const { id: _id, status: _status, ...fields } = existing
+      return fields
+    })
+    if (!record) throw new NotFoundError("Payment event not found")
+    return this.process(record, event, actor)
+  }
+
+  // Marks the event as processing, under a lease, for the caller to apply,
+  // with the fields `update` gives it; `update` returns null to leave it
+  // alone. Events another delivery or replay is applying are refused.
+  private async claim(
+    id: string,
+    update: (existing: PaymentEventRecord | null) => Omit<PaymentEventRecord, "id" | "status"> | null,
+  ): Promise<PaymentEventRecord | null> {
+    const ref = this.collection.doc(id)
+    return adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      const existing = snap.exists ? fromSnapshot<PaymentEventRecord>(snap) : null
+      const now = new Date()
+      if (existing && isBeingProcessed(existing, now)) {
+        throw new ConflictError("This event is already being processed")
+      }
+      const fields = update(existing)
+      if (!fields) return null
+      const data: Omit<PaymentEventRecord, "id"> = {
+        ...fields,
+        status: "processing",
+        attempts: fields.attempts + 1,
+        leaseExpiresAt: new Date(now.getTime() + PAYMENT_EVENT_LEASE_MS).toISOString(),
+      }
+      tx.set(ref, data)
+      return { ...data, id }
+    })
+  }
+
+  private async process(record: PaymentEventRecord, event: PaymentEvent, actor: Actor | null) {
+    const ref = this.collection.doc(record.id)
+    const processedAt = new Date().toISOString()
+    try {
+      const outcome = await this.apply(event, actor)
+      const changes = { ...outcome, processedAt, leaseExpiresAt: null }
+      await ref.update(changes)
+      return { ...record, ...changes }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to apply the event"
+      await ref.update({ status: "failed", message, processedAt, leaseExpiresAt: null })
+      throw error
+    }
+  }
+
+  private async apply(event: PaymentEvent, actor: Actor | null): Promise<Outcome> {
+    if (!event.order || !event.action) return { status: "ignored", orderId: null, message: null }
+    const order = await this.findOrder(event.order)
+    if (!order) throw new NotFoundError(`No order has ${event.order.field} ${event.order.value}`)
+    const skipped = (message: string): Outcome => ({ status: "skipped", orderId: order.id, message })
+
+    const action = event.action
+    if (action.type === "payment") {
+      const { amount } = action
+      if (amount && (amount.currency !== order.currency || amount.value !== order.totalAmount)) {
+        return skipped("The amount paid doesn't match the order total")
+      }
+      try {
+        await orderRepository.updatePaymentStatus(order.id, action.paymentStatus, actor)
+      } catch (error) {
+        if (error instanceof ValidationError) return skipped(error.message)
+        throw error
+      }
+      return { status: "processed", orderId: order.id, message: null }
+    }
+
+    const refund = order.refunds?.find((entry) => entry.id === action.refundId)
+    if (!refund) return skipped("The order has no such refund")
+    if (refund.status !== "pending") return skipped("The refund is already settled")
+    await orderRepository.settleRefund(
+      order.id,
+      refund.id,
+      { status: action.status, providerRefundId: action.providerRefundId },
+      actor,
+    )
+    return { status: "processed", orderId: order.id, message: null }
+  }
+
+  private async findOrder(lookup: NonNullable<PaymentEvent["order"]>): Promise<Order | null> {
+    const snap = await adminDb.collection("orders").where(lookup.field, "==", lookup.value).limit(1).get()
+    return snap.empty ? null : orderFromSnapshot(snap.docs[0])
+  }
+}
+
+export const paymentEventRepository = new PaymentEventRepository()
@@ -0,0 +1,354 @@
+import { v4 as uuidv4 } from "uuid"
+import type { WriteBatch } from "firebase-admin/firestore"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import {
+  type ImportField,
+  type ImportMapping,
+  type ImportOptions,
+  type ImportPlan,
+  type ImportRowResult,
+  type ImportSheet,
+  IMPORT_FIELDS,
+  splitList,
+} from "@/lib/product-import"
+import { isLowStock } from "@/lib/inventory"
+import { NotFoundError } from "@/lib/errors"
+import { minorUnitDigits, toMinorUnits } from "@/lib/money"
+import { type ProductInput, productSchema } from "@/lib/schemas"
+import type { Actor, Category, Product, SubCategory, Tag } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+import { categoryRepository } from "./category-repository"
+import { inventoryRepository } from "./inventory-repository"
+import { productRepository } from "./product-repository"
+import { searchRepository } from "./search-repository"
+import { settingsRepository } from "./settings-repository"
+import { subcategoryRepository } from "./subcategory-repository"
+import { tagRepository } from "./tag-repository"
+import { productFromSnapshot } from "./utils"
+
+// Firestore allows 500 writes per batch; leave headroom so one product's
+// writes never straddle two batches.
+const MAX_BATCH_WRITES = 450
+
+interface WriteGroup {
+  writes: number
+  apply: (batch: WriteBatch) => void
+}
+
+interface Lookups {
+  currency: string
+  lowStockThreshold: number
+  products: Product[]
+  categories: Map<string, Category>
+  subcategories: Map<string, SubCategory>
+  tags: Map<string, Tag>
+}
+
+const key = (name: string) => name.trim().toLowerCase()
+const subcategoryKey = (categoryId: string, name: string) => `${categoryId}/${key(name)}`
+
+export class ProductImportRepository {
+  // Validates every row and works out what importing it would do, without
+  // writing anything.
+  async preview(sheet: ImportSheet, mapping: ImportMapping, options: ImportOptions): Promise<ImportPlan> {
+    const { plan } = await this.build(sheet, mapping, options, null)
+    return plan
+  }
+
+  // Imports the rows, new lookups and products in batched writes and
+  // updates to existing products one transaction each. Nothing is written
+  // when any row has errors; fix them and preview again.
+  async commit(sheet: ImportSheet, mapping: ImportMapping, options: ImportOptions, actor: Actor | null) {
+    const { plan, groups, updates } = await this.build(sheet, mapping, options, actor)
+    if (plan.summary.errors > 0) return { plan, committed: false }
+
+    let batch = adminDb.batch()
+    let size = 0
+    for (const group of groups) {
+      if (size + group.writes > MAX_BATCH_WRITES) {
+        await batch.commit()
+        batch = adminDb.batch()
+        size = 0
+      }
+      group.apply(batch)
+      size += group.writes
+    }
+    if (size > 0) await batch.commit()
+    for (const { id, input } of updates) {
+      await this.updateProduct(id, input, actor)
+    }
+    await searchRepository.reset()
+    return { plan, committed: true }
+  }
+
+  private async load(): Promise<Lookups> {
+    const [products, categories, subcategories, tags, settings] = await Promise.all([
+      productRepository.list(),
+      categoryRepository.list(),
+      subcategoryRepository.list(),
+      tagRepository.list(),
+      settingsRepository.get(),
+    ])
+    return {
+      currency: settings.currency,
+      lowStockThreshold: settings.lowStockThreshold,
+      products,
+      categories: new Map(categories.map((category) => [key(category.name), category])),
+      subcategories: new Map(subcategories.map((sub) => [subcategoryKey(sub.categoryId, sub.name), sub])),
+      tags: new Map(tags.map((tag) => [key(tag.name), tag])),
+    }
+  }
+
+  private async build(sheet: ImportSheet, mapping: ImportMapping, options: ImportOptions, actor: Actor | null) {
+    const lookups = await this.load()
+    const productsById = new Map(lookups.products.map((product) => [product.id, product]))
+    const productsByName = new Map(lookups.products.map((product) => [key(product.name), product]))
+    const seen = new Map<string, number>()
+
+    const groups: WriteGroup[] = []
+    const updates: { id: string; input: Partial<ProductInput> }[] = []
+    const missing = { categories: new Set<string>(), subcategories: new Set<string>(), tags: new Set<string>() }
+
+    // Lookups that don't exist yet are created once, before the products
+    // that use them.
+    const resolveCategory = (name: string, errors: string[]) => {
+      const existing = lookups.categories.get(key(name))
+      if (existing) return existing.id
+      if (!options.createMissing) {
+        errors.push(`Category "${name}" does not exist`)
+        return ""
+      }
+      const category: Category = { id: uuidv4(), name: name.trim(), description: name.trim(), image: "", heroImage: "" }
+      lookups.categories.set(key(name), category)
+      missing.categories.add(category.name)
+      groups.push(this.createLookup("categories", "category", category, actor))
+      return category.id
+    }
+
+    const resolveSubcategory = (categoryId: string, name: string, errors: string[]) => {
+      const existing = lookups.subcategories.get(subcategoryKey(categoryId, name))
+      if (existing) return existing.id
+      if (!options.createMissing) {
+        errors.push(`Subcategory "${name}" does not exist in this category`)
+        return ""
+      }
+      const subcategory: SubCategory = { id: uuidv4(), name: name.trim(), categoryId }
+      lookups.subcategories.set(subcategoryKey(categoryId, name), subcategory)
+      missing.subcategories.add(subcategory.name)
+      groups.push(this.createLookup("subcategories", "subcategory", subcategory, actor))
+      return subcategory.id
+    }
+
+    const resolveTag = (name: string, errors: string[]) => {
+      const existing = lookups.tags.get(key(name))
+      if (existing) return existing.id
+      if (!options.createMissing) {
+        errors.push(`Tag "${name}" does not exist`)
+        return ""
+      }
+      const tag: Tag = { id: uuidv4(), name: name.trim() }
+      lookups.tags.set(key(name), tag)
+      missing.tags.add(tag.name)
+      groups.push(this.createLookup("tags", "tag", tag, actor))
+      return tag.id
+    }
+
+    const results = sheet.rows.slice(1).map((cells, index): ImportRowResult => {
+      const row = sheet.rowNumbers[index + 1]
+      const cell = (field: ImportField) => {
+        const column = mapping[field]
+        return column === undefined ? undefined : (cells[column] ?? "").trim()
+      }
+      const errors: string[] = []
+      const name = cell("name") ?? ""
+
+      // Rows match existing products by ID when that column is mapped,
+      // otherwise by name.
+      const id = cell("id")
+      let existing: Product | undefined
+      if (id) {
+        existing = productsById.get(id)
+        if (!existing) errors.push(`No product with ID ${id}`)
+      } else if (name) {
+        existing = productsByName.get(key(name))
+      }
+
+      const identity = existing?.id ?? key(name)
+      if (seen.has(identity)) errors.push(`Same product as row ${seen.get(identity)}`)
+      seen.set(identity, row)
+
+      // Empty cells leave existing values unchanged.
+      const input: Record<string, unknown> = {}
+      const set = (field: string, value: unknown) => {
+        if (value !== undefined && value !== "") input[field] = value
+      }
+      set("name", name)
+      set("description", cell("description"))
+      // Prices are decimals in the store currency, stored in minor units.
+      const price = cell("price")
+      if (price) {
+        const digits = minorUnitDigits(lookups.currency)
+        const pattern = new RegExp(digits > 0 ? `^\\d+(\\.\\d{1,${digits}})?$` : "^\\d+$")
+        if (pattern.test(price)) set("price", toMinorUnits(price, lookups.currency))
+        else errors.push(`Price: Must be a positive amount with up to ${digits} decimals`)
+      }
+      set("stock", cell("stock"))
+      set("weight", cell("weight"))
+      set("weightUnit", cell("weightUnit"))
+      set("lowStockThreshold", cell("lowStockThreshold"))
+      set("image", cell("image"))
+      const details = cell("productDetails")
+      if (details) input.productDetails = splitList(details, "|")
+
+      const categoryName = cell("category")
+      if (!existing && !categoryName) errors.push("Category is required")
+      const categoryId = categoryName ? resolveCategory(categoryName, errors) : existing?.categoryId
+      if (categoryName) set("categoryId", categoryId)
+      const subcategoryName = cell("subcategory")
+      if (subcategoryName) {
+        if (categoryId) set("subcategoryId", resolveSubcategory(categoryId, subcategoryName, errors))
+        else errors.push("A subcategory needs a category")
+      } else if (existing && categoryId !== existing.categoryId) {
+        // The old subcategory belongs to the old category.
+        input.subcategoryId = ""
+      }
+      const tagNames = cell("tags")
+      if (tagNames) input.tagIds = splitList(tagNames, ",").map((tag) => resolveTag(tag, errors))
+
+      if (existing?.variants?.length && (input.price !== undefined || input.stock !== undefined)) {
+        errors.push("Product has variants; change price and stock per variant in the dashboard")
+      }
+
+      const parsed = existing ? productSchema.partial().safeParse(input) : productSchema.safeParse(input)
+      if (!parsed.success) {
+        parsed.error.issues.forEach((issue) => {
+          const field = IMPORT_FIELDS.find(({ field }) => field === issue.path[0])?.label ?? issue.path.join(".")
+          errors.push(`${field}: ${issue.message}`)
+        })
+      }
+
+      if (!parsed.success || errors.length > 0) {
+        return { row, name, action: existing ? "update" : "create", productId: existing?.id, changes: [], errors }
+      }
+
+      if (!existing) {
+        const productId = uuidv4()
+        const data = parsed.data as ProductInput
+        groups.push(this.createProduct(productId, data, lookups.lowStockThreshold, actor))
+        return { row, name, action: "create", productId, changes: diffFields(null, data), errors }
+      }
+
+      const changes = diffFields(existing, { ...existing, ...parsed.data })
+      if (changes.length === 0) {
+        return { row, name, action: "unchanged", productId: existing.id, changes, errors }
+      }
+      updates.push({ id: existing.id, input: parsed.data })
+      return { row, name, action: "update", productId: existing.id, changes, errors }
+    })
+
+    const plan: ImportPlan = {
+      rows: results,
+      missing: {
+        categories: [...missing.categories],
+        subcategories: [...missing.subcategories],
+        tags: [...missing.tags],
+      },
+      summary: {
+        create: results.filter((result) => result.action === "create" && result.errors.length === 0).length,
+        update: results.filter((result) => result.action === "update" && result.errors.length === 0).length,
+        unchanged: results.filter((result) => result.action === "unchanged").length,
+        errors: results.filter((result) => result.errors.length > 0).length,
+      },
+    }
+    return { plan, groups, updates }
+  }
+
+  private createLookup(
+    collection: "categories" | "subcategories" | "tags",
+    entityType: "category" | "subcategory" | "tag",
+    record: Category | SubCategory | Tag,
+    actor: Actor | null,
+  ): WriteGroup {
+    const { id, ...data } = record
+    return {
+      writes: 2,
+      apply: (batch) => {
+        batch.set(adminDb.collection(collection).doc(id), data)
+        auditRepository.record(batch, {
+          entityType,
+          entityId: id,
+          entityName: record.name,
+          action: "create",
+          changes: diffFields(null, data),
+          actor,
+        })
+      },
+    }
+  }
+
+  // New products start with their stock as an opening receipt.
+  private createProduct(id: string, data: ProductInput, lowStockThreshold: number, actor: Actor | null): WriteGroup {
+    return {
+      writes: 3,
+      apply: (batch) => {
+        batch.set(adminDb.collection("products").doc(id), { ...data, lowStock: isLowStock(data, lowStockThreshold) })
+        auditRepository.record(batch, {
+          entityType: "product",
+          entityId: id,
+          entityName: data.name,
+          action: "create",
+          changes: diffFields(null, data),
+          actor,
+        })
+        const stock = Number.parseInt(data.stock) || 0
+        if (stock > 0) {
+          inventoryRepository.addMovement(
+            batch,
+            id,
+            { type: "receipt", quantity: stock, stockAfter: stock, reason: "Opening stock (import)" },
+            actor,
+          )
+        }
+      },
+    }
+  }
+
+  // Applies a row to the product as it is when written, not as `build` read
+  // it. The stock column is a count: its difference from the current stock
+  // is recorded as a stocktake adjustment, so the ledger still adds up to
+  // the product's stock.
+  private async updateProduct(id: string, input: Partial<ProductInput>, actor: Actor | null) {
+    const ref = adminDb.collection("products").doc(id)
+    await adminDb.runTransaction(async (tx) => {
+      const [snap, settings] = await Promise.all([tx.get(ref), settingsRepository.get()])
+      if (!snap.exists) throw new NotFoundError(`Product ${id} not found`)
+      const existing = productFromSnapshot(snap)
+
+      const { stock, ...rest } = input
+      const counted = stock === undefined ? null : Number.parseInt(stock) || 0
+      const current = Number.parseInt(existing.stock) || 0
+      const writeMovements = await inventoryRepository.stageMovements(
+        tx,
+        counted === null || counted === current
+          ? []
+          : [{ productId: id, type: "adjustment", quantity: counted - current, reason: "Stock count (import)" }],
+        actor,
+      )
+
+      const updated = { ...existing, ...rest, ...(counted !== null && { stock: String(counted) }) }
+      writeMovements()
+      tx.update(ref, { ...rest, lowStock: isLowStock(updated, settings.lowStockThreshold) })
+      auditRepository.record(tx, {
+        entityType: "product",
+        entityId: id,
+        entityName: updated.name,
+        action: "update",
+        changes: diffFields(existing, { ...existing, ...rest }, ["lowStock"]),
+        actor,
+      })
+    })
+  }
+}
+
+export const productImportRepository = new ProductImportRepository()
@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from "uuid"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import { NotFoundError, ValidationError } from "@/lib/errors"
+import { isLowStock } from "@/lib/inventory"
+import {
+  type ProductOption,
+  type ProductVariant,
+  summarizeVariants,
+  validateVariants,
+} from "@/lib/product-variants"
+import type { PageQuery } from "@/lib/pagination"
+import type { ProductInput } from "@/lib/schemas"
+import type { TableFilters } from "@/lib/table-filters"
+import type { Actor, Product } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+import { inventoryRepository } from "./inventory-repository"
+import { MAX_SEARCH_RESULTS, searchRepository } from "./search-repository"
+import { settingsRepository } from "./settings-repository"
+import { paginate, paginateIds, productFromSnapshot } from "./utils"
+
+export class ProductRepository {
+  private collection = adminDb.collection("products")
+
+  async list(): Promise<Product[]> {
+    const snap = await this.collection.get()
+    return snap.docs.map((doc) => productFromSnapshot(doc))
+  }
+
+  // Prices cart lines from their products, or the variants chosen, as they
+  // are now, so prices a storefront sends are never trusted. Each line comes
+  // back with its product. Lines whose product or variant no longer exists
+  // are refused.
+  async priceLines<T extends { productId: string; variantId?: string }>(
+    lines: T[],
+  ): Promise<(T & { price: number; product: Product })[]> {
+    const ids = [...new Set(lines.map((line) => line.productId))]
+    const snaps = ids.length > 0 ? await adminDb.getAll(...ids.map((id) => this.collection.doc(id))) : []
+    const products = new Map(snaps.filter((snap) => snap.exists).map((snap) => [snap.id, productFromSnapshot(snap)]))
+    return lines.map((line) => {
+      const product = products.get(line.productId)
+      if (!product) throw new ValidationError("A product in the cart no longer exists")
+      const variants = product.variants ?? []
+      if (variants.length > 0 && !line.variantId) throw new ValidationError(`Choose a variant of ${product.name}`)
+      const variant = line.variantId ? variants.find((entry) => entry.id === line.variantId) : undefined
+      if (line.variantId && !variant) throw new ValidationError(`A variant of ${product.name} no longer exists`)
+      return { ...line, price: variant?.price ?? product.price, product }
+    })
+  }
+
+  // Searches return the best matches first, whatever the sort.
+  async page(query: PageQuery, filters: TableFilters = {}) {
+    if (!filters.q) return paginate<Product>(this.collection, query, undefined, productFromSnapshot)
+    const hits = await searchRepository.search(filters.q, { types: ["product"], limit: MAX_SEARCH_RESULTS })
+    return paginateIds<Product>(
+      this.collection,
+      hits.map((hit) => hit.id),
+      query,
+      productFromSnapshot,
+    )
+  }
+
+  async get(id: string): Promise<Product> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Product not found")
+    return productFromSnapshot(snap)
+  }
+
+  async count(): Promise<number> {
+    const snap = await this.collection.count().get()
+    return snap.data().count
+  }
+
+  // The stock given on creation is recorded as opening stock in the
+  // inventory ledger.
+  async create(input: ProductInput, actor: Actor | null): Promise<Product> {
+    await this.assertValidCategory(input.categoryId, input.subcategoryId)
+    const settings = await settingsRepository.get()
+    const data = { ...input, ...this.variantSummary(input.options, input.variants) }
+    const lowStock = isLowStock(data, settings.lowStockThreshold)
+    const id = uuidv4()
+    await adminDb.runTransaction(async (tx) => {
+      tx.create(this.collection.doc(id), { ...data, lowStock })
+      auditRepository.record(tx, {
+        entityType: "product",
+        entityId: id,
+        entityName: data.name,
+        action: "create",
+        changes: diffFields(null, data),
+        actor,
+      })
+      inventoryRepository.addOpeningStock(
+        tx,
+        id,
+        data.variants.length > 0
+          ? data.variants.map((variant) => ({ variantId: variant.id, stock: variant.stock }))
+          : [{ stock: data.stock }],
+        actor,
+      )
+    })
+    const product = { ...data, id, lowStock }
+    await searchRepository.indexProduct(product)
+    return product
+  }
+
+  // Stock cannot be edited here once a product exists; it changes through
+  // the inventory ledger. Only variants added by this update take their
+  // stock from the input, as opening stock.
+  async update(id: string, input: Partial<ProductInput>, actor: Actor | null): Promise<Product> {
+    const [current, settings] = await Promise.all([this.get(id), settingsRepository.get()])
+    await this.assertValidCategory(
+      input.categoryId ?? current.categoryId,
+      input.subcategoryId ?? current.subcategoryId,
+    )
+
+    const ref = this.collection.doc(id)
+    const product = await adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) throw new NotFoundError("Product not found")
+      const existing = productFromSnapshot(snap)
+      const existingVariants = new Map((existing.variants ?? []).map((variant) => [variant.id, variant]))
+
+      const { stock: _stock, ...rest } = input
+      const variants = input.variants?.map((variant) => {
+        const saved = existingVariants.get(variant.id)
+        return saved ? { ...variant, stock: saved.stock } : variant
+      })
+      const removedVariants = variants
+        ? [...existingVariants.values()].filter((variant) => !variants.some((entry) => entry.id === variant.id))
+        : []
+      // Removed variants take their stock with them, so a product left with
+      // no variants has none until stock is received.
+      const clearsVariants = variants?.length === 0 && existingVariants.size > 0
+      const changes = {
+        ...rest,
+        ...(variants && { variants }),
+        ...this.variantSummary(input.options ?? existing.options, variants ?? existing.variants),
+        ...(clearsVariants && { stock: "0" }),
+      }
+      const updated = { ...existing, ...changes }
+      updated.lowStock = isLowStock(updated, settings.lowStockThreshold)
+      tx.update(ref, { ...changes, lowStock: updated.lowStock })
+      auditRepository.record(tx, {
+        entityType: "product",
+        entityId: id,
+        entityName: updated.name,
+        action: "update",
+        changes: diffFields(existing, updated, ["lowStock"]),
+        actor,
+      })
+
+      const addedVariants = (variants ?? []).filter((variant) => !existingVariants.has(variant.id))
+      inventoryRepository.addOpeningStock(
+        tx,
+        id,
+        addedVariants.map((variant) => ({ variantId: variant.id, stock: variant.stock })),
+        actor,
+      )
+      removedVariants.forEach((variant) => {
+        const stock = Number.parseInt(variant.stock) || 0
+        if (stock <= 0) return
+        inventoryRepository.addMovement(
+          tx,
+          id,
+          { type: "adjustment", quantity: -stock, stockAfter: 0, reason: "Variant removed", variantId: variant.id },
+          actor,
+        )
+      })
+      // Stock held at product level moves to the variants once they exist.
+      const productStock = Number.parseInt(existing.stock) || 0
+      if (existingVariants.size === 0 && addedVariants.length > 0 && productStock > 0) {
+        inventoryRepository.addMovement(
+          tx,
+          id,
+          { type: "adjustment", quantity: -productStock, stockAfter: 0, reason: "Stock moved to variants" },
+          actor,
+        )
+      }
+      return updated
+    })
+    await searchRepository.indexProduct(product)
+    return product
+  }
+
+  async delete(id: string, actor: Actor | null): Promise<void> {
+    const existing = await this.get(id)
+    const batch = adminDb.batch()
+    batch.delete(this.collection.doc(id))
+    auditRepository.record(batch, {
+      entityType: "product",
+      entityId: id,
+      entityName: existing.name,
+      action: "delete",
+      changes: diffFields(existing, null),
+      actor,
+    })
+    await batch.commit()
+    await searchRepository.removeProduct(id)
+  }
+
+  // Products with variants take their price and stock from the variants.
+  private variantSummary(options: ProductOption[] = [], variants: ProductVariant[] = []) {
+    const problem = validateVariants(options, variants)
+    if (problem) throw new ValidationError(problem)
+    if (variants.length === 0) return {}
+
+    const { price, stock } = summarizeVariants(variants)
+    return { price, stock }
+  }
+
+  // A product's subcategory must belong to its category.
+  private async assertValidCategory(categoryId?: string, subcategoryId?: string) {
+    if (categoryId) {
+      const category = await adminDb.collection("categories").doc(categoryId).get()
+      if (!category.exists) throw new ValidationError("Category does not exist")
+    }
+    if (subcategoryId) {
+      const subcategory = await adminDb.collection("subcategories").doc(subcategoryId).get()
+      if (!subcategory.exists) throw new ValidationError("Subcategory does not exist")
+      if (subcategory.data()?.categoryId !== categoryId) {
+        throw new ValidationError("Subcategory does not belong to the selected category")
+      }
+    }
+  }
+}
+
+export const productRepository = new ProductRepository()
@@ -0,0 +1,138 @@
+import { v4 as uuidv4 } from "uuid"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import { ConflictError, NotFoundError } from "@/lib/errors"
+import {
+  type DiscountableLine,
+  type Promotion,
+  type PromotionUsage,
+  evaluatePromotions,
+  getPromotionStatus,
+} from "@/lib/promotions"
+import type { CheckoutPromotionsInput, PromotionInput } from "@/lib/schemas"
+import type { Actor } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+import { productRepository } from "./product-repository"
+import { fromSnapshot } from "./utils"
+
+export class PromotionRepository {
+  private collection = adminDb.collection("promotions")
+
+  async list(): Promise<Promotion[]> {
+    const snap = await this.collection.orderBy("createdAt", "desc").get()
+    return snap.docs.map((doc) => fromSnapshot<Promotion>(doc))
+  }
+
+  async get(id: string): Promise<Promotion> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Promotion not found")
+    return fromSnapshot<Promotion>(snap)
+  }
+
+  async create(input: PromotionInput, actor: Actor | null): Promise<Promotion> {
+    await this.assertCodeAvailable(input.code)
+    const id = uuidv4()
+    const data = { ...input, createdAt: new Date().toISOString() }
+    const batch = adminDb.batch()
+    batch.set(this.collection.doc(id), data)
+    auditRepository.record(batch, {
+      entityType: "promotion",
+      entityId: id,
+      entityName: input.name,
+      action: "create",
+      changes: diffFields(null, data),
+      actor,
+    })
+    await batch.commit()
+    return { ...data, id }
+  }
+
+  async update(id: string, input: PromotionInput, actor: Actor | null): Promise<Promotion> {
+    const existing = await this.get(id)
+    await this.assertCodeAvailable(input.code, id)
+    const data = { ...input, updatedAt: new Date().toISOString() }
+    const updated = { ...existing, ...data }
+    const batch = adminDb.batch()
+    batch.update(this.collection.doc(id), data)
+    auditRepository.record(batch, {
+      entityType: "promotion",
+      entityId: id,
+      entityName: updated.name,
+      action: "update",
+      changes: diffFields(existing, updated, ["updatedAt"]),
+      actor,
+    })
+    await batch.commit()
+    return updated
+  }
+
+  // Orders keep the promotions they used, so promotions can be removed at
+  // any time.
+  async delete(id: string, actor: Actor | null): Promise<void> {
+    const existing = await this.get(id)
+    const batch = adminDb.batch()
+    batch.delete(this.collection.doc(id))
+    auditRepository.record(batch, {
+      entityType: "promotion",
+      entityId: id,
+      entityName: existing.name,
+      action: "delete",
+      changes: diffFields(existing, null),
+      actor,
+    })
+    await batch.commit()
+  }
+
+  // How many orders used each promotion, and how many of them `userId`
+  // placed. Counted from the orders, as the storefront writes them.
+  async usage(promotionIds: string[], userId?: string | null): Promise<Map<string, PromotionUsage>> {
+    const orders = adminDb.collection("orders")
+    const counts = await Promise.all(
+      promotionIds.map(async (id) => {
+        const used = orders.where("promotionIds", "array-contains", id)
+        const [total, customer] = await Promise.all([
+          used.count().get(),
+          userId ? used.where("userId", "==", userId).count().get() : null,
+        ])
+        return [id, { total: total.data().count, customer: customer?.data().count ?? 0 }] as const
+      }),
+    )
+    return new Map(counts)
+  }
+
+  // The discounts a cart gets from automatic promotions and `codes`, for
+  // the customer `userId`, at the products' current prices. Every promotion
+  // is evaluated, so codes that aren't active say why.
+  async evaluate(input: CheckoutPromotionsInput, userId: string | null) {
+    const now = new Date()
+    const [promotions, lines] = await Promise.all([this.list(), this.discountableLines(input.products)])
+    const limited = promotions.filter(
+      (promotion) =>
+        getPromotionStatus(promotion, now) === "active" &&
+        (promotion.usageLimit !== null || promotion.perCustomerLimit !== null),
+    )
+    const usage = await this.usage(limited.map((promotion) => promotion.id), userId)
+    return evaluatePromotions(promotions, lines, { now, codes: input.codes, shipping: input.shipping, usage })
+  }
+
+  private async assertCodeAvailable(code: string | null, id?: string) {
+    if (!code) return
+    const snap = await this.collection.where("code", "==", code).get()
+    const other = snap.docs.find((doc) => doc.id !== id)
+    if (other) throw new ConflictError(`Code ${code} is already used by "${other.get("name")}"`)
+  }
+
+  private async discountableLines(lines: CheckoutPromotionsInput["products"]): Promise<DiscountableLine[]> {
+    const priced = await productRepository.priceLines(lines)
+    return priced.map(({ productId, price, quantity, product }) => ({
+      productId,
+      price,
+      quantity,
+      categoryId: product.categoryId,
+      subcategoryId: product.subcategoryId,
+      tagIds: product.tagIds,
+    }))
+  }
+}
+
+export const promotionRepository = new PromotionRepository()
@@ -0,0 +1,127 @@
+import type { DocumentReference, QuerySnapshot } from "firebase-admin/firestore"
+import { adminDb } from "@/lib/firebase-admin"
+import { createSearchAdapter, type SearchAdapter, type SearchDocument, type SearchOptions } from "@/lib/search"
+import type { Customer, Product } from "@/lib/types"
+import { fromSnapshot, productFromSnapshot } from "./utils"
+
+// Most results a list search pages through.
+export const MAX_SEARCH_RESULTS = 1000
+
+interface ProductLookups {
+  categories: Map<string, string>
+  subcategories: Map<string, string>
+  tags: Map<string, string>
+}
+
+// Keeps the search adapter in step with product and customer writes and
+// turns records into the documents it indexes.
+export class SearchRepository {
+  private adapter: SearchAdapter | null = null
+
+  search(query: string, options: SearchOptions) {
+    return this.getAdapter().search(query, options)
+  }
+
+  async indexProduct(product: Product) {
+    await this.sync(async () => {
+      const lookups = await this.productLookups(product)
+      await this.getAdapter().upsert([this.productDocument(product, lookups)])
+    })
+  }
+
+  async indexCustomer(customer: Customer) {
+    await this.sync(() => this.getAdapter().upsert([this.customerDocument(customer)]))
+  }
+
+  async removeProduct(id: string) {
+    await this.sync(() => this.getAdapter().remove("product", [id]))
+  }
+
+  // For changes that touch many documents at once, such as renaming a
+  // category or importing products.
+  async reset() {
+    await this.sync(() => this.getAdapter().reset())
+  }
+
+  private getAdapter() {
+    this.adapter ??= createSearchAdapter(() => this.documents())
+    return this.adapter
+  }
+
+  // Index updates run after the write they mirror has been committed, so a
+  // failure is logged rather than reported: the index catches up the next
+  // time it is rebuilt.
+  private async sync(update: () => Promise<void>) {
+    try {
+      await update()
+    } catch (error) {
+      console.error("Failed to update the search index:", error)
+    }
+  }
+
+  private async documents(): Promise<SearchDocument[]> {
+    const [products, customers, categories, subcategories, tags] = await Promise.all([
+      adminDb.collection("products").get(),
+      adminDb.collection("customers").get(),
+      adminDb.collection("categories").select("name").get(),
+      adminDb.collection("subcategories").select("name").get(),
+      adminDb.collection("tags").select("name").get(),
+    ])
+    const names = (snap: QuerySnapshot) =>
+      new Map(snap.docs.map((doc) => [doc.id, doc.get("name") as string]))
+    const lookups = { categories: names(categories), subcategories: names(subcategories), tags: names(tags) }
+
+    return [
+      ...products.docs.map((doc) => this.productDocument(productFromSnapshot(doc), lookups)),
+      ...customers.docs.map((doc) => this.customerDocument(fromSnapshot<Customer>(doc))),
+    ]
+  }
+
+  // Reads just the category, subcategory and tags one product uses.
+  private async productLookups(product: Product): Promise<ProductLookups> {
+    const refs = [
+      product.categoryId && adminDb.collection("categories").doc(product.categoryId),
+      product.subcategoryId && adminDb.collection("subcategories").doc(product.subcategoryId),
+      ...(product.tagIds ?? []).map((id) => adminDb.collection("tags").doc(id)),
+    ].filter((ref): ref is DocumentReference => !!ref)
+    const snaps = refs.length > 0 ? await adminDb.getAll(...refs) : []
+
+    const lookups: ProductLookups = { categories: new Map(), subcategories: new Map(), tags: new Map() }
+    snaps.forEach((snap) => {
+      if (!snap.exists) return
+      const collection = snap.ref.parent.id as "categories" | "subcategories" | "tags"
+      lookups[collection].set(snap.id, snap.get("name"))
+    })
+    return lookups
+  }
+
+  private productDocument(product: Product, lookups: ProductLookups): SearchDocument {
+    const category = lookups.categories.get(product.categoryId)
+    const subcategory = product.subcategoryId ? lookups.subcategories.get(product.subcategoryId) : undefined
+    return {
+      type: "product",
+      id: product.id,
+      title: product.name,
+      subtitle: [category, subcategory].filter(Boolean).join(" › ") || undefined,
+      fields: {
+        name: product.name,
+        sku: (product.variants ?? []).map((variant) => variant.sku).join(" "),
+        tags: (product.tagIds ?? []).map((id) => lookups.tags.get(id) ?? "").join(" "),
+        category: [category, subcategory].filter(Boolean).join(" "),
+        description: product.description,
+      },
+    }
+  }
+
+  private customerDocument(customer: Customer): SearchDocument {
+    return {
+      type: "customer",
+      id: customer.id,
+      title: customer.name,
+      subtitle: customer.email,
+      fields: { name: customer.name, email: customer.email },
+    }
+  }
+}
+
+export const searchRepository = new SearchRepository()
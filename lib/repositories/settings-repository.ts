@@ -0,0 +1,41 @@
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import type { StoreSettingsInput } from "@/lib/schemas"
+import { type StoreSettings, withDefaults } from "@/lib/settings"
+import type { Actor } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+
+export class SettingsRepository {
+  private ref = adminDb.collection("settings").doc("store")
+
+  // The saved settings, with defaults for anything never set.
+  async get(): Promise<StoreSettings> {
+    const snap = await this.ref.get()
+    return withDefaults(snap.data() as Partial<StoreSettings> | undefined)
+  }
+
+  async update(input: StoreSettingsInput, actor: Actor | null): Promise<StoreSettings> {
+    return adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(this.ref)
+      const current = withDefaults(snap.data() as Partial<StoreSettings> | undefined)
+      const updated: StoreSettings = {
+        ...current,
+        ...input,
+        updatedAt: new Date().toISOString(),
+        updatedBy: actor?.email ?? null,
+      }
+      tx.set(this.ref, updated)
+      auditRepository.record(tx, {
+        entityType: "settings",
+        entityId: "store",
+        entityName: "Store settings",
+        action: "update",
+        changes: diffFields(current, updated, ["updatedAt", "updatedBy"]),
+        actor,
+      })
+      return updated
+    })
+  }
+}
+
+export const settingsRepository = new SettingsRepository()
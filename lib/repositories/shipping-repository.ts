@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from "uuid"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import { NotFoundError } from "@/lib/errors"
+import type { CheckoutQuoteInput, ShippingZoneInput } from "@/lib/schemas"
+import { type ShippableLine, type ShippingDestination, type ShippingZone, quoteShipping } from "@/lib/shipping"
+import type { Actor, Order, Product } from "@/lib/types"
+import { parseWeight } from "@/lib/weight"
+import { addressRepository } from "./address-repository"
+import { auditRepository } from "./audit-repository"
+import { fromSnapshot } from "./utils"
+
+type QuoteLine = Pick<CheckoutQuoteInput["products"][number], "productId" | "variantId" | "quantity"> & { price: number }
+
+export class ShippingRepository {
+  private collection = adminDb.collection("shippingZones")
+
+  async list(): Promise<ShippingZone[]> {
+    const snap = await this.collection.orderBy("name").get()
+    return snap.docs.map((doc) => fromSnapshot<ShippingZone>(doc))
+  }
+
+  async get(id: string): Promise<ShippingZone> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Shipping zone not found")
+    return fromSnapshot<ShippingZone>(snap)
+  }
+
+  async create(input: ShippingZoneInput, actor: Actor | null): Promise<ShippingZone> {
+    const id = uuidv4()
+    const batch = adminDb.batch()
+    batch.set(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "shippingZone",
+      entityId: id,
+      entityName: input.name,
+      action: "create",
+      changes: diffFields(null, input),
+      actor,
+    })
+    await batch.commit()
+    return { ...input, id }
+  }
+
+  async update(id: string, input: Partial<ShippingZoneInput>, actor: Actor | null): Promise<ShippingZone> {
+    const existing = await this.get(id)
+    const updated = { ...existing, ...input }
+    const batch = adminDb.batch()
+    batch.update(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "shippingZone",
+      entityId: id,
+      entityName: updated.name,
+      action: "update",
+      changes: diffFields(existing, updated),
+      actor,
+    })
+    await batch.commit()
+    return updated
+  }
+
+  // Orders keep the zone and method they were shipped by, so zones can be
+  // removed at any time.
+  async delete(id: string, actor: Actor | null): Promise<void> {
+    const existing = await this.get(id)
+    const batch = adminDb.batch()
+    batch.delete(this.collection.doc(id))
+    auditRepository.record(batch, {
+      entityType: "shippingZone",
+      entityId: id,
+      entityName: existing.name,
+      action: "delete",
+      changes: diffFields(existing, null),
+      actor,
+    })
+    await batch.commit()
+  }
+
+  // Shipping methods and their prices for a cart delivered to
+  // `destination`, or null when no zone covers it. Each line weighs what its
+  // variant does, else its product.
+  async quote(lines: QuoteLine[], destination: ShippingDestination) {
+    const [zones, shippable] = await Promise.all([this.list(), this.shippableLines(lines)])
+    return quoteShipping(zones, shippable, destination)
+  }
+
+  // What shipping `order` would cost at today's rates, for orders that didn't
+  // record it. Null without a delivery address or a zone covering it.
+  async quoteOrder(order: Order) {
+    if (!order.shippingAddressId) return null
+    const address = await addressRepository.get(order.shippingAddressId).catch((error) => {
+      if (error instanceof NotFoundError) return null
+      throw error
+    })
+    if (!address) return null
+    return this.quote(order.products, {
+      country: address.country,
+      region: address.state,
+      postalCode: address.postalCode,
+    })
+  }
+
+  private async shippableLines(lines: QuoteLine[]): Promise<ShippableLine[]> {
+    const ids = [...new Set(lines.map((line) => line.productId))]
+    const snaps = ids.length > 0 ? await adminDb.getAll(...ids.map((id) => adminDb.collection("products").doc(id))) : []
+    const products = new Map(snaps.filter((snap) => snap.exists).map((snap) => [snap.id, fromSnapshot<Product>(snap)]))
+    return lines.map((line) => {
+      const product = products.get(line.productId)
+      const variant = product?.variants?.find((entry) => entry.id === line.variantId)
+      const weight = variant?.weight
+        ? parseWeight(variant.weight, variant.weightUnit)
+        : parseWeight(product?.weight, product?.weightUnit)
+      return { price: line.price, quantity: line.quantity, weight }
+    })
+  }
+}
+
+export const shippingRepository = new ShippingRepository()
@@ -0,0 +1,89 @@
+import { v4 as uuidv4 } from "uuid"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/errors"
+import type { SubCategoryInput } from "@/lib/schemas"
+import type { Actor, SubCategory } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+import { searchRepository } from "./search-repository"
+import { fromSnapshot } from "./utils"
+
+export class SubCategoryRepository {
+  private collection = adminDb.collection("subcategories")
+
+  async list(filters: { categoryId?: string } = {}): Promise<SubCategory[]> {
+    const query = filters.categoryId
+      ? this.collection.where("categoryId", "==", filters.categoryId)
+      : this.collection
+    const snap = await query.get()
+    return snap.docs.map((doc) => fromSnapshot<SubCategory>(doc))
+  }
+
+  async get(id: string): Promise<SubCategory> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Subcategory not found")
+    return fromSnapshot<SubCategory>(snap)
+  }
+
+  async create(input: SubCategoryInput, actor: Actor | null): Promise<SubCategory> {
+    await this.assertCategoryExists(input.categoryId)
+    const id = uuidv4()
+    const batch = adminDb.batch()
+    batch.set(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "subcategory",
+      entityId: id,
+      entityName: input.name,
+      action: "create",
+      changes: diffFields(null, input),
+      actor,
+    })
+    await batch.commit()
+    return { ...input, id }
+  }
+
+  async update(id: string, input: Partial<SubCategoryInput>, actor: Actor | null): Promise<SubCategory> {
+    const existing = await this.get(id)
+    if (input.categoryId) await this.assertCategoryExists(input.categoryId)
+    const updated = { ...existing, ...input }
+    const batch = adminDb.batch()
+    batch.update(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "subcategory",
+      entityId: id,
+      entityName: updated.name,
+      action: "update",
+      changes: diffFields(existing, updated),
+      actor,
+    })
+    await batch.commit()
+    if (input.name !== undefined && input.name !== existing.name) await searchRepository.reset()
+    return updated
+  }
+
+  async delete(id: string, actor: Actor | null): Promise<void> {
+    const existing = await this.get(id)
+    const products = await adminDb.collection("products").where("subcategoryId", "==", id).count().get()
+    if (products.data().count > 0) {
+      throw new ConflictError(`Subcategory has ${products.data().count} products`)
+    }
+    const batch = adminDb.batch()
+    batch.delete(this.collection.doc(id))
+    auditRepository.record(batch, {
+      entityType: "subcategory",
+      entityId: id,
+      entityName: existing.name,
+      action: "delete",
+      changes: diffFields(existing, null),
+      actor,
+    })
+    await batch.commit()
+  }
+
+  private async assertCategoryExists(categoryId: string) {
+    const category = await adminDb.collection("categories").doc(categoryId).get()
+    if (!category.exists) throw new ValidationError("Category does not exist")
+  }
+}
+
+export const subcategoryRepository = new SubCategoryRepository()
@@ -0,0 +1,102 @@
+import { v4 as uuidv4 } from "uuid"
+import { FieldValue } from "firebase-admin/firestore"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import { NotFoundError } from "@/lib/errors"
+import type { PageQuery } from "@/lib/pagination"
+import type { TagInput } from "@/lib/schemas"
+import { type TableFilters, matchesTagFilters } from "@/lib/table-filters"
+import type { Actor, Tag } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+import { searchRepository } from "./search-repository"
+import { fromSnapshot, paginate } from "./utils"
+
+export class TagRepository {
+  private collection = adminDb.collection("tags")
+
+  async list(): Promise<Tag[]> {
+    const snap = await this.collection.get()
+    return this.withProductCounts(snap.docs.map((doc) => fromSnapshot<Tag>(doc)))
+  }
+
+  async page(query: PageQuery, filters: TableFilters = {}) {
+    const { items, pageInfo } = await paginate<Tag>(
+      this.collection,
+      query,
+      filters.q ? (tag) => matchesTagFilters(tag, filters) : undefined,
+    )
+    return { items: await this.withProductCounts(items), pageInfo }
+  }
+
+  async get(id: string): Promise<Tag> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Tag not found")
+    return fromSnapshot<Tag>(snap)
+  }
+
+  async create(input: TagInput, actor: Actor | null): Promise<Tag> {
+    const id = uuidv4()
+    const batch = adminDb.batch()
+    batch.set(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "tag",
+      entityId: id,
+      entityName: input.name,
+      action: "create",
+      changes: diffFields(null, input),
+      actor,
+    })
+    await batch.commit()
+    return { ...input, id }
+  }
+
+  async update(id: string, input: Partial<TagInput>, actor: Actor | null): Promise<Tag> {
+    const existing = await this.get(id)
+    const updated = { ...existing, ...input }
+    const batch = adminDb.batch()
+    batch.update(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "tag",
+      entityId: id,
+      entityName: updated.name,
+      action: "update",
+      changes: diffFields(existing, updated),
+      actor,
+    })
+    await batch.commit()
+    if (input.name !== undefined && input.name !== existing.name) await searchRepository.reset()
+    return updated
+  }
+
+  // Deletes the tag and detaches it from every product that used it.
+  // Returns the number of products that were updated.
+  async delete(id: string, actor: Actor | null): Promise<number> {
+    const existing = await this.get(id)
+    const products = await adminDb.collection("products").where("tagIds", "array-contains", id).get()
+    const batch = adminDb.batch()
+    products.docs.forEach((doc) => batch.update(doc.ref, { tagIds: FieldValue.arrayRemove(id) }))
+    batch.delete(this.collection.doc(id))
+    auditRepository.record(batch, {
+      entityType: "tag",
+      entityId: id,
+      entityName: existing.name,
+      action: "delete",
+      changes: diffFields(existing, null),
+      actor,
+    })
+    await batch.commit()
+    if (products.size > 0) await searchRepository.reset()
+    return products.size
+  }
+
+  private withProductCounts(tags: Tag[]): Promise<Tag[]> {
+    return Promise.all(
+      tags.map(async (tag) => {
+        const products = await adminDb.collection("products").where("tagIds", "array-contains", tag.id).count().get()
+        return { ...tag, productCount: products.data().count }
+      }),
+    )
+  }
+}
+
+export const tagRepository = new TagRepository()
@@ -0,0 +1,126 @@
+import { v4 as uuidv4 } from "uuid"
+import { adminDb } from "@/lib/firebase-admin"
+import { diffFields } from "@/lib/audit"
+import { ConflictError, NotFoundError } from "@/lib/errors"
+import type { CheckoutQuoteInput, TaxClassInput } from "@/lib/schemas"
+import { type TaxClass, type TaxRegion, type TaxableLine, calculateTax } from "@/lib/tax"
+import type { Actor } from "@/lib/types"
+import { auditRepository } from "./audit-repository"
+import { settingsRepository } from "./settings-repository"
+import { fromSnapshot } from "./utils"
+
+export class TaxRepository {
+  private collection = adminDb.collection("taxClasses")
+
+  async list(): Promise<TaxClass[]> {
+    const snap = await this.collection.get()
+    return snap.docs.map((doc) => fromSnapshot<TaxClass>(doc))
+  }
+
+  async get(id: string): Promise<TaxClass> {
+    const snap = await this.collection.doc(id).get()
+    if (!snap.exists) throw new NotFoundError("Tax class not found")
+    return fromSnapshot<TaxClass>(snap)
+  }
+
+  async create(input: TaxClassInput, actor: Actor | null): Promise<TaxClass> {
+    const id = uuidv4()
+    const batch = adminDb.batch()
+    batch.set(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "taxClass",
+      entityId: id,
+      entityName: input.name,
+      action: "create",
+      changes: diffFields(null, input),
+      actor,
+    })
+    await batch.commit()
+    return { ...input, id }
+  }
+
+  async update(id: string, input: Partial<TaxClassInput>, actor: Actor | null): Promise<TaxClass> {
+    const existing = await this.get(id)
+    const updated = { ...existing, ...input }
+    const batch = adminDb.batch()
+    batch.update(this.collection.doc(id), input)
+    auditRepository.record(batch, {
+      entityType: "taxClass",
+      entityId: id,
+      entityName: updated.name,
+      action: "update",
+      changes: diffFields(existing, updated),
+      actor,
+    })
+    await batch.commit()
+    return updated
+  }
+
+  // Classes still assigned to products or categories cannot be removed.
+  async delete(id: string, actor: Actor | null): Promise<void> {
+    const existing = await this.get(id)
+    const [products, categories] = await Promise.all(
+      ["products", "categories"].map(async (collection) => {
+        const snap = await adminDb.collection(collection).where("taxClassId", "==", id).count().get()
+        return snap.data().count
+      }),
+    )
+    if (products > 0) throw new ConflictError(`Tax class is used by ${products} products`)
+    if (categories > 0) throw new ConflictError(`Tax class is used by ${categories} categories`)
+    const batch = adminDb.batch()
+    batch.delete(this.collection.doc(id))
+    auditRepository.record(batch, {
+      entityType: "taxClass",
+      entityId: id,
+      entityName: existing.name,
+      action: "delete",
+      changes: diffFields(existing, null),
+      actor,
+    })
+    await batch.commit()
+  }
+
+  // Tax on a cart delivered to `region`, with the store's settings. Each
+  // product is taxed by its own class, else its category's.
+  async quote(lines: (CheckoutQuoteInput["products"][number] & { price: number })[], region: TaxRegion) {
+    const [settings, classes, taxClassIds] = await Promise.all([
+      settingsRepository.get(),
+      this.list(),
+      this.productTaxClasses(lines.map((line) => line.productId)),
+    ])
+    const taxable: TaxableLine[] = lines.map((line) => ({
+      price: line.price,
+      quantity: line.quantity,
+      discount: line.discount,
+      taxClassId: taxClassIds.get(line.productId),
+    }))
+    return calculateTax(taxable, {
+      pricesIncludeTax: settings.tax.pricesIncludeTax,
+      defaultRate: settings.tax.defaultRate,
+      classes: new Map(classes.map((taxClass) => [taxClass.id, taxClass])),
+      region,
+    })
+  }
+
+  // The tax class of each product, from the product or else its category.
+  private async productTaxClasses(productIds: string[]) {
+    const ids = [...new Set(productIds)]
+    const products = ids.length > 0 ? await adminDb.getAll(...ids.map((id) => adminDb.collection("products").doc(id))) : []
+    const categoryIds = [
+      ...new Set(products.map((snap) => snap.get("categoryId") as string | undefined).filter((id): id is string => !!id)),
+    ]
+    const categories =
+      categoryIds.length > 0
+        ? await adminDb.getAll(...categoryIds.map((id) => adminDb.collection("categories").doc(id)))
+        : []
+    const categoryClasses = new Map(categories.map((snap) => [snap.id, snap.get("taxClassId") as string | undefined]))
+    return new Map(
+      products.map((snap) => [
+        snap.id,
+        (snap.get("taxClassId") as string | undefined) || categoryClasses.get(snap.get("categoryId")) || null,
+      ]),
+    )
+  }
+}
+
+export const taxRepository = new TaxRepository()
@@ -0,0 +1,152 @@
+import type { UserRecord } from "firebase-admin/auth"
+import type {
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  Query,
+  QueryDocumentSnapshot,
+  WithFieldValue,
+} from "firebase-admin/firestore"
+import { adminAuth } from "@/lib/firebase-admin"
+import { DEFAULT_CURRENCY, readMinorUnits } from "@/lib/money"
+import type { PageInfo, PageQuery } from "@/lib/pagination"
+import type { Order, Product } from "@/lib/types"
+
+export function fromSnapshot<T extends { id: string }>(snap: DocumentSnapshot): T {
+  return { ...snap.data(), id: snap.id } as T
+}
+
+// Products and orders saved before amounts were stored in minor units hold
+// decimal strings, and such orders have no currency. These read either shape.
+export function productFromSnapshot(snap: DocumentSnapshot): Product {
+  const product = fromSnapshot<Product>(snap)
+  return {
+    ...product,
+    price: readMinorUnits(product.price, DEFAULT_CURRENCY),
+    ...(product.variants && {
+      variants: product.variants.map((variant) => ({
+        ...variant,
+        price: readMinorUnits(variant.price, DEFAULT_CURRENCY),
+      })),
+    }),
+  }
+}
+
+export function orderFromSnapshot(snap: DocumentSnapshot): Order {
+  const order = fromSnapshot<Order>(snap)
+  const currency = order.currency ?? DEFAULT_CURRENCY
+  return {
+    ...order,
+    currency,
+    products: (order.products ?? []).map((line) => ({ ...line, price: readMinorUnits(line.price, currency) })),
+    subtotal: readMinorUnits(order.subtotal, currency),
+    totalAmount: readMinorUnits(order.totalAmount, currency),
+  }
+}
+
+// The `set` that transactions and batches share. Their own overloads differ,
+// so TypeScript can't call `set` on a `Transaction | WriteBatch` union.
+export interface DocumentWriter {
+  set(ref: DocumentReference, data: WithFieldValue<DocumentData>): unknown
+}
+
+// Writes a document as part of either a transaction or a batch.
+export function setDocument(writer: DocumentWriter, ref: DocumentReference, data: object) {
+  writer.set(ref, data)
+}
+
+// Searches are matched in memory, so they read this many documents at a
+// time until a page is full.
+const SCAN_SIZE = 200
+
+// Reads one page of `collection` sorted by `page.sort`, walking forwards
+// from `after` or backwards from `before`. A cursor whose document has since
+// been deleted falls back to the first page. Documents failing `matches` are
+// skipped, reading further until the page is full. `read` turns each
+// document into an item. `where` narrows the query itself, for filters
+// Firestore can apply; the total then counts only matching documents.
+export async function paginate<T extends { id: string }>(
+  collection: CollectionReference,
+  page: PageQuery,
+  matches?: (item: T) => boolean,
+  read: (snap: DocumentSnapshot) => T = fromSnapshot<T>,
+  where: (query: Query) => Query = (query) => query,
+): Promise<{ items: T[]; pageInfo: PageInfo }> {
+  const query = where(collection).orderBy(page.sort, page.direction)
+  const cursorId = page.before ?? page.after
+  const cursorSnap = cursorId ? await collection.doc(cursorId).get() : null
+  const cursor = cursorSnap?.exists ? cursorSnap : null
+  const backwards = !!page.before && !!cursor
+
+  // Read one more than a page to learn whether another page follows.
+  const found: T[] = []
+  const scanSize = matches ? Math.max(SCAN_SIZE, page.pageSize + 1) : page.pageSize + 1
+  let position: DocumentSnapshot | null = cursor
+  while (found.length <= page.pageSize) {
+    let scan = query
+    if (position) scan = backwards ? scan.endBefore(position) : scan.startAfter(position)
+    const snap = await (backwards ? scan.limitToLast(scanSize) : scan.limit(scanSize)).get()
+    const docs: QueryDocumentSnapshot[] = backwards ? [...snap.docs].reverse() : snap.docs
+    for (const doc of docs) {
+      position = doc
+      const item = read(doc)
+      if (!matches || matches(item)) found.push(item)
+      if (found.length > page.pageSize) break
+    }
+    if (snap.size < scanSize) break
+  }
+
+  const hasMore = found.length > page.pageSize
+  const items = found.slice(0, page.pageSize)
+  if (backwards) items.reverse()
+  const first = items[0]?.id ?? null
+  const last = items[items.length - 1]?.id ?? null
+
+  const total = matches ? null : (await query.count().get()).data().count
+  return {
+    items,
+    pageInfo: backwards
+      ? { prevCursor: hasMore ? first : null, nextCursor: last, total }
+      : { prevCursor: cursor ? first : null, nextCursor: hasMore ? last : null, total },
+  }
+}
+
+// Pages through an ordered list of document IDs, such as ranked search
+// results, with the same cursors as `paginate`.
+export async function paginateIds<T extends { id: string }>(
+  collection: CollectionReference,
+  ids: string[],
+  page: PageQuery,
+  read: (snap: DocumentSnapshot) => T = fromSnapshot<T>,
+): Promise<{ items: T[]; pageInfo: PageInfo }> {
+  const afterIndex = page.after ? ids.indexOf(page.after) : -1
+  const beforeIndex = page.before ? ids.indexOf(page.before) : -1
+  let start = afterIndex >= 0 ? afterIndex + 1 : 0
+  let end = start + page.pageSize
+  if (afterIndex < 0 && beforeIndex >= 0) {
+    end = beforeIndex
+    start = Math.max(0, end - page.pageSize)
+  }
+
+  const pageIds = ids.slice(start, end)
+  const snaps = pageIds.length > 0 ? await collection.firestore.getAll(...pageIds.map((id) => collection.doc(id))) : []
+  return {
+    items: snaps.filter((snap) => snap.exists).map((snap) => read(snap)),
+    pageInfo: {
+      prevCursor: start > 0 ? (pageIds[0] ?? null) : null,
+      nextCursor: end < ids.length ? (pageIds[pageIds.length - 1] ?? null) : null,
+      total: ids.length,
+    },
+  }
+}
+
+// The Firebase Auth account for `email`, or null when there is none.
+export async function findUserByEmail(email: string): Promise<UserRecord | null> {
+  try {
+    return await adminAuth.getUserByEmail(email)
+  } catch (error: any) {
+    if (error?.code === "auth/user-not-found") return null
+    throw error
+  }
+}
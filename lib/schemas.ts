@@ -0,0 +1,489 @@
+import { z } from "zod"
+import { type AuditEntityType, AUDIT_ENTITY_TYPES } from "@/lib/audit"
+import { type Granularity, GRANULARITIES, MAX_RANGE_DAYS, daysBetween } from "@/lib/analytics"
+import { CUSTOMER_STATUSES } from "@/lib/customer-status"
+import { type DraftPaymentMethod, DRAFT_PAYMENT_METHODS } from "@/lib/draft-orders"
+import { type ExportFormat, EXPORT_FORMATS } from "@/lib/export"
+import { type InventoryMovementType, INVENTORY_MOVEMENT_TYPES } from "@/lib/inventory"
+import { CURRENCIES } from "@/lib/money"
+import { type FulfillmentStatus, FULFILLMENT_STATUSES } from "@/lib/order-fulfillment"
+import { type PaymentEventStatus, PAYMENT_EVENT_STATUSES } from "@/lib/payment-events"
+import { type PaginatedResource, DEFAULT_PAGE_SIZE, SORT_FIELDS } from "@/lib/pagination"
+import { type ImportField, IMPORT_FIELDS, MAX_IMPORT_ROWS } from "@/lib/product-import"
+import {
+  type PromotionScope,
+  type PromotionType,
+  PROMOTION_SCOPES,
+  PROMOTION_TYPES,
+  normalizeCode,
+} from "@/lib/promotions"
+import { type Role, ROLES } from "@/lib/permissions"
+import { type RefundReason, REFUND_REASONS } from "@/lib/refunds"
+import { type SearchEntityType, SEARCH_ENTITY_TYPES } from "@/lib/search/types"
+import { type ShippingRateBasis, SHIPPING_RATE_BASES } from "@/lib/shipping"
+import type { CustomerStatus } from "@/lib/types"
+import { type WeightUnit, WEIGHT_UNITS } from "@/lib/weight"
+
+// Amounts in minor units of the store currency; see lib/money.ts.
+const minorUnits = z.number().int("Must be a whole number of minor units").min(0, "Must be a positive amount")
+const integerString = z.string().regex(/^\d+$/, "Must be a whole number")
+const optionalNumberString = z.union([z.literal(""), z.string().regex(/^\d+(\.\d+)?$/, "Must be a number")])
+
+const weightUnitSchema = z.enum(WEIGHT_UNITS as [WeightUnit, ...WeightUnit[]])
+
+export const productOptionSchema = z.object({
+  name: z.string().trim().min(1, "Option name is required"),
+  values: z.array(z.string().trim().min(1)).min(1, "Option needs at least one value"),
+})
+
+export const productVariantSchema = z.object({
+  id: z.string().min(1),
+  sku: z.string().trim().min(1, "SKU is required"),
+  options: z.record(z.string()),
+  price: minorUnits,
+  stock: integerString,
+  weight: optionalNumberString.default(""),
+  weightUnit: weightUnitSchema.default("g"),
+})
+
+export const productSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  description: z.string().default(""),
+  image: z.string().default(""),
+  image2: z.string().default(""),
+  image3: z.string().default(""),
+  price: minorUnits,
+  stock: integerString,
+  rating: z.string().default("0"),
+  date: z.string().datetime().default(() => new Date().toISOString()),
+  categoryId: z.string().default(""),
+  subcategoryId: z.string().default(""),
+  tagIds: z.array(z.string()).default([]),
+  productDetails: z.array(z.string().trim().min(1)).default([]),
+  weight: optionalNumberString.default(""),
+  weightUnit: weightUnitSchema.default("g"),
+  options: z.array(productOptionSchema).default([]),
+  variants: z.array(productVariantSchema).default([]),
+  lowStockThreshold: z.union([z.literal(""), integerString]).default(""),
+  taxClassId: z.string().default(""),
+})
+
+export const categorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  image: z.string().default(""),
+  heroImage: z.string().default(""),
+  taxClassId: z.string().default(""),
+})
+
+export const subcategorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  categoryId: z.string().min(1, "Category is required"),
+})
+
+export const tagSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+})
+
+const taxRatePercent = z.number().min(0, "Tax rate must be zero or more").max(100, "Tax rate can be at most 100%")
+
+export const taxRateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Rate name is required"),
+  country: z.string().trim().default(""),
+  region: z.string().trim().default(""),
+  rate: taxRatePercent,
+})
+
+export const taxClassSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  rates: z
+    .array(taxRateSchema)
+    .default([])
+    .refine(
+      (rates) => new Set(rates.map((rate) => `${rate.country.toLowerCase()}|${rate.region.toLowerCase()}`)).size === rates.length,
+      "Each region can only have one rate",
+    ),
+})
+
+export const shippingRateSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1, "Method name is required"),
+    basis: z.enum(SHIPPING_RATE_BASES as [ShippingRateBasis, ...ShippingRateBasis[]]),
+    min: z.number().min(0, "Band minimum must be zero or more"),
+    max: z.number().nullable().default(null),
+    price: minorUnits,
+  })
+  .refine((rate) => rate.max === null || rate.max >= rate.min, {
+    message: "Band maximum must be at least its minimum",
+    path: ["max"],
+  })
+
+const zoneEntries = z.array(z.string().trim().min(1)).default([])
+
+export const shippingZoneSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  countries: zoneEntries,
+  regions: zoneEntries,
+  postalCodes: z
+    .array(z.string().trim().regex(/^[A-Za-z0-9 *-]+$/, "Postal codes may only use letters, digits, spaces, - and *"))
+    .default([]),
+  rates: z.array(shippingRateSchema).default([]),
+  freeShippingThreshold: minorUnits.nullable().default(null),
+})
+
+// A cart line sent by the storefront. Lines are priced from the products,
+// so prices sent with them are ignored.
+const checkoutLineSchema = z.object({
+  productId: z.string().min(1),
+  variantId: z.string().optional(),
+  quantity: z.number().int().positive(),
+})
+
+// What the storefront sends to price tax and shipping at checkout: the cart,
+// with each line's discount from its promotions, and where it is going.
+export const checkoutQuoteSchema = z.object({
+  products: z.array(checkoutLineSchema.extend({ discount: minorUnits.default(0) })).min(1, "The cart is empty"),
+  country: z.string().trim().min(1, "Country is required"),
+  region: z.string().trim().default(""),
+  postalCode: z.string().trim().default(""),
+})
+
+// What the storefront sends to apply promotions at checkout: the cart, the
+// codes entered and the shipping charge, for free-shipping promotions.
+export const checkoutPromotionsSchema = z.object({
+  products: z.array(checkoutLineSchema).min(1, "The cart is empty"),
+  codes: z.array(z.string()).default([]),
+  shipping: minorUnits.default(0),
+})
+
+// Blank codes make a promotion automatic.
+const promotionCode = z
+  .string()
+  .transform(normalizeCode)
+  .refine((code) => code === "" || /^[A-Z0-9_-]{3,32}$/.test(code), "Codes are 3 to 32 letters, digits, - or _")
+  .transform((code) => code || null)
+
+const usageLimit = z.number().int().min(1, "Limits must be at least 1").nullable().default(null)
+
+// Sent whole on updates too, as its fields are checked against each other.
+export const promotionSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    code: promotionCode.nullable().default(null),
+    active: z.boolean().default(true),
+    type: z.enum(PROMOTION_TYPES as [PromotionType, ...PromotionType[]]),
+    value: z.number().min(0).default(0),
+    buyQuantity: z.number().int().min(1, "Buy at least 1").default(1),
+    getQuantity: z.number().int().min(1, "Get at least 1").default(1),
+    scope: z.enum(PROMOTION_SCOPES as [PromotionScope, ...PromotionScope[]]).default("all"),
+    scopeIds: z.array(z.string().min(1)).default([]),
+    minimumSubtotal: minorUnits.nullable().default(null),
+    startsAt: z.string().datetime().nullable().default(null),
+    endsAt: z.string().datetime().nullable().default(null),
+    usageLimit,
+    perCustomerLimit: usageLimit,
+    combinable: z.boolean().default(false),
+    priority: z.number().int().default(0),
+  })
+  .superRefine((input, ctx) => {
+    if ((input.type === "percentage" || input.type === "buyXGetY") && (input.value <= 0 || input.value > 100)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Percent must be more than 0 and at most 100",
+        path: ["value"],
+      })
+    }
+    if (input.type === "fixed" && (input.value <= 0 || !Number.isInteger(input.value))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Amount must be more than 0", path: ["value"] })
+    }
+    if (input.scope !== "all" && input.scopeIds.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choose what the promotion applies to", path: ["scopeIds"] })
+    }
+    if (input.startsAt && input.endsAt && input.endsAt <= input.startsAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End must be after the start", path: ["endsAt"] })
+    }
+  })
+
+export const shipmentSchema = z.object({
+  courier: z.string().min(1, "Courier is required"),
+  trackingNumber: z.string().trim().min(1, "Tracking number is required"),
+  estimatedDeliveryDate: z.string().date(),
+})
+
+export const fulfillmentTransitionSchema = z.object({
+  status: z.enum(FULFILLMENT_STATUSES as [FulfillmentStatus, ...FulfillmentStatus[]]),
+  shipment: shipmentSchema.optional(),
+})
+
+export const refundSchema = z
+  .object({
+    lines: z
+      .array(
+        z.object({
+          productId: z.string().min(1),
+          variantId: z.string().min(1).optional(),
+          quantity: z.number().int().positive("Quantity must be at least 1"),
+        }),
+      )
+      .default([]),
+    // Refunded on top of the lines, in minor units of the order currency.
+    customAmount: minorUnits.default(0),
+    reason: z.enum(REFUND_REASONS as [RefundReason, ...RefundReason[]]),
+    note: z.string().trim().max(500).default(""),
+    restock: z.boolean().default(false),
+  })
+  .refine((input) => input.lines.length > 0 || input.customAmount > 0, {
+    message: "Choose items or an amount to refund",
+    path: ["lines"],
+  })
+
+const draftOrderLineSchema = z.object({
+  productId: z.string().min(1),
+  variantId: z.string().min(1).optional(),
+  quantity: z.number().int().positive("Quantity must be at least 1"),
+})
+
+const destinationSchema = z.object({
+  country: z.string().trim().min(1, "Country is required"),
+  region: z.string().trim().default(""),
+  postalCode: z.string().trim().default(""),
+})
+
+// What the order builder sends to price a draft as it changes. The
+// customer is null while they are new, and the destination while no
+// address is chosen.
+export const draftOrderQuoteSchema = z.object({
+  userId: z.string().min(1).nullable().default(null),
+  destination: destinationSchema.nullable().default(null),
+  lines: z.array(draftOrderLineSchema).min(1, "Add at least one product"),
+  codes: z.array(z.string()).default([]),
+  shippingRateId: z.string().min(1).nullable().default(null),
+})
+
+export const draftOrderSchema = z.object({
+  customer: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("existing"), userId: z.string().min(1) }),
+    z.object({
+      type: z.literal("new"),
+      name: z.string().trim().min(1, "Name is required"),
+      email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+    }),
+  ]),
+  address: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("existing"), addressId: z.string().min(1) }),
+    z.object({
+      type: z.literal("new"),
+      label: z.string().trim().default("Home"),
+      street: z.string().trim().min(1, "Street is required"),
+      city: z.string().trim().min(1, "City is required"),
+      state: z.string().trim().default(""),
+      postalCode: z.string().trim().default(""),
+      country: z.string().trim().min(1, "Country is required"),
+    }),
+  ]),
+  lines: z.array(draftOrderLineSchema).min(1, "Add at least one product"),
+  codes: z.array(z.string()).default([]),
+  shippingRateId: z.string().min(1, "Choose a shipping method"),
+  payment: z.enum(DRAFT_PAYMENT_METHODS as [DraftPaymentMethod, ...DraftPaymentMethod[]]),
+  note: z.string().trim().max(500).default(""),
+})
+
+export const customerStatusSchema = z
+  .object({
+    status: z.enum(CUSTOMER_STATUSES as [CustomerStatus, ...CustomerStatus[]]),
+    reason: z.string().trim().min(1, "Reason is required"),
+    suspendedUntil: z.string().date().nullish(),
+  })
+  .refine((input) => input.status === "suspend" || !input.suspendedUntil, {
+    message: "Only suspensions can have an end date",
+    path: ["suspendedUntil"],
+  })
+  .refine((input) => !input.suspendedUntil || new Date(input.suspendedUntil) > new Date(), {
+    message: "Suspension end date must be in the future",
+    path: ["suspendedUntil"],
+  })
+
+export const inventoryMovementSchema = z
+  .object({
+    type: z.enum(INVENTORY_MOVEMENT_TYPES as [InventoryMovementType, ...InventoryMovementType[]]),
+    quantity: z.number().int().refine((value) => value !== 0, "Quantity must not be zero"),
+    reason: z.string().trim().min(1, "Reason is required"),
+    variantId: z.string().optional(),
+  })
+  .refine((input) => input.type === "adjustment" || input.quantity > 0, {
+    message: "Quantity must be positive",
+    path: ["quantity"],
+  })
+
+const roleSchema = z.enum(ROLES as [Role, ...Role[]])
+
+export const staffInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  name: z.string().trim().default(""),
+  role: roleSchema,
+})
+
+export const staffUpdateSchema = z.object({
+  role: roleSchema.optional(),
+  status: z.enum(["active", "disabled"]).optional(),
+})
+
+export const auditQuerySchema = pageQuerySchema("audit").extend({
+  entityType: z.enum(AUDIT_ENTITY_TYPES as [AuditEntityType, ...AuditEntityType[]]).optional(),
+  entityId: z.string().min(1).optional(),
+})
+
+export const paymentEventQuerySchema = z.object({
+  status: z.enum(PAYMENT_EVENT_STATUSES as [PaymentEventStatus, ...PaymentEventStatus[]]).optional(),
+  limit: z.coerce.number().int().positive().max(500).optional(),
+})
+
+export const productImportSchema = z
+  .object({
+    // The header row followed by the data rows.
+    rows: z
+      .array(z.array(z.string()))
+      .min(2, "The file has no data rows")
+      .max(MAX_IMPORT_ROWS + 1, `Import at most ${MAX_IMPORT_ROWS} rows at a time`),
+    // Each row's number in the uploaded file, which skips blank rows.
+    rowNumbers: z.array(z.number().int().positive()),
+    mapping: z
+      .record(
+        z.enum(IMPORT_FIELDS.map(({ field }) => field) as [ImportField, ...ImportField[]]),
+        z.number().int().min(0),
+      )
+      .refine((mapping) => mapping.name !== undefined || mapping.id !== undefined, "Map a column to Name or Product ID"),
+    createMissing: z.boolean().default(false),
+    dryRun: z.boolean().default(true),
+  })
+  .refine((input) => input.rowNumbers.length === input.rows.length, {
+    message: "Every row needs its row number",
+    path: ["rowNumbers"],
+  })
+
+// Query string of an export download. Column keys are checked against the
+// exported resource by the route.
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS.map(({ format }) => format) as [ExportFormat, ...ExportFormat[]]).default("csv"),
+  columns: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").filter(Boolean) : [])),
+  q: z.string().trim().optional(),
+  overdueDays: z.coerce.number().int().positive().optional(),
+})
+
+// Query string of one page of a list table. Which fields can be sorted
+// depends on the list.
+export function pageQuerySchema(resource: PaginatedResource) {
+  const { fields, sort, direction } = SORT_FIELDS[resource]
+  return z.object({
+    pageSize: z.coerce.number().int().min(1).max(100).default(DEFAULT_PAGE_SIZE),
+    after: z.string().min(1).optional(),
+    before: z.string().min(1).optional(),
+    sort: z.enum(fields as [string, ...string[]]).default(sort),
+    direction: z.enum(["asc", "desc"]).default(direction),
+    q: z
+      .string()
+      .trim()
+      .optional()
+      .transform((value) => value || undefined),
+  })
+}
+
+export const analyticsQuerySchema = z
+  .object({
+    from: z.string().date(),
+    to: z.string().date(),
+    granularity: z.enum(GRANULARITIES as [Granularity, ...Granularity[]]).default("day"),
+  })
+  .refine((input) => input.from <= input.to, { message: "Start date must be before end date", path: ["from"] })
+  .refine((input) => daysBetween(input.from, input.to) < MAX_RANGE_DAYS, {
+    message: `Date range can cover at most ${MAX_RANGE_DAYS} days`,
+    path: ["to"],
+  })
+
+// Query string of the tax report; with `format` it is downloaded instead.
+export const taxReportQuerySchema = analyticsQuerySchema.and(
+  z.object({
+    format: z.enum(EXPORT_FORMATS.map(({ format }) => format) as [ExportFormat, ...ExportFormat[]]).optional(),
+  }),
+)
+
+// A rollup job refreshes the last `days` days, or rebuilds every rollup when
+// `backfill` is set.
+export const rollupJobSchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_RANGE_DAYS).default(2),
+  backfill: z
+    .string()
+    .optional()
+    .transform((value) => value === "1" || value === "true"),
+})
+
+const currencySchema = z.enum(CURRENCIES as [string, ...string[]])
+
+const isTimeZone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const storeSettingsSchema = z
+  .object({
+    name: z.string().trim().min(1, "Store name is required"),
+    contactEmail: z.union([z.literal(""), z.string().trim().email("Invalid contact email")]).default(""),
+    logo: z.union([z.literal(""), z.string().url("Logo must be a URL")]).default(""),
+    currency: currencySchema,
+    locale: z
+      .string()
+      .trim()
+      .min(1, "Locale is required")
+      .refine((locale) => Intl.NumberFormat.supportedLocalesOf(locale).length > 0, "Unsupported locale"),
+    timezone: z.string().trim().refine(isTimeZone, "Unknown time zone"),
+    displayCurrency: currencySchema.nullable().default(null),
+    exchangeRates: z.record(currencySchema, z.number().positive("Rates must be positive")).default({}),
+    weightUnit: weightUnitSchema,
+    lowStockThreshold: z.number().int("Must be a whole number").min(0, "Must be zero or more"),
+    tax: z.object({
+      pricesIncludeTax: z.boolean(),
+      defaultRate: taxRatePercent,
+    }),
+  })
+  .refine(
+    (input) =>
+      !input.displayCurrency || input.displayCurrency === input.currency || !!input.exchangeRates[input.displayCurrency],
+    { message: "Add an exchange rate for the display currency", path: ["displayCurrency"] },
+  )
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search text is required"),
+  types: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").filter(Boolean) : SEARCH_ENTITY_TYPES))
+    .pipe(z.array(z.enum(SEARCH_ENTITY_TYPES as [SearchEntityType, ...SearchEntityType[]]))),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+})
+
+export type ProductInput = z.infer<typeof productSchema>
+export type CategoryInput = z.infer<typeof categorySchema>
+export type SubCategoryInput = z.infer<typeof subcategorySchema>
+export type TagInput = z.infer<typeof tagSchema>
+export type TaxClassInput = z.infer<typeof taxClassSchema>
+export type ShippingZoneInput = z.infer<typeof shippingZoneSchema>
+export type CheckoutQuoteInput = z.infer<typeof checkoutQuoteSchema>
+export type CheckoutPromotionsInput = z.infer<typeof checkoutPromotionsSchema>
+export type PromotionInput = z.infer<typeof promotionSchema>
+export type ShipmentInput = z.infer<typeof shipmentSchema>
+export type RefundInput = z.infer<typeof refundSchema>
+export type DraftOrderQuoteInput = z.infer<typeof draftOrderQuoteSchema>
+export type DraftOrderInput = z.infer<typeof draftOrderSchema>
+export type CustomerStatusInput = z.infer<typeof customerStatusSchema>
+export type StaffInviteInput = z.infer<typeof staffInviteSchema>
+export type StaffUpdateInput = z.infer<typeof staffUpdateSchema>
+export type StoreSettingsInput = z.infer<typeof storeSettingsSchema>
@@ -0,0 +1,26 @@
+import { LocalSearchAdapter } from "./local"
+import type { SearchAdapter, SearchDocument } from "./types"
+
+export type {
+  SearchAdapter,
+  SearchDocument,
+  SearchEntityType,
+  SearchField,
+  SearchHit,
+  SearchOptions,
+} from "./types"
+export { SEARCH_ENTITY_TYPES } from "./types"
+
+// Register new search adapters here and select one with SEARCH_ADAPTER.
+// `load` returns every searchable document, for adapters that build their
+// index from Firestore.
+const adapters: Record<string, (load: () => Promise<SearchDocument[]>) => SearchAdapter> = {
+  local: (load) => new LocalSearchAdapter(load),
+}
+
+export function createSearchAdapter(load: () => Promise<SearchDocument[]>) {
+  const id = process.env.SEARCH_ADAPTER || "local"
+  const create = adapters[id]
+  if (!create) throw new Error(`Unknown search adapter "${id}"`)
+  return create(load)
+}
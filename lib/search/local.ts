@@ -0,0 +1,153 @@
+import { allowedTypos, editDistance, normalize, tokenize } from "./text"
+import type { SearchAdapter, SearchDocument, SearchEntityType, SearchField, SearchHit, SearchOptions } from "./types"
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  sku: 3,
+  email: 3,
+  tags: 2,
+  category: 2,
+  description: 1,
+}
+
+// How well a query word matches an indexed word.
+const EXACT = 1
+const PREFIX = 0.8
+const TYPO = 0.6
+const TYPO_PREFIX = 0.5
+
+// Documents written by other server instances, or by the storefront, are
+// picked up when the index is next rebuilt.
+const MAX_AGE = 5 * 60 * 1000
+
+type DocumentKey = string
+
+const keyOf = (type: SearchEntityType, id: string): DocumentKey => `${type}:${id}`
+
+// An in-memory inverted index over every product and customer, built from
+// Firestore on first use. Good for stores with up to tens of thousands of
+// documents; larger stores should plug in a hosted search service.
+export class LocalSearchAdapter implements SearchAdapter {
+  id = "local"
+
+  private documents = new Map<DocumentKey, SearchDocument>()
+  // Word -> documents containing it, with the weight of the heaviest field
+  // it appears in.
+  private postings = new Map<string, Map<DocumentKey, number>>()
+  private loadedAt = 0
+  private loading: Promise<void> | null = null
+
+  constructor(private load: () => Promise<SearchDocument[]>) {}
+
+  async search(query: string, { types, limit }: SearchOptions): Promise<SearchHit[]> {
+    const words = tokenize(query)
+    if (words.length === 0) return []
+    await this.ensureLoaded()
+
+    // Every query word must match; a document's score is the sum of each
+    // word's best match. Only the last word, the one being typed, matches
+    // as a short prefix.
+    let scores = this.matchWord(words[0], words.length === 1)
+    for (let i = 1; i < words.length; i++) {
+      const matches = this.matchWord(words[i], i === words.length - 1)
+      const next = new Map<DocumentKey, number>()
+      scores.forEach((score, key) => {
+        const match = matches.get(key)
+        if (match !== undefined) next.set(key, score + match)
+      })
+      scores = next
+    }
+
+    const phrase = normalize(query.trim())
+    const hits: SearchHit[] = []
+    scores.forEach((score, key) => {
+      const document = this.documents.get(key)
+      if (!document || !types.includes(document.type)) return
+      const title = normalize(document.title)
+      const bonus = title === phrase ? 3 : title.startsWith(phrase) ? 2 : 0
+      hits.push({
+        type: document.type,
+        id: document.id,
+        title: document.title,
+        subtitle: document.subtitle,
+        score: Math.round((score + bonus) * 100) / 100,
+      })
+    })
+    return hits.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title)).slice(0, limit)
+  }
+
+  async upsert(documents: SearchDocument[]) {
+    if (!this.loadedAt) return
+    documents.forEach((document) => {
+      this.removeKey(keyOf(document.type, document.id))
+      this.add(document)
+    })
+  }
+
+  async remove(type: SearchEntityType, ids: string[]) {
+    ids.forEach((id) => this.removeKey(keyOf(type, id)))
+  }
+
+  async reset() {
+    this.loadedAt = 0
+  }
+
+  private matchWord(word: string, typing: boolean) {
+    const typos = allowedTypos(word)
+    const matches = new Map<DocumentKey, number>()
+    this.postings.forEach((documents, term) => {
+      let quality = 0
+      if (term === word) quality = EXACT
+      else if (term.startsWith(word) && (typing || word.length >= 3)) quality = PREFIX
+      else if (typos > 0 && editDistance(word, term, typos) <= typos) quality = TYPO
+      else if (typing && word.length >= 5 && editDistance(word, term.slice(0, word.length), 1) <= 1) {
+        quality = TYPO_PREFIX
+      }
+      if (!quality) return
+      documents.forEach((weight, key) => {
+        matches.set(key, Math.max(matches.get(key) ?? 0, quality * weight))
+      })
+    })
+    return matches
+  }
+
+  private async ensureLoaded() {
+    if (this.loadedAt && Date.now() - this.loadedAt < MAX_AGE) return
+    if (!this.loading) {
+      this.loading = this.load()
+        .then((documents) => {
+          this.documents.clear()
+          this.postings.clear()
+          documents.forEach((document) => this.add(document))
+          this.loadedAt = Date.now()
+        })
+        .finally(() => {
+          this.loading = null
+        })
+    }
+    await this.loading
+  }
+
+  private add(document: SearchDocument) {
+    const key = keyOf(document.type, document.id)
+    this.documents.set(key, document)
+    Object.entries(document.fields).forEach(([field, text]) => {
+      const weight = FIELD_WEIGHTS[field as SearchField]
+      tokenize(text ?? "").forEach((word) => {
+        let documents = this.postings.get(word)
+        if (!documents) {
+          documents = new Map()
+          this.postings.set(word, documents)
+        }
+        documents.set(key, Math.max(documents.get(key) ?? 0, weight))
+      })
+    })
+  }
+
+  private removeKey(key: DocumentKey) {
+    if (!this.documents.delete(key)) return
+    this.postings.forEach((documents, word) => {
+      if (documents.delete(key) && documents.size === 0) this.postings.delete(word)
+    })
+  }
+}
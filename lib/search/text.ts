@@ -0,0 +1,36 @@
+// Lowercases and strips accents, so "Café" matches "cafe".
+export function normalize(text: string) {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+}
+
+export function tokenize(text: string): string[] {
+  return normalize(text).match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+// Levenshtein distance, giving up once it exceeds `max`.
+export function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let best = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      best = Math.min(best, current[j])
+    }
+    if (best > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// How many typos a query word of this length may contain.
+export function allowedTypos(word: string) {
+  if (word.length >= 8) return 2
+  if (word.length >= 4) return 1
+  return 0
+}
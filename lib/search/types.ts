@@ -0,0 +1,39 @@
+export type SearchEntityType = "product" | "customer"
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ["product", "customer"]
+
+// Searchable text of a product or customer. Matches in heavier fields rank
+// higher.
+export type SearchField = "name" | "sku" | "email" | "tags" | "category" | "description"
+
+export interface SearchDocument {
+  type: SearchEntityType
+  id: string
+  title: string
+  subtitle?: string
+  fields: Partial<Record<SearchField, string>>
+}
+
+export interface SearchHit {
+  type: SearchEntityType
+  id: string
+  title: string
+  subtitle?: string
+  score: number
+}
+
+export interface SearchOptions {
+  types: SearchEntityType[]
+  limit: number
+}
+
+// A search backend. Adapters are told about every product or customer the
+// dashboard writes; `reset` tells them that many documents may have changed
+// at once, e.g. after a category rename or an import.
+export interface SearchAdapter {
+  id: string
+  search: (query: string, options: SearchOptions) => Promise<SearchHit[]>
+  upsert: (documents: SearchDocument[]) => Promise<void>
+  remove: (type: SearchEntityType, ids: string[]) => Promise<void>
+  reset: () => Promise<void>
+}
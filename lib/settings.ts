@@ -0,0 +1,77 @@
+import { DEFAULT_LOW_STOCK_THRESHOLD } from "@/lib/inventory"
+import { type ExchangeRates, type MoneyDisplay, DEFAULT_CURRENCY, DEFAULT_LOCALE } from "@/lib/money"
+import type { WeightUnit } from "@/lib/weight"
+
+export interface TaxSettings {
+  // Whether product prices already include tax.
+  pricesIncludeTax: boolean
+  // Percentage applied to orders, e.g. 18 for 18%.
+  defaultRate: number
+}
+
+// Store-wide configuration, kept in the `settings/store` document.
+export interface StoreSettings {
+  name: string
+  contactEmail: string
+  // URL of the store logo; empty when there is none.
+  logo: string
+  // Currency products are priced in and new orders are charged in.
+  currency: string
+  // Locale amounts and dates are formatted for.
+  locale: string
+  // IANA time zone dates are shown in, e.g. "Asia/Colombo".
+  timezone: string
+  // Currency the dashboard shows amounts in; the store currency when null.
+  displayCurrency: string | null
+  exchangeRates: ExchangeRates
+  // Unit new products start with.
+  weightUnit: WeightUnit
+  // Stock level at or below which products without their own threshold
+  // count as low on stock.
+  lowStockThreshold: number
+  tax: TaxSettings
+  updatedAt?: string
+  updatedBy?: string | null
+}
+
+// How dates are shown; see `formatDate`.
+export interface DateDisplay {
+  locale: string
+  timezone: string
+}
+
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  name: "LankaShop",
+  contactEmail: "",
+  logo: "",
+  currency: DEFAULT_CURRENCY,
+  locale: DEFAULT_LOCALE,
+  timezone: "Asia/Colombo",
+  displayCurrency: null,
+  exchangeRates: {},
+  weightUnit: "g",
+  lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+  tax: { pricesIncludeTax: true, defaultRate: 0 },
+}
+
+// Fills in defaults for anything a saved settings document lacks.
+export function withDefaults(saved: Partial<StoreSettings> | undefined): StoreSettings {
+  return {
+    ...DEFAULT_STORE_SETTINGS,
+    ...saved,
+    tax: { ...DEFAULT_STORE_SETTINGS.tax, ...saved?.tax },
+  }
+}
+
+export function getMoneyDisplay(settings: StoreSettings): MoneyDisplay {
+  return {
+    locale: settings.locale,
+    storeCurrency: settings.currency,
+    displayCurrency: settings.displayCurrency,
+    exchangeRates: settings.exchangeRates,
+  }
+}
+
+export function getDateDisplay(settings: StoreSettings): DateDisplay {
+  return { locale: settings.locale, timezone: settings.timezone }
+}
@@ -0,0 +1,143 @@
+// What a rate band is measured against: the parcel's weight or the value of
+// the goods in it.
+export type ShippingRateBasis = "weight" | "orderValue"
+
+export const SHIPPING_RATE_BASES: ShippingRateBasis[] = ["weight", "orderValue"]
+
+export const SHIPPING_RATE_BASIS_LABELS: Record<ShippingRateBasis, string> = {
+  weight: "Weight",
+  orderValue: "Order value",
+}
+
+// One band of a zone's rate table. Bands with the same name are one shipping
+// method, e.g. "Standard" or "Express", priced by whichever band the order
+// falls in.
+export interface ShippingRate {
+  id: string
+  name: string
+  basis: ShippingRateBasis
+  // Bounds of the band, in grams for weight and in minor units of the store
+  // currency for order value. Both are inclusive; a null `max` has no limit.
+  min: number
+  max: number | null
+  // In minor units of the store currency.
+  price: number
+}
+
+// Where a set of rates applies. Empty lists match everything, so a zone with
+// none is the rest of the world; the most specific matching zone wins.
+export interface ShippingZone {
+  id: string
+  name: string
+  countries: string[]
+  // States or provinces.
+  regions: string[]
+  // Postal codes, where `*` stands for any characters, e.g. "10*".
+  postalCodes: string[]
+  rates: ShippingRate[]
+  // Order value from which shipping is free, in minor units; null if never.
+  freeShippingThreshold: number | null
+}
+
+export interface ShippingDestination {
+  country: string
+  region: string
+  postalCode: string
+}
+
+export interface ShippableLine {
+  // Unit price, in minor units.
+  price: number
+  quantity: number
+  // Unit weight, in grams.
+  weight: number
+}
+
+export interface ShippingOption {
+  rateId: string
+  name: string
+  // What the shopper pays, zero when the order qualifies for free shipping.
+  price: number
+  free: boolean
+}
+
+export interface ShippingQuote {
+  zoneId: string
+  zoneName: string
+  // Of the whole order, in grams.
+  weight: number
+  subtotal: number
+  // Cheapest first. Methods with no band for the order are left out.
+  options: ShippingOption[]
+}
+
+// The method an order was shipped by. What it was charged is the order's
+// `shippingTotal`.
+export interface OrderShipping {
+  zoneId: string
+  zoneName: string
+  rateId: string
+  method: string
+  weight: number
+  free: boolean
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+const normalizePostalCode = (value: string) => value.replace(/\s+/g, "").toUpperCase()
+
+function matchesPostalCode(pattern: string, postalCode: string) {
+  const source = normalizePostalCode(pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\-]/g, "\\$&"))
+    .join(".*")
+  return new RegExp(`^${source}$`).test(normalizePostalCode(postalCode))
+}
+
+// The zone `destination` falls in, or undefined when it can't be shipped to.
+// Postal codes are more specific than regions, and regions than countries.
+export function findShippingZone(zones: ShippingZone[], destination: ShippingDestination) {
+  const country = normalize(destination.country)
+  const region = normalize(destination.region)
+  const specificity = (zone: ShippingZone) => {
+    if (zone.countries.length > 0 && !zone.countries.some((entry) => normalize(entry) === country)) return -1
+    if (zone.regions.length > 0 && !zone.regions.some((entry) => normalize(entry) === region)) return -1
+    if (zone.postalCodes.length > 0 && !zone.postalCodes.some((entry) => matchesPostalCode(entry, destination.postalCode))) {
+      return -1
+    }
+    return (zone.countries.length > 0 ? 1 : 0) + (zone.regions.length > 0 ? 2 : 0) + (zone.postalCodes.length > 0 ? 4 : 0)
+  }
+  return zones
+    .map((zone) => ({ zone, score: specificity(zone) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => b.score - a.score)[0]?.zone
+}
+
+// The shipping methods `zone` offers for `lines`, each priced by the lowest
+// band its weight or value falls in.
+export function priceShipping(zone: ShippingZone, lines: ShippableLine[]): ShippingQuote {
+  const weight = lines.reduce((sum, line) => sum + line.weight * line.quantity, 0)
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0)
+  const free = zone.freeShippingThreshold !== null && subtotal >= zone.freeShippingThreshold
+  const bands = new Map<string, ShippingRate>()
+  const byMin = [...zone.rates].sort((a, b) => a.min - b.min)
+  byMin.forEach((rate) => {
+    const value = rate.basis === "weight" ? weight : subtotal
+    if (bands.has(rate.name) || value < rate.min || (rate.max !== null && value > rate.max)) return
+    bands.set(rate.name, rate)
+  })
+  const options = [...bands.values()]
+    .map((rate) => ({ rateId: rate.id, name: rate.name, price: free ? 0 : rate.price, free }))
+    .sort((a, b) => a.price - b.price)
+  return { zoneId: zone.id, zoneName: zone.name, weight, subtotal, options }
+}
+
+// Shipping for `lines` delivered to `destination`, or null when no zone
+// covers it.
+export function quoteShipping(
+  zones: ShippingZone[],
+  lines: ShippableLine[],
+  destination: ShippingDestination,
+): ShippingQuote | null {
+  const zone = findShippingZone(zones, destination)
+  return zone ? priceShipping(zone, lines) : null
+}
@@ -0,0 +1,102 @@
+import { PassThrough, Readable } from "node:stream"
+import ExcelJS from "exceljs"
+import { ValidationError } from "@/lib/errors"
+import { formatCsvRow, parseCsv } from "@/lib/csv"
+import type { ExportColumn, ExportFormat, ExportRow } from "@/lib/export"
+
+// Reads the first sheet of an uploaded CSV or XLSX file as rows of text
+// cells, leaving out blank rows. `rowNumbers` holds each row's number in
+// the file, so messages about a row point at the right one.
+// Server-only: exceljs is too heavy to ship to the browser.
+export async function readSpreadsheet(file: File): Promise<{ rows: string[][]; rowNumbers: number[] }> {
+  const name = file.name.toLowerCase()
+  const rows: string[][] = []
+  const rowNumbers: number[] = []
+  const add = (cells: string[], rowNumber: number) => {
+    if (cells.every((cell) => cell.trim() === "")) return
+    rows.push(cells)
+    rowNumbers.push(rowNumber)
+  }
+
+  if (name.endsWith(".csv")) {
+    parseCsv(await file.text()).forEach((cells, index) => add(cells, index + 1))
+    return { rows, rowNumbers }
+  }
+  if (!name.endsWith(".xlsx")) throw new ValidationError("Upload a .csv or .xlsx file")
+
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(await file.arrayBuffer())
+  const sheet = workbook.worksheets[0]
+  if (!sheet) return { rows, rowNumbers }
+
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const cells: string[] = []
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push(row.getCell(col).text.trim())
+    }
+    add(cells, rowNumber)
+  })
+  return { rows, rowNumbers }
+}
+
+// Streams rows out as CSV, XLSX or JSON while they are still being read.
+// Only the chosen columns are written, in the given order.
+export function writeSpreadsheet(
+  format: ExportFormat,
+  columns: ExportColumn[],
+  rows: AsyncIterable<ExportRow>,
+): ReadableStream<Uint8Array> {
+  if (format === "xlsx") return writeXlsx(columns, rows)
+
+  const encoder = new TextEncoder()
+  const iterator = rows[Symbol.asyncIterator]()
+  let started = false
+  let count = 0
+
+  // A byte order mark makes Excel read the CSV as UTF-8.
+  const header = format === "csv" ? `\uFEFF${formatCsvRow(columns.map((column) => column.label))}\r\n` : "["
+
+  return new ReadableStream({
+    async pull(controller) {
+      if (!started) {
+        started = true
+        controller.enqueue(encoder.encode(header))
+        return
+      }
+      const { value, done } = await iterator.next()
+      if (done) {
+        if (format === "json") controller.enqueue(encoder.encode(count > 0 ? "\n]\n" : "]\n"))
+        controller.close()
+        return
+      }
+      const line =
+        format === "csv"
+          ? `${formatCsvRow(columns.map((column) => value[column.key] ?? null))}\r\n`
+          : `${count > 0 ? "," : ""}\n${JSON.stringify(Object.fromEntries(columns.map((column) => [column.key, value[column.key] ?? null])))}`
+      count++
+      controller.enqueue(encoder.encode(line))
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
+
+function writeXlsx(columns: ExportColumn[], rows: AsyncIterable<ExportRow>): ReadableStream<Uint8Array> {
+  const output = new PassThrough()
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true })
+  const sheet = workbook.addWorksheet("Export")
+  sheet.columns = columns.map((column) => ({ header: column.label, key: column.key, width: 20 }))
+  sheet.getRow(1).font = { bold: true }
+
+  const write = async () => {
+    for await (const row of rows) {
+      sheet.addRow(row).commit()
+    }
+    sheet.commit()
+    await workbook.commit()
+  }
+  write().catch((error) => output.destroy(error))
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>
+}
@@ -0,0 +1,49 @@
+import type { AuditEntry } from "@/lib/audit"
+import type { Address, Order, Tag } from "@/lib/types"
+import { getFulfillmentStatus, isShipmentOverdue } from "@/lib/order-fulfillment"
+
+// Search and filter rules shared by the dashboard tables and their exports,
+// so an export holds exactly the rows the table shows. Products and
+// customers are searched through the search index instead.
+export interface TableFilters {
+  q?: string
+  // Orders only: shipped more than this many days ago and not delivered.
+  overdueDays?: number
+}
+
+export function matchesOrderFilters(order: Order, { q, overdueDays }: TableFilters) {
+  if (overdueDays && !isShipmentOverdue(order, overdueDays)) return false
+  if (!q) return true
+  const query = q.toLowerCase()
+  return (
+    order.orderId.toLowerCase().includes(query) ||
+    order.userId.toLowerCase().includes(query) ||
+    order.paymentStatus.toLowerCase().includes(query) ||
+    getFulfillmentStatus(order).includes(query)
+  )
+}
+
+export function matchesTagFilters(tag: Tag, { q }: TableFilters) {
+  return !q || tag.name.toLowerCase().includes(q.toLowerCase())
+}
+
+export function matchesAddressFilters(address: Address, { q }: TableFilters) {
+  if (!q) return true
+  const query = q.toLowerCase()
+  return [address.userId, address.street, address.city, address.state, address.country, address.postalCode].some(
+    (value) => value.toLowerCase().includes(query),
+  )
+}
+
+// Audit entries match on the changed entity, who changed it and the fields
+// changed.
+export function matchesAuditFilters(entry: AuditEntry, { q }: TableFilters) {
+  if (!q) return true
+  const query = q.toLowerCase()
+  return [
+    entry.entityName,
+    entry.entityId,
+    entry.actor?.email ?? "",
+    ...entry.changes.map((change) => change.field),
+  ].some((value) => value.toLowerCase().includes(query))
+}
@@ -0,0 +1,140 @@
+import type { Order } from "@/lib/types"
+
+// A rate charged in a region. Empty `country` matches every country and
+// empty `region` (state or province) the whole country; the most specific
+// match wins.
+export interface TaxRate {
+  id: string
+  name: string
+  country: string
+  region: string
+  // Percentage, e.g. 18 for 18%.
+  rate: number
+}
+
+// A group of products taxed alike, e.g. "Reduced rate" or "Zero rated",
+// assigned to products or whole categories. Products in neither fall back to
+// the store's default rate, as do classes without a rate for a region.
+export interface TaxClass {
+  id: string
+  name: string
+  rates: TaxRate[]
+}
+
+// Where an order is delivered, for choosing its rates.
+export interface TaxRegion {
+  country: string
+  region: string
+}
+
+// Tax at one rate across an order. `taxable` is the amount the rate was
+// applied to, excluding tax. Amounts are in minor units of the order
+// currency.
+export interface TaxLine {
+  // Identifies the rate and percentage, so totals at a rate that later
+  // changed are reported apart.
+  key: string
+  name: string
+  rate: number
+  taxClassId: string | null
+  taxable: number
+  amount: number
+}
+
+export interface OrderTax {
+  // Whether line prices include the tax, or it was added to the total.
+  pricesIncludeTax: boolean
+  total: number
+  lines: TaxLine[]
+}
+
+export interface TaxableLine {
+  // Unit price, in minor units.
+  price: number
+  quantity: number
+  // Off the whole line, by promotions.
+  discount?: number
+  taxClassId?: string | null
+}
+
+export interface TaxOptions {
+  pricesIncludeTax: boolean
+  defaultRate: number
+  classes: Map<string, TaxClass>
+  region: TaxRegion
+}
+
+const DEFAULT_RATE_ID = "default"
+
+// Keys are stored as map keys in rollups, so the rate is written in basis
+// points rather than with a decimal point.
+export function taxLineKey(rateId: string, rate: number) {
+  return `${rateId}-${Math.round(rate * 100)}`
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+// The rate of `taxClass` for `region`, or the store's default.
+export function findTaxRate(taxClass: TaxClass | undefined, region: TaxRegion, defaultRate: number) {
+  const country = normalize(region.country)
+  const state = normalize(region.region)
+  const specificity = (rate: TaxRate) => {
+    if (rate.country && normalize(rate.country) !== country) return -1
+    if (rate.region && normalize(rate.region) !== state) return -1
+    return (rate.country ? 2 : 0) + (rate.region ? 1 : 0)
+  }
+  const match = (taxClass?.rates ?? [])
+    .map((rate) => ({ rate, score: specificity(rate) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => b.score - a.score)[0]?.rate
+  if (!match) {
+    return { key: taxLineKey(DEFAULT_RATE_ID, defaultRate), name: "Tax", rate: defaultRate, taxClassId: null }
+  }
+  return { key: taxLineKey(match.id, match.rate), name: match.name, rate: match.rate, taxClassId: taxClass!.id }
+}
+
+// Tax on `amount`, rounded to a minor unit. Inclusive amounts already
+// contain the tax.
+export function taxOn(amount: number, rate: number, inclusive: boolean) {
+  return Math.round(inclusive ? (amount * rate) / (100 + rate) : (amount * rate) / 100)
+}
+
+// Taxes each line at its class's rate for the region and sums the tax by
+// rate. Returns the tax of each line alongside, in the same order.
+export function calculateTax(lines: TaxableLine[], options: TaxOptions): { tax: OrderTax; lineTaxes: number[] } {
+  const byKey = new Map<string, TaxLine>()
+  const lineTaxes = lines.map((line) => {
+    const taxClass = line.taxClassId ? options.classes.get(line.taxClassId) : undefined
+    const rate = findTaxRate(taxClass, options.region, options.defaultRate)
+    const amount = line.price * line.quantity - (line.discount ?? 0)
+    const tax = taxOn(amount, rate.rate, options.pricesIncludeTax)
+    const total = byKey.get(rate.key) ?? { ...rate, taxable: 0, amount: 0 }
+    total.taxable += options.pricesIncludeTax ? amount - tax : amount
+    total.amount += tax
+    byKey.set(rate.key, total)
+    return tax
+  })
+  // Zero rates from a class are kept, as tax returns report zero-rated
+  // sales; a zero default rate means the store charges no tax.
+  const taxLines = [...byKey.values()].filter((line) => line.rate > 0 || line.taxClassId)
+  return {
+    tax: {
+      pricesIncludeTax: options.pricesIncludeTax,
+      total: taxLines.reduce((sum, line) => sum + line.amount, 0),
+      lines: taxLines,
+    },
+    lineTaxes,
+  }
+}
+
+// How an order's total splits into subtotal, discount, tax and shipping.
+// Orders placed before shipping was recorded separately count the rest of
+// the total as shipping.
+export function getOrderAmounts(order: Order) {
+  const discount = order.discount?.total ?? 0
+  const tax = order.tax?.total ?? 0
+  const taxIncluded = order.tax?.pricesIncludeTax ?? true
+  const addedTax = taxIncluded ? 0 : tax
+  const shipping = order.shippingTotal ?? Math.max(0, order.totalAmount - order.subtotal + discount - addedTax)
+  return { subtotal: order.subtotal, discount, tax, taxIncluded, shipping, total: order.totalAmount }
+}
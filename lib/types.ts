@@ -0,0 +1,177 @@
+import type { CustomerMetrics } from "@/lib/customer-metrics"
+import type { CustomerStatusChange } from "@/lib/customer-status"
+import type { OrderPaymentLink } from "@/lib/draft-orders"
+import type { FulfillmentHistoryEntry, FulfillmentStatus, OrderShipment } from "@/lib/order-fulfillment"
+import type { Role } from "@/lib/permissions"
+import type { ProductOption, ProductVariant } from "@/lib/product-variants"
+import type { LineDiscount, OrderDiscount } from "@/lib/promotions"
+import type { Refund } from "@/lib/refunds"
+import type { OrderShipping } from "@/lib/shipping"
+import type { OrderTax } from "@/lib/tax"
+
+export interface Product {
+  id: string
+  name: string
+  description: string
+  image?: string
+  image2?: string
+  image3?: string
+  // In minor units of the store currency.
+  price: number
+  stock: string
+  rating: string
+  date: string
+  categoryId: string
+  subcategoryId?: string
+  tagIds?: string[]
+  productDetails?: string[]
+  weight?: string
+  weightUnit?: string
+  options?: ProductOption[]
+  variants?: ProductVariant[]
+  lowStockThreshold?: string
+  // Whether stock is at or below the threshold, kept for querying.
+  lowStock?: boolean
+  // Overrides the category's tax class.
+  taxClassId?: string
+}
+
+export interface Category {
+  id: string
+  name: string
+  description: string
+  image: string
+  heroImage: string
+  // Tax class of the category's products, unless they set their own.
+  taxClassId?: string
+  productCount?: number
+}
+
+export interface SubCategory {
+  id: string
+  name: string
+  categoryId: string
+}
+
+export interface Tag {
+  id: string
+  name: string
+  productCount?: number
+}
+
+export interface OrderProduct {
+  productId: string
+  name: string
+  quantity: number
+  // Unit price, in minor units of the order currency.
+  price: number
+  variantId?: string
+  variantLabel?: string
+  sku?: string
+  // Tax on the whole line, included in or added to its price as the order's
+  // `tax` says.
+  tax?: number
+  // Promotions' discounts off the whole line.
+  discounts?: LineDiscount[]
+}
+
+export interface Order {
+  id: string
+  orderId: string
+  userId: string
+  createdAt: string
+  products: OrderProduct[]
+  // Amounts are in minor units of `currency`.
+  currency: string
+  // Before discounts.
+  subtotal: number
+  totalAmount: number
+  // Missing on orders placed without a promotion.
+  discount?: OrderDiscount
+  // Ids of `discount`'s promotions, for counting their uses.
+  promotionIds?: string[]
+  // Missing on orders placed before tax was calculated.
+  tax?: OrderTax
+  // Shipping charged, untaxed; see `getOrderAmounts` for older orders.
+  shippingTotal?: number
+  // Missing on orders placed before shipping was quoted.
+  shipping?: OrderShipping
+  shippingAddressId?: string
+  paymentStatus: string
+  paymentProvider: string
+  stripeSessionId?: string
+  // Missing unless a payment link was sent for the order.
+  paymentLink?: OrderPaymentLink
+  // Newest last. `paymentStatus` becomes "partially_refunded" or "refunded"
+  // as they succeed.
+  refunds?: Refund[]
+  fulfillmentStatus?: FulfillmentStatus
+  fulfillmentHistory?: FulfillmentHistoryEntry[]
+  shipment?: OrderShipment
+  inventoryCommitted?: boolean
+  // The staff member who took the order by phone or chat, and their note.
+  // Missing on storefront orders.
+  placedBy?: string | null
+  note?: string
+}
+
+export type CustomerStatus = "active" | "deactive" | "suspend"
+
+export interface Customer {
+  id: string
+  userId: string
+  name: string
+  email: string
+  createdAt: string
+  status: CustomerStatus
+  statusReason?: string
+  suspendedUntil?: string | null
+  statusHistory?: CustomerStatusChange[]
+  metrics?: CustomerMetrics
+}
+
+export interface Address {
+  id: string
+  userId: string
+  label: string
+  street: string
+  city: string
+  state: string
+  postalCode: string
+  country: string
+}
+
+// Orders, customers and revenue come from the monthly sales rollups.
+// Revenue is the sales total Analytics shows, less refunds, in minor units
+// of the store currency.
+export interface DashboardStats {
+  products: number
+  orders: number
+  customers: number
+  revenue: number
+  lowStock: number
+  ordersThisMonth: number
+  newCustomersThisMonth: number
+  revenueThisMonth: number
+}
+
+// The signed-in dashboard user performing a change.
+export interface Actor {
+  uid: string
+  email: string | null
+}
+
+export type StaffStatus = "active" | "disabled"
+
+// A dashboard staff account, keyed by the Firebase Auth uid.
+export interface AdminUser {
+  id: string
+  email: string | null
+  name?: string
+  role: Role
+  status: StaffStatus
+  createdAt: string
+  invitedBy?: string | null
+  // From the Firebase Auth record; only filled in on team listings.
+  lastLoginAt?: string | null
+}
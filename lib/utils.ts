@@ -1,27 +1,46 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { type MoneyDisplay, DEFAULT_LOCALE, convertMinorUnits, fromMinorUnits } from "@/lib/money"
+import type { DateDisplay } from "@/lib/settings"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatDate(dateString: string) {
+// Formats a timestamp as a date in the store's time zone, usually via
+// `useStoreSettings().formatDate`. Plain dates (YYYY-MM-DD) are shown as is.
+export function formatDate(dateString: string, display?: DateDisplay) {
   const date = new Date(dateString)
-  return new Intl.DateTimeFormat("en-US", {
+  const plainDate = /^\d{4}-\d{2}-\d{2}$/.test(dateString)
+  return new Intl.DateTimeFormat(display?.locale ?? DEFAULT_LOCALE, {
     year: "numeric",
     month: "short",
     day: "numeric",
+    timeZone: plainDate ? "UTC" : display?.timezone,
   }).format(date)
 }
 
-export function formatCurrency(amount: string | number) {
-  const num = typeof amount === "string" ? Number.parseFloat(amount) : amount
-  return new Intl.NumberFormat("en-US", {
+// Formats an amount in minor units of `currency`. Every amount shown in the
+// dashboard goes through here, usually via `useStoreSettings().formatMoney`,
+// which passes the store's locale and display currency.
+export function formatCurrency(amount: number, currency: string, display?: MoneyDisplay) {
+  let shown = amount
+  let shownCurrency = currency
+  if (display?.displayCurrency && display.displayCurrency !== currency) {
+    const converted = convertMinorUnits(
+      amount,
+      currency,
+      display.displayCurrency,
+      display.storeCurrency,
+      display.exchangeRates ?? {},
+    )
+    if (converted !== null) {
+      shown = converted
+      shownCurrency = display.displayCurrency
+    }
+  }
+  return new Intl.NumberFormat(display?.locale ?? DEFAULT_LOCALE, {
     style: "currency",
-    currency: "USD",
-  }).format(num)
-}
-
-export function generateOrderId() {
-  return Math.floor(100000 + Math.random() * 900000).toString()
+    currency: shownCurrency,
+  }).format(fromMinorUnits(shown, shownCurrency))
 }
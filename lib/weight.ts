@@ -0,0 +1,49 @@
+// Units a product's weight can be given in. Liquids are sold by volume and
+// some goods by length, so not all of these are weights.
+export type WeightUnit = "mg" | "g" | "kg" | "mm" | "ml" | "l"
+
+export const WEIGHT_UNITS: WeightUnit[] = ["mg", "g", "kg", "mm", "ml", "l"]
+
+// Grams in one of each unit. Volumes are weighed as water, 1 ml to the gram;
+// lengths have no weight and are left out.
+const GRAMS_PER_UNIT: Partial<Record<string, number>> = { mg: 0.001, g: 1, kg: 1000, ml: 1, l: 1000 }
+
+const MASS_UNITS: WeightUnit[] = ["mg", "g", "kg"]
+
+// The unit to show shipping weights in: the store's weight unit when it is a
+// mass, else grams.
+export function massUnit(unit: string): WeightUnit {
+  return MASS_UNITS.find((entry) => entry === unit) ?? "g"
+}
+
+// `weight` in grams, or null when `unit` has no weight.
+export function toGrams(weight: number, unit: string): number | null {
+  const grams = GRAMS_PER_UNIT[unit]
+  return grams === undefined ? null : weight * grams
+}
+
+// `grams` in `unit`, or null when `unit` has no weight.
+export function fromGrams(grams: number, unit: string): number | null {
+  const perUnit = GRAMS_PER_UNIT[unit]
+  return perUnit === undefined ? null : grams / perUnit
+}
+
+export function convertWeight(weight: number, from: string, to: string): number | null {
+  const grams = toGrams(weight, from)
+  return grams === null ? null : fromGrams(grams, to)
+}
+
+// Weight of a product or variant as stored, as text in its own unit, in
+// grams. Blank weights and lengths count as nothing.
+export function parseWeight(weight: string | undefined, unit: string | undefined): number {
+  const value = Number(weight)
+  if (!weight || !Number.isFinite(value)) return 0
+  return toGrams(value, unit || "g") ?? 0
+}
+
+// `grams` for display in `unit`, or in grams when it has no weight.
+export function formatWeight(grams: number, unit: string) {
+  const value = fromGrams(grams, unit)
+  if (value === null) return `${Math.round(grams * 100) / 100} g`
+  return `${Math.round(value * 1000) / 1000} ${unit}`
+}
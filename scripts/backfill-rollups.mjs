@@ -0,0 +1,20 @@
+// Rebuilds every sales rollup through the deployed rollup job.
+//
+//   APP_URL=https://admin.example.com CRON_SECRET=... npm run rollups:backfill
+
+const appUrl = process.env.APP_URL
+const secret = process.env.CRON_SECRET
+if (!appUrl || !secret) {
+  console.error("APP_URL and CRON_SECRET must be set")
+  process.exit(1)
+}
+
+const response = await fetch(new URL("/api/jobs/rollups?backfill=1", appUrl), {
+  headers: { Authorization: `Bearer ${secret}` },
+})
+const body = await response.json().catch(() => ({}))
+if (!response.ok) {
+  console.error(`Backfill failed (${response.status}): ${body.error ?? response.statusText}`)
+  process.exit(1)
+}
+console.log(`Rebuilt rollups for ${body.days} days`)
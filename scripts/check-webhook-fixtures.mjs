@@ -0,0 +1,64 @@
+// Runs every fixture in scripts/fixtures/webhooks through the webhook route
+// of a running dashboard and checks how it is handled:
+//
+// - with its signature broken, it is refused with 401
+// - signed, it is verified and stored: applied, ignored or skipped, or failed
+//   because its order doesn't exist
+// - sent again once applied, it is recognised as a duplicate
+//
+// Stripe is also sent signed bodies that aren't events, which must get 400.
+// The secrets must match the dashboard's; see webhook-fixtures.mjs for the
+// values filled into the fixtures.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_... PAYHERE_MERCHANT_SECRET=... npm run webhooks:check
+import path from "node:path"
+import { appUrl, fixtureProvider, listFixtures, loadFixture, postWebhook, signFixture } from "./webhook-fixtures.mjs"
+
+const failures = []
+const check = (name, passed, detail) => {
+  console.log(`${passed ? "ok  " : "FAIL"} ${name}${detail ? ` (${detail})` : ""}`)
+  if (!passed) failures.push(name)
+}
+const describe = ({ status, result }) => `${status}${result.error ? `: ${result.error}` : result.status ? `: ${result.status}` : ""}`
+
+// Changes the request after signing it, as a forger would.
+const tamper = (provider, request) =>
+  provider === "stripe"
+    ? { ...request, body: `${request.body} ` }
+    : { ...request, body: request.body.replace(/md5sig=[^&]*/, "md5sig=0") }
+
+console.log(`Checking webhook fixtures against ${appUrl}`)
+const files = await listFixtures()
+for (const file of files) {
+  const provider = fixtureProvider(file)
+  const name = `${provider}/${path.basename(file)}`
+  const fixture = await loadFixture(file)
+
+  const forged = await postWebhook(provider, tamper(provider, signFixture(provider, fixture)))
+  check(`${name}: broken signature is refused`, forged.status === 401, describe(forged))
+
+  const first = await postWebhook(provider, signFixture(provider, fixture))
+  const missingOrder = first.status === 404 && String(first.result.error).startsWith("No order has")
+  check(`${name}: signed event is accepted`, first.ok || missingOrder, describe(first))
+
+  if (first.ok) {
+    const second = await postWebhook(provider, signFixture(provider, fixture))
+    check(`${name}: redelivery is a duplicate`, second.ok && second.result.duplicate === true, describe(second))
+  }
+}
+
+if (files.some((file) => fixtureProvider(file) === "stripe")) {
+  for (const [label, body] of [
+    ["invalid JSON", "{"],
+    ["JSON that isn't an event", "[]"],
+  ]) {
+    const response = await postWebhook("stripe", signFixture("stripe", null, { body }))
+    check(`stripe: signed ${label} is a bad request`, response.status === 400, describe(response))
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`${failures.length} of the webhook fixture checks failed`)
+  process.exit(1)
+}
+console.log(`All webhook fixture checks passed for ${files.length} fixtures`)
@@ -0,0 +1,22 @@
+// Posts a recorded webhook payload from scripts/fixtures/webhooks to the
+// webhook route, signed as its provider signs it. See webhook-fixtures.mjs
+// for the values filled in from the environment.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_... STRIPE_SESSION_ID=cs_test_... AMOUNT=150000 \
+//     npm run webhooks:send scripts/fixtures/webhooks/stripe/checkout.session.completed.json
+//   PAYHERE_MERCHANT_SECRET=... ORDER_ID=1001 AMOUNT=150000 \
+//     npm run webhooks:send scripts/fixtures/webhooks/payhere/payment.success.json
+import { fixtureProvider, loadFixture, postWebhook, signFixture } from "./webhook-fixtures.mjs"
+
+const file = process.argv[2]
+if (!file) {
+  console.error("Usage: npm run webhooks:send <fixture>")
+  process.exit(1)
+}
+const provider = fixtureProvider(file)
+const { ok, status, result } = await postWebhook(provider, signFixture(provider, await loadFixture(file)))
+if (!ok) {
+  console.error(`Webhook failed (${status}): ${result.error ?? "no error message"}`)
+  process.exit(1)
+}
+console.log(`${provider} event ${result.duplicate ? "was already received" : result.status}`)
@@ -0,0 +1,77 @@
+// Loads the recorded webhook payloads in scripts/fixtures/webhooks and signs
+// them as their providers do, for send-webhook-fixture.mjs and
+// check-webhook-fixtures.mjs. `{{ORDER_ID}}`, `{{STRIPE_SESSION_ID}}`,
+// `{{REFUND_ID}}` and `{{AMOUNT}}` (minor units; `{{AMOUNT_DECIMAL}}` in major
+// units) are filled in from the environment.
+import { createHash, createHmac } from "node:crypto"
+import { readFile, readdir } from "node:fs/promises"
+import path from "node:path"
+
+export const FIXTURES_DIR = path.join(import.meta.dirname, "fixtures", "webhooks")
+
+export const appUrl = process.env.APP_URL || "http://localhost:3000"
+
+// Every fixture, as paths grouped under their provider's directory.
+export async function listFixtures() {
+  const providers = await readdir(FIXTURES_DIR)
+  const files = await Promise.all(
+    providers.map(async (provider) =>
+      (await readdir(path.join(FIXTURES_DIR, provider)))
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => path.join(FIXTURES_DIR, provider, name)),
+    ),
+  )
+  return files.flat().sort()
+}
+
+export function fixtureProvider(file) {
+  return path.basename(path.dirname(file))
+}
+
+export async function loadFixture(file) {
+  const amount = Number(process.env.AMOUNT ?? 0)
+  const values = {
+    ORDER_ID: process.env.ORDER_ID ?? "",
+    STRIPE_SESSION_ID: process.env.STRIPE_SESSION_ID ?? "",
+    REFUND_ID: process.env.REFUND_ID ?? "",
+    AMOUNT_DECIMAL: (amount / 100).toFixed(2),
+  }
+  return JSON.parse(await readFile(file, "utf8"), (_key, value) => {
+    if (value === "{{AMOUNT}}") return amount
+    return typeof value === "string" ? value.replace(/\{\{(\w+)\}\}/g, (_match, name) => values[name] ?? "") : value
+  })
+}
+
+const md5 = (value) => createHash("md5").update(value).digest("hex").toUpperCase()
+
+// The request body and headers `provider` would send for `fixture`, signed
+// with the secret from the environment. Stripe fixtures can be sent as a
+// raw `body` instead, to check how bodies that aren't events are handled.
+export function signFixture(provider, fixture, { body: rawBody } = {}) {
+  if (provider === "stripe") {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET
+    if (!secret) throw new Error("STRIPE_WEBHOOK_SECRET must be set")
+    const body = rawBody ?? JSON.stringify(fixture, null, 2)
+    const timestamp = Math.floor(Date.now() / 1000)
+    const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+    return { body, headers: { "Content-Type": "application/json", "Stripe-Signature": `t=${timestamp},v1=${signature}` } }
+  }
+  if (provider === "payhere") {
+    const secret = process.env.PAYHERE_MERCHANT_SECRET
+    if (!secret) throw new Error("PAYHERE_MERCHANT_SECRET must be set")
+    const fields = { ...fixture, merchant_id: process.env.PAYHERE_MERCHANT_ID || fixture.merchant_id }
+    fields.md5sig = md5(
+      `${fields.merchant_id}${fields.order_id}${fields.payhere_amount}${fields.payhere_currency}${fields.status_code}${md5(secret)}`,
+    )
+    return { body: new URLSearchParams(fields).toString(), headers: { "Content-Type": "application/x-www-form-urlencoded" } }
+  }
+  throw new Error(`No signer for provider "${provider}"`)
+}
+
+// Posts a signed request to the provider's webhook route and returns the
+// response status and JSON body.
+export async function postWebhook(provider, { body, headers }) {
+  const response = await fetch(new URL(`/api/webhooks/${provider}`, appUrl), { method: "POST", headers, body })
+  const result = await response.json().catch(() => ({}))
+  return { status: response.status, ok: response.ok, result }
+}